@@ -7,7 +7,15 @@ export interface ImportExportJobPayload {
   jobId: string;
   type: ImportExportJobType;
   resource: string;
-  format: 'ndjson' | 'json';
+  format: 'ndjson' | 'json' | 'csv';
+}
+
+export interface WebhookJobPayload {
+  deliveryId: string;
+}
+
+export interface ImportBundleJobPayload {
+  bundleId: string;
 }
 
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
@@ -26,10 +34,26 @@ const defaultJobOptions: JobsOptions = {
   removeOnComplete: true,
 };
 
+const REMOVABLE_JOB_STATES = new Set(['waiting', 'delayed', 'prioritized']);
+
+export const RETENTION_JOB_NAME = 'retention';
+const RETENTION_SCHEDULER_ID = 'retention-sweep';
+
+export const LEASE_REAPER_JOB_NAME = 'lease-reaper';
+const LEASE_REAPER_SCHEDULER_ID = 'lease-reaper';
+
+export const WEBHOOK_JOB_NAME = 'webhook';
+
+export const IMPORT_BUNDLE_JOB_NAME = 'import-bundle';
+
+function buildQueueJobId(type: ImportExportJobType | typeof IMPORT_BUNDLE_JOB_NAME, jobId: string): string {
+  return `${type}-${jobId}`;
+}
+
 export function enqueueImportJob(payload: Omit<ImportExportJobPayload, 'type'>, options?: JobsOptions) {
   return importExportQueue.add('import', { ...payload, type: 'import' }, {
     ...defaultJobOptions,
-    jobId: `import-${payload.jobId}`,
+    jobId: buildQueueJobId('import', payload.jobId),
     ...options,
   });
 }
@@ -37,7 +61,125 @@ export function enqueueImportJob(payload: Omit<ImportExportJobPayload, 'type'>,
 export function enqueueExportJob(payload: Omit<ImportExportJobPayload, 'type'>, options?: JobsOptions) {
   return importExportQueue.add('export', { ...payload, type: 'export' }, {
     ...defaultJobOptions,
-    jobId: `export-${payload.jobId}`,
+    jobId: buildQueueJobId('export', payload.jobId),
     ...options,
   });
 }
+
+/**
+ * Queues the run of a bundle, which imports its child jobs one after another.
+ * The children are never queued on their own.
+ */
+export function enqueueImportBundle(payload: ImportBundleJobPayload, options?: JobsOptions) {
+  return importExportQueue.add(IMPORT_BUNDLE_JOB_NAME, payload, {
+    ...defaultJobOptions,
+    jobId: buildQueueJobId(IMPORT_BUNDLE_JOB_NAME, payload.bundleId),
+    ...options,
+  });
+}
+
+/**
+ * Queues one webhook delivery. Failed attempts are retried by BullMQ with
+ * exponential backoff starting at `backoffMs`.
+ */
+export function enqueueWebhookDelivery(payload: WebhookJobPayload, retry: { attempts: number; backoffMs: number }) {
+  return importExportQueue.add(WEBHOOK_JOB_NAME, payload, {
+    attempts: retry.attempts,
+    backoff: { type: 'exponential', delay: retry.backoffMs },
+    jobId: `${WEBHOOK_JOB_NAME}-${payload.deliveryId}`,
+    removeOnComplete: true,
+    removeOnFail: 1000,
+  });
+}
+
+/**
+ * Removes a job that has not been picked up by a worker yet.
+ * Returns false when the queue job is missing or already active/finished.
+ */
+export async function removeQueuedJob(
+  type: ImportExportJobType | typeof IMPORT_BUNDLE_JOB_NAME,
+  jobId: string,
+): Promise<boolean> {
+  const job = await importExportQueue.getJob(buildQueueJobId(type, jobId));
+  if (!job) {
+    return false;
+  }
+
+  const state = await job.getState();
+  if (!REMOVABLE_JOB_STATES.has(state)) {
+    return false;
+  }
+
+  await job.remove();
+  return true;
+}
+
+/**
+ * Re-enqueues a job whose worker lost its lease. A queue entry that is still
+ * waiting or active is left alone (it will reclaim the lease when it runs);
+ * a completed or failed one is replaced. Returns true when a job was added.
+ */
+export async function requeueJob(payload: ImportExportJobPayload): Promise<boolean> {
+  if (!(await removeFinishedQueueJob(buildQueueJobId(payload.type, payload.jobId)))) {
+    return false;
+  }
+
+  const { type, ...rest } = payload;
+  await (type === 'import' ? enqueueImportJob(rest) : enqueueExportJob(rest));
+  return true;
+}
+
+/**
+ * Re-enqueues a bundle whose current child lost its lease, so the bundle run
+ * resumes that child and continues with the rest.
+ */
+export async function requeueImportBundle(bundleId: string): Promise<boolean> {
+  if (!(await removeFinishedQueueJob(buildQueueJobId(IMPORT_BUNDLE_JOB_NAME, bundleId)))) {
+    return false;
+  }
+
+  await enqueueImportBundle({ bundleId });
+  return true;
+}
+
+// Returns false when the queue entry is still waiting or active
+async function removeFinishedQueueJob(queueJobId: string): Promise<boolean> {
+  const existing = await importExportQueue.getJob(queueJobId);
+  if (existing) {
+    const state = await existing.getState();
+    if (state !== 'completed' && state !== 'failed') {
+      return false;
+    }
+    await existing.remove();
+  }
+  return true;
+}
+
+/**
+ * Registers (or updates the interval of) the repeatable lease reaper.
+ */
+export function scheduleLeaseReaper(everyMs: number) {
+  return importExportQueue.upsertJobScheduler(
+    LEASE_REAPER_SCHEDULER_ID,
+    { every: everyMs },
+    {
+      name: LEASE_REAPER_JOB_NAME,
+      opts: { attempts: 1, removeOnComplete: true, removeOnFail: 100 },
+    },
+  );
+}
+
+/**
+ * Registers (or updates the interval of) the repeatable retention sweep.
+ * Upserting by scheduler id keeps a single schedule across worker restarts.
+ */
+export function scheduleRetentionSweep(everyMs: number) {
+  return importExportQueue.upsertJobScheduler(
+    RETENTION_SCHEDULER_ID,
+    { every: everyMs },
+    {
+      name: RETENTION_JOB_NAME,
+      opts: { attempts: 1, removeOnComplete: true, removeOnFail: 100 },
+    },
+  );
+}
@@ -1,10 +1,23 @@
 import { Job, Worker } from 'bullmq';
 import { loadSharedImportExportConfig } from '../routes/shared/import-export/config';
-import { ImportExportJobPayload, importExportConnection } from './import-export.queue';
+import {
+  IMPORT_BUNDLE_JOB_NAME,
+  ImportBundleJobPayload,
+  ImportExportJobPayload,
+  importExportConnection,
+  LEASE_REAPER_JOB_NAME,
+  RETENTION_JOB_NAME,
+  WEBHOOK_JOB_NAME,
+  WebhookJobPayload,
+} from './import-export.queue';
 
 export interface ImportExportJobHandlers {
   import: (job: Job<ImportExportJobPayload>) => Promise<void>;
   export: (job: Job<ImportExportJobPayload>) => Promise<void>;
+  bundle: (job: Job<ImportBundleJobPayload>) => Promise<void>;
+  retention: (job: Job) => Promise<void>;
+  leaseReaper: (job: Job) => Promise<void>;
+  webhook: (job: Job<WebhookJobPayload>) => Promise<void>;
 }
 
 export function createImportExportWorker(handlers: ImportExportJobHandlers) {
@@ -21,6 +34,22 @@ export function createImportExportWorker(handlers: ImportExportJobHandlers) {
         await handlers.export(job);
         return;
       }
+      if (job.name === IMPORT_BUNDLE_JOB_NAME) {
+        await handlers.bundle(job as unknown as Job<ImportBundleJobPayload>);
+        return;
+      }
+      if (job.name === RETENTION_JOB_NAME) {
+        await handlers.retention(job);
+        return;
+      }
+      if (job.name === LEASE_REAPER_JOB_NAME) {
+        await handlers.leaseReaper(job);
+        return;
+      }
+      if (job.name === WEBHOOK_JOB_NAME) {
+        await handlers.webhook(job as unknown as Job<WebhookJobPayload>);
+        return;
+      }
 
       throw new Error(`Unsupported job type: ${job.name}`);
     },
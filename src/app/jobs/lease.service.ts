@@ -0,0 +1,370 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import prismaClient from '../../prisma/prisma-client';
+import { loadJobLeaseConfig } from '../routes/shared/import-export/config';
+import { JobLeaseConfig, SystemErrorCode } from '../routes/shared/import-export/types';
+import { toJsonObject } from '../routes/shared/import-export/utils';
+import { createLogger } from '../logger';
+import type { ImportExportJobPayload, ImportExportJobType } from './import-export.queue';
+import { logJobLifecycleEvent } from './observability';
+
+export interface JobLeaseOptions {
+  type: ImportExportJobType;
+  jobId: string;
+  workerId: string;
+  leaseTtlMs: number;
+  prisma: PrismaClient;
+  now: () => Date;
+}
+
+export interface LeaseHeartbeatOptions extends JobLeaseOptions {
+  onLost: () => void;
+}
+
+export interface ReapExpiredLeasesOptions {
+  runId: string;
+  prisma?: PrismaClient;
+  config?: JobLeaseConfig;
+  now?: () => Date;
+  requeue?: (payload: ImportExportJobPayload) => Promise<boolean>;
+  // Bundle children are resumed by their bundle's run rather than on their own
+  requeueBundle?: (bundleId: string) => Promise<boolean>;
+  // Sends the completion webhook for a job the reaper failed or finished cancelling
+  notify?: (type: ImportExportJobType, jobId: string) => Promise<void>;
+}
+
+export interface ReapExpiredLeasesResult {
+  requeued: number;
+  failed: number;
+  // Cancelled jobs whose worker stopped before finishing them
+  cancelled: number;
+}
+
+/**
+ * `claimed` took a queued job; `reclaimed` took over a running job whose
+ * previous worker stopped renewing its lease.
+ */
+export type LeaseClaimResult = 'claimed' | 'reclaimed' | null;
+
+type LeaseWhere = Prisma.ImportJobWhereInput & Prisma.ExportJobWhereInput;
+type LeaseData = Prisma.ImportJobUpdateManyMutationInput & Prisma.ExportJobUpdateManyMutationInput;
+
+const REAPER_BATCH_SIZE = 100;
+const MIN_HEARTBEAT_INTERVAL_MS = 1000;
+const logger = createLogger({ component: 'job-lease' });
+
+// One id per worker process; leases taken by a crashed process are never renewed.
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export class JobLeaseLostError extends Error {
+  constructor(public type: ImportExportJobType, public jobId: string) {
+    super(`${type} job ${jobId} lease was lost to another worker`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+export function getLeaseTtlMs(config: JobLeaseConfig = loadJobLeaseConfig()): number {
+  return config.leaseTtlSeconds * 1000;
+}
+
+/**
+ * Takes the job's lease: a queued job is moved to running, and a running job
+ * whose lease expired (or that predates leases) is taken over as-is so the
+ * caller can resume it.
+ */
+export async function claimJobLease(options: JobLeaseOptions): Promise<LeaseClaimResult> {
+  const claimedAt = options.now();
+  const lease = { leaseOwner: options.workerId, leaseExpiresAt: leaseExpiry(options, claimedAt) };
+
+  const claimed = await updateJobs(
+    options,
+    { id: options.jobId, status: 'queued' },
+    { status: 'running', startedAt: claimedAt, ...lease },
+  );
+  if (claimed.count) {
+    return 'claimed';
+  }
+
+  const reclaimed = await updateJobs(
+    options,
+    { id: options.jobId, status: 'running', ...expiredLeaseWhere(claimedAt) },
+    { ...lease, leaseReclaims: { increment: 1 } },
+  );
+  if (reclaimed.count) {
+    logger.warn({ event: 'Job lease reclaimed', type: options.type, jobId: options.jobId, workerId: options.workerId });
+    return 'reclaimed';
+  }
+
+  return null;
+}
+
+/**
+ * Extends the lease while this worker still owns it. Returns false once another
+ * worker has taken the job over.
+ */
+export async function renewJobLease(options: JobLeaseOptions): Promise<boolean> {
+  const renewed = await updateJobs(
+    options,
+    { id: options.jobId, leaseOwner: options.workerId },
+    { leaseExpiresAt: leaseExpiry(options, options.now()) },
+  );
+  return renewed.count > 0;
+}
+
+/**
+ * Renews the lease every third of its TTL until the returned stop function is
+ * called. Database hiccups are logged and retried on the next beat; only an
+ * ownership loss calls `onLost`.
+ */
+export function startLeaseHeartbeat(options: LeaseHeartbeatOptions): () => void {
+  const interval = Math.max(MIN_HEARTBEAT_INTERVAL_MS, Math.floor(options.leaseTtlMs / 3));
+  let stopped = false;
+
+  const beat = async () => {
+    try {
+      if (!stopped && !(await renewJobLease(options))) {
+        stop();
+        options.onLost();
+      }
+    } catch (error) {
+      logger.warn({
+        event: 'Job lease renewal failed',
+        type: options.type,
+        jobId: options.jobId,
+        errorName: error instanceof Error ? error.name : 'UnknownError',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const timer = setInterval(() => {
+    void beat();
+  }, interval);
+  timer.unref?.();
+
+  const stop = () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+  return stop;
+}
+
+/**
+ * Finds running jobs whose lease expired and re-enqueues them so a worker can
+ * reclaim them. Jobs that already used up `maxReclaims` are failed instead, so
+ * a record that crashes the worker cannot loop forever. Jobs cancelled while
+ * running whose worker stopped before finishing them are finished here.
+ */
+export async function reapExpiredLeases(options: ReapExpiredLeasesOptions): Promise<ReapExpiredLeasesResult> {
+  const prisma = options.prisma ?? prismaClient;
+  const config = options.config ?? loadJobLeaseConfig();
+  const now = options.now ?? (() => new Date());
+  const requeue = options.requeue ?? (async (payload) => (await import('./import-export.queue')).requeueJob(payload));
+  const requeueBundle =
+    options.requeueBundle ?? (async (bundleId) => (await import('./import-export.queue')).requeueImportBundle(bundleId));
+  const notify = options.notify ?? notifyFinishedJob;
+  const reapedAt = now();
+  const result: ReapExpiredLeasesResult = { requeued: 0, failed: 0, cancelled: 0 };
+
+  const expired = [
+    ...(
+      await prisma.importJob.findMany({
+        where: { status: 'running', ...expiredLeaseWhere(reapedAt) },
+        orderBy: { leaseExpiresAt: 'asc' },
+        take: REAPER_BATCH_SIZE,
+        select: {
+          id: true,
+          resource: true,
+          format: true,
+          leaseReclaims: true,
+          startedAt: true,
+          processedRecords: true,
+          bundleId: true,
+        },
+      })
+    ).map((job) => ({ ...job, type: 'import' as const })),
+    ...(
+      await prisma.exportJob.findMany({
+        where: { status: 'running', ...expiredLeaseWhere(reapedAt) },
+        orderBy: { leaseExpiresAt: 'asc' },
+        take: REAPER_BATCH_SIZE,
+        select: { id: true, resource: true, format: true, leaseReclaims: true, startedAt: true, processedRecords: true },
+      })
+    ).map((job) => ({ ...job, bundleId: null, type: 'export' as const })),
+  ];
+
+  for (const job of expired) {
+    try {
+      if (job.leaseReclaims >= config.maxReclaims) {
+        if (await failExpiredJob(prisma, job.type, job.id, reapedAt, config.maxReclaims)) {
+          result.failed += 1;
+          logJobLifecycleEvent({
+            event: 'job.completed',
+            jobKind: job.type,
+            jobId: job.id,
+            status: 'failed',
+            resource: job.resource,
+            format: job.format,
+            timestamp: reapedAt,
+            jobStartedAt: job.startedAt ?? reapedAt,
+            counters: { processedRecords: job.processedRecords, errorCount: 1 },
+            level: 'error',
+            details: { errorCode: SystemErrorCode.LEASE_EXPIRED, leaseReclaims: job.leaseReclaims },
+          });
+          await notify(job.type, job.id);
+          // The bundle run stops at the failed child and finishes the bundle
+          if (job.bundleId) {
+            await requeueBundle(job.bundleId);
+          }
+        }
+        continue;
+      }
+
+      if (job.bundleId) {
+        if (await requeueBundle(job.bundleId)) {
+          result.requeued += 1;
+          logger.warn({ event: 'Expired bundle job lease requeued', jobId: job.id, bundleId: job.bundleId });
+        }
+        continue;
+      }
+
+      if (await requeue({ jobId: job.id, type: job.type, resource: job.resource, format: job.format })) {
+        result.requeued += 1;
+        logger.warn({ event: 'Expired job lease requeued', type: job.type, jobId: job.id, reapRunId: options.runId });
+      }
+    } catch (error) {
+      logger.error({
+        event: 'Expired job lease reap failed',
+        type: job.type,
+        jobId: job.id,
+        errorName: error instanceof Error ? error.name : 'UnknownError',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  result.cancelled = await finishAbandonedCancelledJobs(prisma, reapedAt, notify, requeueBundle);
+  return result;
+}
+
+/**
+ * A running job that is cancelled only gets its finishedAt from its worker, at
+ * the next cancellation check. Once that worker's lease expired nobody will.
+ */
+async function finishAbandonedCancelledJobs(
+  prisma: PrismaClient,
+  reapedAt: Date,
+  notify: NonNullable<ReapExpiredLeasesOptions['notify']>,
+  requeueBundle: NonNullable<ReapExpiredLeasesOptions['requeueBundle']>,
+): Promise<number> {
+  const where = { status: 'cancelled' as const, finishedAt: null, ...expiredLeaseWhere(reapedAt) };
+  const select = { id: true, resource: true, format: true, startedAt: true, processedRecords: true };
+  const abandoned = [
+    ...(
+      await prisma.importJob.findMany({
+        where,
+        orderBy: { leaseExpiresAt: 'asc' },
+        take: REAPER_BATCH_SIZE,
+        select: { ...select, bundleId: true },
+      })
+    ).map((job) => ({ ...job, type: 'import' as const })),
+    ...(
+      await prisma.exportJob.findMany({ where, orderBy: { leaseExpiresAt: 'asc' }, take: REAPER_BATCH_SIZE, select })
+    ).map((job) => ({ ...job, bundleId: null, type: 'export' as const })),
+  ];
+
+  let finished = 0;
+  for (const job of abandoned) {
+    try {
+      const data = { finishedAt: reapedAt, leaseOwner: null, leaseExpiresAt: null };
+      const updated = await updateJobs({ type: job.type, prisma }, { id: job.id, ...where }, data);
+      if (!updated.count) {
+        continue;
+      }
+      finished += 1;
+      logJobLifecycleEvent({
+        event: 'job.completed',
+        jobKind: job.type,
+        jobId: job.id,
+        status: 'cancelled',
+        resource: job.resource,
+        format: job.format,
+        timestamp: reapedAt,
+        jobStartedAt: job.startedAt ?? reapedAt,
+        counters: { processedRecords: job.processedRecords, errorCount: 0 },
+      });
+      await notify(job.type, job.id);
+      // The bundle run finishes the cancelled bundle
+      if (job.bundleId) {
+        await requeueBundle(job.bundleId);
+      }
+    } catch (error) {
+      logger.error({
+        event: 'Abandoned cancelled job finish failed',
+        type: job.type,
+        jobId: job.id,
+        errorName: error instanceof Error ? error.name : 'UnknownError',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return finished;
+}
+
+async function notifyFinishedJob(type: ImportExportJobType, jobId: string): Promise<void> {
+  if (type === 'import') {
+    const { dispatchImportJobWebhook } = await import('../routes/imports/import.service');
+    await dispatchImportJobWebhook(jobId);
+    return;
+  }
+  const { dispatchExportJobWebhook } = await import('../routes/exports/export.service');
+  await dispatchExportJobWebhook(jobId);
+}
+
+async function failExpiredJob(
+  prisma: PrismaClient,
+  type: ImportExportJobType,
+  jobId: string,
+  finishedAt: Date,
+  maxReclaims: number,
+): Promise<boolean> {
+  const where = { id: jobId, status: 'running' as const, ...expiredLeaseWhere(finishedAt) };
+  const data = { status: 'failed' as const, finishedAt, leaseOwner: null, leaseExpiresAt: null };
+
+  if (type === 'export') {
+    return (await prisma.exportJob.updateMany({ where, data })).count > 0;
+  }
+
+  const lastError = {
+    code: SystemErrorCode.LEASE_EXPIRED,
+    message: `Worker lease expired after ${maxReclaims} recovery attempts`,
+  };
+  // Keeps what the job already summarized, such as its error breakdown
+  const current = await prisma.importJob.findUnique({ where: { id: jobId }, select: { errorSummary: true } });
+  const errorSummary = { ...(toJsonObject(current?.errorSummary) ?? {}), lastError };
+  const updated = await prisma.importJob.updateMany({
+    where,
+    data: { ...data, errorSummary: errorSummary as Prisma.InputJsonValue },
+  });
+  return updated.count > 0;
+}
+
+function expiredLeaseWhere(at: Date): LeaseWhere {
+  // Rows without a lease were claimed before leases existed; treat them as expired.
+  return { OR: [{ leaseExpiresAt: { lt: at } }, { leaseExpiresAt: null }] };
+}
+
+function leaseExpiry(options: JobLeaseOptions, from: Date): Date {
+  return new Date(from.getTime() + options.leaseTtlMs);
+}
+
+function updateJobs(
+  options: Pick<JobLeaseOptions, 'type' | 'prisma'>,
+  where: LeaseWhere,
+  data: LeaseData,
+): Promise<Prisma.BatchPayload> {
+  return options.type === 'import'
+    ? options.prisma.importJob.updateMany({ where, data })
+    : options.prisma.exportJob.updateMany({ where, data });
+}
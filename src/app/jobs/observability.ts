@@ -1,7 +1,7 @@
 import { createLogger } from '../logger';
 import { round } from '../routes/shared/import-export/utils';
 
-export type JobKind = 'import' | 'export';
+export type JobKind = 'import' | 'export' | 'retention';
 export type LogLevel = 'info' | 'warn' | 'error';
 
 interface StructuredLogger {
@@ -29,6 +29,7 @@ export interface JobLogEntry {
     processedRecords: number;
     successCount?: number;
     errorCount: number;
+    skippedCount?: number;
   };
   level?: LogLevel;
   details?: Record<string, unknown>;
@@ -0,0 +1,458 @@
+import { promises as fs } from 'fs';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import prismaClient from '../../prisma/prisma-client';
+import { loadRetentionConfig } from '../routes/shared/import-export/config';
+import { JobStatus, RetentionConfig } from '../routes/shared/import-export/types';
+import { toJsonObject } from '../routes/shared/import-export/utils';
+import { createLogger } from '../logger';
+import { logJobLifecycleEvent } from './observability';
+
+export interface RunRetentionSweepOptions {
+  runId: string;
+  prisma?: PrismaClient;
+  config?: RetentionConfig;
+  now?: () => Date;
+  batchSize?: number;
+  removeFile?: (location: string) => Promise<void>;
+}
+
+export interface RetentionSweepResult {
+  dryRun: boolean;
+  exportArtifactsDeleted: number;
+  importSourcesDeleted: number;
+  errorReportsDeleted: number;
+  importJobsPurged: number;
+  importErrorsPurged: number;
+  importBundlesPurged: number;
+  exportJobsPurged: number;
+  failures: number;
+}
+
+type RetentionStep =
+  | 'exportArtifacts'
+  | 'importSources'
+  | 'errorReports'
+  | 'importJobs'
+  | 'importBundles'
+  | 'exportJobs';
+
+interface SweepContext {
+  prisma: PrismaClient;
+  now: Date;
+  config: RetentionConfig;
+  batchSize: number;
+  removeFile: (location: string) => Promise<void>;
+  result: RetentionSweepResult;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+const HOUR_MS = 60 * 60 * 1000;
+const TERMINAL_STATUSES: JobStatus[] = ['partial', 'succeeded', 'failed', 'cancelled'];
+const logger = createLogger({ component: 'retention' });
+
+/**
+ * Deletes expired export artifacts, import sources and error reports, then purges
+ * finished job rows (and their ImportError rows) and import bundles past the job
+ * retention window.
+ * Rows are paged by id so a dry run, which changes nothing, still terminates.
+ */
+export async function runRetentionSweep(options: RunRetentionSweepOptions): Promise<RetentionSweepResult> {
+  const config = options.config ?? loadRetentionConfig();
+  const now = options.now ?? (() => new Date());
+  const startedAt = now();
+  const context: SweepContext = {
+    prisma: options.prisma ?? prismaClient,
+    now: startedAt,
+    config,
+    batchSize: options.batchSize ?? DEFAULT_BATCH_SIZE,
+    removeFile: options.removeFile ?? removeLocalFile,
+    result: {
+      dryRun: config.dryRun,
+      exportArtifactsDeleted: 0,
+      importSourcesDeleted: 0,
+      errorReportsDeleted: 0,
+      importJobsPurged: 0,
+      importErrorsPurged: 0,
+      importBundlesPurged: 0,
+      exportJobsPurged: 0,
+      failures: 0,
+    },
+  };
+
+  logJobLifecycleEvent({
+    event: 'job.started',
+    jobKind: 'retention',
+    jobId: options.runId,
+    status: 'running',
+    resource: 'all',
+    format: null,
+    timestamp: startedAt,
+    counters: { processedRecords: 0, errorCount: 0 },
+    details: { dryRun: config.dryRun },
+  });
+
+  let status: JobStatus = 'succeeded';
+  try {
+    await sweepExportArtifacts(context);
+    await sweepImportSources(context);
+    await sweepErrorReports(context);
+    await purgeImportJobs(context);
+    await purgeImportBundles(context);
+    await purgeExportJobs(context);
+  } catch (error) {
+    status = 'failed';
+    context.result.failures += 1;
+    logger.error({
+      event: 'Retention sweep failed',
+      runId: options.runId,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  } finally {
+    const { result } = context;
+    if (status === 'succeeded' && result.failures > 0) {
+      status = 'partial';
+    }
+
+    logJobLifecycleEvent({
+      event: 'job.completed',
+      jobKind: 'retention',
+      jobId: options.runId,
+      status,
+      resource: 'all',
+      format: null,
+      timestamp: now(),
+      jobStartedAt: startedAt,
+      counters: {
+        processedRecords:
+          result.exportArtifactsDeleted +
+          result.importSourcesDeleted +
+          result.errorReportsDeleted +
+          result.importJobsPurged +
+          result.importBundlesPurged +
+          result.exportJobsPurged,
+        errorCount: result.failures,
+      },
+      level: status === 'succeeded' ? 'info' : 'warn',
+      details: { ...result },
+    });
+  }
+
+  return context.result;
+}
+
+async function sweepExportArtifacts(context: SweepContext): Promise<void> {
+  const { prisma, batchSize } = context;
+  let lastId: string | null = null;
+
+  for (;;) {
+    const batch: { id: string; outputLocation: string | null }[] = await prisma.exportJob.findMany({
+      where: {
+        outputLocation: { not: null },
+        expiresAt: { lt: context.now },
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      select: { id: true, outputLocation: true },
+    });
+    if (!batch.length) {
+      return;
+    }
+    lastId = batch[batch.length - 1].id;
+
+    logDryRunBatch(context, 'exportArtifacts', batch);
+    for (const job of batch) {
+      if (await deleteFile(context, 'exportArtifacts', job.id, job.outputLocation)) {
+        if (!context.config.dryRun) {
+          await prisma.exportJob.update({
+            where: { id: job.id },
+            data: { outputLocation: null, downloadUrl: null },
+          });
+        }
+        context.result.exportArtifactsDeleted += 1;
+      }
+    }
+  }
+}
+
+async function sweepImportSources(context: SweepContext): Promise<void> {
+  const { prisma, batchSize } = context;
+  const cutoff = new Date(context.now.getTime() - context.config.importSourceRetentionHours * HOUR_MS);
+  let lastId: string | null = null;
+
+  for (;;) {
+    const batch: { id: string; sourceLocation: string | null }[] = await prisma.importJob.findMany({
+      where: {
+        status: { in: TERMINAL_STATUSES },
+        finishedAt: { lt: cutoff },
+        sourceLocation: { not: null },
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      select: { id: true, sourceLocation: true },
+    });
+    if (!batch.length) {
+      return;
+    }
+    lastId = batch[batch.length - 1].id;
+
+    logDryRunBatch(context, 'importSources', batch);
+    for (const job of batch) {
+      if (await deleteFile(context, 'importSources', job.id, job.sourceLocation)) {
+        if (!context.config.dryRun) {
+          await prisma.importJob.update({ where: { id: job.id }, data: { sourceLocation: null } });
+        }
+        context.result.importSourcesDeleted += 1;
+      }
+    }
+  }
+}
+
+async function sweepErrorReports(context: SweepContext): Promise<void> {
+  const { prisma, batchSize } = context;
+  const cutoff = new Date(context.now.getTime() - context.config.errorReportRetentionHours * HOUR_MS);
+  let lastId: string | null = null;
+
+  for (;;) {
+    const batch: { id: string; errorSummary: Prisma.JsonValue }[] = await prisma.importJob.findMany({
+      where: {
+        status: { in: TERMINAL_STATUSES },
+        finishedAt: { lt: cutoff },
+        errorCount: { gt: 0 },
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      select: { id: true, errorSummary: true },
+    });
+    if (!batch.length) {
+      return;
+    }
+    lastId = batch[batch.length - 1].id;
+
+    const withReports = batch.filter((job) => getReportLocations(job.errorSummary).length > 0);
+    logDryRunBatch(context, 'errorReports', withReports);
+    for (const job of withReports) {
+      const summary = toJsonObject(job.errorSummary) ?? {};
+      if (await deleteFiles(context, 'errorReports', job.id, getReportLocations(job.errorSummary))) {
+        if (!context.config.dryRun) {
+          await prisma.importJob.update({
+            where: { id: job.id },
+            data: {
+              errorSummary: {
+                ...summary,
+                reportLocation: null,
+                ...('rejectsLocation' in summary ? { rejectsLocation: null } : {}),
+                reportStatus: 'expired',
+              } as Prisma.InputJsonValue,
+            },
+          });
+        }
+        context.result.errorReportsDeleted += 1;
+      }
+    }
+  }
+}
+
+async function purgeImportJobs(context: SweepContext): Promise<void> {
+  const { prisma, batchSize } = context;
+  const cutoff = new Date(context.now.getTime() - context.config.jobRetentionDays * 24 * HOUR_MS);
+  let lastId: string | null = null;
+
+  for (;;) {
+    const batch: { id: string; sourceLocation: string | null; errorSummary: Prisma.JsonValue }[] =
+      await prisma.importJob.findMany({
+        where: {
+          status: { in: TERMINAL_STATUSES },
+          finishedAt: { lt: cutoff },
+          ...(lastId ? { id: { gt: lastId } } : {}),
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        select: { id: true, sourceLocation: true, errorSummary: true },
+      });
+    if (!batch.length) {
+      return;
+    }
+    lastId = batch[batch.length - 1].id;
+
+    logDryRunBatch(context, 'importJobs', batch);
+    const purgeable: string[] = [];
+    for (const job of batch) {
+      const sourceDeleted = await deleteFile(context, 'importJobs', job.id, job.sourceLocation);
+      const reportDeleted = await deleteFiles(context, 'importJobs', job.id, getReportLocations(job.errorSummary));
+      if (sourceDeleted && reportDeleted) {
+        purgeable.push(job.id);
+      }
+    }
+
+    if (!purgeable.length) {
+      continue;
+    }
+
+    if (context.config.dryRun) {
+      context.result.importErrorsPurged += await prisma.importError.count({ where: { jobId: { in: purgeable } } });
+      context.result.importJobsPurged += purgeable.length;
+      continue;
+    }
+
+    // ImportError rows cascade with their job, but deleting them first keeps each
+    // statement bounded instead of fanning out inside one job delete.
+    const errors = await prisma.importError.deleteMany({ where: { jobId: { in: purgeable } } });
+    await prisma.importFailedRecord.deleteMany({ where: { jobId: { in: purgeable } } });
+    await prisma.webhookDelivery.deleteMany({ where: { jobType: 'import', jobId: { in: purgeable } } });
+    const jobs = await prisma.importJob.deleteMany({ where: { id: { in: purgeable } } });
+    context.result.importErrorsPurged += errors.count;
+    context.result.importJobsPurged += jobs.count;
+  }
+}
+
+// A bundle goes with its jobs, once every one of them is past the same window
+async function purgeImportBundles(context: SweepContext): Promise<void> {
+  const { prisma, batchSize } = context;
+  const cutoff = new Date(context.now.getTime() - context.config.jobRetentionDays * 24 * HOUR_MS);
+  const finished = { status: { in: TERMINAL_STATUSES }, finishedAt: { lt: cutoff } };
+  let lastId: string | null = null;
+
+  for (;;) {
+    const batch: { id: string }[] = await prisma.importBundle.findMany({
+      where: {
+        ...finished,
+        jobs: { every: finished },
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      select: { id: true },
+    });
+    if (!batch.length) {
+      return;
+    }
+    lastId = batch[batch.length - 1].id;
+
+    logDryRunBatch(context, 'importBundles', batch);
+    if (context.config.dryRun) {
+      context.result.importBundlesPurged += batch.length;
+      continue;
+    }
+
+    const bundles = await prisma.importBundle.deleteMany({ where: { id: { in: batch.map((bundle) => bundle.id) } } });
+    context.result.importBundlesPurged += bundles.count;
+  }
+}
+
+async function purgeExportJobs(context: SweepContext): Promise<void> {
+  const { prisma, batchSize } = context;
+  const cutoff = new Date(context.now.getTime() - context.config.jobRetentionDays * 24 * HOUR_MS);
+  let lastId: string | null = null;
+
+  for (;;) {
+    const batch: { id: string; outputLocation: string | null }[] = await prisma.exportJob.findMany({
+      where: {
+        status: { in: TERMINAL_STATUSES },
+        finishedAt: { lt: cutoff },
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      select: { id: true, outputLocation: true },
+    });
+    if (!batch.length) {
+      return;
+    }
+    lastId = batch[batch.length - 1].id;
+
+    logDryRunBatch(context, 'exportJobs', batch);
+    const purgeable: string[] = [];
+    for (const job of batch) {
+      if (await deleteFile(context, 'exportJobs', job.id, job.outputLocation)) {
+        purgeable.push(job.id);
+      }
+    }
+
+    if (!purgeable.length) {
+      continue;
+    }
+
+    if (context.config.dryRun) {
+      context.result.exportJobsPurged += purgeable.length;
+      continue;
+    }
+
+    // Webhook deliveries only reference their job by id, so they go with it explicitly
+    await prisma.webhookDelivery.deleteMany({ where: { jobType: 'export', jobId: { in: purgeable } } });
+    const jobs = await prisma.exportJob.deleteMany({ where: { id: { in: purgeable } } });
+    context.result.exportJobsPurged += jobs.count;
+  }
+}
+
+/**
+ * Returns true when the file is gone (or would be, in dry-run mode) so the
+ * caller can update its row. Failures are counted and retried on the next run.
+ */
+async function deleteFile(
+  context: SweepContext,
+  step: RetentionStep,
+  jobId: string,
+  location: string | null,
+): Promise<boolean> {
+  if (!location || context.config.dryRun) {
+    return true;
+  }
+
+  try {
+    await context.removeFile(location);
+    return true;
+  } catch (error) {
+    context.result.failures += 1;
+    logger.warn({
+      event: 'Retention file delete failed',
+      step,
+      jobId,
+      location,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+async function deleteFiles(
+  context: SweepContext,
+  step: RetentionStep,
+  jobId: string,
+  locations: string[],
+): Promise<boolean> {
+  let deleted = true;
+  for (const location of locations) {
+    deleted = (await deleteFile(context, step, jobId, location)) && deleted;
+  }
+  return deleted;
+}
+
+function logDryRunBatch(context: SweepContext, step: RetentionStep, batch: { id: string }[]): void {
+  if (!context.config.dryRun || !batch.length) {
+    return;
+  }
+
+  logger.info({
+    event: 'Retention dry run matched',
+    step,
+    jobIds: batch.map((job) => job.id),
+  });
+}
+
+// The error report and the rejects file share the error report retention
+function getReportLocations(errorSummary: Prisma.JsonValue): string[] {
+  const summary = toJsonObject(errorSummary);
+  return [summary?.reportLocation, summary?.rejectsLocation].filter(
+    (location): location is string => typeof location === 'string',
+  );
+}
+
+async function removeLocalFile(location: string): Promise<void> {
+  await fs.rm(location, { force: true });
+}
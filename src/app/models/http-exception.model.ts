@@ -3,6 +3,7 @@ class HttpException extends Error {
   constructor(
     errorCode: number,
     public readonly message: string | any,
+    public readonly headers?: Record<string, string>,
   ) {
     super(message);
     this.errorCode = errorCode;
@@ -0,0 +1,62 @@
+import type { EntityType } from '../shared/import-export/types';
+
+export interface AccountArchiveSection {
+  entityType: EntityType;
+  path: string;
+  filters: (userId: number) => Record<string, unknown>;
+}
+
+/**
+ * Files of an account archive, in archive order. Each is an export of one
+ * resource with the filters that scope it to rows the user owns.
+ */
+export const ACCOUNT_ARCHIVE_SECTIONS: AccountArchiveSection[] = [
+  { entityType: 'users', path: 'profile.ndjson', filters: (userId) => ({ id: userId }) },
+  { entityType: 'articles', path: 'articles.ndjson', filters: (userId) => ({ author_id: userId }) },
+  { entityType: 'comments', path: 'comments.ndjson', filters: (userId) => ({ user_id: userId }) },
+  { entityType: 'favorites', path: 'favorites.ndjson', filters: (userId) => ({ user_id: userId }) },
+  { entityType: 'follows', path: 'follows.ndjson', filters: (userId) => ({ follower_id: userId }) },
+];
+
+export const ACCOUNT_ARCHIVE_MANIFEST_PATH = 'manifest.json';
+
+const TAR_BLOCK_SIZE = 512;
+
+// Two zero blocks end a tar archive
+export const TAR_END_OF_ARCHIVE = Buffer.alloc(TAR_BLOCK_SIZE * 2);
+
+/**
+ * Header block of one regular file in a ustar archive, followed by `size`
+ * bytes of data and buildTarPadding. Paths must fit the 100-byte name field;
+ * archive paths are fixed and short.
+ */
+export function buildTarHeader(path: string, size: number, modifiedAt: Date): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  header.write(path, 0, 100);
+  header.write('0000644\0', 100);
+  header.write('0000000\0', 108);
+  header.write('0000000\0', 116);
+  header.write(`${toOctal(size, 11)}\0`, 124);
+  header.write(`${toOctal(Math.floor(modifiedAt.getTime() / 1000), 11)}\0`, 136);
+  header.write('0', 156);
+  header.write('ustar\0', 257);
+  header.write('00', 263);
+  // The checksum is summed with its own field read as spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${toOctal(checksum, 6)}\0 `, 148);
+  return header;
+}
+
+// Zero bytes that fill a file's data out to a whole block
+export function buildTarPadding(size: number): Buffer {
+  return Buffer.alloc((TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE);
+}
+
+export function buildTarEntry(path: string, data: Buffer, modifiedAt: Date): Buffer {
+  return Buffer.concat([buildTarHeader(path, data.length, modifiedAt), data, buildTarPadding(data.length)]);
+}
+
+function toOctal(value: number, width: number): string {
+  return value.toString(8).padStart(width, '0');
+}
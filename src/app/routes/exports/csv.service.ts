@@ -0,0 +1,50 @@
+import { DEFAULT_CSV_DELIMITER, DEFAULT_CSV_LIST_DELIMITER } from '../shared/import-export/config';
+
+const CSV_LINE_ENDING = '\r\n';
+
+/**
+ * Formats one RFC 4180 row, including the trailing CRLF. Cells are quoted only
+ * when they contain the delimiter, a quote, a line break or edge whitespace.
+ */
+export function formatCsvRow(values: unknown[], delimiter = DEFAULT_CSV_DELIMITER): string {
+  return `${values.map((value) => formatCsvCell(value, delimiter)).join(delimiter)}${CSV_LINE_ENDING}`;
+}
+
+/**
+ * Formats a projected export record in column order. Lists such as `tags` are
+ * flattened with the same separator the CSV importer splits on, so exported
+ * files can be imported again unchanged.
+ */
+export function formatCsvRecord(
+  record: Record<string, unknown>,
+  columns: string[],
+  delimiter = DEFAULT_CSV_DELIMITER,
+): string {
+  return formatCsvRow(columns.map((column) => record[column]), delimiter);
+}
+
+function formatCsvCell(value: unknown, delimiter: string): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = stringifyCsvValue(value);
+  if (text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+function stringifyCsvValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item)).join(DEFAULT_CSV_LIST_DELIMITER);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -1,17 +1,31 @@
 import { createReadStream } from 'fs';
 import { once } from 'events';
-import { NextFunction, Request, Response, Router } from 'express';
+import { NextFunction, Response, Router } from 'express';
 import HttpException from '../../models/http-exception.model';
 import { HttpStatusCode } from '../../models/http-status-code.model';
 import { createLogger } from '../../logger';
 import auth from '../auth/auth';
-import { AuthenticatedRequest, getIdempotencyKey, requireUserId } from '../shared/import-export/utils';
+import { authorizeImportExport } from '../shared/import-export/authorization.service';
+import { FileFormat } from '../shared/import-export/types';
+import { loadJobProgressConfig } from '../shared/import-export/config';
+import { streamJobProgressEvents } from '../shared/import-export/progress.service';
+import {
+  AuthenticatedRequest,
+  getIdempotencyKey,
+  parseJobListQuery,
+  requireUserId,
+} from '../shared/import-export/utils';
 import {
   buildExportStreamClosingChunk,
+  cancelExportJob,
+  createAccountExportJob,
   createExportJob,
+  getExportContentType,
   getExportFileMetadata,
   getExportJob,
+  getExportJobProgress,
   getExportPayload,
+  listExportJobs,
   parseExportQuery,
   streamExports,
 } from './export.service';
@@ -56,6 +70,37 @@ router.post('/v1/exports', auth.required, async (req: AuthenticatedRequest, res:
   }
 });
 
+router.post('/v1/exports/account', auth.required, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const createdById = requireUserId(req);
+    const result = await createAccountExportJob({
+      createdById,
+      payload: getExportPayload(req.body),
+      idempotencyKey: getIdempotencyKey(req),
+    });
+
+    res.status(result.statusCode).json({ exportJob: result.exportJob });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /v1/exports is the streaming endpoint, so job listing lives under /jobs.
+// Registered before /:jobId so "jobs" is not treated as a job id.
+router.get('/v1/exports/jobs', auth.required, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const createdById = requireUserId(req);
+    const result = await listExportJobs({
+      createdById,
+      query: parseJobListQuery(req.query as Record<string, unknown>),
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/v1/exports/:jobId', auth.required, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const createdById = requireUserId(req);
@@ -70,21 +115,54 @@ router.get('/v1/exports/:jobId', auth.required, async (req: AuthenticatedRequest
   }
 });
 
-router.get('/v1/exports', auth.required, async (req: Request, res: Response, next: NextFunction) => {
-  let responseFormat: 'json' | 'ndjson' | null = null;
+router.get('/v1/exports/:jobId/events', auth.required, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const createdById = requireUserId(req);
+    await streamJobProgressEvents({
+      req,
+      res,
+      load: () => getExportJobProgress({ jobId: req.params.jobId, createdById }),
+      pollIntervalMs: loadJobProgressConfig().eventsPollIntervalMs,
+    });
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    next(error);
+  }
+});
+
+router.post('/v1/exports/:jobId/cancel', auth.required, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const createdById = requireUserId(req);
+    const result = await cancelExportJob({
+      jobId: req.params.jobId,
+      createdById,
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/v1/exports', auth.required, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  let responseFormat: FileFormat | null = null;
   let limit = 0;
   let count = 0;
-  let lastId: number | null = null;
+  let lastCursor: number | string | null = null;
   let isJsonStarted = false;
   let isJsonClosed = false;
 
   try {
     const parsed = parseExportQuery(req.query as Record<string, unknown>);
+    await authorizeImportExport({ userId: requireUserId(req), action: 'export', resource: parsed.entityType });
     responseFormat = parsed.format;
     limit = parsed.limit;
 
     res.status(200);
-    res.setHeader('Content-Type', parsed.format === 'ndjson' ? 'application/x-ndjson' : 'application/json');
+    res.setHeader('Content-Type', getExportContentType(parsed.format));
     res.setHeader('Cache-Control', 'no-store');
 
     const abortController = new AbortController();
@@ -107,29 +185,35 @@ router.get('/v1/exports', auth.required, async (req: Request, res: Response, nex
       cursor: parsed.cursor,
       filters: parsed.filters,
       fields: parsed.fields,
+      sort: parsed.sort,
       signal: abortController.signal,
       writeChunk,
       onRecord: (progress) => {
         count = progress.count;
-        lastId = progress.lastId;
+        lastCursor = progress.lastCursor;
+      },
+      onNextCursor: (nextCursor) => {
+        if (nextCursor !== null) {
+          res.setHeader('X-Next-Cursor', String(nextCursor));
+        }
       },
     });
 
     count = result.count;
-    lastId = result.lastId;
+    lastCursor = result.lastCursor;
     isJsonClosed = parsed.format === 'json';
     res.end();
   } catch (error) {
     if (res.headersSent) {
       if (responseFormat === 'json' && isJsonStarted && !isJsonClosed) {
         try {
-          res.write(buildExportStreamClosingChunk('json', count, limit, lastId));
+          res.write(buildExportStreamClosingChunk('json', count, limit, lastCursor));
         } catch (writeError) {
           logger.debug({
             event: 'Export stream JSON closing chunk write failed',
             count,
             limit,
-            lastId,
+            lastCursor,
             errorName: writeError instanceof Error ? writeError.name : 'UnknownError',
             errorMessage: writeError instanceof Error ? writeError.message : String(writeError),
           });
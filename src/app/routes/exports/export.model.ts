@@ -1,12 +1,30 @@
 import type { Prisma, PrismaClient } from '@prisma/client';
 import type { StorageAdapter } from '../../storage';
-import type { EntityType, ExportRecord, FileFormat, JobStatus } from '../shared/import-export/types';
+import type { JobLimitRedis } from '../shared/import-export/limits.service';
+import type { EntityType, ExportRecord, FileFormat, JobListQuery, JobStatus } from '../shared/import-export/types';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ExportSort {
+  field: string;
+  direction: SortDirection;
+}
+
+// Position after the last row of a sorted page: its sort value and id
+export interface ExportKeysetCursor {
+  value: string | number | null;
+  id: number;
+}
+
+// An id in the default id order, a keyset position under a sort
+export type ExportCursor = number | ExportKeysetCursor;
 
 export interface StreamExportOptions {
   entityType: EntityType;
   limit?: number;
-  cursor?: number | null;
+  cursor?: ExportCursor | null;
   filters?: Record<string, unknown> | null;
+  sort?: ExportSort | null;
   prisma?: PrismaClient;
   batchSize?: number;
   signal?: AbortSignal;
@@ -31,6 +49,7 @@ export interface ArticleRow {
   authorId: number;
   publishedAt: Date | null;
   status: string;
+  createdAt: Date;
   tagList: { name: string }[];
 }
 
@@ -42,11 +61,47 @@ export interface CommentRow {
   createdAt: Date;
 }
 
+export interface TagRow {
+  id: number;
+  name: string;
+  _count: { articles: number };
+}
+
+// Relationship exports page over the owning user and expand to one record per edge
+export interface FavoriteRow {
+  id: number;
+  favorites: { id: number }[];
+}
+
+export interface FollowRow {
+  id: number;
+  following: { id: number }[];
+}
+
+export type ExportRow = UserRow | ArticleRow | CommentRow | TagRow | FavoriteRow | FollowRow;
+
 export interface RunExportJobOptions {
   prisma?: PrismaClient;
   storage?: StorageAdapter;
   now?: () => Date;
   cancelCheckInterval?: number;
+  workerId?: string;
+  leaseTtlMs?: number;
+}
+
+// What runExportJob lends the account archive writer to read, count and write records
+export interface AccountArchiveWriter {
+  prisma: PrismaClient;
+  readRecords: (
+    entityType: EntityType,
+    filters: Record<string, unknown> | null,
+    sort?: ExportSort | null,
+  ) => AsyncGenerator<ExportRecord>;
+  countRecord: () => Promise<boolean>;
+  isStopped: () => boolean;
+  isTruncated: () => boolean;
+  writeChunk: (chunk: Buffer) => Promise<void>;
+  saveTotal: (totalRecords: number) => Promise<void>;
 }
 
 export interface RunExportJobResult {
@@ -58,8 +113,19 @@ export interface RunExportJobResult {
 export interface ExportCreatePayload {
   resource?: string;
   format?: string;
+  compression?: string | null;
+  sort?: string;
   filters?: Prisma.InputJsonValue;
   fields?: Prisma.InputJsonValue;
+  callbackUrl?: string;
+}
+
+export interface CreateAccountExportJobOptions {
+  createdById: number;
+  payload: Pick<ExportCreatePayload, 'callbackUrl'>;
+  idempotencyKey?: string | null;
+  prisma?: PrismaClient;
+  redis?: JobLimitRedis;
 }
 
 export interface CreateExportJobOptions {
@@ -67,6 +133,7 @@ export interface CreateExportJobOptions {
   payload: ExportCreatePayload;
   idempotencyKey?: string | null;
   prisma?: PrismaClient;
+  redis?: JobLimitRedis;
 }
 
 export interface GetExportJobOptions {
@@ -75,6 +142,24 @@ export interface GetExportJobOptions {
   prisma?: PrismaClient;
 }
 
+export interface GetExportJobProgressOptions extends GetExportJobOptions {
+  now?: () => Date;
+}
+
+export interface ListExportJobsOptions {
+  createdById: number;
+  query: JobListQuery;
+  prisma?: PrismaClient;
+}
+
+export interface CancelExportJobOptions {
+  jobId: string;
+  createdById: number;
+  now?: () => Date;
+  prisma?: PrismaClient;
+  storage?: StorageAdapter;
+}
+
 export interface GetExportFileMetadataOptions {
   jobId: string;
   createdById: number;
@@ -86,33 +171,43 @@ export interface StreamExportsOptions {
   entityType: EntityType;
   format: FileFormat;
   limit: number;
-  cursor: number | null;
+  cursor: ExportCursor | null;
   filters?: Record<string, unknown> | null;
   fields?: Set<string> | null;
+  sort?: ExportSort | null;
   signal?: AbortSignal;
   writeChunk: (chunk: string) => Promise<void>;
-  onRecord?: (progress: { count: number; lastId: number }) => void;
+  onRecord?: (progress: { count: number; lastId: number; lastCursor: number | string }) => void;
+  /** Called before the first chunk for formats that carry the cursor out of band (csv). */
+  onNextCursor?: (nextCursor: number | string | null) => void;
   streamRecords?: (options: {
     entityType: EntityType;
     limit: number;
-    cursor: number | null;
+    cursor: ExportCursor | null;
     filters?: Record<string, unknown> | null;
+    sort?: ExportSort | null;
     signal?: AbortSignal;
   }) => AsyncGenerator<ExportRecord>;
 }
 
+/**
+ * `lastCursor` is what a client passes to read on from the last record: its id,
+ * or an opaque string under a sort.
+ */
 export interface StreamExportsResult {
   count: number;
   lastId: number | null;
+  lastCursor: number | string | null;
 }
 
 export interface ExportQuery {
   entityType: EntityType;
   format: FileFormat;
   limit: number;
-  cursor: number | null;
+  cursor: ExportCursor | null;
   filters: Record<string, unknown> | null;
   fields: Set<string> | null;
+  sort: ExportSort | null;
 }
 
 export interface ExportFileMetadata {
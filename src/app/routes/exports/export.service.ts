@@ -1,14 +1,28 @@
 import { once } from 'events';
-import { PassThrough } from 'stream';
-import type { Prisma, PrismaClient } from '@prisma/client';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PassThrough, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import type { ExportJob as ExportJobRow, ImportExportResource, Prisma, PrismaClient } from '@prisma/client';
 import prismaClient from '../../../prisma/prisma-client';
-import { createExportStorageAdapter } from '../../storage';
+import { createExportStorageAdapter, StorageAdapter } from '../../storage';
 import { loadExportConfig } from './config';
 import {
+  ACCOUNT_EXPORT_RESOURCE,
+  ENTITY_TYPES,
   EntityType,
+  ExportCompression,
   ExportRecord,
+  FavoriteExportRecord,
+  FILE_FORMATS,
+  FollowExportRecord,
   FileFormat,
   ImportExportErrorCode,
+  JobListQuery,
+  JobProgress,
   JobStatus,
   ResourceErrorCode,
   SystemErrorCode,
@@ -16,13 +30,23 @@ import {
 import {
   logJobLifecycleEvent,
 } from '../../jobs/observability';
+import { claimJobLease, getLeaseTtlMs, JobLeaseLostError, startLeaseHeartbeat, WORKER_ID } from '../../jobs/lease.service';
+import { loadJobProgressConfig } from '../shared/import-export/config';
+import { buildJobProgress, createProgressThrottle } from '../shared/import-export/progress.service';
+import { dispatchJobWebhook, parseCallbackUrl } from '../webhooks/webhook.service';
 import { createLogger } from '../../logger';
+import { authorizeImportExport } from '../shared/import-export/authorization.service';
+import {
+  ACTIVE_JOB_STATUSES,
+  enforceJobLimits,
+  JobLimitRedis,
+  withJobCreationLock,
+} from '../shared/import-export/limits.service';
 import {
   getQueryParamValue,
   isPrismaUniqueConstraintError,
   isObject,
   normalizeFormat as normalizeDownloadFormat,
-  parseCursor,
   parseEntityType,
   parseFormat,
   parseLimit,
@@ -31,30 +55,64 @@ import {
   ExportValidationError,
   normalizeExportCreatePayload,
   projectExportRecord,
+  resolveExportColumns,
   resolveExportJobValidation,
   resolveExportRequestValidation,
 } from './validation/validation.service';
+import { formatCsvRecord, formatCsvRow } from './csv.service';
+import {
+  buildExportKeysetWhere,
+  buildExportOrderBy,
+  encodeExportCursor,
+  formatExportSort,
+  getRecordSortCursor,
+  getRowSortCursor,
+  parseExportCursor,
+  parseExportSort,
+} from './sort.service';
+import {
+  ACCOUNT_ARCHIVE_MANIFEST_PATH,
+  ACCOUNT_ARCHIVE_SECTIONS,
+  buildTarEntry,
+  buildTarHeader,
+  buildTarPadding,
+  TAR_END_OF_ARCHIVE,
+} from './account-archive.service';
 import type {
+  AccountArchiveWriter,
   ArticleRow,
+  CancelExportJobOptions,
   CommentRow,
+  CreateAccountExportJobOptions,
   CreateExportJobOptions,
   CreateExportJobResult,
   ExportCreatePayload,
+  ExportCursor,
   ExportFileMetadata,
   ExportQuery,
+  ExportRow,
+  ExportSort,
+  FavoriteRow,
+  FollowRow,
   GetExportFileMetadataOptions,
   GetExportJobOptions,
+  GetExportJobProgressOptions,
+  ListExportJobsOptions,
   RunExportJobOptions,
   RunExportJobResult,
   StreamExportOptions,
   StreamExportsOptions,
   StreamExportsResult,
+  TagRow,
   UserRow,
 } from './export.model';
 import HttpException from '../../models/http-exception.model';
 import { HttpStatusCode } from '../../models/http-status-code.model';
 
 const DEFAULT_CANCEL_CHECK_INTERVAL = 500;
+const CANCELLABLE_STATUSES: string[] = ['queued', 'running'];
+// A partial account archive is kept for download; its manifest marks it truncated
+const DOWNLOADABLE_STATUSES: string[] = ['succeeded', 'partial'];
 const logger = createLogger({ component: 'exports.service' });
 
 class ExportServiceError extends Error {
@@ -68,6 +126,11 @@ class ExportServiceError extends Error {
   }
 }
 
+/**
+ * `limit` and `cursor` count rows, by id unless a `sort` is given. For
+ * relationships a row is the owning user, so a page holds every edge of up to
+ * `limit` users and never splits one.
+ */
 export async function* streamExportRecords(options: StreamExportOptions): AsyncGenerator<ExportRecord> {
   const prisma = options.prisma ?? prismaClient;
   const config = loadExportConfig();
@@ -83,20 +146,22 @@ export async function* streamExportRecords(options: StreamExportOptions): AsyncG
     }
 
     const take = Math.min(batchSize, remaining);
-    const batch = await fetchExportBatch(prisma, options.entityType, take, cursor, options.filters);
+    const batch = await fetchExportBatch(prisma, options.entityType, take, cursor, options.filters, options.sort);
 
     if (!batch.length) {
       return;
     }
 
-    for (const record of batch) {
+    for (const row of batch) {
       if (options.signal?.aborted) {
         return;
       }
 
       remaining -= 1;
-      cursor = record.id;
-      yield mapExportRecord(options.entityType, record);
+      cursor = options.sort ? getRowSortCursor(options.entityType, options.sort, row) : row.id;
+      for (const record of mapExportRecords(options.entityType, row)) {
+        yield record;
+      }
 
       if (remaining <= 0) {
         return;
@@ -121,16 +186,17 @@ export async function runExportJob(
       : 1000000;
 
   const startedAt = now();
-  const claimResult = await prisma.exportJob.updateMany({
-    where: {
-      id: jobId,
-      status: 'queued',
-    },
-    data: {
-      status: 'running',
-      startedAt,
-    },
-  });
+  const workerId = options.workerId ?? WORKER_ID;
+  const leaseOptions = {
+    type: 'export' as const,
+    jobId,
+    workerId,
+    leaseTtlMs: options.leaseTtlMs ?? getLeaseTtlMs(),
+    prisma,
+    now,
+  };
+  // A reclaimed export has no usable partial output, so it starts over.
+  const claim = await claimJobLease(leaseOptions);
 
   const job = await prisma.exportJob.findUnique({ where: { id: jobId } });
   if (!job) {
@@ -140,8 +206,8 @@ export async function runExportJob(
     );
   }
 
-  // Job claimed by another worker process, return current status without processing
-  if (!claimResult.count) {
+  // Job held by another worker process with a live lease, return current status without processing
+  if (!claim) {
     return {
       status: job.status,
       processedRecords: job.processedRecords,
@@ -188,99 +254,215 @@ export async function runExportJob(
       processedRecords: job.processedRecords,
       errorCount: 0,
     },
+    ...(claim === 'reclaimed' ? { details: { reclaimed: true } } : {}),
   });
 
-  const entityType = normalizeEntityType(job.resource);
   const format = normalizeExportJobFormat(job.format);
-  const { filters, fields } = resolveExportConfig(entityType, job.filters, job.fields);
-  const outputKey = job.outputLocation ?? buildOutputKey(jobId, format);
+  const compression = normalizeExportCompression(job.compression);
+  const outputKey = job.outputLocation ?? buildExportFileName(jobId, job.resource, format, compression);
   const outputStream = new PassThrough();
   const savePromise = storage.saveStream(outputKey, outputStream);
+  // Records are written to `output`; with gzip it compresses into outputStream,
+  // so the stored artifact and its fileSize are the compressed bytes.
+  const gzip = compression === 'gzip' ? createGzip() : null;
+  if (gzip) {
+    gzip.pipe(outputStream);
+    gzip.on('error', (error) => outputStream.destroy(error));
+  }
+  const output: Writable = gzip ?? outputStream;
 
   let processedRecords = 0;
   let cancelled = false;
   let truncated = false;
-
-  const writeChunk = async (chunk: string): Promise<void> => {
-    if (!outputStream.write(chunk)) {
-      await once(outputStream, 'drain');
+  let leaseLost = false;
+  const progressThrottle = createProgressThrottle(loadJobProgressConfig(), now);
+
+  // Counters are persisted while the job runs so the status and events
+  // endpoints can report progress. Doubles as a lease ownership check.
+  const saveProgress = async (data: Prisma.ExportJobUpdateManyMutationInput) => {
+    const saved = await prisma.exportJob.updateMany({ where: { id: jobId, leaseOwner: workerId }, data });
+    if (!saved.count) {
+      throw new JobLeaseLostError('export', jobId);
     }
+    progressThrottle.mark(processedRecords);
   };
 
-  try {
-    let first = true;
-
-    if (format === 'json') {
-      await writeChunk('[');
+  const writeChunk = async (chunk: string | Buffer): Promise<void> => {
+    if (!output.write(chunk)) {
+      await once(output, 'drain');
     }
+  };
 
+  // Stops at the record limit, leaving one extra record read to flag truncation.
+  const readRecords = async function* (
+    entityType: EntityType,
+    filters: Record<string, unknown> | null,
+    sort: ExportSort | null = null,
+  ): AsyncGenerator<ExportRecord> {
     for await (const record of streamExportRecords({
       entityType,
       prisma,
       batchSize: config.batchSize,
-      limit: maxRecords + 1,
+      limit: maxRecords + 1 - processedRecords,
       filters,
+      sort,
     })) {
+      if (leaseLost) {
+        throw new JobLeaseLostError('export', jobId);
+      }
       if (processedRecords >= maxRecords) {
         truncated = true;
-        break;
+        return;
+      }
+      yield record;
+    }
+  };
+
+  // Counts a written record; false once the job has been cancelled.
+  const countRecord = async (): Promise<boolean> => {
+    processedRecords += 1;
+    if (progressThrottle.due(processedRecords)) {
+      await saveProgress({ processedRecords });
+    }
+    if (cancelCheckInterval && processedRecords % cancelCheckInterval === 0) {
+      if (await isJobCancelled(prisma, jobId)) {
+        cancelled = true;
+        return false;
       }
+    }
+    return true;
+  };
+
+  const leaseLostResult = async (
+    current?: { status: string } | null,
+  ): Promise<RunExportJobResult> => {
+    logger.warn({ event: 'Export job lease lost', jobId, workerId, processedRecords });
+    // A new owner writes the same output key, so the artifact is only deleted once
+    // the job ended without one (failed by the reaper or cancelled).
+    const latest =
+      current === undefined
+        ? await prisma.exportJob.findUnique({ where: { id: jobId }, select: { status: true } })
+        : current;
+    if (!latest || latest.status === 'failed' || latest.status === 'cancelled') {
+      await deletePartialExportArtifact(storage, jobId, outputKey);
+    }
+    return { status: 'running', processedRecords, fileSize: null };
+  };
+
+  const finishCancelled = async (): Promise<RunExportJobResult> => {
+    await deletePartialExportArtifact(storage, jobId, outputKey);
+    const finishedAt = now();
+    const finalized = await finalizeJob(prisma, jobId, workerId, {
+      status: 'cancelled',
+      processedRecords,
+      totalRecords: processedRecords,
+      finishedAt,
+    });
+    if (!finalized) {
+      return await leaseLostResult();
+    }
+
+    logJobLifecycleEvent({
+      event: 'job.completed',
+      jobKind: 'export',
+      jobId,
+      status: 'cancelled',
+      resource: job.resource,
+      format: job.format,
+      timestamp: finishedAt,
+      jobStartedAt: startedAt,
+      counters: {
+        processedRecords,
+        errorCount: 0,
+      },
+    });
+    return { status: 'cancelled', processedRecords, fileSize: null };
+  };
+
+  // The job left this worker before it could be finalized: cancelled since
+  // the last cancellation check, or reclaimed by another worker.
+  const finishInterrupted = async (): Promise<RunExportJobResult> => {
+    const latest = await prisma.exportJob.findUnique({
+      where: { id: jobId },
+      select: { status: true, leaseOwner: true },
+    });
+    if (latest?.status === 'cancelled' && latest.leaseOwner === workerId) {
+      return finishCancelled();
+    }
+    return await leaseLostResult(latest);
+  };
+
+  const stopHeartbeat = startLeaseHeartbeat({
+    ...leaseOptions,
+    onLost: () => {
+      leaseLost = true;
+    },
+  });
+
+  try {
+    if (job.resource === ACCOUNT_EXPORT_RESOURCE) {
+      await writeAccountArchive(job.createdById, startedAt, {
+        prisma,
+        readRecords,
+        countRecord,
+        isStopped: () => cancelled || truncated,
+        isTruncated: () => truncated,
+        writeChunk,
+        saveTotal: (totalRecords) => saveProgress({ processedRecords, totalRecords }),
+      });
+    } else {
+      const entityType = normalizeEntityType(job.resource);
+      const { filters, fields } = resolveExportConfig(entityType, job.filters, job.fields);
+      const sort = parseExportSort(entityType, job.sort);
+      let first = true;
+      const columns = resolveExportColumns(entityType, fields);
+      const matchingRecords = await countExportRecords(prisma, entityType, filters);
+      await saveProgress({ processedRecords, totalRecords: matchingRecords });
 
-      const payload = JSON.stringify(projectExportRecord(record, fields));
       if (format === 'json') {
-        await writeChunk(first ? payload : `,${payload}`);
-      } else {
-        await writeChunk(`${payload}\n`);
+        await writeChunk('[');
+      } else if (format === 'csv') {
+        await writeChunk(formatCsvRow(columns));
       }
-      processedRecords += 1;
-      first = false;
 
-      if (cancelCheckInterval && processedRecords % cancelCheckInterval === 0) {
-        if (await isJobCancelled(prisma, jobId)) {
-          cancelled = true;
+      for await (const record of readRecords(entityType, filters, sort)) {
+        const projected = projectExportRecord(record, fields);
+        if (format === 'csv') {
+          await writeChunk(formatCsvRecord(projected, columns));
+        } else if (format === 'json') {
+          const payload = JSON.stringify(projected);
+          await writeChunk(first ? payload : `,${payload}`);
+        } else {
+          await writeChunk(`${JSON.stringify(projected)}\n`);
+        }
+        first = false;
+
+        if (!(await countRecord())) {
           break;
         }
       }
-    }
 
-    if (format === 'json') {
-      await writeChunk(']');
+      if (format === 'json') {
+        await writeChunk(']');
+      }
     }
 
-    outputStream.end();
+    output.end();
     const saved = await savePromise;
+    if (leaseLost) {
+      throw new JobLeaseLostError('export', jobId);
+    }
 
     if (cancelled) {
-      await storage.delete(outputKey);
-      const finishedAt = now();
-      await finalizeJob(prisma, jobId, {
-        status: 'cancelled',
-        processedRecords,
-        totalRecords: processedRecords,
-        finishedAt,
-      });
-
-      logJobLifecycleEvent({
-        event: 'job.completed',
-        jobKind: 'export',
-        jobId,
-        status: 'cancelled',
-        resource: job.resource,
-        format: job.format,
-        timestamp: finishedAt,
-        jobStartedAt: startedAt,
-        counters: {
-          processedRecords,
-          errorCount: 0,
-        },
-      });
-      return { status: 'cancelled', processedRecords, fileSize: null };
+      return await finishCancelled();
     }
 
     const finishedAt = now();
     const totalRecords = truncated ? processedRecords + 1 : processedRecords;
-    await finalizeJob(prisma, jobId, {
-      status: 'succeeded',
+    // An account archive cut at the record limit is missing the user's data, not just extra rows
+    const status: JobStatus = truncated && job.resource === ACCOUNT_EXPORT_RESOURCE ? 'partial' : 'succeeded';
+    const finalized = await finalizeJob(prisma, jobId, workerId, {
+      status,
       processedRecords,
       totalRecords,
       finishedAt,
@@ -289,11 +471,14 @@ export async function runExportJob(
       fileSize: saved.bytes,
       expiresAt: buildExpiry(now, config.fileRetentionHours),
     });
+    if (!finalized) {
+      return await finishInterrupted();
+    }
     logJobLifecycleEvent({
       event: 'job.completed',
       jobKind: 'export',
       jobId,
-      status: 'succeeded',
+      status,
       resource: job.resource,
       format: job.format,
       timestamp: finishedAt,
@@ -313,28 +498,28 @@ export async function runExportJob(
         : {}),
     });
 
-    return { status: 'succeeded', processedRecords, fileSize: saved.bytes };
+    return { status, processedRecords, fileSize: saved.bytes };
   } catch (error) {
+    output.destroy();
     outputStream.destroy();
-    try {
-      await storage.delete(outputKey);
-    } catch (cleanupError) {
-      logger.warn({
-        event: 'Export output cleanup failed',
-        jobId,
-        outputKey,
-        errorName: cleanupError instanceof Error ? cleanupError.name : 'UnknownError',
-        errorMessage: cleanupError instanceof Error ? cleanupError.message : String(cleanupError),
-      });
+    // Destroying the output rejects the save; it is settled before the artifact is
+    // deleted, so the write cannot recreate it and the rejection is not left unhandled.
+    await savePromise.catch(() => undefined);
+    if (error instanceof JobLeaseLostError) {
+      return await leaseLostResult();
     }
+    await deletePartialExportArtifact(storage, jobId, outputKey);
 
     const finishedAt = now();
-    await finalizeJob(prisma, jobId, {
+    const finalized = await finalizeJob(prisma, jobId, workerId, {
       status: 'failed',
       processedRecords,
       totalRecords: processedRecords,
       finishedAt,
     });
+    if (!finalized) {
+      return await finishInterrupted();
+    }
 
     const { code, message, details } = normalizeError(error);
     const failedErrorCount = 1;
@@ -359,16 +544,85 @@ export async function runExportJob(
       },
     });
     throw new ExportServiceError(code, message, details);
+  } finally {
+    stopHeartbeat();
+  }
+}
+
+/**
+ * Writes one ndjson file per archive section, then a manifest listing each
+ * file's resource and record count. Each section is spooled to a temporary
+ * file first, since its tar header carries the size. Sections stop at the
+ * export record limit, and the manifest's `truncated` flag reports the cut.
+ */
+async function writeAccountArchive(
+  userId: number,
+  exportedAt: Date,
+  archive: AccountArchiveWriter,
+): Promise<void> {
+  const sections = ACCOUNT_ARCHIVE_SECTIONS.map((section) => ({ ...section, filters: section.filters(userId) }));
+  const counts = await Promise.all(
+    sections.map((section) => countExportRecords(archive.prisma, section.entityType, section.filters)),
+  );
+  await archive.saveTotal(counts.reduce((total, count) => total + count, 0));
+
+  const files: { resource: EntityType; path: string; records: number }[] = [];
+  // A tar header leads with its file's size, so each section is spooled to
+  // disk first rather than held in memory.
+  const spoolDir = await mkdtemp(path.join(tmpdir(), 'account-export-'));
+  try {
+    for (const section of sections) {
+      const spoolPath = path.join(spoolDir, section.path);
+      const spooled = await spoolArchiveSection(
+        spoolPath,
+        archive.readRecords(section.entityType, section.filters),
+        archive.countRecord,
+      );
+
+      await archive.writeChunk(buildTarHeader(section.path, spooled.bytes, exportedAt));
+      for await (const chunk of createReadStream(spoolPath)) {
+        await archive.writeChunk(chunk as Buffer);
+      }
+      await archive.writeChunk(buildTarPadding(spooled.bytes));
+      await rm(spoolPath);
+
+      files.push({ resource: section.entityType, path: section.path, records: spooled.records });
+      if (archive.isStopped()) {
+        break;
+      }
+    }
+  } finally {
+    await rm(spoolDir, { recursive: true, force: true });
   }
+
+  // Sections after the record limit are left out, so the archive says it is incomplete
+  const manifest = { userId, exportedAt: exportedAt.toISOString(), truncated: archive.isTruncated(), files };
+  await archive.writeChunk(buildTarEntry(ACCOUNT_ARCHIVE_MANIFEST_PATH, Buffer.from(JSON.stringify(manifest)), exportedAt));
+  await archive.writeChunk(TAR_END_OF_ARCHIVE);
+}
+
+async function spoolArchiveSection(
+  spoolPath: string,
+  records: AsyncIterable<ExportRecord>,
+  countRecord: () => Promise<boolean>,
+): Promise<{ records: number; bytes: number }> {
+  const spool = createWriteStream(spoolPath);
+  let count = 0;
+  await pipeline(async function* () {
+    for await (const record of records) {
+      yield `${JSON.stringify(record)}\n`;
+      count += 1;
+      if (!(await countRecord())) {
+        return;
+      }
+    }
+  }, spool);
+  return { records: count, bytes: spool.bytesWritten };
 }
 
 function normalizeEntityType(resource: string): EntityType {
-  if (
-    resource === 'users' ||
-    resource === 'articles' ||
-    resource === 'comments'
-  ) {
-    return resource;
+  if ((ENTITY_TYPES as string[]).includes(resource)) {
+    return resource as EntityType;
   }
 
   throw new ExportServiceError(
@@ -378,7 +632,7 @@ function normalizeEntityType(resource: string): EntityType {
 }
 
 function normalizeExportJobFormat(format: string | null): FileFormat {
-  if (format === 'ndjson' || format === 'json') {
+  if (format === 'ndjson' || format === 'json' || format === 'csv') {
     return format;
   }
   throw new ExportServiceError(
@@ -387,9 +641,32 @@ function normalizeExportJobFormat(format: string | null): FileFormat {
   );
 }
 
-function buildOutputKey(jobId: string, format: FileFormat): string {
-  const ext = format === 'json' ? 'json' : 'ndjson';
-  return `${jobId}.${ext}`;
+function normalizeExportCompression(compression: string | null | undefined): ExportCompression | null {
+  return compression === 'gzip' ? 'gzip' : null;
+}
+
+function buildExportFileName(
+  jobId: string,
+  resource: string,
+  format: FileFormat,
+  compression: ExportCompression | null,
+): string {
+  if (resource === ACCOUNT_EXPORT_RESOURCE) {
+    return `${jobId}.tar.gz`;
+  }
+  return compression === 'gzip' ? `${jobId}.${format}.gz` : `${jobId}.${format}`;
+}
+
+function parseExportCompression(value: unknown): ExportCompression | null {
+  if (value === undefined || value === null || value === 'none') {
+    return null;
+  }
+  if (value === 'gzip') {
+    return 'gzip';
+  }
+  throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+    errors: { compression: ['compression must be gzip or none'] },
+  });
 }
 
 function buildDownloadUrl(jobId: string): string {
@@ -421,18 +698,27 @@ async function markJobCancelled(
   jobId: string,
   timestamp: Date
 ): Promise<void> {
-  await prisma.exportJob.update({
+  const job = await prisma.exportJob.update({
     where: { id: jobId },
     data: {
       status: 'cancelled',
       finishedAt: timestamp,
+      leaseOwner: null,
+      leaseExpiresAt: null,
     },
   });
+  await dispatchFinishedJobWebhook(prisma, job);
 }
 
+/**
+ * Records the outcome only while the job is still this worker's: a cancelled
+ * job can only be finalized as cancelled, and a reclaimed one not at all.
+ * Returns false when the job was left untouched.
+ */
 async function finalizeJob(
   prisma: PrismaClient,
   jobId: string,
+  workerId: string,
   update: {
     status: JobStatus;
     processedRecords: number;
@@ -443,9 +729,9 @@ async function finalizeJob(
     fileSize?: number;
     expiresAt?: Date | null;
   }
-): Promise<void> {
-  await prisma.exportJob.update({
-    where: { id: jobId },
+): Promise<boolean> {
+  const finalized = await prisma.exportJob.updateMany({
+    where: { id: jobId, status: update.status === 'cancelled' ? 'cancelled' : 'running', leaseOwner: workerId },
     data: {
       status: update.status,
       processedRecords: update.processedRecords,
@@ -455,8 +741,30 @@ async function finalizeJob(
       downloadUrl: update.downloadUrl,
       fileSize: update.fileSize,
       expiresAt: update.expiresAt,
+      leaseOwner: null,
+      leaseExpiresAt: null,
     },
   });
+  if (!finalized.count) {
+    return false;
+  }
+  await dispatchFinishedJobWebhook(prisma, await prisma.exportJob.findUnique({ where: { id: jobId } }));
+  return true;
+}
+
+/**
+ * Sends the job's completion webhook, if it registered a callback URL. Used
+ * by paths that finish a job outside runExportJob, such as the lease reaper.
+ */
+export async function dispatchExportJobWebhook(jobId: string, prisma: PrismaClient = prismaClient): Promise<void> {
+  await dispatchFinishedJobWebhook(prisma, await prisma.exportJob.findUnique({ where: { id: jobId } }));
+}
+
+async function dispatchFinishedJobWebhook(prisma: PrismaClient, job: ExportJobRow | null | undefined): Promise<void> {
+  if (job) {
+    const exportJob = serializeExportJob(job, { recordLimit: loadExportConfig().exportMaxRecords });
+    await dispatchJobWebhook({ prisma, jobType: 'export', job, payload: { exportJob } });
+  }
 }
 
 function normalizeError(error: unknown): {
@@ -593,6 +901,51 @@ function buildCommentWhere(
   return Object.keys(where).length ? where : undefined;
 }
 
+// Names match case-insensitively so that variants such as `JavaScript` and `javascript` export together
+function buildTagWhere(
+  cursor: number | null,
+  filters?: Record<string, unknown> | null,
+): Prisma.TagWhereInput | undefined {
+  const where: Prisma.TagWhereInput = {};
+  const idFilter = buildIdFilter(cursor, typeof filters?.id === 'number' ? filters.id : undefined);
+  if (idFilter) {
+    where.id = idFilter;
+  }
+  if (typeof filters?.name === 'string') {
+    where.name = { equals: filters.name, mode: 'insensitive' };
+  }
+
+  return Object.keys(where).length ? where : undefined;
+}
+
+function buildFavoriteWhere(
+  cursor: number | null,
+  filters?: Record<string, unknown> | null,
+): Prisma.UserWhereInput {
+  const where: Prisma.UserWhereInput = { favorites: { some: buildRelationTargetWhere(filters?.article_id) ?? {} } };
+  const idFilter = buildIdFilter(cursor, typeof filters?.user_id === 'number' ? filters.user_id : undefined);
+  if (idFilter) {
+    where.id = idFilter;
+  }
+  return where;
+}
+
+function buildFollowWhere(
+  cursor: number | null,
+  filters?: Record<string, unknown> | null,
+): Prisma.UserWhereInput {
+  const where: Prisma.UserWhereInput = { following: { some: buildRelationTargetWhere(filters?.following_id) ?? {} } };
+  const idFilter = buildIdFilter(cursor, typeof filters?.follower_id === 'number' ? filters.follower_id : undefined);
+  if (idFilter) {
+    where.id = idFilter;
+  }
+  return where;
+}
+
+function buildRelationTargetWhere(targetId: unknown): { id: number } | undefined {
+  return typeof targetId === 'number' ? { id: targetId } : undefined;
+}
+
 function buildIdFilter(cursor: number | null, equals?: number): Prisma.IntFilter | undefined {
   const filter: Prisma.IntFilter = {};
   if (cursor !== null) {
@@ -658,18 +1011,57 @@ function parseDateRangeFilter(
 }
 
 
+async function countExportRecords(
+  prisma: PrismaClient,
+  entityType: EntityType,
+  filters?: Record<string, unknown> | null,
+): Promise<number> {
+  switch (entityType) {
+    case 'users':
+      return prisma.user.count({ where: buildUserWhere(null, filters) });
+    case 'articles':
+      return prisma.article.count({ where: buildArticleWhere(null, filters) });
+    case 'comments':
+      return prisma.comment.count({ where: buildCommentWhere(null, filters) });
+    case 'tags':
+      return prisma.tag.count({ where: buildTagWhere(null, filters) });
+    case 'favorites': {
+      const owners = await prisma.user.findMany({
+        where: buildFavoriteWhere(null, filters),
+        select: { _count: { select: { favorites: { where: buildRelationTargetWhere(filters?.article_id) } } } },
+      });
+      return owners.reduce((total, owner) => total + owner._count.favorites, 0);
+    }
+    case 'follows': {
+      const owners = await prisma.user.findMany({
+        where: buildFollowWhere(null, filters),
+        select: { _count: { select: { following: { where: buildRelationTargetWhere(filters?.following_id) } } } },
+      });
+      return owners.reduce((total, owner) => total + owner._count.following, 0);
+    }
+    default:
+      return 0;
+  }
+}
+
 async function fetchExportBatch(
   prisma: PrismaClient,
   entityType: EntityType,
   take: number,
-  cursor: number | null,
+  cursor: ExportCursor | null,
   filters?: Record<string, unknown> | null,
-): Promise<UserRow[] | ArticleRow[] | CommentRow[]> {
+  sort?: ExportSort | null,
+): Promise<ExportRow[]> {
+  // A keyset cursor replaces the id cursor: both the order and the position come from the sort
+  const idCursor = typeof cursor === 'number' ? cursor : null;
+  const keyset = sort && cursor !== null && typeof cursor === 'object' ? buildExportKeysetWhere(entityType, sort, cursor) : null;
+  const orderBy = buildExportOrderBy(entityType, sort ?? null);
+
   switch (entityType) {
     case 'users':
       return prisma.user.findMany({
-        where: buildUserWhere(cursor, filters),
-        orderBy: { id: 'asc' },
+        where: withKeyset(buildUserWhere(idCursor, filters), keyset),
+        orderBy: orderBy as Prisma.UserOrderByWithRelationInput[],
         take,
         select: {
           id: true,
@@ -684,8 +1076,8 @@ async function fetchExportBatch(
       });
     case 'articles':
       return prisma.article.findMany({
-        where: buildArticleWhere(cursor, filters),
-        orderBy: { id: 'asc' },
+        where: withKeyset(buildArticleWhere(idCursor, filters), keyset),
+        orderBy: orderBy as Prisma.ArticleOrderByWithRelationInput[],
         take,
         select: {
           id: true,
@@ -695,6 +1087,7 @@ async function fetchExportBatch(
           authorId: true,
           publishedAt: true,
           status: true,
+          createdAt: true,
           tagList: {
             select: { name: true },
             orderBy: { name: 'asc' },
@@ -703,8 +1096,8 @@ async function fetchExportBatch(
       });
     case 'comments':
       return prisma.comment.findMany({
-        where: buildCommentWhere(cursor, filters),
-        orderBy: { id: 'asc' },
+        where: withKeyset(buildCommentWhere(idCursor, filters), keyset),
+        orderBy: orderBy as Prisma.CommentOrderByWithRelationInput[],
         take,
         select: {
           id: true,
@@ -714,24 +1107,90 @@ async function fetchExportBatch(
           createdAt: true,
         },
       });
+    case 'tags':
+      return prisma.tag.findMany({
+        where: withKeyset(buildTagWhere(idCursor, filters), keyset),
+        orderBy: orderBy as Prisma.TagOrderByWithRelationInput[],
+        take,
+        select: {
+          id: true,
+          name: true,
+          _count: { select: { articles: true } },
+        },
+      });
+    case 'favorites':
+      return prisma.user.findMany({
+        where: buildFavoriteWhere(idCursor, filters),
+        orderBy: { id: 'asc' },
+        take,
+        select: {
+          id: true,
+          favorites: {
+            where: buildRelationTargetWhere(filters?.article_id),
+            orderBy: { id: 'asc' },
+            select: { id: true },
+          },
+        },
+      });
+    case 'follows':
+      return prisma.user.findMany({
+        where: buildFollowWhere(idCursor, filters),
+        orderBy: { id: 'asc' },
+        take,
+        select: {
+          id: true,
+          following: {
+            where: buildRelationTargetWhere(filters?.following_id),
+            orderBy: { id: 'asc' },
+            select: { id: true },
+          },
+        },
+      });
     default:
       return [];
   }
 }
 
-function mapExportRecord(entityType: EntityType, record: UserRow | ArticleRow | CommentRow): ExportRecord {
+function withKeyset<T extends object>(where: T | undefined, keyset: Record<string, unknown> | null): T | undefined {
+  if (!keyset) {
+    return where;
+  }
+  return (where ? { AND: [where, keyset] } : keyset) as T;
+}
+
+function mapExportRecords(entityType: EntityType, row: ExportRow): ExportRecord[] {
   switch (entityType) {
     case 'users':
-      return mapUserExport(record as UserRow);
+      return [mapUserExport(row as UserRow)];
     case 'articles':
-      return mapArticleExport(record as ArticleRow);
+      return [mapArticleExport(row as ArticleRow)];
     case 'comments':
-      return mapCommentExport(record as CommentRow);
+      return [mapCommentExport(row as CommentRow)];
+    case 'tags':
+      return [mapTagExport(row as TagRow)];
+    case 'favorites':
+      return (row as FavoriteRow).favorites.map((article) => ({ user_id: row.id, article_id: article.id }));
+    case 'follows':
+      return (row as FollowRow).following.map((user) => ({ follower_id: row.id, following_id: user.id }));
     default:
       throw new Error(`Unsupported entity type ${entityType}`);
   }
 }
 
+/**
+ * Id of the row a record was read from, which is what stream cursors page by.
+ */
+function getExportRecordCursor(entityType: EntityType, record: ExportRecord): number {
+  switch (entityType) {
+    case 'favorites':
+      return (record as FavoriteExportRecord).user_id;
+    case 'follows':
+      return (record as FollowExportRecord).follower_id;
+    default:
+      return (record as { id: number }).id;
+  }
+}
+
 function mapUserExport(user: UserRow): ExportRecord {
   return {
     id: user.id,
@@ -754,6 +1213,7 @@ function mapArticleExport(article: ArticleRow): ExportRecord {
     tags: article.tagList.map((tag) => tag.name),
     published_at: article.publishedAt ? article.publishedAt.toISOString() : null,
     status: article.status,
+    created_at: article.createdAt.toISOString(),
   };
 }
 
@@ -767,6 +1227,14 @@ function mapCommentExport(comment: CommentRow): ExportRecord {
   };
 }
 
+function mapTagExport(tag: TagRow): ExportRecord {
+  return {
+    id: tag.id,
+    name: tag.name,
+    article_count: tag._count.articles,
+  };
+}
+
 export function getExportPayload(body: unknown): ExportCreatePayload {
   const candidate = isObject(body) && 'export' in body ? (body as Record<string, unknown>).export : body;
   if (!isObject(candidate)) {
@@ -781,43 +1249,36 @@ export function parseExportQuery(query: Record<string, unknown>): ExportQuery {
   const formatValue = getQueryParamValue(query.format);
   const limitValue = getQueryParamValue(query.limit);
   const cursorValue = getQueryParamValue(query.cursor);
+  const sortValue = getQueryParamValue(query.sort);
   const rawFilters = parseFiltersQueryParam(query.filters);
   const rawFields = parseFieldsQueryParam(query.fields);
 
   const entityType = parseEntityType(resource);
-  const format = parseFormat(formatValue);
+  const format = parseFormat(formatValue, FILE_FORMATS);
   const limit = parseLimit(limitValue, config.exportStreamMaxLimit);
-  const cursor = parseCursor(cursorValue);
+  const sort = parseExportSort(entityType, sortValue);
+  const cursor = parseExportCursor(entityType, cursorValue, sort);
   const { filters, fields } = resolveExportRequestValidation(
     entityType,
     rawFilters,
     rawFields,
   );
 
-  return { entityType, format, limit, cursor, filters, fields };
+  return { entityType, format, limit, cursor, filters, fields, sort };
 }
 
 export async function createExportJob(options: CreateExportJobOptions): Promise<CreateExportJobResult> {
   const prisma = options.prisma ?? prismaClient;
   const resource = parseEntityType(options.payload.resource);
-  const format = parseFormat(options.payload.format);
-  const idempotencyKey = options.idempotencyKey ?? null;
+  const format = parseFormat(options.payload.format, FILE_FORMATS);
+  const compression = parseExportCompression(options.payload.compression);
+  const sort = parseExportSort(resource, options.payload.sort);
 
-  if (idempotencyKey) {
-    const existing = await prisma.exportJob.findFirst({
-      where: { createdById: options.createdById, idempotencyKey, resource },
-    });
+  await authorizeImportExport({ userId: options.createdById, action: 'export', resource, prisma });
 
-    if (existing) {
-      logger.info({
-        event: 'Export request deduplicated',
-        jobId: existing.id,
-        userId: options.createdById,
-        resource,
-        status: existing.status,
-      });
-      return { statusCode: 200, exportJob: serializeExportJob(existing) };
-    }
+  const existing = await findIdempotentExportJob(prisma, options, resource);
+  if (existing) {
+    return { statusCode: 200, exportJob: serializeExportJob(existing) };
   }
 
   const { filters: normalizedFilters, fields: normalizedFields } = normalizeExportCreatePayload(
@@ -825,25 +1286,133 @@ export async function createExportJob(options: CreateExportJobOptions): Promise<
     options.payload.filters,
     options.payload.fields,
   );
+  const callbackUrl = await parseCallbackUrl(options.payload.callbackUrl);
+
+  const created = await queueExportJob(prisma, options, {
+    resource,
+    format,
+    compression,
+    sort: sort ? formatExportSort(sort) : null,
+    ...(normalizedFilters !== null ? { filters: normalizedFilters } : {}),
+    ...(normalizedFields !== null ? { fields: normalizedFields } : {}),
+    callbackUrl,
+  });
+  if (created.deduplicated) {
+    return { statusCode: 200, exportJob: serializeExportJob(created.job) };
+  }
+
+  logger.info({
+    event: 'Export job queued',
+    jobId: created.job.id,
+    userId: options.createdById,
+    resource: created.job.resource,
+    format: created.job.format,
+    sort: created.job.sort,
+    hasFilters: normalizedFilters !== null,
+    hasFields: normalizedFields !== null,
+    hasIdempotencyKey: Boolean(options.idempotencyKey),
+  });
+
+  return { statusCode: 202, exportJob: serializeExportJob(created.job) };
+}
+
+/**
+ * Queues an archive of the caller's own profile, articles, comments, favorites
+ * and follows. It needs no export permission: every row in it is the caller's.
+ */
+export async function createAccountExportJob(options: CreateAccountExportJobOptions): Promise<CreateExportJobResult> {
+  const prisma = options.prisma ?? prismaClient;
+  const existing = await findIdempotentExportJob(prisma, options, ACCOUNT_EXPORT_RESOURCE);
+  if (existing) {
+    return { statusCode: 200, exportJob: serializeExportJob(existing) };
+  }
+
+  const callbackUrl = await parseCallbackUrl(options.payload.callbackUrl);
+  const created = await queueExportJob(prisma, options, {
+    resource: ACCOUNT_EXPORT_RESOURCE,
+    format: 'ndjson',
+    compression: 'gzip',
+    callbackUrl,
+  });
+  if (created.deduplicated) {
+    return { statusCode: 200, exportJob: serializeExportJob(created.job) };
+  }
+
+  logger.info({
+    event: 'Account export job queued',
+    jobId: created.job.id,
+    userId: options.createdById,
+    hasIdempotencyKey: Boolean(options.idempotencyKey),
+  });
+
+  return { statusCode: 202, exportJob: serializeExportJob(created.job) };
+}
+
+async function findIdempotentExportJob(
+  prisma: PrismaClient,
+  options: { createdById: number; idempotencyKey?: string | null },
+  resource: ImportExportResource,
+): Promise<ExportJobRow | null> {
+  if (!options.idempotencyKey) {
+    return null;
+  }
+
+  const existing = await prisma.exportJob.findFirst({
+    where: { createdById: options.createdById, idempotencyKey: options.idempotencyKey, resource },
+  });
+  if (existing) {
+    logger.info({
+      event: 'Export request deduplicated',
+      jobId: existing.id,
+      userId: options.createdById,
+      resource,
+      status: existing.status,
+    });
+  }
+  return existing;
+}
+
+/**
+ * Creates a queued job under the caller's job limits and hands it to the
+ * worker queue. A create that loses an idempotency race returns the winner.
+ */
+async function queueExportJob(
+  prisma: PrismaClient,
+  options: { createdById: number; idempotencyKey?: string | null; redis?: JobLimitRedis },
+  data: Omit<Prisma.ExportJobUncheckedCreateInput, 'status' | 'idempotencyKey' | 'createdById' | 'requestHash'>,
+): Promise<{ job: ExportJobRow; deduplicated: boolean }> {
+  const idempotencyKey = options.idempotencyKey ?? null;
+  const config = loadExportConfig();
 
-  let created: Awaited<ReturnType<typeof prisma.exportJob.create>>;
+  let created: ExportJobRow;
   try {
-    created = await prisma.exportJob.create({
-      data: {
-        status: 'queued',
-        resource,
-        format,
-        ...(normalizedFilters !== null ? { filters: normalizedFilters } : {}),
-        ...(normalizedFields !== null ? { fields: normalizedFields } : {}),
-        idempotencyKey,
-        createdById: options.createdById,
-        requestHash: null,
-      },
+    created = await withJobCreationLock(prisma, 'export', async (tx) => {
+      await enforceJobLimits({
+        type: 'export',
+        userId: options.createdById,
+        rateLimitPerHour: config.exportRateLimitPerHour,
+        concurrentLimitUser: config.exportConcurrentLimitUser,
+        concurrentLimitGlobal: config.exportConcurrentLimitGlobal,
+        countActiveJobs: (createdById) =>
+          tx.exportJob.count({
+            where: { status: { in: ACTIVE_JOB_STATUSES }, ...(createdById !== undefined ? { createdById } : {}) },
+          }),
+        redis: options.redis,
+      });
+      return tx.exportJob.create({
+        data: {
+          ...data,
+          status: 'queued',
+          idempotencyKey,
+          createdById: options.createdById,
+          requestHash: null,
+        },
+      });
     });
   } catch (error) {
     if (idempotencyKey && isPrismaUniqueConstraintError(error)) {
       const existing = await prisma.exportJob.findFirst({
-        where: { createdById: options.createdById, idempotencyKey, resource },
+        where: { createdById: options.createdById, idempotencyKey, resource: data.resource },
       });
 
       if (existing) {
@@ -851,10 +1420,10 @@ export async function createExportJob(options: CreateExportJobOptions): Promise<
           event: 'Export request deduplicated after create race',
           jobId: existing.id,
           userId: options.createdById,
-          resource,
+          resource: data.resource,
           status: existing.status,
         });
-        return { statusCode: 200, exportJob: serializeExportJob(existing) };
+        return { job: existing, deduplicated: true };
       }
     }
 
@@ -883,18 +1452,7 @@ export async function createExportJob(options: CreateExportJobOptions): Promise<
     });
   }
 
-  logger.info({
-    event: 'Export job queued',
-    jobId: created.id,
-    userId: options.createdById,
-    resource: created.resource,
-    format: created.format,
-    hasFilters: normalizedFilters !== null,
-    hasFields: normalizedFields !== null,
-    hasIdempotencyKey: Boolean(idempotencyKey),
-  });
-
-  return { statusCode: 202, exportJob: serializeExportJob(created) };
+  return { job: created, deduplicated: false };
 }
 
 export async function getExportJob(options: GetExportJobOptions) {
@@ -911,6 +1469,124 @@ export async function getExportJob(options: GetExportJobOptions) {
   return { exportJob: serializeExportJob(job, { recordLimit: config.exportMaxRecords }) };
 }
 
+export async function getExportJobProgress(options: GetExportJobProgressOptions): Promise<JobProgress> {
+  const prisma = options.prisma ?? prismaClient;
+  const now = options.now ?? (() => new Date());
+  const job = await prisma.exportJob.findFirst({
+    where: { id: options.jobId, createdById: options.createdById },
+    select: {
+      id: true,
+      status: true,
+      processedRecords: true,
+      totalRecords: true,
+      startedAt: true,
+      finishedAt: true,
+    },
+  });
+
+  if (!job) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['export job not found'] } });
+  }
+
+  return buildJobProgress(job, now());
+}
+
+export async function listExportJobs(options: ListExportJobsOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const config = loadExportConfig();
+  const { query } = options;
+  const where = buildExportJobListWhere(options.createdById, query);
+
+  const exportJobsCount = await prisma.exportJob.count({ where });
+  const jobs = await prisma.exportJob.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+
+  const page = jobs.slice(0, query.limit);
+  const nextCursor = jobs.length > query.limit ? page[page.length - 1]?.id ?? null : null;
+
+  return {
+    exportJobs: page.map((job) => serializeExportJob(job, { recordLimit: config.exportMaxRecords })),
+    exportJobsCount,
+    nextCursor,
+  };
+}
+
+export async function cancelExportJob(options: CancelExportJobOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const now = options.now ?? (() => new Date());
+  const job = await prisma.exportJob.findFirst({
+    where: { id: options.jobId, createdById: options.createdById },
+  });
+
+  if (!job) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['export job not found'] } });
+  }
+
+  if (job.status === 'cancelled') {
+    return { exportJob: serializeExportJob(job) };
+  }
+
+  if (!CANCELLABLE_STATUSES.includes(job.status)) {
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { job: [`export job cannot be cancelled in status ${job.status}`] },
+    });
+  }
+
+  // Queued jobs never reach a worker checkpoint, so they are finished here.
+  // Running jobs keep finishedAt unset until the worker observes the cancellation.
+  const cancelledAt = now();
+  const result = await prisma.exportJob.updateMany({
+    where: { id: job.id, status: job.status },
+    data: {
+      status: 'cancelled',
+      ...(job.status === 'queued' ? { finishedAt: cancelledAt } : {}),
+    },
+  });
+
+  if (!result.count) {
+    const latest = await prisma.exportJob.findUnique({ where: { id: job.id } });
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { job: [`export job cannot be cancelled in status ${latest?.status ?? job.status}`] },
+    });
+  }
+
+  let removedFromQueue = false;
+  if (job.status === 'queued') {
+    removedFromQueue = await removeQueuedExportJob(job.id);
+  }
+
+  // A running job's worker is still writing its artifact; it deletes the
+  // artifact itself once it observes the cancellation.
+  if (job.status === 'queued') {
+    const storage = options.storage ?? createExportStorageAdapter();
+    const outputKey = job.outputLocation ?? buildExportFileName(
+      job.id,
+      job.resource,
+      normalizeDownloadFormat(job.format),
+      normalizeExportCompression(job.compression),
+    );
+    await deletePartialExportArtifact(storage, job.id, outputKey);
+  }
+
+  logger.info({
+    event: 'Export job cancelled',
+    jobId: job.id,
+    userId: options.createdById,
+    previousStatus: job.status,
+    removedFromQueue,
+  });
+
+  const cancelled = await prisma.exportJob.findUnique({ where: { id: job.id } });
+  if (job.status === 'queued') {
+    await dispatchFinishedJobWebhook(prisma, cancelled);
+  }
+  return { exportJob: serializeExportJob(cancelled ?? { ...job, status: 'cancelled' }) };
+}
+
 export async function getExportFileMetadata(
   options: GetExportFileMetadataOptions,
 ): Promise<ExportFileMetadata> {
@@ -924,20 +1600,26 @@ export async function getExportFileMetadata(
     throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['export job not found'] } });
   }
 
-  if (job.status !== 'succeeded' || !job.outputLocation) {
+  if (!DOWNLOADABLE_STATUSES.includes(job.status)) {
     throw new HttpException(HttpStatusCode.CONFLICT, { errors: { job: ['export is not ready for download'] } });
   }
 
+  // Checked before outputLocation: the retention sweep clears it once the artifact is deleted.
   if (job.expiresAt && job.expiresAt.getTime() < now()) {
     throw new HttpException(HttpStatusCode.GONE, { errors: { job: ['download URL has expired'] } });
   }
 
+  if (!job.outputLocation) {
+    throw new HttpException(HttpStatusCode.CONFLICT, { errors: { job: ['export is not ready for download'] } });
+  }
+
   const format = normalizeDownloadFormat(job.format);
+  const compression = normalizeExportCompression(job.compression);
 
   return {
     outputLocation: job.outputLocation,
-    contentType: format === 'json' ? 'application/json' : 'application/x-ndjson',
-    contentDisposition: `attachment; filename="${job.id}.${format}"`,
+    contentType: compression === 'gzip' ? 'application/gzip' : getExportContentType(format),
+    contentDisposition: `attachment; filename="${buildExportFileName(job.id, job.resource, format, compression)}"`,
   };
 }
 
@@ -949,20 +1631,28 @@ export async function streamExports(options: StreamExportsOptions): Promise<Stre
     cursor,
     filters,
     fields,
+    sort,
     signal,
     writeChunk,
     onRecord,
   } = options;
   const streamRecords = options.streamRecords ?? streamExportRecords;
   let count = 0;
+  // Rows the page read; differs from count for relationships, see streamExportRecords
+  let rowCount = 0;
   let lastId: number | null = null;
+  let lastCursor: number | string | null = null;
   let first = true;
 
+  if (format === 'csv') {
+    return streamCsvExports(options, streamRecords);
+  }
+
   if (format === 'json') {
     await writeChunk('{"data":[');
   }
 
-  for await (const record of streamRecords({ entityType, limit, cursor, filters, signal })) {
+  for await (const record of streamRecords({ entityType, limit, cursor, filters, sort, signal })) {
     const payload = JSON.stringify(projectExportRecord(record, fields));
 
     if (format === 'json') {
@@ -971,16 +1661,19 @@ export async function streamExports(options: StreamExportsOptions): Promise<Stre
       await writeChunk(`${payload}\n`);
     }
 
+    const recordCursor = getExportRecordCursor(entityType, record);
     count += 1;
-    lastId = record.id;
-    onRecord?.({ count, lastId });
+    rowCount += recordCursor === lastId ? 0 : 1;
+    lastId = recordCursor;
+    lastCursor = buildNextCursor(sort, record, recordCursor);
+    onRecord?.({ count, lastId, lastCursor });
     first = false;
   }
 
-  const nextCursor = count === limit ? lastId : null;
+  const nextCursor = rowCount === limit ? lastCursor : null;
 
   if (format === 'json') {
-    await writeChunk(`],"nextCursor":${nextCursor ?? 'null'}}`);
+    await writeChunk(`],"nextCursor":${JSON.stringify(nextCursor)}}`);
   } else {
     await writeChunk(`${JSON.stringify({ _type: 'cursor', nextCursor })}\n`);
   }
@@ -994,7 +1687,67 @@ export async function streamExports(options: StreamExportsOptions): Promise<Stre
     nextCursor,
   });
 
-  return { count, lastId };
+  return { count, lastId, lastCursor };
+}
+
+/**
+ * CSV has no room for an in-band cursor, so the page (bounded by the stream
+ * limit) is buffered until the next cursor is known and can be sent as a header.
+ */
+async function streamCsvExports(
+  options: StreamExportsOptions,
+  streamRecords: NonNullable<StreamExportsOptions['streamRecords']>,
+): Promise<StreamExportsResult> {
+  const { entityType, limit, cursor, filters, fields, sort, signal, writeChunk, onRecord } = options;
+  const columns = resolveExportColumns(entityType, fields ?? null);
+  const rows: string[] = [];
+  let rowCount = 0;
+  let lastId: number | null = null;
+  let lastCursor: number | string | null = null;
+
+  for await (const record of streamRecords({ entityType, limit, cursor, filters, sort, signal })) {
+    rows.push(formatCsvRecord(projectExportRecord(record, fields ?? null), columns));
+    const recordCursor = getExportRecordCursor(entityType, record);
+    rowCount += recordCursor === lastId ? 0 : 1;
+    lastId = recordCursor;
+    lastCursor = buildNextCursor(sort, record, recordCursor);
+    onRecord?.({ count: rows.length, lastId, lastCursor });
+  }
+
+  const count = rows.length;
+  const nextCursor = rowCount === limit ? lastCursor : null;
+  options.onNextCursor?.(nextCursor);
+
+  await writeChunk(formatCsvRow(columns));
+  for (const row of rows) {
+    await writeChunk(row);
+  }
+
+  logger.debug({
+    event: 'Export stream completed',
+    entityType,
+    format: 'csv',
+    limit,
+    count,
+    nextCursor,
+  });
+
+  return { count, lastId, lastCursor };
+}
+
+function buildNextCursor(sort: ExportSort | null | undefined, record: ExportRecord, id: number): number | string {
+  return sort ? encodeExportCursor(sort, getRecordSortCursor(sort, record, id)) : id;
+}
+
+export function getExportContentType(format: FileFormat): string {
+  switch (format) {
+    case 'json':
+      return 'application/json';
+    case 'csv':
+      return 'text/csv; charset=utf-8';
+    default:
+      return 'application/x-ndjson';
+  }
 }
 
 function parseFiltersQueryParam(value: unknown): unknown {
@@ -1074,12 +1827,12 @@ export function buildExportStreamClosingChunk(
   format: FileFormat,
   count: number,
   limit: number,
-  lastId: number | null,
+  lastCursor: number | string | null,
 ): string {
-  const nextCursor = count === limit ? lastId : null;
+  const nextCursor = count === limit ? lastCursor : null;
 
   if (format === 'json') {
-    return `],"nextCursor":${nextCursor ?? 'null'}}`;
+    return `],"nextCursor":${JSON.stringify(nextCursor)}}`;
   }
 
   return `${JSON.stringify({ _type: 'cursor', nextCursor })}\n`;
@@ -1091,6 +1844,8 @@ export function serializeExportJob(
   status: string;
   resource: string;
   format: string;
+  compression?: string | null;
+  sort?: string | null;
   totalRecords: number | null;
   processedRecords: number;
   createdAt: Date;
@@ -1101,6 +1856,7 @@ export function serializeExportJob(
   outputLocation: string | null;
   downloadUrl: string | null;
   fileSize: number | null;
+  callbackUrl?: string | null;
 },
   options?: {
     recordLimit?: number;
@@ -1110,7 +1866,7 @@ export function serializeExportJob(
   const truncated =
     typeof recordLimit === 'number' &&
     recordLimit > 0 &&
-    job.status === 'succeeded' &&
+    DOWNLOADABLE_STATUSES.includes(job.status) &&
     typeof job.totalRecords === 'number' &&
     job.totalRecords > job.processedRecords &&
     job.processedRecords >= recordLimit;
@@ -1120,6 +1876,8 @@ export function serializeExportJob(
     status: job.status,
     entityType: job.resource,
     format: job.format,
+    compression: job.compression ?? null,
+    sort: job.sort ?? null,
     totalRecords: job.totalRecords,
     processedRecords: job.processedRecords,
     createdAt: job.createdAt,
@@ -1131,6 +1889,7 @@ export function serializeExportJob(
     outputPath: job.outputLocation,
     downloadUrl: job.downloadUrl,
     fileSize: job.fileSize,
+    callbackUrl: job.callbackUrl ?? null,
     ...(truncated
       ? {
           truncated: true,
@@ -1141,6 +1900,62 @@ export function serializeExportJob(
   };
 }
 
+function buildExportJobListWhere(createdById: number, query: JobListQuery): Prisma.ExportJobWhereInput {
+  const where: Prisma.ExportJobWhereInput = { createdById };
+
+  if (query.statuses) {
+    where.status = { in: query.statuses };
+  }
+  if (query.entityType) {
+    where.resource = query.entityType;
+  }
+  if (query.format) {
+    where.format = query.format;
+  }
+  if (query.createdAfter || query.createdBefore) {
+    where.createdAt = {
+      ...(query.createdAfter ? { gte: query.createdAfter } : {}),
+      ...(query.createdBefore ? { lt: query.createdBefore } : {}),
+    };
+  }
+
+  return where;
+}
+
+async function removeQueuedExportJob(jobId: string): Promise<boolean> {
+  try {
+    const { removeQueuedJob } = await import('../../jobs/import-export.queue');
+    return await removeQueuedJob('export', jobId);
+  } catch (error) {
+    // The worker claim only accepts queued jobs, so a leftover queue entry is harmless.
+    logger.warn({
+      event: 'Export queue job removal failed',
+      jobId,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+async function deletePartialExportArtifact(
+  storage: StorageAdapter,
+  jobId: string,
+  outputKey: string,
+): Promise<void> {
+  try {
+    await storage.delete(outputKey);
+  } catch (error) {
+    logger.warn({
+      event: 'Export output cleanup failed',
+      jobId,
+      outputKey,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 async function markExportJobEnqueueFailed(prisma: PrismaClient, jobId: string): Promise<void> {
   try {
     await prisma.exportJob.update({
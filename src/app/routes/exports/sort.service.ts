@@ -0,0 +1,202 @@
+import HttpException from '../../models/http-exception.model';
+import { HttpStatusCode } from '../../models/http-status-code.model';
+import type { EntityType, ExportRecord } from '../shared/import-export/types';
+import { parseCursor } from '../shared/import-export/utils';
+import type { ExportCursor, ExportKeysetCursor, ExportRow, ExportSort } from './export.model';
+
+interface ExportSortField {
+  column: string;
+  type: 'id' | 'string' | 'date';
+  nullable?: boolean;
+}
+
+const ID_SORT_FIELD: ExportSortField = { column: 'id', type: 'id' };
+
+/**
+ * Fields each resource can be sorted by: exported fields, so a cursor can be
+ * built from the last record, each backed by an index.
+ * Relationships page by owning user and only keep the default order.
+ */
+const EXPORT_SORT_FIELDS: Partial<Record<EntityType, Record<string, ExportSortField>>> = {
+  users: {
+    id: ID_SORT_FIELD,
+    email: { column: 'email', type: 'string' },
+    created_at: { column: 'createdAt', type: 'date' },
+    updated_at: { column: 'updatedAt', type: 'date' },
+  },
+  articles: {
+    id: ID_SORT_FIELD,
+    slug: { column: 'slug', type: 'string' },
+    title: { column: 'title', type: 'string' },
+    published_at: { column: 'publishedAt', type: 'date', nullable: true },
+    created_at: { column: 'createdAt', type: 'date' },
+  },
+  comments: {
+    id: ID_SORT_FIELD,
+    created_at: { column: 'createdAt', type: 'date' },
+  },
+  tags: {
+    id: ID_SORT_FIELD,
+    name: { column: 'name', type: 'string' },
+  },
+};
+
+/**
+ * Parses `field` (ascending) or `-field` (descending). Returns null for the
+ * default `id` ascending order, which keeps plain numeric cursors.
+ */
+export function parseExportSort(entityType: EntityType, value: unknown): ExportSort | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const fields = EXPORT_SORT_FIELDS[entityType];
+  if (!fields) {
+    throw invalidSort(`sort is not supported for ${entityType}`);
+  }
+
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  const direction = trimmed.startsWith('-') ? 'desc' : 'asc';
+  const field = direction === 'desc' ? trimmed.slice(1) : trimmed;
+  if (!Object.prototype.hasOwnProperty.call(fields, field)) {
+    throw invalidSort(`sort must be one of ${Object.keys(fields).join(', ')}, prefixed with - for descending`);
+  }
+
+  return field === 'id' && direction === 'asc' ? null : { field, direction };
+}
+
+export function formatExportSort(sort: ExportSort): string {
+  return sort.direction === 'desc' ? `-${sort.field}` : sort.field;
+}
+
+/**
+ * Sorted exports page with an opaque cursor carrying the sort, the last sort
+ * value and the last id; the default order keeps the numeric id cursor.
+ */
+export function parseExportCursor(
+  entityType: EntityType,
+  value: string | undefined,
+  sort: ExportSort | null,
+): ExportCursor | null {
+  if (!sort) {
+    return parseCursor(value);
+  }
+  if (!value) {
+    return null;
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+
+  const field = getSortField(entityType, sort);
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 3 ||
+    decoded[0] !== formatExportSort(sort) ||
+    !Number.isInteger(decoded[2]) ||
+    decoded[2] <= 0 ||
+    !isSortValue(field, decoded[1])
+  ) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { cursor: [`cursor is not a valid cursor for sort ${formatExportSort(sort)}`] },
+    });
+  }
+
+  return { value: decoded[1], id: decoded[2] };
+}
+
+export function encodeExportCursor(sort: ExportSort, cursor: ExportKeysetCursor): string {
+  return Buffer.from(JSON.stringify([formatExportSort(sort), cursor.value, cursor.id])).toString('base64url');
+}
+
+// Cursor of a fetched row, used to read the next batch
+export function getRowSortCursor(entityType: EntityType, sort: ExportSort, row: ExportRow): ExportKeysetCursor {
+  const value = (row as unknown as Record<string, unknown>)[getSortField(entityType, sort).column];
+  return { value: normalizeSortValue(value), id: row.id };
+}
+
+// Cursor of an exported record, returned to clients as the next page cursor
+export function getRecordSortCursor(sort: ExportSort, record: ExportRecord, id: number): ExportKeysetCursor {
+  const value = (record as unknown as Record<string, unknown>)[sort.field];
+  return { value: normalizeSortValue(value), id };
+}
+
+/**
+ * Ties on the sort value are broken by id in the same direction, so one
+ * `(column, id)` index serves both directions. Nulls sort last either way,
+ * so `-published_at` lists the newest published rows before any draft.
+ */
+export function buildExportOrderBy(entityType: EntityType, sort: ExportSort | null): Record<string, unknown>[] {
+  if (!sort) {
+    return [{ id: 'asc' }];
+  }
+
+  const field = getSortField(entityType, sort);
+  if (field.type === 'id') {
+    return [{ id: sort.direction }];
+  }
+  const order = field.nullable ? { sort: sort.direction, nulls: 'last' } : sort.direction;
+  return [{ [field.column]: order }, { id: sort.direction }];
+}
+
+// Rows after the cursor in buildExportOrderBy order, where null sorts after every value
+export function buildExportKeysetWhere(
+  entityType: EntityType,
+  sort: ExportSort,
+  cursor: ExportKeysetCursor,
+): Record<string, unknown> {
+  const field = getSortField(entityType, sort);
+  const op = sort.direction === 'desc' ? 'lt' : 'gt';
+  if (field.type === 'id') {
+    return { id: { [op]: cursor.id } };
+  }
+  if (cursor.value === null) {
+    return { [field.column]: null, id: { [op]: cursor.id } };
+  }
+
+  const value = field.type === 'date' ? new Date(cursor.value) : cursor.value;
+  return {
+    OR: [
+      { [field.column]: { [op]: value } },
+      { [field.column]: value, id: { [op]: cursor.id } },
+      ...(field.nullable ? [{ [field.column]: null }] : []),
+    ],
+  };
+}
+
+function getSortField(entityType: EntityType, sort: ExportSort): ExportSortField {
+  const field = EXPORT_SORT_FIELDS[entityType]?.[sort.field];
+  if (!field) {
+    throw new Error(`Unsupported sort ${formatExportSort(sort)} for ${entityType}`);
+  }
+  return field;
+}
+
+function isSortValue(field: ExportSortField, value: unknown): boolean {
+  if (value === null) {
+    return Boolean(field.nullable);
+  }
+  switch (field.type) {
+    case 'id':
+      return Number.isInteger(value);
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    default:
+      return typeof value === 'string';
+  }
+}
+
+function normalizeSortValue(value: unknown): string | number | null {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'string' || typeof value === 'number' ? value : null;
+}
+
+function invalidSort(message: string): HttpException {
+  return new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, { errors: { sort: [message] } });
+}
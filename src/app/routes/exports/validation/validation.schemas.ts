@@ -54,6 +54,27 @@ export const commentFiltersSchema = z
   })
   .strict();
 
+export const tagFiltersSchema = z
+  .object({
+    id: positiveIntSchema.optional(),
+    name: nonEmptyStringSchema.optional(),
+  })
+  .strict();
+
+export const favoriteFiltersSchema = z
+  .object({
+    user_id: positiveIntSchema.optional(),
+    article_id: positiveIntSchema.optional(),
+  })
+  .strict();
+
+export const followFiltersSchema = z
+  .object({
+    follower_id: positiveIntSchema.optional(),
+    following_id: positiveIntSchema.optional(),
+  })
+  .strict();
+
 export const userFieldEnum = z.enum([
   'id',
   'email',
@@ -73,6 +94,7 @@ export const articleFieldEnum = z.enum([
   'tags',
   'published_at',
   'status',
+  'created_at',
 ]);
 
 export const commentFieldEnum = z.enum([
@@ -83,6 +105,31 @@ export const commentFieldEnum = z.enum([
   'created_at',
 ]);
 
+export const tagFieldEnum = z.enum(['id', 'name', 'article_count']);
+
+export const favoriteFieldEnum = z.enum(['user_id', 'article_id']);
+
+export const followFieldEnum = z.enum(['follower_id', 'following_id']);
+
+export function getFieldNames(entityType: EntityType): string[] {
+  switch (entityType) {
+    case 'users':
+      return [...userFieldEnum.options];
+    case 'articles':
+      return [...articleFieldEnum.options];
+    case 'comments':
+      return [...commentFieldEnum.options];
+    case 'tags':
+      return [...tagFieldEnum.options];
+    case 'favorites':
+      return [...favoriteFieldEnum.options];
+    case 'follows':
+      return [...followFieldEnum.options];
+    default:
+      return [];
+  }
+}
+
 export function getFiltersSchema(entityType: EntityType) {
   switch (entityType) {
     case 'users':
@@ -91,6 +138,12 @@ export function getFiltersSchema(entityType: EntityType) {
       return articleFiltersSchema;
     case 'comments':
       return commentFiltersSchema;
+    case 'tags':
+      return tagFiltersSchema;
+    case 'favorites':
+      return favoriteFiltersSchema;
+    case 'follows':
+      return followFiltersSchema;
     default:
       return z.never();
   }
@@ -104,6 +157,12 @@ export function getFieldsSchema(entityType: EntityType) {
       return z.array(articleFieldEnum).min(1);
     case 'comments':
       return z.array(commentFieldEnum).min(1);
+    case 'tags':
+      return z.array(tagFieldEnum).min(1);
+    case 'favorites':
+      return z.array(favoriteFieldEnum).min(1);
+    case 'follows':
+      return z.array(followFieldEnum).min(1);
     default:
       return z.never();
   }
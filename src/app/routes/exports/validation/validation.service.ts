@@ -3,7 +3,7 @@ import { z } from 'zod';
 import HttpException from '../../../models/http-exception.model';
 import { HttpStatusCode } from '../../../models/http-status-code.model';
 import type { EntityType, ExportRecord } from '../../shared/import-export/types';
-import { getFieldsSchema, getFiltersSchema } from './validation.schemas';
+import { getFieldNames, getFieldsSchema, getFiltersSchema } from './validation.schemas';
 
 type ValidationTarget = 'filters' | 'fields';
 
@@ -75,6 +75,14 @@ export function projectExportRecord(
   return projected;
 }
 
+/**
+ * Column order for tabular exports: the requested projection in request order,
+ * or every exportable field of the resource.
+ */
+export function resolveExportColumns(entityType: EntityType, fields: Set<string> | null): string[] {
+  return fields ? Array.from(fields) : getFieldNames(entityType);
+}
+
 function normalizeExportValidationValue(
   entityType: EntityType,
   rawFilters: unknown,
@@ -194,7 +202,7 @@ function normalizeFilterKey(entityType: EntityType, key: string): string {
     return 'created_at';
   }
 
-  return normalized;
+  return normalizeRelationKey(entityType, normalized);
 }
 
 function normalizeFieldKey(entityType: EntityType, key: string): string {
@@ -216,6 +224,9 @@ function normalizeFieldKey(entityType: EntityType, key: string): string {
     if (normalized === 'publishedat') {
       return 'published_at';
     }
+    if (normalized === 'createdat') {
+      return 'created_at';
+    }
   }
 
   if (entityType === 'comments') {
@@ -230,6 +241,33 @@ function normalizeFieldKey(entityType: EntityType, key: string): string {
     }
   }
 
+  if (entityType === 'tags' && normalized === 'articlecount') {
+    return 'article_count';
+  }
+
+  return normalizeRelationKey(entityType, normalized);
+}
+
+// Relationship filters and fields share their names
+function normalizeRelationKey(entityType: EntityType, normalized: string): string {
+  if (entityType === 'favorites') {
+    if (normalized === 'userid') {
+      return 'user_id';
+    }
+    if (normalized === 'articleid') {
+      return 'article_id';
+    }
+  }
+
+  if (entityType === 'follows') {
+    if (normalized === 'followerid') {
+      return 'follower_id';
+    }
+    if (normalized === 'followingid') {
+      return 'following_id';
+    }
+  }
+
   return normalized;
 }
 
@@ -0,0 +1,405 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { createInflateRaw } from 'zlib';
+import { ImportExportError } from './intake.service';
+import { decompressGzipStream, ImportExportParseError } from './parsing.service';
+import { FileErrorCode } from '../shared/import-export/types';
+
+export type ArchiveFormat = 'zip' | 'tar';
+
+export interface ArchiveEntry {
+  // Normalized posix path inside the archive, without a leading `./` or `/`
+  path: string;
+}
+
+/**
+ * Called once per regular file. The handler either consumes `content` to the
+ * end or leaves it untouched; untouched content is skipped.
+ */
+export type ArchiveEntryHandler = (entry: ArchiveEntry, content: Readable) => Promise<void>;
+
+export interface ReadArchiveOptions {
+  // Limit on each entry's uncompressed size
+  maxEntryBytes: number;
+  // Limit on a gzipped tar's uncompressed size, skipped entries included
+  maxArchiveBytes: number;
+}
+
+interface ByteReader {
+  read(length: number): Promise<Buffer | null>;
+  readUpTo(length: number): Promise<Buffer | null>;
+  skip(length: number): Promise<void>;
+}
+
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP_END_MIN_SIZE = 22;
+const ZIP_MAX_COMMENT_SIZE = 0xffff;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATED = 8;
+const TAR_BLOCK_SIZE = 512;
+const TAR_MAGIC_OFFSET = 257;
+const MAX_TAR_METADATA_BYTES = 64 * 1024;
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Detects a zip, tar or gzipped tar from its first bytes. Extensions are not
+ * trusted, since URL imports may have none.
+ */
+export async function detectArchiveFormat(filePath: string): Promise<{ format: ArchiveFormat; gzipped: boolean } | null> {
+  const header = await readFileRange(filePath, 0, TAR_BLOCK_SIZE);
+
+  if (header.length >= 4 && header.readUInt32LE(0) === ZIP_LOCAL_HEADER_SIGNATURE) {
+    return { format: 'zip', gzipped: false };
+  }
+  if (header.length >= 2 && header[0] === 0x1f && header[1] === 0x8b) {
+    return { format: 'tar', gzipped: true };
+  }
+  if (header.length === TAR_BLOCK_SIZE && header.toString('latin1', TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + 5) === 'ustar') {
+    return { format: 'tar', gzipped: false };
+  }
+  return null;
+}
+
+/**
+ * Calls `onEntry` for every regular file of a zip, tar or tar.gz archive, in
+ * archive order. Directories, links and other special entries are skipped.
+ */
+export async function readArchiveEntries(
+  filePath: string,
+  onEntry: ArchiveEntryHandler,
+  options: ReadArchiveOptions,
+): Promise<ArchiveFormat> {
+  const detected = await detectArchiveFormat(filePath);
+  if (!detected) {
+    throw new ImportExportError(FileErrorCode.UNSUPPORTED_FORMAT, 'Bundle must be a zip, tar or tar.gz archive');
+  }
+
+  try {
+    if (detected.format === 'zip') {
+      await readZipEntries(filePath, onEntry, options);
+    } else {
+      const source = createReadStream(filePath);
+      const input = detected.gzipped ? decompressGzipStream(source, options.maxArchiveBytes) : source;
+      try {
+        await readTarEntries(input, onEntry, options);
+      } finally {
+        source.destroy();
+      }
+    }
+  } catch (error) {
+    throw mapArchiveError(error);
+  }
+
+  return detected.format;
+}
+
+async function readZipEntries(filePath: string, onEntry: ArchiveEntryHandler, options: ReadArchiveOptions) {
+  const { size } = await fs.stat(filePath);
+  const tailStart = Math.max(0, size - ZIP_END_MIN_SIZE - ZIP_MAX_COMMENT_SIZE);
+  const tail = await readFileRange(filePath, tailStart, size - tailStart);
+
+  let endOffset = -1;
+  for (let offset = tail.length - ZIP_END_MIN_SIZE; offset >= 0; offset -= 1) {
+    if (tail.readUInt32LE(offset) === ZIP_END_SIGNATURE) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw corruptArchive('zip end of central directory not found');
+  }
+
+  const entryCount = tail.readUInt16LE(endOffset + 10);
+  const directorySize = tail.readUInt32LE(endOffset + 12);
+  const directoryOffset = tail.readUInt32LE(endOffset + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ImportExportError(FileErrorCode.UNSUPPORTED_FORMAT, 'ZIP64 archives are not supported');
+  }
+
+  const directory = await readFileRange(filePath, directoryOffset, directorySize);
+  let offset = 0;
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+      throw corruptArchive('zip central directory is truncated');
+    }
+
+    const flags = directory.readUInt16LE(offset + 8);
+    const method = directory.readUInt16LE(offset + 10);
+    const compressedSize = directory.readUInt32LE(offset + 20);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const localHeaderOffset = directory.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older tools write CP437, which matches for ASCII names
+    const name = directory.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const entryPath = normalizeEntryPath(name);
+    if (!entryPath || name.endsWith('/')) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new ImportExportError(FileErrorCode.UNSUPPORTED_FORMAT, `Encrypted archive entry ${entryPath} is not supported`);
+    }
+    if (method !== ZIP_METHOD_STORED && method !== ZIP_METHOD_DEFLATED) {
+      throw new ImportExportError(
+        FileErrorCode.UNSUPPORTED_FORMAT,
+        `Archive entry ${entryPath} uses an unsupported compression method`,
+      );
+    }
+
+    const localHeader = await readFileRange(filePath, localHeaderOffset, 30);
+    if (localHeader.length < 30 || localHeader.readUInt32LE(0) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+      throw corruptArchive(`zip local header of ${entryPath} not found`);
+    }
+    const dataOffset = localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+
+    const raw =
+      compressedSize > 0
+        ? createReadStream(filePath, { start: dataOffset, end: dataOffset + compressedSize - 1 })
+        : Readable.from([]);
+    let content: Readable = raw;
+    if (method === ZIP_METHOD_DEFLATED) {
+      const inflate = createInflateRaw();
+      raw.on('error', (error) => inflate.destroy(error));
+      content = raw.pipe(inflate);
+    }
+
+    try {
+      await onEntry({ path: entryPath }, limitEntrySize(content, entryPath, options.maxEntryBytes));
+    } finally {
+      raw.destroy();
+    }
+  }
+}
+
+async function readTarEntries(input: Readable, onEntry: ArchiveEntryHandler, options: ReadArchiveOptions) {
+  const reader = createByteReader(input);
+  let longName: string | null = null;
+  let paxPath: string | null = null;
+
+  for (;;) {
+    const header = await reader.read(TAR_BLOCK_SIZE);
+    if (!header || header.every((byte) => byte === 0)) {
+      return;
+    }
+    if (!hasValidTarChecksum(header)) {
+      throw corruptArchive('tar header checksum mismatch');
+    }
+
+    const size = parseTarNumber(header, 124, 12);
+    const padding = (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+    const type = String.fromCharCode(header[156] || 0x30);
+
+    // GNU long names and pax headers describe the entry that follows them
+    if (type === 'L' || type === 'x') {
+      if (size > MAX_TAR_METADATA_BYTES) {
+        throw corruptArchive('tar extended header is too large');
+      }
+      const data = (await reader.read(size + padding)) ?? Buffer.alloc(0);
+      if (type === 'L') {
+        longName = readTarString(data, 0, size);
+      } else {
+        paxPath = parsePaxPath(data.subarray(0, size)) ?? paxPath;
+      }
+      continue;
+    }
+
+    const prefix = header.toString('latin1', TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + 5) === 'ustar'
+      ? readTarString(header, 345, 155)
+      : '';
+    const name = readTarString(header, 0, 100);
+    const entryPath = normalizeEntryPath(paxPath ?? longName ?? (prefix ? `${prefix}/${name}` : name));
+    longName = null;
+    paxPath = null;
+
+    if ((type !== '0' && type !== '7') || !entryPath) {
+      await reader.skip(size + padding);
+      continue;
+    }
+    if (size > options.maxEntryBytes) {
+      throw new ImportExportError(FileErrorCode.FILE_TOO_LARGE, `Archive entry ${entryPath} exceeds size limit`);
+    }
+
+    let remaining = size;
+    const content = Readable.from(
+      (async function* () {
+        while (remaining > 0) {
+          const chunk = await reader.readUpTo(Math.min(remaining, READ_CHUNK_SIZE));
+          if (!chunk) {
+            throw corruptArchive(`tar entry ${entryPath} is truncated`);
+          }
+          remaining -= chunk.length;
+          yield chunk;
+        }
+      })(),
+    );
+
+    await onEntry({ path: entryPath }, content);
+    content.destroy();
+    await reader.skip(remaining + padding);
+  }
+}
+
+/**
+ * Pull-based reader over a stream, so tar headers and entry data can be read
+ * in exact sizes without buffering the archive.
+ */
+function createByteReader(input: Readable): ByteReader {
+  const iterator = input[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+  let chunks: Buffer[] = [];
+  let buffered = 0;
+  let ended = false;
+
+  const fill = async (length: number) => {
+    while (buffered < length && !ended) {
+      const next = await iterator.next();
+      if (next.done) {
+        ended = true;
+      } else {
+        chunks.push(next.value);
+        buffered += next.value.length;
+      }
+    }
+  };
+
+  const take = (length: number): Buffer => {
+    const all = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks);
+    const taken = all.subarray(0, length);
+    const rest = all.subarray(length);
+    chunks = rest.length ? [rest] : [];
+    buffered = rest.length;
+    return taken;
+  };
+
+  return {
+    async read(length) {
+      await fill(length);
+      if (buffered === 0) {
+        return null;
+      }
+      if (buffered < length) {
+        throw corruptArchive('archive is truncated');
+      }
+      return take(length);
+    },
+    async readUpTo(length) {
+      await fill(1);
+      return buffered ? take(Math.min(length, buffered)) : null;
+    },
+    async skip(length) {
+      let remaining = length;
+      while (remaining > 0) {
+        const chunk = await this.readUpTo(Math.min(remaining, READ_CHUNK_SIZE));
+        if (!chunk) {
+          throw corruptArchive('archive is truncated');
+        }
+        remaining -= chunk.length;
+      }
+    },
+  };
+}
+
+function hasValidTarChecksum(header: Buffer): boolean {
+  let sum = 0;
+  for (let index = 0; index < TAR_BLOCK_SIZE; index += 1) {
+    // The checksum field itself counts as spaces
+    sum += index >= 148 && index < 156 ? 0x20 : header[index];
+  }
+  return sum === parseTarNumber(header, 148, 8);
+}
+
+function parseTarNumber(header: Buffer, offset: number, length: number): number {
+  // GNU base-256 encoding, used for sizes that do not fit in octal
+  if (header[offset] & 0x80) {
+    let value = header[offset] & 0x7f;
+    for (let index = 1; index < length; index += 1) {
+      value = value * 256 + header[offset + index];
+    }
+    return value;
+  }
+
+  const text = readTarString(header, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readTarString(buffer: Buffer, offset: number, length: number): string {
+  const end = buffer.indexOf(0, offset);
+  return buffer.toString('utf8', offset, end >= 0 && end < offset + length ? end : offset + length);
+}
+
+function parsePaxPath(data: Buffer): string | null {
+  let offset = 0;
+  let result: string | null = null;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = space > offset ? parseInt(data.toString('latin1', offset, space), 10) : NaN;
+    if (!Number.isFinite(length) || length <= 0) {
+      break;
+    }
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const separator = record.indexOf('=');
+    if (record.slice(0, separator) === 'path') {
+      result = record.slice(separator + 1);
+    }
+    offset += length;
+  }
+
+  return result;
+}
+
+function normalizeEntryPath(name: string): string | null {
+  const normalized = path.posix.normalize(name.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+  if (!normalized || normalized === '.' || normalized.endsWith('/') || normalized.startsWith('../')) {
+    return null;
+  }
+  return normalized;
+}
+
+// Zip headers state the uncompressed size, but a crafted archive can inflate past it
+function limitEntrySize(content: Readable, entryPath: string, maxBytes: number): Readable {
+  let total = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        callback(new ImportExportError(FileErrorCode.FILE_TOO_LARGE, `Archive entry ${entryPath} exceeds size limit`));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+  content.on('error', (error) => limiter.destroy(error));
+  return content.pipe(limiter);
+}
+
+async function readFileRange(filePath: string, start: number, length: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function corruptArchive(reason: string): ImportExportError {
+  return new ImportExportError(FileErrorCode.UNSUPPORTED_FORMAT, `Archive is corrupt: ${reason}`);
+}
+
+function mapArchiveError(error: unknown): unknown {
+  if (error instanceof ImportExportParseError) {
+    return new ImportExportError(error.code, error.message);
+  }
+  // zlib failures carry codes such as Z_DATA_ERROR
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string' && code.startsWith('Z_')) {
+    return corruptArchive('compressed data is invalid');
+  }
+  return error;
+}
@@ -0,0 +1,702 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import type { ImportBundle as ImportBundleRow, Prisma, PrismaClient } from '@prisma/client';
+import prismaClient from '../../../prisma/prisma-client';
+import { createImportStorageAdapter, StorageAdapter, StorageSaveResult } from '../../storage';
+import HttpException from '../../models/http-exception.model';
+import { HttpStatusCode } from '../../models/http-status-code.model';
+import { createLogger } from '../../logger';
+import { loadImportConfig } from './config';
+import { readArchiveEntries } from './archive.service';
+import { writeImportBundleErrorReport } from './error-report.service';
+import {
+  cleanupImportIntake,
+  createWithinImportJobLimits,
+  discardUploadedFile,
+  enforceImportConcurrencyLimits,
+  mapImportCreateError,
+  parseDryRunFlag,
+  parseImportMode,
+  resolveImportFormat,
+  resolveImportIntake,
+  resolveImportOptions,
+  runImportJob,
+} from './import.service';
+import { authorizeImportExport } from '../shared/import-export/authorization.service';
+import { ENTITY_TYPES, EntityType, FileFormat, ImportJobOptions, ImportMode, JobStatus } from '../shared/import-export/types';
+import { isObject, isPrismaUniqueConstraintError } from '../shared/import-export/utils';
+import type {
+  CreateImportBundleOptions,
+  CreateImportBundleResult,
+  GetImportBundleOptions,
+  ImportBundleManifest,
+  ImportBundleManifestFile,
+  ImportIntakeResult,
+  RunImportBundleOptions,
+  RunImportJobResult,
+} from './import.model';
+
+interface ExtractedBundleFile {
+  resource: EntityType;
+  format: FileFormat;
+  options: ImportJobOptions | null;
+  location: string;
+  bytes: number;
+  fileName: string;
+}
+
+interface BundleManifestSource {
+  manifest: ImportBundleManifest;
+  // Archive directory of manifest.json; file paths are relative to it
+  directory: string;
+}
+
+const BUNDLE_JOB_SELECT = {
+  id: true,
+  resource: true,
+  status: true,
+  format: true,
+  fileName: true,
+  totalRecords: true,
+  processedRecords: true,
+  successCount: true,
+  errorCount: true,
+  skippedCount: true,
+  startedAt: true,
+  finishedAt: true,
+} as const;
+
+type BundleJobRow = Prisma.ImportJobGetPayload<{ select: typeof BUNDLE_JOB_SELECT }>;
+
+const MANIFEST_FILE_NAME = 'manifest.json';
+const MAX_MANIFEST_BYTES = 1024 * 1024;
+const CANCELLABLE_STATUSES: string[] = ['queued', 'running'];
+const FINISHED_STATUSES: string[] = ['succeeded', 'partial', 'failed'];
+const logger = createLogger({ component: 'bundle.service' });
+
+/**
+ * Order children run in. Each resource only references ones before it:
+ * articles their authors, comments their article and author, tags the
+ * articles they are on, favorites and follows users and articles.
+ */
+export const BUNDLE_RESOURCE_ORDER: EntityType[] = ['users', 'articles', 'comments', 'tags', 'favorites', 'follows'];
+
+/**
+ * Validates an archive and queues one bundle run for it. Every manifest file
+ * is extracted to its own child import job up front, so a bad manifest or a
+ * missing file is rejected before anything is imported.
+ */
+export async function createImportBundle(options: CreateImportBundleOptions): Promise<CreateImportBundleResult> {
+  const prisma = options.prisma ?? prismaClient;
+  const { createdById, idempotencyKey } = options;
+
+  const existing = await prisma.importBundle.findFirst({
+    where: { createdById, idempotencyKey },
+    include: { jobs: { select: BUNDLE_JOB_SELECT } },
+  });
+  if (existing) {
+    await discardUploadedFile(options.file);
+    logger.info({ event: 'Import bundle request deduplicated', bundleId: existing.id, userId: createdById });
+    return { statusCode: 200, importBundle: serializeImportBundle(existing, existing.jobs) };
+  }
+
+  let dryRun: boolean;
+  let mode: ImportMode;
+  try {
+    dryRun = parseDryRunFlag(options.payload.dryRun);
+    mode = parseImportMode(options.payload.mode);
+    await enforceImportConcurrencyLimits(prisma, createdById);
+  } catch (error) {
+    await discardUploadedFile(options.file);
+    throw error;
+  }
+
+  let intake: ImportIntakeResult;
+  try {
+    intake = await resolveImportIntake(options.file, options.payload, 'archive');
+  } catch (error) {
+    throw mapImportCreateError(error);
+  }
+
+  const { maxFileSize } = loadImportConfig();
+  let files: ExtractedBundleFile[];
+  try {
+    const source = await readImportBundleManifest(intake.location, maxFileSize);
+    const resolved = resolveManifestFiles(source.manifest);
+    for (const file of source.manifest.files) {
+      await authorizeImportExport({ userId: createdById, action: 'import', resource: file.resource, prisma });
+    }
+    files = await extractImportBundleFiles(intake.location, source, resolved, { maxEntryBytes: maxFileSize });
+  } catch (error) {
+    throw mapImportCreateError(error);
+  } finally {
+    await cleanupImportIntake(intake);
+  }
+
+  let bundle: ImportBundleRow & { jobs: BundleJobRow[] };
+  try {
+    bundle = await createWithinImportJobLimits(
+      prisma,
+      createdById,
+      (tx) =>
+        tx.importBundle.create({
+          data: {
+            sourceType: intake.sourceType,
+            fileName: intake.fileName,
+            fileSize: intake.bytes,
+            idempotencyKey,
+            dryRun,
+            mode,
+            createdById,
+            jobs: {
+              create: files.map((file) => ({
+                status: 'queued' as const,
+                resource: file.resource,
+                format: file.format,
+                sourceType: 'bundle' as const,
+                sourceLocation: file.location,
+                fileName: file.fileName,
+                fileSize: file.bytes,
+                options: (file.options ?? undefined) as Prisma.InputJsonValue | undefined,
+                dryRun,
+                mode,
+                createdById,
+              })),
+            },
+          },
+          include: { jobs: { select: BUNDLE_JOB_SELECT } },
+        }),
+      options.redis,
+    );
+  } catch (error) {
+    await removeExtractedFiles(files);
+    if (isPrismaUniqueConstraintError(error)) {
+      const winner = await prisma.importBundle.findFirst({
+        where: { createdById, idempotencyKey },
+        include: { jobs: { select: BUNDLE_JOB_SELECT } },
+      });
+      if (winner) {
+        logger.info({ event: 'Import bundle request deduplicated after create race', bundleId: winner.id, userId: createdById });
+        return { statusCode: 200, importBundle: serializeImportBundle(winner, winner.jobs) };
+      }
+    }
+    throw error;
+  }
+
+  const { enqueueImportBundle } = await import('../../jobs/import-export.queue');
+  try {
+    await enqueueImportBundle({ bundleId: bundle.id });
+  } catch (error) {
+    await markImportBundleEnqueueFailed(prisma, bundle.id);
+    await removeExtractedFiles(files);
+    logger.error({
+      event: 'Import bundle enqueue failed',
+      bundleId: bundle.id,
+      userId: createdById,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw new HttpException(HttpStatusCode.SERVICE_UNAVAILABLE, {
+      errors: { queue: ['failed to enqueue import bundle'] },
+    });
+  }
+
+  logger.info({
+    event: 'Import bundle queued',
+    bundleId: bundle.id,
+    userId: createdById,
+    sourceType: bundle.sourceType,
+    fileSize: bundle.fileSize,
+    resources: sortBundleJobs(bundle.jobs).map((job) => job.resource),
+  });
+
+  return { statusCode: 202, importBundle: serializeImportBundle(bundle, bundle.jobs) };
+}
+
+/**
+ * Runs a bundle's child jobs one at a time in dependency order. Children that
+ * already finished are skipped, so a bundle requeued after a worker crash
+ * resumes where it stopped. A failed or cancelled child stops the bundle and
+ * cancels the children after it, since they may reference its records.
+ */
+export async function runImportBundle(bundleId: string, options: RunImportBundleOptions = {}) {
+  const prisma = options.prisma ?? prismaClient;
+  const now = options.now ?? (() => new Date());
+  const runJob = options.runJob ?? ((jobId: string) => runImportJob(jobId, { prisma, now }));
+
+  const bundle = await prisma.importBundle.findUnique({ where: { id: bundleId } });
+  if (!bundle) {
+    throw new Error(`Import bundle ${bundleId} not found`);
+  }
+  if (FINISHED_STATUSES.includes(bundle.status) || (bundle.status === 'cancelled' && bundle.finishedAt)) {
+    return { status: bundle.status };
+  }
+
+  if (bundle.status === 'queued') {
+    await prisma.importBundle.updateMany({
+      where: { id: bundleId, status: 'queued' },
+      data: { status: 'running', startedAt: now() },
+    });
+  }
+
+  const jobs = sortBundleJobs(await prisma.importJob.findMany({ where: { bundleId }, select: BUNDLE_JOB_SELECT }));
+  let stoppedBy: JobStatus | null = null;
+
+  for (const job of jobs) {
+    if (await bundleIsCancelled(prisma, bundleId)) {
+      stoppedBy = 'cancelled';
+      break;
+    }
+
+    let status = job.status as JobStatus;
+    if (status === 'queued' || status === 'running') {
+      const result: RunImportJobResult = await runJob(job.id);
+      status = result.status;
+    }
+    await refreshBundleCounters(prisma, bundleId);
+
+    if (status === 'queued' || status === 'running') {
+      // Another worker holds the child's lease. When it expires, the lease
+      // reaper requeues this bundle rather than the child.
+      logger.info({ event: 'Import bundle waiting on child job lease', bundleId, jobId: job.id });
+      return { status: 'running' as const };
+    }
+    if (status === 'failed' || status === 'cancelled') {
+      stoppedBy = status;
+      break;
+    }
+  }
+
+  const finishedAt = now();
+  if (stoppedBy) {
+    await prisma.importJob.updateMany({
+      where: { bundleId, status: 'queued' },
+      data: { status: 'cancelled', finishedAt },
+    });
+  }
+
+  const children = await prisma.importJob.findMany({ where: { bundleId }, select: { status: true } });
+  const status = resolveBundleStatus(await bundleIsCancelled(prisma, bundleId), stoppedBy, children);
+  const counters = await refreshBundleCounters(prisma, bundleId, { status, finishedAt });
+
+  logger.info({
+    event: 'Import bundle finished',
+    bundleId,
+    status,
+    jobs: children.length,
+    ...counters,
+  });
+
+  return { status, ...counters };
+}
+
+export async function getImportBundle(options: GetImportBundleOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const bundle = await findUserBundle(prisma, options.bundleId, options.createdById);
+  return { importBundle: serializeImportBundle(bundle, bundle.jobs) };
+}
+
+/**
+ * Cancels the bundle and its unfinished children. The running child, like a
+ * cancelled single job, stops at its next cancellation check.
+ */
+export async function cancelImportBundle(options: GetImportBundleOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const now = options.now ?? (() => new Date());
+  const bundle = await findUserBundle(prisma, options.bundleId, options.createdById);
+
+  if (bundle.status === 'cancelled') {
+    return { importBundle: serializeImportBundle(bundle, bundle.jobs) };
+  }
+  if (!CANCELLABLE_STATUSES.includes(bundle.status)) {
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { bundle: [`import bundle cannot be cancelled in status ${bundle.status}`] },
+    });
+  }
+
+  const cancelledAt = now();
+  const result = await prisma.importBundle.updateMany({
+    where: { id: bundle.id, status: bundle.status },
+    data: { status: 'cancelled', ...(bundle.status === 'queued' ? { finishedAt: cancelledAt } : {}) },
+  });
+  if (!result.count) {
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { bundle: ['import bundle finished before it could be cancelled'] },
+    });
+  }
+
+  await prisma.importJob.updateMany({
+    where: { bundleId: bundle.id, status: 'queued' },
+    data: { status: 'cancelled', finishedAt: cancelledAt },
+  });
+  await prisma.importJob.updateMany({
+    where: { bundleId: bundle.id, status: 'running' },
+    data: { status: 'cancelled' },
+  });
+
+  const removedFromQueue = bundle.status === 'queued' ? await removeQueuedImportBundle(bundle.id) : false;
+  logger.info({
+    event: 'Import bundle cancelled',
+    bundleId: bundle.id,
+    userId: options.createdById,
+    previousStatus: bundle.status,
+    removedFromQueue,
+  });
+
+  const cancelled = await findUserBundle(prisma, bundle.id, options.createdById);
+  return { importBundle: serializeImportBundle(cancelled, cancelled.jobs) };
+}
+
+/**
+ * The combined report is written from the children's error rows when it is
+ * downloaded, so it includes the errors of a bundle that is still running.
+ */
+export async function getImportBundleErrorReport(options: GetImportBundleOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const bundle = await findUserBundle(prisma, options.bundleId, options.createdById);
+  const jobs = sortBundleJobs(bundle.jobs);
+
+  return {
+    contentType: 'application/x-ndjson',
+    contentDisposition: `attachment; filename="${bundle.id}-errors.ndjson"`,
+    write: (output: Writable) => writeImportBundleErrorReport(jobs, output, { prisma }),
+  };
+}
+
+export function serializeImportBundle(bundle: ImportBundleRow, jobs: BundleJobRow[]) {
+  return {
+    id: bundle.id,
+    status: bundle.status,
+    fileName: bundle.fileName,
+    fileSize: bundle.fileSize,
+    idempotencyKey: bundle.idempotencyKey,
+    mode: bundle.mode,
+    dryRun: bundle.dryRun,
+    processedRecords: bundle.processedRecords,
+    successCount: bundle.successCount,
+    errorCount: bundle.errorCount,
+    skippedCount: bundle.skippedCount,
+    createdAt: bundle.createdAt,
+    startedAt: bundle.startedAt,
+    completedAt: bundle.finishedAt,
+    errorReportUrl: bundle.errorCount > 0 ? buildBundleErrorReportDownloadUrl(bundle.id) : null,
+    jobs: sortBundleJobs(jobs).map((job) => ({
+      id: job.id,
+      entityType: job.resource,
+      status: job.status,
+      format: job.format,
+      fileName: job.fileName,
+      totalRecords: job.totalRecords,
+      processedRecords: job.processedRecords,
+      successCount: job.successCount,
+      errorCount: job.errorCount,
+      skippedCount: job.skippedCount,
+      startedAt: job.startedAt,
+      completedAt: job.finishedAt,
+    })),
+  };
+}
+
+/**
+ * Parses `manifest.json`: `{ "files": [{ "resource", "path", ...options }] }`,
+ * at most one file per resource. Options are those of a single-resource
+ * import: `format`, `delimiter`, `listDelimiter`, `mapping` and `sourceSystem`.
+ * A top-level `sourceSystem` applies to every file that does not set its own.
+ */
+export function parseImportBundleManifest(text: string): ImportBundleManifest {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw manifestError(['manifest.json is not valid JSON']);
+  }
+
+  if (!isObject(value) || !Array.isArray(value.files) || !value.files.length) {
+    throw manifestError(['manifest.json must list at least one file under files']);
+  }
+
+  const messages: string[] = [];
+  const files: ImportBundleManifestFile[] = [];
+  const seen = new Set<string>();
+  const defaultSourceSystem = value.sourceSystem;
+
+  value.files.forEach((entry: unknown, index: number) => {
+    const label = `files[${index}]`;
+    if (!isObject(entry)) {
+      messages.push(`${label} must be an object`);
+      return;
+    }
+
+    const { resource, path: filePath, ...options } = entry;
+    if (typeof resource !== 'string' || !(ENTITY_TYPES as string[]).includes(resource)) {
+      messages.push(`${label}.resource must be one of ${ENTITY_TYPES.join(', ')}`);
+    } else if (seen.has(resource)) {
+      messages.push(`${label}.resource ${resource} is listed more than once`);
+    }
+
+    const normalized = typeof filePath === 'string' ? path.posix.normalize(filePath.trim()) : '';
+    if (!normalized || normalized === '.') {
+      messages.push(`${label}.path is required`);
+    } else if (normalized.startsWith('/') || normalized === '..' || normalized.startsWith('../')) {
+      messages.push(`${label}.path must be relative to manifest.json`);
+    }
+
+    if (typeof resource === 'string') {
+      seen.add(resource);
+    }
+    files.push({
+      resource: resource as EntityType,
+      path: normalized.replace(/^\.\//, ''),
+      options: {
+        format: typeof options.format === 'string' ? options.format : undefined,
+        delimiter: options.delimiter as string | undefined,
+        listDelimiter: options.listDelimiter as string | undefined,
+        mapping: options.mapping,
+        sourceSystem: (options.sourceSystem ?? defaultSourceSystem) as string | undefined,
+      },
+    });
+  });
+
+  if (messages.length) {
+    throw manifestError(messages);
+  }
+  return { files };
+}
+
+/**
+ * Finds and parses the archive's manifest. With several, the one closest to
+ * the archive root wins, so an archive of a single top-level folder works.
+ */
+async function readImportBundleManifest(location: string, maxEntryBytes: number): Promise<BundleManifestSource> {
+  let found: { path: string; text: string } | null = null;
+
+  await readArchiveEntries(
+    location,
+    async (entry, content) => {
+      if (path.posix.basename(entry.path) !== MANIFEST_FILE_NAME) {
+        return;
+      }
+      if (found && entryDepth(found.path) <= entryDepth(entry.path)) {
+        return;
+      }
+      found = { path: entry.path, text: await readManifestText(content) };
+    },
+    { maxEntryBytes, maxArchiveBytes: archiveByteLimit(maxEntryBytes) },
+  );
+
+  const manifest: { path: string; text: string } | null = found;
+  if (!manifest) {
+    throw manifestError([`archive has no ${MANIFEST_FILE_NAME}`]);
+  }
+
+  const directory = path.posix.dirname(manifest.path);
+  return { manifest: parseImportBundleManifest(manifest.text), directory: directory === '.' ? '' : directory };
+}
+
+function resolveManifestFiles(manifest: ImportBundleManifest): Map<EntityType, Pick<ExtractedBundleFile, 'format' | 'options'>> {
+  const resolved = new Map<EntityType, Pick<ExtractedBundleFile, 'format' | 'options'>>();
+  const messages: string[] = [];
+
+  manifest.files.forEach((file, index) => {
+    try {
+      const format = resolveImportFormat(file.options.format, file.path);
+      resolved.set(file.resource, { format, options: resolveImportOptions(file.options, format) });
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+      messages.push(...collectErrorMessages(error).map((message) => `files[${index}]: ${message}`));
+    }
+  });
+
+  if (messages.length) {
+    throw manifestError(messages);
+  }
+  return resolved;
+}
+
+async function extractImportBundleFiles(
+  location: string,
+  source: BundleManifestSource,
+  resolved: Map<EntityType, Pick<ExtractedBundleFile, 'format' | 'options'>>,
+  options: { maxEntryBytes: number; storage?: StorageAdapter },
+): Promise<ExtractedBundleFile[]> {
+  const storage = options.storage ?? createImportStorageAdapter();
+  const wanted = new Map(
+    source.manifest.files.map((file) => [source.directory ? `${source.directory}/${file.path}` : file.path, file]),
+  );
+  const extracted = new Map<string, ExtractedBundleFile>();
+
+  try {
+    await readArchiveEntries(
+      location,
+      async (entry, content) => {
+        const file = wanted.get(entry.path);
+        if (!file || extracted.has(entry.path)) {
+          return;
+        }
+        const key = `${randomUUID()}${path.extname(entry.path)}`;
+        let saved: StorageSaveResult;
+        try {
+          saved = await storage.saveStream(key, content);
+        } catch (error) {
+          // An entry cut off at the size limit leaves the part written so far
+          await storage.delete(key).catch(() => undefined);
+          throw error;
+        }
+        extracted.set(entry.path, {
+          resource: file.resource,
+          format: resolved.get(file.resource)?.format ?? 'ndjson',
+          options: resolved.get(file.resource)?.options ?? null,
+          location: saved.location,
+          bytes: saved.bytes,
+          fileName: path.posix.basename(entry.path),
+        });
+      },
+      { maxEntryBytes: options.maxEntryBytes, maxArchiveBytes: archiveByteLimit(options.maxEntryBytes) },
+    );
+  } catch (error) {
+    await removeExtractedFiles([...extracted.values()]);
+    throw error;
+  }
+
+  const missing = source.manifest.files
+    .map((file, index) => ({ file, index }))
+    .filter(({ file }) => !extracted.has(source.directory ? `${source.directory}/${file.path}` : file.path));
+  if (missing.length) {
+    await removeExtractedFiles([...extracted.values()]);
+    throw manifestError(missing.map(({ file, index }) => `files[${index}].path ${file.path} is not in the archive`));
+  }
+
+  return [...extracted.values()];
+}
+
+async function readManifestText(content: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  for await (const chunk of content) {
+    bytes += chunk.length;
+    if (bytes > MAX_MANIFEST_BYTES) {
+      content.destroy();
+      throw manifestError([`${MANIFEST_FILE_NAME} exceeds ${MAX_MANIFEST_BYTES} bytes`]);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// A gzipped tar holds at most one file per resource plus the manifest
+function archiveByteLimit(maxEntryBytes: number): number {
+  return maxEntryBytes * (ENTITY_TYPES.length + 1);
+}
+
+function entryDepth(entryPath: string): number {
+  return entryPath.split('/').length;
+}
+
+export function sortBundleJobs<T extends { resource: string }>(jobs: T[]): T[] {
+  const rank = (job: T) => BUNDLE_RESOURCE_ORDER.indexOf(job.resource as EntityType);
+  return [...jobs].sort((a, b) => rank(a) - rank(b));
+}
+
+function resolveBundleStatus(
+  cancelled: boolean,
+  stoppedBy: JobStatus | null,
+  children: { status: string }[],
+): JobStatus {
+  if (cancelled || stoppedBy === 'cancelled') {
+    return 'cancelled';
+  }
+  if (stoppedBy === 'failed') {
+    return 'failed';
+  }
+  return children.some((child) => child.status === 'partial') ? 'partial' : 'succeeded';
+}
+
+async function refreshBundleCounters(
+  prisma: PrismaClient,
+  bundleId: string,
+  data: Prisma.ImportBundleUpdateInput = {},
+) {
+  const totals = await prisma.importJob.aggregate({
+    where: { bundleId },
+    _sum: { processedRecords: true, successCount: true, errorCount: true, skippedCount: true },
+  });
+  const counters = {
+    processedRecords: totals._sum.processedRecords ?? 0,
+    successCount: totals._sum.successCount ?? 0,
+    errorCount: totals._sum.errorCount ?? 0,
+    skippedCount: totals._sum.skippedCount ?? 0,
+  };
+  await prisma.importBundle.update({ where: { id: bundleId }, data: { ...counters, ...data } });
+  return counters;
+}
+
+async function bundleIsCancelled(prisma: PrismaClient, bundleId: string): Promise<boolean> {
+  const bundle = await prisma.importBundle.findUnique({ where: { id: bundleId }, select: { status: true } });
+  return bundle?.status === 'cancelled';
+}
+
+async function findUserBundle(prisma: PrismaClient, bundleId: string, createdById: number) {
+  const bundle = await prisma.importBundle.findFirst({
+    where: { id: bundleId, createdById },
+    include: { jobs: { select: BUNDLE_JOB_SELECT } },
+  });
+  if (!bundle) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { bundle: ['import bundle not found'] } });
+  }
+  return bundle;
+}
+
+async function removeExtractedFiles(files: Pick<ExtractedBundleFile, 'location'>[]): Promise<void> {
+  for (const file of files) {
+    await cleanupImportIntake(file);
+  }
+}
+
+async function removeQueuedImportBundle(bundleId: string): Promise<boolean> {
+  try {
+    const { IMPORT_BUNDLE_JOB_NAME, removeQueuedJob } = await import('../../jobs/import-export.queue');
+    return await removeQueuedJob(IMPORT_BUNDLE_JOB_NAME, bundleId);
+  } catch (error) {
+    // A bundle run that finds its bundle cancelled returns without importing
+    logger.warn({
+      event: 'Import bundle queue job removal failed',
+      bundleId,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+async function markImportBundleEnqueueFailed(prisma: PrismaClient, bundleId: string): Promise<void> {
+  const finishedAt = new Date();
+  try {
+    await prisma.importBundle.update({ where: { id: bundleId }, data: { status: 'failed', finishedAt } });
+    await prisma.importJob.updateMany({ where: { bundleId }, data: { status: 'failed', finishedAt } });
+  } catch (error) {
+    logger.warn({
+      event: 'Import bundle enqueue failure status update failed',
+      bundleId,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function buildBundleErrorReportDownloadUrl(bundleId: string): string {
+  const baseUrl = process.env.IMPORT_ERROR_REPORT_DOWNLOAD_BASE_URL?.replace(/\/$/, '');
+  const pathSuffix = `/api/v1/imports/bundles/${bundleId}/errors/download`;
+  return baseUrl ? `${baseUrl}${pathSuffix}` : pathSuffix;
+}
+
+function collectErrorMessages(error: HttpException): string[] {
+  const errors = isObject(error.message) && isObject(error.message.errors) ? error.message.errors : {};
+  return Object.values(errors).flatMap((messages) => (Array.isArray(messages) ? messages.map(String) : []));
+}
+
+function manifestError(messages: string[]): HttpException {
+  return new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, { errors: { manifest: messages } });
+}
@@ -1,9 +1,13 @@
-import { PassThrough } from 'stream';
+import { once } from 'events';
+import { PassThrough, Writable } from 'stream';
 import path from 'path';
-import type { PrismaClient } from '@prisma/client';
+import type { Prisma, PrismaClient } from '@prisma/client';
 import prismaClient from '../../../prisma/prisma-client';
 import { createErrorReportStorageAdapter, StorageAdapter } from '../../storage';
-import { FileFormat } from '../shared/import-export/types';
+import { formatCsvRecord, formatCsvRow } from '../exports/csv.service';
+import { ERROR_BREAKDOWN_GROUP_LIMIT } from '../shared/import-export/config';
+import { FileFormat, ImportErrorBreakdown } from '../shared/import-export/types';
+import { isObject } from '../shared/import-export/utils';
 
 export interface GenerateImportErrorReportOptions {
   prisma?: PrismaClient;
@@ -21,7 +25,78 @@ export interface GenerateImportErrorReportResult {
   errorCount: number;
 }
 
+export interface GenerateImportRejectsOptions {
+  prisma?: PrismaClient;
+  storage?: StorageAdapter;
+  format: FileFormat;
+  // CSV field delimiter of the source, reused so the file re-imports with the same options
+  delimiter?: string;
+  pageSize?: number;
+  key?: string;
+}
+
+export interface GenerateImportRejectsResult {
+  key: string;
+  location: string;
+  bytes: number;
+  format: FileFormat;
+  recordCount: number;
+}
+
+export interface WriteImportBundleErrorReportOptions {
+  prisma?: PrismaClient;
+  pageSize?: number;
+}
+
+export interface SummarizeImportErrorsOptions {
+  prisma?: PrismaClient;
+  // Groups kept for byField and topValues; byCode is bounded by the error codes
+  limit?: number;
+}
+
+export interface ImportErrorRow {
+  recordIndex: number;
+  recordId: string | null;
+  errorCode: number;
+  errorName: string;
+  message: string;
+  field: string | null;
+  value: Prisma.JsonValue | null;
+  details: Prisma.JsonValue | null;
+  createdAt: Date;
+}
+
 const DEFAULT_PAGE_SIZE = 1000;
+const MAX_BREAKDOWN_VALUE_LENGTH = 200;
+// Imports ignore fields they do not know, so a fixed rejects file can be re-uploaded as is
+export const REJECTS_ERRORS_FIELD = '_errors';
+
+export const IMPORT_ERROR_SELECT = {
+  id: true,
+  recordIndex: true,
+  recordId: true,
+  errorCode: true,
+  errorName: true,
+  message: true,
+  field: true,
+  value: true,
+  details: true,
+  createdAt: true,
+} as const;
+
+export function serializeImportError(error: ImportErrorRow) {
+  return {
+    recordIndex: error.recordIndex,
+    recordId: error.recordId,
+    errorCode: error.errorCode,
+    errorName: error.errorName,
+    message: error.message,
+    field: error.field,
+    value: error.value,
+    details: error.details,
+    createdAt: error.createdAt,
+  };
+}
 
 export async function generateImportErrorReport(
   jobId: string,
@@ -51,18 +126,7 @@ export async function generateImportErrorReport(
       orderBy: { id: 'asc' },
       take: pageSize,
       ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
-      select: {
-        id: true,
-        recordIndex: true,
-        recordId: true,
-        errorCode: true,
-        errorName: true,
-        message: true,
-        field: true,
-        value: true,
-        details: true,
-        createdAt: true,
-      },
+      select: IMPORT_ERROR_SELECT,
     });
 
     if (!batch.length) {
@@ -70,18 +134,7 @@ export async function generateImportErrorReport(
     }
 
     for (const error of batch) {
-      const payload = {
-        recordIndex: error.recordIndex,
-        recordId: error.recordId,
-        errorCode: error.errorCode,
-        errorName: error.errorName,
-        message: error.message,
-        field: error.field,
-        value: error.value,
-        details: error.details,
-        createdAt: error.createdAt,
-      };
-      const chunk = JSON.stringify(payload);
+      const chunk = JSON.stringify(serializeImportError(error));
       if (format === 'ndjson') {
         stream.write(`${chunk}\n`);
       } else {
@@ -111,3 +164,230 @@ export async function generateImportErrorReport(
     errorCount: total,
   };
 }
+
+/**
+ * Writes the kept source record of every failed record, in the source format
+ * and recordIndex order, with its errors under `_errors` (a JSON cell for CSV).
+ * Returns null, and keeps no file, when the job kept no failed records.
+ */
+export async function generateImportRejectsFile(
+  jobId: string,
+  options: GenerateImportRejectsOptions,
+): Promise<GenerateImportRejectsResult | null> {
+  const prisma = options.prisma ?? prismaClient;
+  const storage = options.storage ?? createErrorReportStorageAdapter();
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const format = options.format;
+  const key = options.key ?? path.posix.join('import-rejects', `${jobId}.${format}`);
+
+  const stream = new PassThrough();
+  const savePromise = storage.saveStream(key, stream);
+
+  let lastIndex = -1;
+  let columns: string[] | null = null;
+  let total = 0;
+
+  try {
+    if (format === 'json') {
+      stream.write('[');
+    }
+
+    for (;;) {
+      const batch = await prisma.importFailedRecord.findMany({
+        where: { jobId, recordIndex: { gt: lastIndex } },
+        orderBy: { recordIndex: 'asc' },
+        take: pageSize,
+        select: { recordIndex: true, record: true },
+      });
+      if (!batch.length) {
+        break;
+      }
+      lastIndex = batch[batch.length - 1].recordIndex;
+      const errors = await loadRecordErrors(prisma, jobId, batch.map((failed) => failed.recordIndex));
+
+      for (const failed of batch) {
+        const recordErrors = errors.get(failed.recordIndex) ?? [];
+        const source = isObject(failed.record) ? failed.record : { record: failed.record };
+
+        if (format === 'csv') {
+          const row = { ...source, [REJECTS_ERRORS_FIELD]: JSON.stringify(recordErrors) };
+          if (!columns) {
+            columns = [...new Set([...Object.keys(source), REJECTS_ERRORS_FIELD])];
+            stream.write(formatCsvRow(columns, options.delimiter));
+          }
+          stream.write(formatCsvRecord(row, columns, options.delimiter));
+        } else {
+          const chunk = JSON.stringify({ ...source, [REJECTS_ERRORS_FIELD]: recordErrors });
+          stream.write(format === 'ndjson' ? `${chunk}\n` : `${total ? ',' : ''}${chunk}`);
+        }
+        total += 1;
+      }
+    }
+
+    if (format === 'json') {
+      stream.write(']');
+    }
+  } catch (error) {
+    stream.end();
+    await savePromise.catch(() => undefined);
+    await storage.delete(key);
+    throw error;
+  }
+  stream.end();
+
+  const saved = await savePromise;
+  if (!total) {
+    await storage.delete(saved.key);
+    return null;
+  }
+
+  return {
+    key: saved.key,
+    location: saved.location,
+    bytes: saved.bytes,
+    format,
+    recordCount: total,
+  };
+}
+
+/**
+ * Writes the errors of a bundle's child jobs as one NDJSON report, job by job
+ * in the order given, each line tagged with its `resource` and `jobId`. The
+ * report is read from the children's error rows on every download, so it
+ * expires with them. Returns the number of errors written.
+ */
+export async function writeImportBundleErrorReport(
+  jobs: { id: string; resource: string }[],
+  output: Writable,
+  options: WriteImportBundleErrorReportOptions = {},
+): Promise<number> {
+  const prisma = options.prisma ?? prismaClient;
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  let total = 0;
+
+  for (const job of jobs) {
+    let cursor: string | null = null;
+    for (;;) {
+      const batch: (ImportErrorRow & { id: string })[] = await prisma.importError.findMany({
+        where: { jobId: job.id },
+        orderBy: { id: 'asc' },
+        take: pageSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: IMPORT_ERROR_SELECT,
+      });
+      if (!batch.length) {
+        break;
+      }
+
+      for (const error of batch) {
+        const line = JSON.stringify({ resource: job.resource, jobId: job.id, ...serializeImportError(error) });
+        if (!output.write(`${line}\n`)) {
+          await once(output, 'drain');
+        }
+        total += 1;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Groups a job's errors by code, by field and by offending value, largest
+ * group first, so the few problems behind a large errorCount show without
+ * downloading the report.
+ */
+export async function summarizeImportErrors(
+  jobId: string,
+  options: SummarizeImportErrorsOptions = {},
+): Promise<ImportErrorBreakdown> {
+  const prisma = options.prisma ?? prismaClient;
+  const limit = options.limit ?? ERROR_BREAKDOWN_GROUP_LIMIT;
+
+  const byCode = await prisma.importError.groupBy({
+    by: ['errorCode', 'errorName'],
+    where: { jobId },
+    _count: { _all: true },
+    _min: { recordIndex: true },
+    _max: { recordIndex: true },
+  });
+  const byField = await prisma.importError.groupBy({
+    by: ['field'],
+    where: { jobId },
+    _count: { _all: true },
+    _min: { recordIndex: true },
+    _max: { recordIndex: true },
+    orderBy: [{ _count: { recordIndex: 'desc' } }, { field: 'asc' }],
+    take: limit,
+  });
+  // Prisma cannot group by a Json column, so the values are grouped in SQL
+  const topValues = await prisma.$queryRaw<
+    { field: string | null; value: Prisma.JsonValue; count: number; firstRecordIndex: number; lastRecordIndex: number }[]
+  >`
+    SELECT "field", "value", COUNT(*)::int AS "count",
+      MIN("recordIndex") AS "firstRecordIndex", MAX("recordIndex") AS "lastRecordIndex"
+    FROM "ImportError"
+    WHERE "jobId" = ${jobId} AND "value" IS NOT NULL
+    GROUP BY "field", "value"
+    ORDER BY "count" DESC, "firstRecordIndex" ASC
+    LIMIT ${limit}
+  `;
+
+  return {
+    byCode: byCode
+      .map((group) => ({
+        errorCode: group.errorCode,
+        errorName: group.errorName,
+        ...toGroupStats(group),
+      }))
+      .sort((a, b) => b.count - a.count || a.errorCode - b.errorCode),
+    byField: byField.map((group) => ({ field: group.field, ...toGroupStats(group) })),
+    topValues: topValues.map((group) => ({
+      field: group.field,
+      value: truncateBreakdownValue(group.value),
+      count: Number(group.count),
+      firstRecordIndex: group.firstRecordIndex,
+      lastRecordIndex: group.lastRecordIndex,
+    })),
+  };
+}
+
+function toGroupStats(group: {
+  _count: { _all: number };
+  _min: { recordIndex: number | null };
+  _max: { recordIndex: number | null };
+}) {
+  return {
+    count: group._count._all,
+    firstRecordIndex: group._min.recordIndex ?? -1,
+    lastRecordIndex: group._max.recordIndex ?? -1,
+  };
+}
+
+function truncateBreakdownValue(value: Prisma.JsonValue): Prisma.JsonValue {
+  if (typeof value === 'string' && value.length > MAX_BREAKDOWN_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_BREAKDOWN_VALUE_LENGTH)}…`;
+  }
+  return value;
+}
+
+async function loadRecordErrors(
+  prisma: PrismaClient,
+  jobId: string,
+  recordIndexes: number[],
+): Promise<Map<number, { code: number; field: string | null; message: string }[]>> {
+  const rows = await prisma.importError.findMany({
+    where: { jobId, recordIndex: { in: recordIndexes } },
+    orderBy: [{ recordIndex: 'asc' }, { id: 'asc' }],
+    select: { recordIndex: true, errorCode: true, field: true, message: true },
+  });
+
+  const errors = new Map<number, { code: number; field: string | null; message: string }[]>();
+  for (const row of rows) {
+    const entries = errors.get(row.recordIndex) ?? [];
+    entries.push({ code: row.errorCode, field: row.field, message: row.message });
+    errors.set(row.recordIndex, entries);
+  }
+  return errors;
+}
@@ -0,0 +1,64 @@
+import prismaClient from '../../../prisma/prisma-client';
+import { authorizeImportExport } from '../shared/import-export/authorization.service';
+import { ListExternalIdMappingsOptions, SaveExternalIdMappingsOptions } from './import.model';
+
+/**
+ * Records which row each external id was imported as. A later write of the same
+ * external id replaces the mapping, so re-pointing a feed at a recreated row works.
+ */
+export async function saveExternalIdMappings(options: SaveExternalIdMappingsOptions): Promise<void> {
+  const prisma = options.prisma ?? prismaClient;
+  const { sourceSystem, entityType } = options;
+  const internalIds = new Map(options.mappings.map((mapping) => [mapping.externalId, mapping.internalId]));
+  if (!internalIds.size) {
+    return;
+  }
+
+  await prisma.$transaction(
+    [...internalIds].map(([externalId, internalId]) =>
+      prisma.externalIdMapping.upsert({
+        where: { sourceSystem_resource_externalId: { sourceSystem, resource: entityType, externalId } },
+        create: { sourceSystem, resource: entityType, externalId, internalId },
+        update: { internalId },
+      }),
+    ),
+  );
+}
+
+/**
+ * Lists the external ids a source system mapped for a resource, optionally only
+ * the given external or internal ids. Mappings are shared by every importer of
+ * the resource, so anyone allowed to import it may read them.
+ */
+export async function listExternalIdMappings(options: ListExternalIdMappingsOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const { query } = options;
+  await authorizeImportExport({ userId: options.createdById, action: 'import', resource: query.entityType, prisma });
+
+  const rows = await prisma.externalIdMapping.findMany({
+    where: {
+      sourceSystem: query.sourceSystem,
+      resource: query.entityType,
+      externalId: {
+        ...(query.externalIds ? { in: query.externalIds } : {}),
+        ...(query.cursor ? { gt: query.cursor } : {}),
+      },
+      ...(query.internalIds ? { internalId: { in: query.internalIds } } : {}),
+    },
+    orderBy: { externalId: 'asc' },
+    take: query.limit + 1,
+  });
+
+  const page = rows.slice(0, query.limit);
+  return {
+    externalIds: page.map((row) => ({
+      sourceSystem: row.sourceSystem,
+      entityType: row.resource,
+      externalId: row.externalId,
+      internalId: row.internalId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    })),
+    nextCursor: rows.length > query.limit ? page[page.length - 1]?.externalId ?? null : null,
+  };
+}
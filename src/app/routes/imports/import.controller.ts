@@ -6,19 +6,39 @@ import auth from '../auth/auth';
 import { createImportUploadMiddleware, ImportExportError, UploadedFile } from './intake.service';
 import {
   AuthenticatedRequest,
+  isObject,
+  parseExternalIdListQuery,
+  parseJobListQuery,
+  parseRecordErrorListQuery,
   requireIdempotencyKey,
   requireUserId,
 } from '../shared/import-export/utils';
 import { FileErrorCode } from '../shared/import-export/types';
+import { loadJobProgressConfig } from '../shared/import-export/config';
+import { streamJobProgressEvents } from '../shared/import-export/progress.service';
 import {
+  cancelImportJob,
   createImportJob,
   getErrorReportFileMetadata,
+  getImportJobProgress,
   getImportJobStatus,
   getImportPayload,
+  getRejectsFileMetadata,
+  listImportErrors,
+  listImportJobs,
+  retryFailedImportRecords,
 } from './import.service';
+import {
+  cancelImportBundle,
+  createImportBundle,
+  getImportBundle,
+  getImportBundleErrorReport,
+} from './bundle.service';
+import { listExternalIdMappings } from './external-id.service';
 
 const router = Router();
 const importUploadMiddleware = createImportUploadMiddleware('file');
+const bundleUploadMiddleware = createImportUploadMiddleware('file', 'archive');
 
 interface ImportRequest extends AuthenticatedRequest {
   file?: UploadedFile;
@@ -97,6 +117,119 @@ router.post(
   },
 );
 
+router.post(
+  '/v1/imports/bundles',
+  auth.required,
+  (req: ImportRequest, res: Response, next: NextFunction) => {
+    bundleUploadMiddleware(req, res, (error: unknown) => {
+      if (!error) {
+        next();
+        return;
+      }
+      next(mapImportUploadError(error));
+    });
+  },
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const result = await createImportBundle({
+        createdById,
+        payload: isObject(req.body) ? req.body : {},
+        file: req.file,
+        idempotencyKey: requireIdempotencyKey(req),
+      });
+
+      res.status(result.statusCode).json({ importBundle: result.importBundle });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/v1/imports/bundles/:bundleId',
+  auth.required,
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const result = await getImportBundle({ bundleId: req.params.bundleId, createdById });
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/v1/imports/bundles/:bundleId/cancel',
+  auth.required,
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const result = await cancelImportBundle({ bundleId: req.params.bundleId, createdById });
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/v1/imports/bundles/:bundleId/errors/download',
+  auth.required,
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const report = await getImportBundleErrorReport({ bundleId: req.params.bundleId, createdById });
+
+      res.setHeader('Content-Type', report.contentType);
+      res.setHeader('Content-Disposition', report.contentDisposition);
+      await report.write(res);
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/v1/imports/external-ids',
+  auth.required,
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const result = await listExternalIdMappings({
+        createdById,
+        query: parseExternalIdListQuery(req.query as Record<string, unknown>),
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get('/v1/imports', auth.required, async (req: ImportRequest, res: Response, next: NextFunction) => {
+  try {
+    const createdById = requireUserId(req);
+    const result = await listImportJobs({
+      createdById,
+      query: parseJobListQuery(req.query as Record<string, unknown>),
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/v1/imports/:jobId', auth.required, async (req: ImportRequest, res: Response, next: NextFunction) => {
   try {
     const createdById = requireUserId(req);
@@ -111,6 +244,81 @@ router.get('/v1/imports/:jobId', auth.required, async (req: ImportRequest, res:
   }
 });
 
+router.get('/v1/imports/:jobId/events', auth.required, async (req: ImportRequest, res: Response, next: NextFunction) => {
+  try {
+    const createdById = requireUserId(req);
+    await streamJobProgressEvents({
+      req,
+      res,
+      load: () => getImportJobProgress({ jobId: req.params.jobId, createdById }),
+      pollIntervalMs: loadJobProgressConfig().eventsPollIntervalMs,
+    });
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    next(error);
+  }
+});
+
+router.post(
+  '/v1/imports/:jobId/cancel',
+  auth.required,
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const result = await cancelImportJob({
+        jobId: req.params.jobId,
+        createdById,
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/v1/imports/:jobId/retry-failed',
+  auth.required,
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const result = await retryFailedImportRecords({
+        jobId: req.params.jobId,
+        createdById,
+        payload: isObject(req.body) ? req.body : {},
+        idempotencyKey: requireIdempotencyKey(req),
+      });
+
+      res.status(result.statusCode).json({ importJob: result.importJob });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/v1/imports/:jobId/errors',
+  auth.required,
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const result = await listImportErrors({
+        jobId: req.params.jobId,
+        createdById,
+        query: parseRecordErrorListQuery(req.query as Record<string, unknown>),
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 router.get(
   '/v1/imports/:jobId/errors/download',
   auth.required,
@@ -136,4 +344,29 @@ router.get(
   },
 );
 
+router.get(
+  '/v1/imports/:jobId/rejects/download',
+  auth.required,
+  async (req: ImportRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const rejects = await getRejectsFileMetadata({
+        jobId: req.params.jobId,
+        createdById,
+      });
+
+      res.setHeader('Content-Type', rejects.contentType);
+      res.setHeader('Content-Disposition', rejects.contentDisposition);
+
+      const stream = createReadStream(rejects.reportLocation);
+      stream.on('error', () => {
+        next(new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['import rejects file not found'] } }));
+      });
+      stream.pipe(res);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 export default router;
@@ -1,11 +1,24 @@
 import type { Prisma, PrismaClient } from '@prisma/client';
 import type { UploadedFile } from './intake.service';
-import type { CreateRecordErrorOptions, JobStatus } from '../shared/import-export/types';
+import type { ParsedRecord } from './parsing.service';
+import type { JobLimitRedis } from '../shared/import-export/limits.service';
+import type {
+  CreateRecordErrorOptions,
+  EntityType,
+  ExternalIdEntityType,
+  ExternalIdListQuery,
+  FileFormat,
+  JobListQuery,
+  JobStatus,
+  RecordErrorListQuery,
+} from '../shared/import-export/types';
 
 export interface RunImportJobOptions {
   prisma?: PrismaClient;
   now?: () => Date;
   cancelCheckInterval?: number;
+  workerId?: string;
+  leaseTtlMs?: number;
 }
 
 export interface RunImportJobResult {
@@ -13,6 +26,7 @@ export interface RunImportJobResult {
   processedRecords: number;
   successCount: number;
   errorCount: number;
+  skippedCount: number;
 }
 
 export interface RecordErrorPayload {
@@ -21,17 +35,38 @@ export interface RecordErrorPayload {
   details?: Prisma.InputJsonValue | null;
 }
 
+/** A record that was mapped and coerced and is waiting to be validated. */
+export interface PreparedImportRecord {
+  parsed: ParsedRecord<unknown>;
+  record: unknown;
+  mappingErrors: CreateRecordErrorOptions[];
+}
+
+export interface RejectsFileSummary {
+  location: string | null;
+  format: FileFormat | null;
+  recordCount: number;
+  generationFailed: boolean;
+}
+
 export interface ImportCreatePayload {
   resource?: string;
   format?: string;
   url?: string;
+  delimiter?: string;
+  listDelimiter?: string;
+  dryRun?: boolean | string;
+  mode?: string;
+  mapping?: unknown;
+  sourceSystem?: string;
+  callbackUrl?: string;
 }
 
 export interface ImportIntakeResult {
   location: string;
   bytes: number;
   fileName: string;
-  sourceType: 'upload' | 'url';
+  sourceType: 'upload' | 'url' | 'retry' | 'bundle';
 }
 
 export interface CreateImportJobOptions {
@@ -40,6 +75,20 @@ export interface CreateImportJobOptions {
   file?: UploadedFile;
   idempotencyKey: string;
   prisma?: PrismaClient;
+  redis?: JobLimitRedis;
+}
+
+export interface RetryFailedImportPayload {
+  overrides?: unknown;
+}
+
+export interface RetryFailedImportOptions {
+  jobId: string;
+  createdById: number;
+  payload: RetryFailedImportPayload;
+  idempotencyKey: string;
+  prisma?: PrismaClient;
+  redis?: JobLimitRedis;
 }
 
 export interface GetImportJobStatusOptions {
@@ -48,6 +97,30 @@ export interface GetImportJobStatusOptions {
   prisma?: PrismaClient;
 }
 
+export interface GetImportJobProgressOptions extends GetImportJobStatusOptions {
+  now?: () => Date;
+}
+
+export interface ListImportJobsOptions {
+  createdById: number;
+  query: JobListQuery;
+  prisma?: PrismaClient;
+}
+
+export interface CancelImportJobOptions {
+  jobId: string;
+  createdById: number;
+  now?: () => Date;
+  prisma?: PrismaClient;
+}
+
+export interface ListImportErrorsOptions {
+  jobId: string;
+  createdById: number;
+  query: RecordErrorListQuery;
+  prisma?: PrismaClient;
+}
+
 export interface GetErrorReportFileOptions {
   jobId: string;
   createdById: number;
@@ -64,3 +137,69 @@ export interface CreateImportJobResult {
   statusCode: 200 | 202;
   importJob: Record<string, unknown>;
 }
+
+export interface ImportBundleCreatePayload {
+  url?: string;
+  dryRun?: boolean | string;
+  mode?: string;
+}
+
+/**
+ * One manifest entry. `options` holds the entry's format, delimiters and
+ * mapping, validated as for a single-resource import.
+ */
+export interface ImportBundleManifestFile {
+  resource: EntityType;
+  path: string;
+  options: ImportCreatePayload;
+}
+
+export interface ImportBundleManifest {
+  files: ImportBundleManifestFile[];
+}
+
+export interface CreateImportBundleOptions {
+  createdById: number;
+  payload: ImportBundleCreatePayload;
+  file?: UploadedFile;
+  idempotencyKey: string;
+  prisma?: PrismaClient;
+  redis?: JobLimitRedis;
+}
+
+export interface CreateImportBundleResult {
+  statusCode: 200 | 202;
+  importBundle: Record<string, unknown>;
+}
+
+export interface RunImportBundleOptions {
+  prisma?: PrismaClient;
+  now?: () => Date;
+  runJob?: (jobId: string) => Promise<RunImportJobResult>;
+}
+
+export interface GetImportBundleOptions {
+  bundleId: string;
+  createdById: number;
+  prisma?: PrismaClient;
+  now?: () => Date;
+}
+
+/** A row an import wrote for a record that carried an external_id. */
+export interface ExternalIdMappingEntry {
+  externalId: string;
+  internalId: number;
+}
+
+export interface SaveExternalIdMappingsOptions {
+  sourceSystem: string;
+  entityType: ExternalIdEntityType;
+  mappings: ExternalIdMappingEntry[];
+  prisma?: PrismaClient;
+}
+
+export interface ListExternalIdMappingsOptions {
+  createdById: number;
+  query: ExternalIdListQuery;
+  prisma?: PrismaClient;
+}
@@ -1,54 +1,115 @@
 import { createReadStream, promises as fs } from 'fs';
 import path from 'path';
 import { Readable } from 'stream';
-import type { Prisma, PrismaClient } from '@prisma/client';
+import type { ImportJob as ImportJobRow, Prisma, PrismaClient } from '@prisma/client';
 import prismaClient from '../../../prisma/prisma-client';
 import { createImportStorageAdapter } from '../../storage';
 import { loadImportConfig } from './config';
 import {
   fetchRemoteImport,
   ImportExportError,
+  ImportFileKind,
   mapUploadedFileToImportIntakeResult,
   UploadedFile,
   validateUploadedFile
 } from './intake.service';
-import { ImportExportParseError, parseJsonArrayStream, parseNdjsonStream } from './parsing.service';
-import { IndexedImportRecord, upsertImportRecords } from './upsert.service';
-import { validateImportRecord } from './validation/validation.service';
+import {
+  coerceCsvRecord,
+  decompressGzipStream,
+  ImportExportParseError,
+  parseCsvStream,
+  parseJsonArrayStream,
+  parseNdjsonStream,
+  ParsedRecord
+} from './parsing.service';
+import {
+  BatchUpsertOptions,
+  classifyImportRecords,
+  createDryRunPlan,
+  IndexedImportRecord,
+  upsertImportRecords,
+} from './upsert.service';
+import {
+  prefetchRecordReferences,
+  RecordValidationResult,
+  validateImportRecord,
+} from './validation/validation.service';
+import { applyImportMapping, parseImportMapping } from './mapping.service';
+import { assertOverridesMatchFailedRecords, parseRetryOverrides, writeRetrySource } from './retry.service';
 import { createValidationCache } from './validation/validation.validators';
-import { generateImportErrorReport } from './error-report.service';
+import {
+  generateImportErrorReport,
+  generateImportRejectsFile,
+  IMPORT_ERROR_SELECT,
+  serializeImportError,
+  summarizeImportErrors,
+} from './error-report.service';
 import {
   CreateRecordErrorOptions,
+  ENTITY_TYPES,
   EntityType,
   ErrorCodeNames,
+  FILE_FORMATS,
   FileErrorCode,
   FileFormat,
+  IMPORT_MODES,
   ImportExportErrorCode,
+  ImportErrorBreakdown,
+  ImportFieldMapping,
+  ImportJobOptions,
+  ImportMode,
   ImportRecord,
+  JobListQuery,
+  JobProgress,
   JobStatus,
   ProcessingErrorCode,
+  RecordErrorListQuery,
   ResourceErrorCode,
-  SystemErrorCode
+  SystemErrorCode,
+  ValidationErrorCode
 } from '../shared/import-export/types';
 import { logJobLifecycleEvent } from '../../jobs/observability';
+import { claimJobLease, getLeaseTtlMs, JobLeaseLostError, startLeaseHeartbeat, WORKER_ID } from '../../jobs/lease.service';
+import { loadJobProgressConfig } from '../shared/import-export/config';
+import { buildJobProgress, createProgressThrottle } from '../shared/import-export/progress.service';
+import { dispatchJobWebhook, parseCallbackUrl } from '../webhooks/webhook.service';
+import { authorizeImportExport } from '../shared/import-export/authorization.service';
+import {
+  ACTIVE_JOB_STATUSES,
+  ConcurrencyLimitOptions,
+  enforceConcurrencyLimits,
+  enforceRateLimit,
+  JobLimitRedis,
+  withJobCreationLock,
+} from '../shared/import-export/limits.service';
 import { createLogger } from '../../logger';
 import {
   isObject,
   isPrismaUniqueConstraintError,
+  normalizeFormat,
   parseEntityType,
   parseFormat,
+  parseSourceSystem,
   pathExists,
+  stripGzipExtension,
   toJsonObject
 } from '../shared/import-export/utils';
 import type {
+  CancelImportJobOptions,
   CreateImportJobOptions,
   CreateImportJobResult,
   ErrorReportFileMetadata,
   GetErrorReportFileOptions,
+  GetImportJobProgressOptions,
   GetImportJobStatusOptions,
   ImportCreatePayload,
   ImportIntakeResult,
+  ListImportErrorsOptions,
+  ListImportJobsOptions,
+  PreparedImportRecord,
   RecordErrorPayload,
+  RejectsFileSummary,
+  RetryFailedImportOptions,
   RunImportJobOptions,
   RunImportJobResult
 } from './import.model';
@@ -57,6 +118,8 @@ import { HttpStatusCode } from '../../models/http-status-code.model';
 
 const ERROR_FLUSH_SIZE = 500;
 const DEFAULT_CANCEL_CHECK_INTERVAL = 500;
+const CANCELLABLE_STATUSES: string[] = ['queued', 'running'];
+const GZIP_MAGIC_BYTES = Buffer.from([0x1f, 0x8b]);
 const logger = createLogger({ component: 'import.service' });
 
 class ImportServiceError extends Error {
@@ -77,30 +140,30 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
   const config = loadImportConfig();
 
   const startedAt = now();
-  const claimResult = await prisma.importJob.updateMany({
-    where: {
-      id: jobId,
-      status: 'queued',
-    },
-    data: {
-      status: 'running',
-      startedAt,
-    },
-  });
-
+  const workerId = options.workerId ?? WORKER_ID;
+  const leaseOptions = {
+    type: 'import' as const,
+    jobId,
+    workerId,
+    leaseTtlMs: options.leaseTtlMs ?? getLeaseTtlMs(),
+    prisma,
+    now,
+  };
+  const claim = await claimJobLease(leaseOptions);
 
   const job = await prisma.importJob.findUnique({ where: { id: jobId } });
   if (!job) {
     throw new ImportServiceError(ResourceErrorCode.JOB_NOT_FOUND, `Import job ${jobId} not found`);
   }
 
-  // Job claimed by another worker process, return current status without processing
-  if (!claimResult.count) {
+  // Job held by another worker process with a live lease, return current status without processing
+  if (!claim) {
     return {
       status: job.status,
       processedRecords: job.processedRecords,
       successCount: job.successCount,
       errorCount: job.errorCount,
+      skippedCount: job.skippedCount,
     };
   }
 
@@ -122,6 +185,7 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
         processedRecords: job.processedRecords,
         successCount: job.successCount,
         errorCount: job.errorCount,
+        skippedCount: job.skippedCount,
       },
     });
 
@@ -130,9 +194,19 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
       processedRecords: job.processedRecords,
       successCount: job.successCount,
       errorCount: job.errorCount,
+      skippedCount: job.skippedCount,
     };
   }
 
+  // A reclaimed job resumes after its last checkpoint. Errors recorded past the
+  // checkpoint belong to records that are about to be processed again.
+  const resumeAfter = claim === 'reclaimed' ? job.checkpointIndex : null;
+  if (claim === 'reclaimed') {
+    const pastCheckpoint = { jobId, ...(resumeAfter !== null ? { recordIndex: { gt: resumeAfter } } : {}) };
+    await prisma.importError.deleteMany({ where: pastCheckpoint });
+    await prisma.importFailedRecord.deleteMany({ where: pastCheckpoint });
+  }
+
   logJobLifecycleEvent({
     event: 'job.started',
     jobKind: 'import',
@@ -146,27 +220,47 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
       successCount: job.successCount,
       errorCount: job.errorCount,
     },
+    ...(claim === 'reclaimed' ? { details: { reclaimed: true, resumeAfter } } : {}),
   });
 
   const entityType = normalizeEntityType(job.resource);
   const format = detectFormat(job.format, job.fileName ?? job.sourceLocation ?? '');
-  const inputStream = await openImportSource(job.sourceLocation);
-  const parser = format === 'ndjson' ? parseNdjsonStream : parseJsonArrayStream;
+  const jobOptions = toImportJobOptions(job.options);
+  // Set once the source is open, inside the try so a source that fails to open fails the job
+  let bytesRead: () => number = () => 0;
 
   const validationCache = createValidationCache();
-  let processedRecords = 0;
-  let successCount = 0;
-  let errorCount = 0;
-  let persistedErrorCount = 0;
+  const resuming = resumeAfter !== null;
+  let processedRecords = resuming ? job.processedRecords : 0;
+  let successCount = resuming ? job.successCount : 0;
+  let errorCount = resuming ? job.errorCount : 0;
+  let skippedCount = resuming ? job.skippedCount : 0;
+  let persistedErrorCount = resuming ? await prisma.importError.count({ where: { jobId } }) : 0;
   let errorPersistenceFailures = 0;
   let cancelled = false;
+  // Insert batch whose writes may have landed past the checkpoint. A resumed job reruns
+  // its records, which would then fail as duplicates of the rows they wrote themselves.
+  const trackInFlight = job.mode === 'insert' && !job.dryRun;
+  let inFlightBatch = trackInFlight && resuming ? toInFlightBatch(job.inFlightBatch) : null;
+  const dryRunSummary = job.dryRun ? toDryRunSummary(resuming ? job.dryRunSummary : null) : null;
+  // Rows the classified records would create, so a repeated key fails as it would on a real run.
+  // Not checkpointed: a resumed dry run only sees those of records after its checkpoint.
+  const dryRunPlan = createDryRunPlan();
+  let leaseLost = false;
+  const progressThrottle = createProgressThrottle(loadJobProgressConfig(), now);
+  progressThrottle.mark(processedRecords);
 
   let pendingRecords: IndexedImportRecord[] = [];
+  // Source records of the pending batch, kept until its write errors are known
+  let pendingSourceRecords = new Map<number, unknown>();
   let pendingErrors: RecordErrorPayload[] = [];
+  let pendingFailedRecords: Prisma.ImportFailedRecordCreateManyInput[] = [];
   const errorRecordIndexes = new Set<number>();
   let errorReportLocation: string | null = null;
   let errorReportFormat: FileFormat | null = null;
   let errorReportGenerationFailed = false;
+  const rejects: RejectsFileSummary = { location: null, format: null, recordCount: 0, generationFailed: false };
+  let errorBreakdown: ImportErrorBreakdown | null = null;
 
   const generateErrorReport = async (): Promise<void> => {
     if (persistedErrorCount <= 0) {
@@ -187,21 +281,58 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
         errorMessage: error instanceof Error ? error.message : String(error),
       });
     }
+
+    try {
+      const file = await generateImportRejectsFile(jobId, { prisma, format, delimiter: jobOptions.delimiter });
+      if (file) {
+        rejects.location = file.location;
+        rejects.format = file.format;
+        rejects.recordCount = file.recordCount;
+      }
+    } catch (error) {
+      rejects.generationFailed = true;
+      logger.warn({
+        event: 'Import rejects file generation failed',
+        jobId,
+        format,
+        errorName: error instanceof Error ? error.name : 'UnknownError',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    try {
+      errorBreakdown = await summarizeImportErrors(jobId, { prisma });
+    } catch (error) {
+      logger.warn({
+        event: 'Import error breakdown failed',
+        jobId,
+        errorName: error instanceof Error ? error.name : 'UnknownError',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
   };
 
-  const addErrorRecordIndexes = (entries: RecordErrorPayload[]): number => {
+  const addErrorRecordIndexes = (
+    entries: RecordErrorPayload[],
+    sourceRecord: (recordIndex: number) => unknown = () => undefined,
+  ): number => {
     let added = 0;
     for (const entry of entries) {
       const index = entry.error.recordIndex;
       if (index >= 0 && !errorRecordIndexes.has(index)) {
         errorRecordIndexes.add(index);
         added += 1;
+        const record = sourceRecord(index);
+        if (record !== undefined) {
+          pendingFailedRecords.push({ jobId, recordIndex: index, record: record as Prisma.InputJsonValue });
+        }
       }
     }
     return added;
   };
 
   const flushErrors = async (): Promise<void> => {
+    await flushFailedRecords();
     if (!pendingErrors.length) {
       return;
     }
@@ -225,6 +356,26 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
     pendingErrors = [];
   };
 
+  // Best effort: a record that could not be kept is only left out of retry-failed
+  const flushFailedRecords = async (): Promise<void> => {
+    if (!pendingFailedRecords.length) {
+      return;
+    }
+
+    try {
+      await prisma.importFailedRecord.createMany({ data: pendingFailedRecords, skipDuplicates: true });
+    } catch (error) {
+      logger.warn({
+        event: 'Import failed record persistence failed',
+        jobId,
+        batchSize: pendingFailedRecords.length,
+        errorName: error instanceof Error ? error.name : 'UnknownError',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+    pendingFailedRecords = [];
+  };
+
   const flushRecords = async () => {
     if (!pendingRecords.length) {
       return;
@@ -236,13 +387,42 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
       recordMap.set(entry.recordIndex, entry.record);
     }
 
-    const result = await upsertImportRecords(pendingRecords, entityType, {
+    const upsertOptions = {
       jobId,
       batchSize: config.batchSize,
+      mode: job.mode,
+      sourceSystem: jobOptions.sourceSystem,
       prisma,
-    });
+    };
+    let result: { succeeded: number; skipped: number; errors: CreateRecordErrorOptions[] };
+    if (dryRunSummary) {
+      const classified = await classifyImportRecords(pendingRecords, entityType, upsertOptions, dryRunPlan);
+      dryRunSummary.wouldCreate += classified.wouldCreate;
+      dryRunSummary.wouldUpdate += classified.wouldUpdate;
+      result = {
+        succeeded: classified.wouldCreate + classified.wouldUpdate,
+        skipped: classified.skipped,
+        errors: classified.errors,
+      };
+    } else if (trackInFlight) {
+      const written = inFlightBatch;
+      const conflicts = await findInsertConflicts(pendingRecords, entityType, upsertOptions);
+      inFlightBatch = mergeInFlightBatch(
+        written,
+        pendingRecords,
+        conflicts.filter((index) => !isInFlightWrite(written, index)),
+      );
+      await saveInFlightBatch(inFlightBatch);
+      result = forgiveInFlightDuplicates(
+        await upsertImportRecords(pendingRecords, entityType, upsertOptions),
+        written,
+      );
+    } else {
+      result = await upsertImportRecords(pendingRecords, entityType, upsertOptions);
+    }
 
     successCount += result.succeeded;
+    skippedCount += result.skipped;
 
     if (result.errors.length) {
       const newErrors = result.errors.map((error) => ({
@@ -250,90 +430,213 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
         recordId: extractRecordId(entityType, recordMap.get(error.recordIndex)),
       }));
       pendingErrors.push(...newErrors);
-      errorCount += addErrorRecordIndexes(newErrors);
+      errorCount += addErrorRecordIndexes(newErrors, (index) => pendingSourceRecords.get(index));
     }
 
     pendingRecords = [];
+    pendingSourceRecords = new Map();
     if (pendingErrors.length >= ERROR_FLUSH_SIZE) {
       await flushErrors();
     }
   };
 
+  // Persisted before the batch is written, so a worker that reclaims the job
+  // knows which of its duplicates are rows of the batch itself.
+  const saveInFlightBatch = async (batch: InFlightBatch) => {
+    const saved = await prisma.importJob.updateMany({
+      where: { id: jobId, leaseOwner: workerId },
+      data: { inFlightBatch: batch as unknown as Prisma.InputJsonValue },
+    });
+    if (!saved.count) {
+      throw new JobLeaseLostError('import', jobId);
+    }
+  };
+
+  // Records up to `index` are written and their errors persisted, so a worker
+  // that reclaims the job can skip them. The saved counters are what the status
+  // and events endpoints report while the job runs. Doubles as a lease ownership check.
+  const saveCheckpoint = async (index: number) => {
+    await flushErrors();
+    // The saved batch is left as is: a reclaiming worker never reruns records up to the checkpoint
+    if (inFlightBatch && inFlightBatch.toIndex <= index) {
+      inFlightBatch = null;
+    }
+    const saved = await prisma.importJob.updateMany({
+      where: { id: jobId, leaseOwner: workerId },
+      data: {
+        checkpointIndex: index,
+        processedRecords,
+        successCount,
+        errorCount,
+        skippedCount,
+        bytesProcessed: bytesRead(),
+        ...(dryRunSummary ? { dryRunSummary } : {}),
+      },
+    });
+    if (!saved.count) {
+      throw new JobLeaseLostError('import', jobId);
+    }
+    progressThrottle.mark(processedRecords);
+  };
+
+  const leaseLostResult = (): RunImportJobResult => {
+    // The job now belongs to another worker; leave its row for that worker to finish.
+    logger.warn({ event: 'Import job lease lost', jobId, workerId, processedRecords });
+    return { status: 'running', processedRecords, successCount, errorCount, skippedCount };
+  };
+
+  const finishCancelled = async (): Promise<RunImportJobResult> => {
+    const finishedAt = now();
+    const finalized = await finalizeJob(prisma, jobId, workerId, {
+      status: 'cancelled',
+      processedRecords,
+      successCount,
+      errorCount,
+      skippedCount,
+      totalRecords: processedRecords,
+      finishedAt,
+      ...(dryRunSummary ? { dryRunSummary } : {}),
+      errorSummary: buildErrorSummary(
+        persistedErrorCount,
+        errorPersistenceFailures,
+        errorReportLocation,
+        errorReportFormat,
+        errorReportGenerationFailed,
+        rejects,
+        errorBreakdown,
+      ),
+    });
+    if (!finalized) {
+      return leaseLostResult();
+    }
+    logJobLifecycleEvent({
+      event: 'job.completed',
+      jobKind: 'import',
+      jobId,
+      status: 'cancelled',
+      resource: job.resource,
+      format: job.format,
+      timestamp: finishedAt,
+      jobStartedAt: startedAt,
+      counters: {
+        processedRecords,
+        successCount,
+        errorCount,
+        skippedCount,
+      },
+    });
+    return { status: 'cancelled', processedRecords, successCount, errorCount, skippedCount };
+  };
+
+  // The job left this worker before it could be finalized: cancelled since
+  // the last cancellation check, or reclaimed by another worker.
+  const finishInterrupted = async (): Promise<RunImportJobResult> => {
+    const latest = await prisma.importJob.findUnique({
+      where: { id: jobId },
+      select: { status: true, leaseOwner: true },
+    });
+    if (latest?.status === 'cancelled' && latest.leaseOwner === workerId) {
+      return finishCancelled();
+    }
+    return leaseLostResult();
+  };
+
+  const stopHeartbeat = startLeaseHeartbeat({
+    ...leaseOptions,
+    onLost: () => {
+      leaseLost = true;
+    },
+  });
+
   try {
-    for await (const parsed of parser(inputStream, { maxRecords: config.maxRecords })) {
-      assertRecordShapeMatchesFormat(parsed.record, format, parsed.index, parsed.lineNumber);
-      processedRecords += 1;
+    const source = await openImportSource(job.sourceLocation, config.maxFileSize);
+    bytesRead = source.bytesRead;
+    const records = parseImportRecords(source.stream, format, config.maxRecords, jobOptions);
+
+    for await (const window of readRecordWindows(records, config.batchSize)) {
+      const prepared: PreparedImportRecord[] = [];
+      for (const parsed of window) {
+        if (resumeAfter !== null && parsed.index <= resumeAfter) {
+          continue;
+        }
+        assertRecordShapeMatchesFormat(parsed.record, format, parsed.index, parsed.lineNumber);
+
+        const recordContext = { jobId, recordIndex: parsed.index, prisma };
+        const mapped = jobOptions.mapping
+          ? await applyImportMapping(parsed.record, jobOptions.mapping, recordContext, validationCache)
+          : { record: parsed.record, errors: [] };
+        const record =
+          format === 'csv' && isObject(mapped.record)
+            ? coerceCsvRecord(mapped.record, entityType, { listDelimiter: jobOptions.listDelimiter })
+            : mapped.record;
+        prepared.push({ parsed, record, mappingErrors: mapped.errors });
+      }
 
-      const validation = await validateImportRecord(parsed.record, entityType, {
-        jobId,
-        recordIndex: parsed.index,
-        prisma,
-        cache: validationCache,
-      });
+      await prefetchRecordReferences(
+        prepared.filter((entry) => !entry.mappingErrors.length).map((entry) => entry.record),
+        entityType,
+        { prisma, sourceSystem: jobOptions.sourceSystem },
+        validationCache,
+      );
 
-      if (!validation.valid) {
-        const newErrors = validation.errors.map((error) => ({
-          error,
-          recordId: extractRecordId(entityType, parsed.record as ImportRecord),
-        }));
-        pendingErrors.push(...newErrors);
-        errorCount += addErrorRecordIndexes(newErrors);
-        if (pendingErrors.length >= ERROR_FLUSH_SIZE) {
-          await flushErrors();
+      for (const { parsed, record, mappingErrors } of prepared) {
+        if (leaseLost) {
+          throw new JobLeaseLostError('import', jobId);
         }
-      } else if (validation.record) {
-        pendingRecords.push({ record: validation.record, recordIndex: parsed.index });
-        if (pendingRecords.length >= config.batchSize) {
+        processedRecords += 1;
+
+        const validation: RecordValidationResult<ImportRecord> = mappingErrors.length
+          ? { valid: false, skip: false, errors: mappingErrors }
+          : await validateImportRecord(record, entityType, {
+              jobId,
+              recordIndex: parsed.index,
+              prisma,
+              sourceSystem: jobOptions.sourceSystem,
+              cache: validationCache,
+            });
+
+        if (!validation.valid) {
+          const newErrors = validation.errors.map((error) => ({
+            error,
+            recordId: extractRecordId(entityType, record as ImportRecord),
+          }));
+          pendingErrors.push(...newErrors);
+          errorCount += addErrorRecordIndexes(newErrors, () => parsed.record);
+          if (pendingErrors.length >= ERROR_FLUSH_SIZE) {
+            await flushErrors();
+          }
+        } else if (validation.record) {
+          pendingRecords.push({ record: validation.record, recordIndex: parsed.index });
+          pendingSourceRecords.set(parsed.index, parsed.record);
+        }
+
+        if (pendingRecords.length >= config.batchSize || progressThrottle.due(processedRecords)) {
           await flushRecords();
+          await saveCheckpoint(parsed.index);
         }
-      }
 
-      if (cancelCheckInterval && processedRecords % cancelCheckInterval === 0) {
-        if (await jobIsCancelled(prisma, jobId)) {
-          cancelled = true;
-          break;
+        if (cancelCheckInterval && processedRecords % cancelCheckInterval === 0) {
+          if (await jobIsCancelled(prisma, jobId)) {
+            cancelled = true;
+            break;
+          }
         }
       }
+      if (cancelled) {
+        break;
+      }
     }
 
     if (!cancelled) {
       await flushRecords();
     }
     await flushErrors();
+    if (leaseLost) {
+      throw new JobLeaseLostError('import', jobId);
+    }
 
     if (cancelled) {
-      const finishedAt = now();
-      await finalizeJob(prisma, jobId, {
-        status: 'cancelled',
-        processedRecords,
-        successCount,
-        errorCount,
-        totalRecords: processedRecords,
-        finishedAt,
-        errorSummary: buildErrorSummary(
-          persistedErrorCount,
-          errorPersistenceFailures,
-          errorReportLocation,
-          errorReportFormat,
-          errorReportGenerationFailed,
-        ),
-      });
-      logJobLifecycleEvent({
-        event: 'job.completed',
-        jobKind: 'import',
-        jobId,
-        status: 'cancelled',
-        resource: job.resource,
-        format: job.format,
-        timestamp: finishedAt,
-        jobStartedAt: startedAt,
-        counters: {
-          processedRecords,
-          successCount,
-          errorCount,
-        },
-      });
-      return { status: 'cancelled', processedRecords, successCount, errorCount };
+      return await finishCancelled();
     }
 
     if (processedRecords === 0) {
@@ -351,21 +654,28 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
       status = 'failed';
     }
     const finishedAt = now();
-    await finalizeJob(prisma, jobId, {
+    const finalized = await finalizeJob(prisma, jobId, workerId, {
       status,
       processedRecords,
       successCount,
       errorCount,
+      skippedCount,
       totalRecords: processedRecords,
       finishedAt,
+      ...(dryRunSummary ? { dryRunSummary } : {}),
       errorSummary: buildErrorSummary(
         persistedErrorCount,
         errorPersistenceFailures,
         errorReportLocation,
         errorReportFormat,
         errorReportGenerationFailed,
+        rejects,
+        errorBreakdown,
       ),
     });
+    if (!finalized) {
+      return await finishInterrupted();
+    }
     logJobLifecycleEvent({
       event: 'job.completed',
       jobKind: 'import',
@@ -379,11 +689,17 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
         processedRecords,
         successCount,
         errorCount,
+        skippedCount,
       },
+      ...(dryRunSummary ? { details: { dryRun: true, ...dryRunSummary } } : {}),
     });
 
-    return { status, processedRecords, successCount, errorCount };
+    return { status, processedRecords, successCount, errorCount, skippedCount };
   } catch (error) {
+    if (error instanceof JobLeaseLostError) {
+      return leaseLostResult();
+    }
+
     await safeFlushErrors(pendingErrors, prisma, {
       onPersisted: (count) => {
         persistedErrorCount += count;
@@ -418,19 +734,23 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
     await generateErrorReport();
 
     const finishedAt = now();
-    await finalizeJob(prisma, jobId, {
+    const finalized = await finalizeJob(prisma, jobId, workerId, {
       status: 'failed',
       processedRecords,
       successCount,
       errorCount,
+      skippedCount,
       totalRecords: processedRecords,
       finishedAt,
+      ...(dryRunSummary ? { dryRunSummary } : {}),
       errorSummary: buildErrorSummary(
         persistedErrorCount,
         errorPersistenceFailures,
         errorReportLocation,
         errorReportFormat,
         errorReportGenerationFailed,
+        rejects,
+        errorBreakdown,
         {
           code,
           message,
@@ -438,6 +758,9 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
         },
       ),
     });
+    if (!finalized) {
+      return await finishInterrupted();
+    }
     logJobLifecycleEvent({
       event: 'job.completed',
       jobKind: 'import',
@@ -451,6 +774,7 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
         processedRecords,
         successCount,
         errorCount,
+        skippedCount,
       },
       level: 'error',
       details: {
@@ -460,34 +784,195 @@ export async function runImportJob(jobId: string, options: RunImportJobOptions =
       },
     });
 
-    return { status: 'failed', processedRecords, successCount, errorCount };
+    return { status: 'failed', processedRecords, successCount, errorCount, skippedCount };
+  } finally {
+    stopHeartbeat();
   }
 }
 
 function detectFormat(format: string | null, fileName: string): FileFormat {
-  if (format === 'ndjson' || format === 'json') {
+  if (format === 'ndjson' || format === 'json' || format === 'csv') {
     return format;
   }
 
-  const ext = path.extname(fileName).toLowerCase();
+  const ext = path.extname(stripGzipExtension(fileName)).toLowerCase();
   if (['.ndjson', '.jsonl'].includes(ext)) {
     return 'ndjson';
   }
   if (ext === '.json') {
     return 'json';
   }
+  if (ext === '.csv') {
+    return 'csv';
+  }
 
   throw new ImportServiceError(FileErrorCode.UNSUPPORTED_FORMAT, 'Unsupported import format');
 }
 
+/**
+ * Insert batch written past the checkpoint. `conflicts` are the records of the
+ * range that already failed as duplicates before the batch was written.
+ */
+interface InFlightBatch {
+  fromIndex: number;
+  toIndex: number;
+  conflicts: number[];
+}
+
+function toInFlightBatch(value: Prisma.JsonValue | null): InFlightBatch | null {
+  const batch = toJsonObject(value);
+  if (!batch || typeof batch.fromIndex !== 'number' || typeof batch.toIndex !== 'number') {
+    return null;
+  }
+  const conflicts = Array.isArray(batch.conflicts)
+    ? batch.conflicts.filter((index): index is number => typeof index === 'number')
+    : [];
+  return { fromIndex: batch.fromIndex, toIndex: batch.toIndex, conflicts };
+}
+
+/** Whether the row a record conflicts with is the one its own in-flight write created. */
+function isInFlightWrite(batch: InFlightBatch | null, recordIndex: number): boolean {
+  return (
+    batch !== null &&
+    recordIndex >= batch.fromIndex &&
+    recordIndex <= batch.toIndex &&
+    !batch.conflicts.includes(recordIndex)
+  );
+}
+
+/**
+ * Range of the batch about to be written, extended over the part of a previous
+ * in-flight batch it has not yet rewritten so that part is not forgotten.
+ */
+function mergeInFlightBatch(
+  previous: InFlightBatch | null,
+  records: IndexedImportRecord[],
+  conflicts: number[],
+): InFlightBatch {
+  const indexes = records.map((entry) => entry.recordIndex);
+  const batch = { fromIndex: Math.min(...indexes), toIndex: Math.max(...indexes), conflicts };
+  if (!previous || previous.toIndex < batch.fromIndex) {
+    return batch;
+  }
+  return {
+    fromIndex: Math.min(previous.fromIndex, batch.fromIndex),
+    toIndex: Math.max(previous.toIndex, batch.toIndex),
+    conflicts: [...new Set([...previous.conflicts, ...conflicts])],
+  };
+}
+
+/**
+ * Records that would fail as duplicates if written now, either of an existing
+ * row or of an earlier record of the batch. Resolved without writing.
+ */
+async function findInsertConflicts(
+  records: IndexedImportRecord[],
+  entityType: EntityType,
+  options: BatchUpsertOptions,
+): Promise<number[]> {
+  const classified = await classifyImportRecords(records, entityType, options, createDryRunPlan());
+  return classified.errors
+    .filter((error) => error.errorCode === ValidationErrorCode.DUPLICATE_VALUE)
+    .map((error) => error.recordIndex);
+}
+
+/** Duplicates of rows the in-flight batch wrote before the previous worker stopped count as applied. */
+function forgiveInFlightDuplicates(
+  result: { succeeded: number; skipped: number; errors: CreateRecordErrorOptions[] },
+  batch: InFlightBatch | null,
+): { succeeded: number; skipped: number; errors: CreateRecordErrorOptions[] } {
+  const errors = result.errors.filter(
+    (error) => error.errorCode !== ValidationErrorCode.DUPLICATE_VALUE || !isInFlightWrite(batch, error.recordIndex),
+  );
+  return { ...result, succeeded: result.succeeded + result.errors.length - errors.length, errors };
+}
+
+/**
+ * Groups parsed records into windows so the natural-key references of a whole
+ * window can be resolved with one query per key kind before it is validated.
+ */
+async function* readRecordWindows<T>(records: AsyncIterable<T>, size: number): AsyncGenerator<T[]> {
+  let window: T[] = [];
+  for await (const record of records) {
+    window.push(record);
+    if (window.length >= size) {
+      yield window;
+      window = [];
+    }
+  }
+  if (window.length) {
+    yield window;
+  }
+}
+
+function parseImportRecords(
+  input: Readable,
+  format: FileFormat,
+  maxRecords: number,
+  options: ImportJobOptions,
+): AsyncIterable<ParsedRecord<unknown>> {
+  if (format === 'csv') {
+    // Rows stay strings here: cells are coerced after mapping, once they carry
+    // their record field names, and failed rows are kept as they were read
+    return parseCsvStream(input, { maxRecords, delimiter: options.delimiter });
+  }
+
+  const parser = format === 'ndjson' ? parseNdjsonStream : parseJsonArrayStream;
+  return parser(input, { maxRecords });
+}
+
+function toImportJobOptions(value: Prisma.JsonValue | null | undefined): ImportJobOptions {
+  const options = toJsonObject(value);
+  if (!options) {
+    return {};
+  }
+
+  return {
+    delimiter: typeof options.delimiter === 'string' ? options.delimiter : undefined,
+    listDelimiter: typeof options.listDelimiter === 'string' ? options.listDelimiter : undefined,
+    // Validated by parseImportMapping when the job was created
+    mapping: isObject(options.mapping) ? (options.mapping as unknown as ImportFieldMapping) : undefined,
+    sourceSystem: typeof options.sourceSystem === 'string' ? options.sourceSystem : undefined,
+  };
+}
+
+function toDryRunSummary(value: Prisma.JsonValue | null): { wouldCreate: number; wouldUpdate: number } {
+  const summary = toJsonObject(value);
+  return {
+    wouldCreate: typeof summary?.wouldCreate === 'number' ? summary.wouldCreate : 0,
+    wouldUpdate: typeof summary?.wouldUpdate === 'number' ? summary.wouldUpdate : 0,
+  };
+}
+
 function normalizeEntityType(resource: string): EntityType {
-  if (resource === 'users' || resource === 'articles' || resource === 'comments') {
-    return resource;
+  if ((ENTITY_TYPES as string[]).includes(resource)) {
+    return resource as EntityType;
   }
   throw new ImportServiceError(ResourceErrorCode.UNSUPPORTED_RESOURCE, `Unsupported resource ${resource}`);
 }
 
-async function openImportSource(sourceLocation: string | null): Promise<Readable> {
+/**
+ * `bytesRead` counts bytes read from the stored file (compressed for gzip
+ * sources), which is what `fileSize` measures, so the two give a progress ratio.
+ */
+async function openImportSource(
+  sourceLocation: string | null,
+  maxFileSize: number,
+): Promise<{ stream: Readable; bytesRead: () => number }> {
+  const sourcePath = await resolveImportSourcePath(sourceLocation);
+  const file = createReadStream(sourcePath);
+  const bytesRead = () => file.bytesRead;
+
+  // Sniffed rather than taken from the file name: URL sources may be served
+  // gzipped under any name, and a renamed file should not bypass the size limit.
+  if (await hasGzipMagicBytes(sourcePath)) {
+    return { stream: decompressGzipStream(file, maxFileSize), bytesRead };
+  }
+
+  return { stream: file, bytesRead };
+}
+
+async function resolveImportSourcePath(sourceLocation: string | null): Promise<string> {
   if (!sourceLocation) {
     throw new ImportServiceError(FileErrorCode.FILE_READ_ERROR, 'Import source location missing');
   }
@@ -496,16 +981,22 @@ async function openImportSource(sourceLocation: string | null): Promise<Readable
   const localCandidate = storage.getLocalPath(sourceLocation);
 
   if (await pathExists(sourceLocation)) {
-    return createReadStream(sourceLocation);
+    return sourceLocation;
   }
   if (await pathExists(localCandidate)) {
-    return createReadStream(localCandidate);
+    return localCandidate;
   }
 
   throw new ImportServiceError(FileErrorCode.FILE_READ_ERROR, 'Import source file not found');
 }
 
-
+async function hasGzipMagicBytes(filePath: string): Promise<boolean> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of createReadStream(filePath, { start: 0, end: GZIP_MAGIC_BYTES.length - 1 })) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).equals(GZIP_MAGIC_BYTES);
+}
 
 function buildImportErrorPayload(
   error: CreateRecordErrorOptions,
@@ -537,6 +1028,10 @@ function extractRecordId(entityType: EntityType, record?: ImportRecord): string
     return String(record.id);
   }
 
+  if ('external_id' in record && record.external_id) {
+    return String(record.external_id);
+  }
+
   if (entityType === 'users' && 'email' in record && record.email) {
     return String(record.email);
   }
@@ -557,13 +1052,16 @@ async function jobIsCancelled(prisma: PrismaClient, jobId: string): Promise<bool
 }
 
 async function markJobCancelled(prisma: PrismaClient, jobId: string, timestamp: Date): Promise<void> {
-  await prisma.importJob.update({
+  const job = await prisma.importJob.update({
     where: { id: jobId },
     data: {
       status: 'cancelled',
       finishedAt: timestamp,
+      leaseOwner: null,
+      leaseExpiresAt: null,
     },
   });
+  await dispatchFinishedJobWebhook(prisma, job);
 }
 
 async function persistFatalImportError(
@@ -599,31 +1097,62 @@ async function persistFatalImportError(
   }
 }
 
+/**
+ * Records the outcome only while the job is still this worker's: a cancelled
+ * job can only be finalized as cancelled, and a reclaimed one not at all.
+ * Returns false when the job was left untouched.
+ */
 async function finalizeJob(
   prisma: PrismaClient,
   jobId: string,
+  workerId: string,
   update: {
     status: JobStatus;
     processedRecords: number;
     successCount: number;
     errorCount: number;
+    skippedCount: number;
     totalRecords: number | null;
     finishedAt: Date;
     errorSummary?: Prisma.InputJsonValue;
+    dryRunSummary?: Prisma.InputJsonValue;
   },
-): Promise<void> {
-  await prisma.importJob.update({
-    where: { id: jobId },
+): Promise<boolean> {
+  const finalized = await prisma.importJob.updateMany({
+    where: { id: jobId, status: update.status === 'cancelled' ? 'cancelled' : 'running', leaseOwner: workerId },
     data: {
       status: update.status,
       processedRecords: update.processedRecords,
       successCount: update.successCount,
       errorCount: update.errorCount,
+      skippedCount: update.skippedCount,
       totalRecords: update.totalRecords,
+      leaseOwner: null,
+      leaseExpiresAt: null,
       finishedAt: update.finishedAt,
       errorSummary: update.errorSummary,
+      dryRunSummary: update.dryRunSummary,
     },
   });
+  if (!finalized.count) {
+    return false;
+  }
+  await dispatchFinishedJobWebhook(prisma, await prisma.importJob.findUnique({ where: { id: jobId } }));
+  return true;
+}
+
+/**
+ * Sends the job's completion webhook, if it registered a callback URL. Used
+ * by paths that finish a job outside runImportJob, such as the lease reaper.
+ */
+export async function dispatchImportJobWebhook(jobId: string, prisma: PrismaClient = prismaClient): Promise<void> {
+  await dispatchFinishedJobWebhook(prisma, await prisma.importJob.findUnique({ where: { id: jobId } }));
+}
+
+async function dispatchFinishedJobWebhook(prisma: PrismaClient, job: ImportJobRow | null | undefined): Promise<void> {
+  if (job) {
+    await dispatchJobWebhook({ prisma, jobType: 'import', job, payload: { importJob: serializeImportJob(job) } });
+  }
 }
 
 function normalizePipelineError(error: unknown): {
@@ -730,6 +1259,8 @@ function buildErrorSummary(
   errorReportLocation: string | null,
   errorReportFormat: FileFormat | null,
   reportGenerationFailed: boolean,
+  rejects: RejectsFileSummary,
+  breakdown: ImportErrorBreakdown | null,
   lastError?: {
     code: ImportExportErrorCode;
     message: string;
@@ -751,6 +1282,11 @@ function buildErrorSummary(
     reportLocation: errorReportLocation,
     reportFormat: errorReportFormat,
     reportGenerationFailed,
+    rejectsLocation: rejects.location,
+    rejectsFormat: rejects.format,
+    rejectsCount: rejects.recordCount,
+    ...(rejects.generationFailed ? { rejectsGenerationFailed: true } : {}),
+    ...(breakdown ? { breakdown } : {}),
   };
 
   if (lastError) {
@@ -777,6 +1313,13 @@ export async function createImportJob(options: CreateImportJobOptions): Promise<
   const resource = parseEntityType(options.payload.resource);
   const idempotencyKey = options.idempotencyKey;
 
+  try {
+    await authorizeImportExport({ userId: options.createdById, action: 'import', resource, prisma });
+  } catch (error) {
+    await discardUploadedFile(options.file);
+    throw error;
+  }
+
   const existing = await prisma.importJob.findFirst({
     where: { createdById: options.createdById, idempotencyKey, resource },
   });
@@ -792,6 +1335,21 @@ export async function createImportJob(options: CreateImportJobOptions): Promise<
     return { statusCode: 200, importJob: serializeImportJob(existing) };
   }
 
+  let callbackUrl: string | null;
+  try {
+    callbackUrl = await parseCallbackUrl(options.payload.callbackUrl);
+  } catch (error) {
+    await discardUploadedFile(options.file);
+    throw error;
+  }
+
+  try {
+    await enforceImportConcurrencyLimits(prisma, options.createdById);
+  } catch (error) {
+    await discardUploadedFile(options.file);
+    throw error;
+  }
+
   let intake: ImportIntakeResult;
   try {
     intake = await resolveImportIntake(options.file, options.payload);
@@ -800,87 +1358,121 @@ export async function createImportJob(options: CreateImportJobOptions): Promise<
   }
 
   let format: FileFormat;
+  let importOptions: ImportJobOptions | null;
+  let dryRun: boolean;
+  let mode: ImportMode;
   try {
     format = resolveImportFormat(options.payload.format, intake.fileName);
+    importOptions = resolveImportOptions(options.payload, format);
+    dryRun = parseDryRunFlag(options.payload.dryRun);
+    mode = parseImportMode(options.payload.mode);
   } catch (error) {
     await cleanupImportIntake(intake);
     throw error;
   }
 
-  let created: Awaited<ReturnType<typeof prisma.importJob.create>>;
-  try {
-    created = await prisma.importJob.create({
-      data: {
-        status: 'queued',
-        resource,
-        format,
-        sourceType: intake.sourceType,
-        sourceLocation: intake.location,
-        fileName: intake.fileName,
-        fileSize: intake.bytes,
-        idempotencyKey,
-        createdById: options.createdById,
-        requestHash: null,
-      },
-    });
-  } catch (error) {
-    if (isPrismaUniqueConstraintError(error)) {
-      const existing = await prisma.importJob.findFirst({
-        where: { createdById: options.createdById, idempotencyKey, resource },
-      });
+  return createQueuedImportJob(
+    prisma,
+    {
+      status: 'queued',
+      resource,
+      format,
+      sourceType: intake.sourceType,
+      sourceLocation: intake.location,
+      fileName: intake.fileName,
+      fileSize: intake.bytes,
+      idempotencyKey,
+      options: (importOptions ?? undefined) as Prisma.InputJsonValue | undefined,
+      dryRun,
+      mode,
+      callbackUrl,
+      createdById: options.createdById,
+      requestHash: null,
+    },
+    intake,
+    options.redis,
+  );
+}
 
-      if (existing) {
-        await cleanupImportIntake(intake);
-        logger.info({
-          event: 'Import request deduplicated after create race',
-          jobId: existing.id,
-          userId: options.createdById,
-          resource,
-          status: existing.status,
-        });
-        return { statusCode: 200, importJob: serializeImportJob(existing) };
-      }
-    }
+/**
+ * Creates a job with only the failed records of a finished one, read from the
+ * source records kept for them, with any overrides applied. The new job keeps
+ * the parent's resource, options, mode and callback URL.
+ */
+export async function retryFailedImportRecords(options: RetryFailedImportOptions): Promise<CreateImportJobResult> {
+  const prisma = options.prisma ?? prismaClient;
+  const idempotencyKey = options.idempotencyKey;
+  const parent = await prisma.importJob.findFirst({
+    where: { id: options.jobId, createdById: options.createdById },
+  });
 
-    await cleanupImportIntake(intake);
-    throw error;
+  if (!parent) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['import job not found'] } });
   }
 
-  const { enqueueImportJob } = await import('../../jobs/import-export.queue');
-  try {
-    await enqueueImportJob({
-      jobId: created.id,
-      resource: created.resource,
-      format: created.format,
+  await authorizeImportExport({ userId: options.createdById, action: 'import', resource: normalizeEntityType(parent.resource), prisma });
+
+  const existing = await prisma.importJob.findFirst({
+    where: { createdById: options.createdById, idempotencyKey, resource: parent.resource },
+  });
+  if (existing) {
+    logger.info({
+      event: 'Import retry request deduplicated',
+      jobId: existing.id,
+      parentJobId: parent.id,
+      userId: options.createdById,
+      status: existing.status,
     });
-  } catch (error) {
-    await markImportJobEnqueueFailed(prisma, created.id);
-    await cleanupImportIntake(intake);
-    logger.error({
-      event: 'Import job enqueue failed',
-      jobId: created.id,
-      userId: options.createdById,
-      resource: created.resource,
-      errorName: error instanceof Error ? error.name : 'UnknownError',
-      errorMessage: error instanceof Error ? error.message : String(error),
-    });
-    throw new HttpException(HttpStatusCode.SERVICE_UNAVAILABLE, {
-      errors: { queue: ['failed to enqueue import job'] },
+    return { statusCode: 200, importJob: serializeImportJob(existing) };
+  }
+
+  if ((ACTIVE_JOB_STATUSES as string[]).includes(parent.status)) {
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { job: [`import job cannot be retried in status ${parent.status}`] },
     });
   }
 
-  logger.info({
-    event: 'Import job queued',
-    jobId: created.id,
-    userId: options.createdById,
-    resource: created.resource,
-    format: created.format,
-    sourceType: created.sourceType,
-    fileSize: created.fileSize,
-    hasIdempotencyKey: true,
-  });
+  const overrides = parseRetryOverrides(options.payload.overrides);
+  if (!(await prisma.importFailedRecord.count({ where: { jobId: parent.id } }))) {
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { job: ['import job has no failed records to retry'] },
+    });
+  }
+  await assertOverridesMatchFailedRecords(parent.id, overrides, prisma);
+  await enforceImportConcurrencyLimits(prisma, options.createdById);
+
+  const format = parent.format === 'csv' ? 'csv' : 'ndjson';
+  const source = await writeRetrySource({ jobId: parent.id, format, overrides, prisma });
+  const parentOptions = toImportJobOptions(parent.options);
+  // The retry source is written with the default delimiter
+  const importOptions: ImportJobOptions = {
+    ...(parentOptions.listDelimiter !== undefined ? { listDelimiter: parentOptions.listDelimiter } : {}),
+    ...(parentOptions.mapping ? { mapping: parentOptions.mapping } : {}),
+    ...(parentOptions.sourceSystem ? { sourceSystem: parentOptions.sourceSystem } : {}),
+  };
 
-  return { statusCode: 202, importJob: serializeImportJob(created) };
+  return createQueuedImportJob(
+    prisma,
+    {
+      status: 'queued',
+      resource: parent.resource,
+      format,
+      sourceType: 'retry',
+      sourceLocation: source.location,
+      fileName: source.fileName,
+      fileSize: source.bytes,
+      idempotencyKey,
+      options: Object.keys(importOptions).length ? (importOptions as Prisma.InputJsonValue) : undefined,
+      dryRun: parent.dryRun,
+      mode: parent.mode,
+      callbackUrl: parent.callbackUrl,
+      parentJobId: parent.id,
+      createdById: options.createdById,
+      requestHash: null,
+    },
+    { location: source.location },
+    options.redis,
+  );
 }
 
 export async function getImportJobStatus(options: GetImportJobStatusOptions) {
@@ -903,6 +1495,147 @@ export async function getImportJobStatus(options: GetImportJobStatusOptions) {
     importJob: serializeImportJob(job),
     errorReportUrl: reportLocation ? buildImportErrorReportDownloadUrl(job.id) : undefined,
     errorReportStatus,
+    rejectsUrl: typeof errorSummary?.rejectsLocation === 'string' ? buildImportRejectsDownloadUrl(job.id) : undefined,
+    errorBreakdown: isObject(errorSummary?.breakdown) ? errorSummary?.breakdown : undefined,
+  };
+}
+
+export async function getImportJobProgress(options: GetImportJobProgressOptions): Promise<JobProgress> {
+  const prisma = options.prisma ?? prismaClient;
+  const now = options.now ?? (() => new Date());
+  const job = await prisma.importJob.findFirst({
+    where: { id: options.jobId, createdById: options.createdById },
+    select: {
+      id: true,
+      status: true,
+      processedRecords: true,
+      totalRecords: true,
+      successCount: true,
+      errorCount: true,
+      skippedCount: true,
+      bytesProcessed: true,
+      fileSize: true,
+      startedAt: true,
+      finishedAt: true,
+    },
+  });
+
+  if (!job) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['import job not found'] } });
+  }
+
+  return buildJobProgress(job, now());
+}
+
+export async function listImportJobs(options: ListImportJobsOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const { query } = options;
+  const where = buildImportJobListWhere(options.createdById, query);
+
+  const importJobsCount = await prisma.importJob.count({ where });
+  const jobs = await prisma.importJob.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+
+  const page = jobs.slice(0, query.limit);
+  const nextCursor = jobs.length > query.limit ? page[page.length - 1]?.id ?? null : null;
+
+  return {
+    importJobs: page.map((job) => serializeImportJob(job)),
+    importJobsCount,
+    nextCursor,
+  };
+}
+
+export async function cancelImportJob(options: CancelImportJobOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const now = options.now ?? (() => new Date());
+  const job = await prisma.importJob.findFirst({
+    where: { id: options.jobId, createdById: options.createdById },
+  });
+
+  if (!job) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['import job not found'] } });
+  }
+
+  if (job.status === 'cancelled') {
+    return { importJob: serializeImportJob(job) };
+  }
+
+  if (!CANCELLABLE_STATUSES.includes(job.status)) {
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { job: [`import job cannot be cancelled in status ${job.status}`] },
+    });
+  }
+
+  // Queued jobs never reach a worker checkpoint, so they are finished here.
+  // Running jobs keep finishedAt unset until the worker observes the cancellation.
+  const cancelledAt = now();
+  const result = await prisma.importJob.updateMany({
+    where: { id: job.id, status: job.status },
+    data: {
+      status: 'cancelled',
+      ...(job.status === 'queued' ? { finishedAt: cancelledAt } : {}),
+    },
+  });
+
+  if (!result.count) {
+    const latest = await prisma.importJob.findUnique({ where: { id: job.id } });
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { job: [`import job cannot be cancelled in status ${latest?.status ?? job.status}`] },
+    });
+  }
+
+  let removedFromQueue = false;
+  if (job.status === 'queued') {
+    removedFromQueue = await removeQueuedImportJob(job.id);
+  }
+
+  logger.info({
+    event: 'Import job cancelled',
+    jobId: job.id,
+    userId: options.createdById,
+    previousStatus: job.status,
+    removedFromQueue,
+  });
+
+  const cancelled = await prisma.importJob.findUnique({ where: { id: job.id } });
+  if (job.status === 'queued') {
+    await dispatchFinishedJobWebhook(prisma, cancelled);
+  }
+  return { importJob: serializeImportJob(cancelled ?? { ...job, status: 'cancelled' }) };
+}
+
+export async function listImportErrors(options: ListImportErrorsOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const { query } = options;
+  const job = await prisma.importJob.findFirst({
+    where: { id: options.jobId, createdById: options.createdById },
+    select: { id: true },
+  });
+
+  if (!job) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['import job not found'] } });
+  }
+
+  const where = buildImportErrorListWhere(job.id, query);
+  const errorsCount = await prisma.importError.count({ where });
+  const errors = await prisma.importError.findMany({
+    where,
+    orderBy: [{ recordIndex: 'asc' }, { id: 'asc' }],
+    skip: query.offset,
+    take: query.limit,
+    select: IMPORT_ERROR_SELECT,
+  });
+
+  return {
+    errors: errors.map((error) => ({ id: error.id, jobId: job.id, ...serializeImportError(error) })),
+    errorsCount,
+    limit: query.limit,
+    offset: query.offset,
   };
 }
 
@@ -925,6 +1658,10 @@ export async function getErrorReportFileMetadata(
     typeof errorSummary?.reportStatus === 'string' ? (errorSummary.reportStatus as string) : undefined;
   const reportFormat = typeof errorSummary?.reportFormat === 'string' ? errorSummary.reportFormat : null;
 
+  if (reportStatus === 'expired') {
+    throw new HttpException(HttpStatusCode.GONE, { errors: { job: ['import error report has expired'] } });
+  }
+
   if (!reportLocation) {
     throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['import error report not found'] } });
   }
@@ -943,6 +1680,45 @@ export async function getErrorReportFileMetadata(
   };
 }
 
+/**
+ * Rejects files expire with the error report, so retention marks both through
+ * `reportStatus`.
+ */
+export async function getRejectsFileMetadata(options: GetErrorReportFileOptions): Promise<ErrorReportFileMetadata> {
+  const prisma = options.prisma ?? prismaClient;
+  const job = await prisma.importJob.findFirst({
+    where: { id: options.jobId, createdById: options.createdById },
+  });
+
+  if (!job) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['import job not found'] } });
+  }
+
+  const errorSummary = toJsonObject(job.errorSummary);
+  const rejectsLocation = typeof errorSummary?.rejectsLocation === 'string' ? errorSummary.rejectsLocation : null;
+
+  if (errorSummary?.reportStatus === 'expired') {
+    throw new HttpException(HttpStatusCode.GONE, { errors: { job: ['import rejects file has expired'] } });
+  }
+
+  if (!rejectsLocation) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { job: ['import rejects file not found'] } });
+  }
+
+  const format = normalizeFormat(typeof errorSummary?.rejectsFormat === 'string' ? errorSummary.rejectsFormat : null);
+  const contentTypes: Record<FileFormat, string> = {
+    json: 'application/json',
+    ndjson: 'application/x-ndjson',
+    csv: 'text/csv; charset=utf-8',
+  };
+
+  return {
+    reportLocation: rejectsLocation,
+    contentType: contentTypes[format],
+    contentDisposition: `attachment; filename="${job.id}-rejects.${format}"`,
+  };
+}
+
 export function serializeImportJob(job: {
   id: string;
   status: string;
@@ -952,6 +1728,7 @@ export function serializeImportJob(job: {
   processedRecords: number;
   successCount: number;
   errorCount: number;
+  skippedCount?: number;
   createdAt: Date;
   startedAt: Date | null;
   finishedAt: Date | null;
@@ -959,7 +1736,14 @@ export function serializeImportJob(job: {
   fileSize: number | null;
   sourceLocation: string | null;
   idempotencyKey: string | null;
+  options?: Prisma.JsonValue | null;
+  mode?: string;
+  dryRun?: boolean;
+  dryRunSummary?: Prisma.JsonValue | null;
   errorSummary?: Prisma.JsonValue | null;
+  callbackUrl?: string | null;
+  parentJobId?: string | null;
+  bundleId?: string | null;
 }) {
   return {
     id: job.id,
@@ -970,6 +1754,7 @@ export function serializeImportJob(job: {
     processedRecords: job.processedRecords,
     successCount: job.successCount,
     errorCount: job.errorCount,
+    skippedCount: job.skippedCount ?? 0,
     createdAt: job.createdAt,
     startedAt: job.startedAt,
     completedAt: job.finishedAt,
@@ -978,18 +1763,158 @@ export function serializeImportJob(job: {
     fileName: job.fileName,
     fileSize: job.fileSize,
     sourceUrl: job.sourceLocation,
+    options: toJsonObject(job.options) ?? null,
+    mode: job.mode ?? 'upsert',
+    dryRun: job.dryRun ?? false,
+    dryRunSummary: toJsonObject(job.dryRunSummary) ?? null,
+    callbackUrl: job.callbackUrl ?? null,
+    parentJobId: job.parentJobId ?? null,
+    bundleId: job.bundleId ?? null,
     errorSummary: sanitizeImportErrorSummary(job.errorSummary),
   };
 }
 
-async function resolveImportIntake(file: UploadedFile | undefined, payload: ImportCreatePayload): Promise<ImportIntakeResult> {
+/**
+ * Inserts a queued job and enqueues it. A create that loses an idempotency key
+ * race returns the winning job; an enqueue failure marks the job failed. The
+ * intake file is removed whenever the new row does not end up queued.
+ */
+async function createQueuedImportJob(
+  prisma: PrismaClient,
+  data: Prisma.ImportJobUncheckedCreateInput,
+  intake: Pick<ImportIntakeResult, 'location'>,
+  redis?: JobLimitRedis,
+): Promise<CreateImportJobResult> {
+  let created: ImportJobRow;
+  try {
+    created = await createWithinImportJobLimits(
+      prisma,
+      data.createdById,
+      (tx) => tx.importJob.create({ data }),
+      redis,
+    );
+  } catch (error) {
+    if (isPrismaUniqueConstraintError(error)) {
+      const existing = await prisma.importJob.findFirst({
+        where: { createdById: data.createdById, idempotencyKey: data.idempotencyKey, resource: data.resource },
+      });
+
+      if (existing) {
+        await cleanupImportIntake(intake);
+        logger.info({
+          event: 'Import request deduplicated after create race',
+          jobId: existing.id,
+          userId: data.createdById,
+          resource: data.resource,
+          status: existing.status,
+        });
+        return { statusCode: 200, importJob: serializeImportJob(existing) };
+      }
+    }
+
+    await cleanupImportIntake(intake);
+    throw error;
+  }
+
+  const { enqueueImportJob } = await import('../../jobs/import-export.queue');
+  try {
+    await enqueueImportJob({
+      jobId: created.id,
+      resource: created.resource,
+      format: created.format,
+    });
+  } catch (error) {
+    await markImportJobEnqueueFailed(prisma, created.id);
+    await cleanupImportIntake(intake);
+    logger.error({
+      event: 'Import job enqueue failed',
+      jobId: created.id,
+      userId: data.createdById,
+      resource: created.resource,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw new HttpException(HttpStatusCode.SERVICE_UNAVAILABLE, {
+      errors: { queue: ['failed to enqueue import job'] },
+    });
+  }
+
+  logger.info({
+    event: 'Import job queued',
+    jobId: created.id,
+    userId: data.createdById,
+    resource: created.resource,
+    format: created.format,
+    sourceType: created.sourceType,
+    fileSize: created.fileSize,
+    hasIdempotencyKey: true,
+    ...(created.parentJobId ? { parentJobId: created.parentJobId } : {}),
+  });
+
+  return { statusCode: 202, importJob: serializeImportJob(created) };
+}
+
+// Checked before the intake so a busy service does not take the upload first; the quota is left for the create
+export async function enforceImportConcurrencyLimits(prisma: PrismaClient, userId: number): Promise<void> {
+  await enforceConcurrencyLimits(importConcurrencyLimits(prisma, userId));
+}
+
+/**
+ * Creates import jobs under the creation lock, counting active jobs again since
+ * a racing request may have taken the last slot after the early check. The
+ * hourly quota is only consumed here, so a request whose intake or validation
+ * failed does not count against it.
+ */
+export async function createWithinImportJobLimits<T>(
+  prisma: PrismaClient,
+  userId: number,
+  create: (tx: Prisma.TransactionClient) => Promise<T>,
+  redis?: JobLimitRedis,
+): Promise<T> {
+  return withJobCreationLock(prisma, 'import', async (tx) => {
+    await enforceConcurrencyLimits(importConcurrencyLimits(tx, userId));
+    await enforceRateLimit({
+      type: 'import',
+      userId,
+      rateLimitPerHour: loadImportConfig().importRateLimitPerHour,
+      redis,
+    });
+    return create(tx);
+  });
+}
+
+function importConcurrencyLimits(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: number,
+): ConcurrencyLimitOptions {
+  const config = loadImportConfig();
+  return {
+    type: 'import',
+    userId,
+    concurrentLimitUser: config.importConcurrentLimitUser,
+    concurrentLimitGlobal: config.importConcurrentLimitGlobal,
+    // A bundle runs its jobs one after another, so it counts as one active job however many files it has
+    countActiveJobs: async (createdById) => {
+      const where = { status: { in: ACTIVE_JOB_STATUSES }, ...(createdById !== undefined ? { createdById } : {}) };
+      const jobs = await prisma.importJob.count({ where: { ...where, bundleId: null } });
+      const bundles = await prisma.importBundle.count({ where });
+      return jobs + bundles;
+    },
+  };
+}
+
+export async function resolveImportIntake(
+  file: UploadedFile | undefined,
+  payload: Pick<ImportCreatePayload, 'url'>,
+  kind: ImportFileKind = 'records',
+): Promise<ImportIntakeResult> {
   if (file) {
-    await validateUploadedFile(file);
+    await validateUploadedFile(file, kind);
     return mapUploadedFileToImportIntakeResult(file);
   }
 
   if (typeof payload.url === 'string' && payload.url.trim().length > 0) {
-    return fetchRemoteImport({ url: payload.url.trim() });
+    return fetchRemoteImport({ url: payload.url.trim(), kind });
   }
 
   throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
@@ -997,17 +1922,17 @@ async function resolveImportIntake(file: UploadedFile | undefined, payload: Impo
   });
 }
 
-function resolveImportFormat(rawFormat: string | undefined, fileName: string) {
+export function resolveImportFormat(rawFormat: string | undefined, fileName: string) {
   const inferred = inferImportFormatFromFileName(fileName);
 
   if (rawFormat) {
-    const explicit = parseFormat(rawFormat);
+    const explicit = parseFormat(rawFormat, FILE_FORMATS);
 
     if (inferred && explicit !== inferred) {
       throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
         errors: {
           format: [
-            `format ${explicit} does not match file extension (${path.extname(fileName).toLowerCase()})`,
+            `format ${explicit} does not match file extension (${path.extname(stripGzipExtension(fileName)).toLowerCase()})`,
           ],
         },
       });
@@ -1020,7 +1945,7 @@ function resolveImportFormat(rawFormat: string | undefined, fileName: string) {
 }
 
 function inferImportFormatFromFileName(fileName: string): FileFormat | null {
-  const ext = path.extname(fileName).toLowerCase();
+  const ext = path.extname(stripGzipExtension(fileName)).toLowerCase();
 
   if (ext === '.json') {
     return 'json';
@@ -1030,9 +1955,91 @@ function inferImportFormatFromFileName(fileName: string): FileFormat | null {
     return 'ndjson';
   }
 
+  if (ext === '.csv') {
+    return 'csv';
+  }
+
   return null;
 }
 
+/**
+ * CSV delimiters are only meaningful for CSV sources, so they are rejected for
+ * JSON formats rather than silently ignored. Returns null when nothing is set.
+ */
+export function resolveImportOptions(payload: ImportCreatePayload, format: FileFormat): ImportJobOptions | null {
+  const delimiter = parseDelimiterOption(payload.delimiter, 'delimiter');
+  const listDelimiter = parseDelimiterOption(payload.listDelimiter, 'listDelimiter');
+  const mapping = parseImportMapping(payload.mapping);
+  const sourceSystem = parseSourceSystem(payload.sourceSystem);
+  const shared: ImportJobOptions = {
+    ...(mapping ? { mapping } : {}),
+    ...(sourceSystem ? { sourceSystem } : {}),
+  };
+
+  if (delimiter === undefined && listDelimiter === undefined) {
+    return Object.keys(shared).length ? shared : null;
+  }
+
+  if (format !== 'csv') {
+    const field = delimiter !== undefined ? 'delimiter' : 'listDelimiter';
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { [field]: [`${field} is only supported for csv imports`] },
+    });
+  }
+
+  if (delimiter !== undefined && delimiter === listDelimiter) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { listDelimiter: ['listDelimiter must differ from delimiter'] },
+    });
+  }
+
+  return {
+    ...(delimiter !== undefined ? { delimiter } : {}),
+    ...(listDelimiter !== undefined ? { listDelimiter } : {}),
+    ...shared,
+  };
+}
+
+export function parseImportMode(value: unknown): ImportMode {
+  if (value === undefined || value === null || value === '') {
+    return 'upsert';
+  }
+  if (typeof value === 'string' && (IMPORT_MODES as string[]).includes(value)) {
+    return value as ImportMode;
+  }
+  throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+    errors: { mode: ['mode must be insert, update, upsert or skipExisting'] },
+  });
+}
+
+// Multipart uploads send every field as a string, so "true"/"false" are accepted too.
+export function parseDryRunFlag(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === 'false') {
+    return false;
+  }
+  if (value === true || value === 'true') {
+    return true;
+  }
+  throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+    errors: { dryRun: ['dryRun must be a boolean'] },
+  });
+}
+
+function parseDelimiterOption(value: unknown, field: 'delimiter' | 'listDelimiter'): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const delimiter = value === 'tab' || value === '\\t' ? '\t' : value;
+  if (typeof delimiter !== 'string' || [...delimiter].length !== 1 || ['"', '\r', '\n'].includes(delimiter)) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { [field]: [`${field} must be a single character other than a quote or line break`] },
+    });
+  }
+
+  return delimiter;
+}
+
 function sanitizeImportErrorSummary(
   value: Prisma.JsonValue | null | undefined,
 ): Record<string, unknown> | null {
@@ -1042,18 +2049,69 @@ function sanitizeImportErrorSummary(
   }
 
   // Exclude reportLocation from the summary returned by the API to avoid exposing internal storage details.
+  // The breakdown is returned once, as errorBreakdown on the status response, to keep job lists small.
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { reportLocation, ...safeSummary } = summary;
+  const { reportLocation, rejectsLocation, breakdown, ...safeSummary } = summary;
   return safeSummary;
 }
 
+function buildImportJobListWhere(createdById: number, query: JobListQuery): Prisma.ImportJobWhereInput {
+  const where: Prisma.ImportJobWhereInput = { createdById };
+
+  if (query.statuses) {
+    where.status = { in: query.statuses };
+  }
+  if (query.entityType) {
+    where.resource = query.entityType;
+  }
+  if (query.format) {
+    where.format = query.format;
+  }
+  if (query.createdAfter || query.createdBefore) {
+    where.createdAt = {
+      ...(query.createdAfter ? { gte: query.createdAfter } : {}),
+      ...(query.createdBefore ? { lt: query.createdBefore } : {}),
+    };
+  }
+
+  return where;
+}
+
+function buildImportErrorListWhere(jobId: string, query: RecordErrorListQuery): Prisma.ImportErrorWhereInput {
+  const where: Prisma.ImportErrorWhereInput = { jobId };
+
+  if (query.errorCode !== null) {
+    where.errorCode = query.errorCode;
+  }
+  if (query.errorName) {
+    where.errorName = query.errorName;
+  }
+  if (query.field) {
+    where.field = query.field;
+  }
+  if (query.recordIndexFrom !== null || query.recordIndexTo !== null) {
+    where.recordIndex = {
+      ...(query.recordIndexFrom !== null ? { gte: query.recordIndexFrom } : {}),
+      ...(query.recordIndexTo !== null ? { lte: query.recordIndexTo } : {}),
+    };
+  }
+
+  return where;
+}
+
 function buildImportErrorReportDownloadUrl(jobId: string): string {
   const baseUrl = process.env.IMPORT_ERROR_REPORT_DOWNLOAD_BASE_URL?.replace(/\/$/, '');
   const pathSuffix = `/api/v1/imports/${jobId}/errors/download`;
   return baseUrl ? `${baseUrl}${pathSuffix}` : pathSuffix;
 }
 
-async function cleanupImportIntake(intake: ImportIntakeResult): Promise<void> {
+function buildImportRejectsDownloadUrl(jobId: string): string {
+  const baseUrl = process.env.IMPORT_ERROR_REPORT_DOWNLOAD_BASE_URL?.replace(/\/$/, '');
+  const pathSuffix = `/api/v1/imports/${jobId}/rejects/download`;
+  return baseUrl ? `${baseUrl}${pathSuffix}` : pathSuffix;
+}
+
+export async function cleanupImportIntake(intake: Pick<ImportIntakeResult, 'location'>): Promise<void> {
   if (!intake.location) {
     return;
   }
@@ -1070,6 +2128,28 @@ async function cleanupImportIntake(intake: ImportIntakeResult): Promise<void> {
   }
 }
 
+export async function discardUploadedFile(file: UploadedFile | undefined): Promise<void> {
+  if (file) {
+    await cleanupImportIntake({ location: file.path });
+  }
+}
+
+async function removeQueuedImportJob(jobId: string): Promise<boolean> {
+  try {
+    const { removeQueuedJob } = await import('../../jobs/import-export.queue');
+    return await removeQueuedJob('import', jobId);
+  } catch (error) {
+    // The worker claim only accepts queued jobs, so a leftover queue entry is harmless.
+    logger.warn({
+      event: 'Import queue job removal failed',
+      jobId,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
 async function markImportJobEnqueueFailed(prisma: PrismaClient, jobId: string): Promise<void> {
   try {
     await prisma.importJob.update({
@@ -1089,7 +2169,7 @@ async function markImportJobEnqueueFailed(prisma: PrismaClient, jobId: string):
   }
 }
 
-function mapImportCreateError(error: unknown): HttpException {
+export function mapImportCreateError(error: unknown): HttpException {
   if (error instanceof HttpException) {
     return error;
   }
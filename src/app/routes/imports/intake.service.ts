@@ -9,7 +9,7 @@ import { pipeline } from 'stream/promises';
 import { createImportStorageAdapter } from '../../storage';
 import { loadImportConfig } from './config';
 import { FileErrorCode, ImportExportErrorCode } from '../shared/import-export/types';
-import { isLocalHostname, isPrivateIp } from '../shared/import-export/utils';
+import { isLocalHostname, isPrivateIp, stripGzipExtension } from '../shared/import-export/utils';
 
 const DEFAULT_URL_TIMEOUT_MS = 30000;
 const ALLOWED_CONTENT_TYPES = new Set([
@@ -19,8 +19,22 @@ const ALLOWED_CONTENT_TYPES = new Set([
   'application/jsonl',
   'text/plain',
   'text/json',
+  'text/csv',
+  'application/csv',
+  'application/gzip',
+  'application/x-gzip',
 ]);
-const ALLOWED_EXTENSIONS = new Set(['.json', '.ndjson', '.jsonl']);
+const ALLOWED_EXTENSIONS = new Set(['.json', '.ndjson', '.jsonl', '.csv']);
+// Bundles are sniffed by their first bytes, so generic binary uploads are accepted too
+const ARCHIVE_CONTENT_TYPES = new Set([
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/x-tar',
+  'application/gzip',
+  'application/x-gzip',
+  'application/octet-stream',
+]);
+const ARCHIVE_EXTENSIONS = new Set(['.zip', '.tar', '.tgz']);
 
 const config = loadImportConfig();
 
@@ -46,14 +60,18 @@ export interface ImportIntakeResult {
 
 export type UploadedFile = Express.Multer.File;
 
+// Record files for single-resource imports, archives for bundles
+export type ImportFileKind = 'records' | 'archive';
+
 export interface RemoteFetchOptions {
   url: string;
   timeoutMs?: number;
   maxFileSize?: number;
   allowedHosts?: string[];
+  kind?: ImportFileKind;
 }
 
-export function createImportUploadMiddleware(fieldName = 'file') {
+export function createImportUploadMiddleware(fieldName = 'file', kind: ImportFileKind = 'records') {
   const uploadPath = config.importStoragePath;
 
   const storage = multer.diskStorage({
@@ -79,8 +97,8 @@ export function createImportUploadMiddleware(fieldName = 'file') {
     },
     fileFilter: (_req, file, cb) => {
       const contentType = normalizeContentType(file.mimetype);
-      const hasAllowedContentType = isAllowedContentType(contentType);
-      const hasAllowedExtension = isAllowedExtension(file.originalname);
+      const hasAllowedContentType = isAllowedContentType(contentType, kind);
+      const hasAllowedExtension = isAllowedExtension(file.originalname, kind);
 
       if (!hasAllowedContentType && !hasAllowedExtension) {
         return cb(new ImportExportError(FileErrorCode.UNSUPPORTED_FORMAT, 'Unsupported content type'));
@@ -103,10 +121,10 @@ export function mapUploadedFileToImportIntakeResult(file: UploadedFile): ImportI
   };
 }
 
-export async function validateUploadedFile(file: UploadedFile): Promise<void> {
+export async function validateUploadedFile(file: UploadedFile, kind: ImportFileKind = 'records'): Promise<void> {
   const contentType = normalizeContentType(file.mimetype);
-  const hasAllowedContentType = isAllowedContentType(contentType);
-  const hasAllowedExtension = isAllowedExtension(file.originalname);
+  const hasAllowedContentType = isAllowedContentType(contentType, kind);
+  const hasAllowedExtension = isAllowedExtension(file.originalname, kind);
 
   if (!hasAllowedContentType && !hasAllowedExtension) {
     throw new ImportExportError(FileErrorCode.UNSUPPORTED_FORMAT, 'Unsupported content type');
@@ -120,11 +138,12 @@ export async function validateUploadedFile(file: UploadedFile): Promise<void> {
 }
 
 export async function fetchRemoteImport(options: RemoteFetchOptions): Promise<ImportIntakeResult> {
-  const url = parseUrl(options.url);
+  const url = parseRemoteUrl(options.url);
   await assertRemoteUrlAllowed(url, options.allowedHosts ?? config.allowedHosts);
 
   const timeoutMs = options.timeoutMs ?? DEFAULT_URL_TIMEOUT_MS;
   const maxFileSize = options.maxFileSize ?? config.maxFileSize;
+  const kind = options.kind ?? 'records';
   const storage = createImportStorageAdapter();
 
   const fileName = decodeURIComponent(path.basename(url.pathname)) || `import-${randomUUID()}`;
@@ -137,9 +156,12 @@ export async function fetchRemoteImport(options: RemoteFetchOptions): Promise<Im
       responseType: 'stream',
       timeout: timeoutMs,
       maxRedirects: 0,
+      // `Content-Encoding: gzip` bodies are decoded here, so the size limiter below
+      // counts decompressed bytes. Gzip files served as-is are decoded by the worker.
+      decompress: true,
       validateStatus: (status) => status >= 200 && status < 300,
       headers: {
-        Accept: Array.from(ALLOWED_CONTENT_TYPES).join(','),
+        Accept: Array.from(kind === 'archive' ? ARCHIVE_CONTENT_TYPES : ALLOWED_CONTENT_TYPES).join(','),
       },
     });
   } catch (error) {
@@ -147,8 +169,8 @@ export async function fetchRemoteImport(options: RemoteFetchOptions): Promise<Im
   }
 
   const contentType = normalizeContentType(response.headers['content-type']);
-  const hasAllowedContentType = isAllowedContentType(contentType);
-  const hasAllowedExtension = isAllowedExtension(fileName);
+  const hasAllowedContentType = isAllowedContentType(contentType, kind);
+  const hasAllowedExtension = isAllowedExtension(fileName, kind);
 
   if (!hasAllowedContentType && !hasAllowedExtension) {
     throw new ImportExportError(FileErrorCode.UNSUPPORTED_FORMAT, 'Unsupported content type');
@@ -195,16 +217,17 @@ function normalizeContentType(contentType?: string): string | null {
   return contentType.split(';')[0]?.trim().toLowerCase() ?? null;
 }
 
-function isAllowedContentType(contentType: string | null): boolean {
-  return Boolean(contentType && ALLOWED_CONTENT_TYPES.has(contentType));
+function isAllowedContentType(contentType: string | null, kind: ImportFileKind): boolean {
+  const allowed = kind === 'archive' ? ARCHIVE_CONTENT_TYPES : ALLOWED_CONTENT_TYPES;
+  return Boolean(contentType && allowed.has(contentType));
 }
 
-function isAllowedExtension(fileName: string): boolean {
-  const extension = path.extname(fileName).toLowerCase();
-  return ALLOWED_EXTENSIONS.has(extension);
+function isAllowedExtension(fileName: string, kind: ImportFileKind): boolean {
+  const extension = path.extname(stripGzipExtension(fileName)).toLowerCase();
+  return (kind === 'archive' ? ARCHIVE_EXTENSIONS : ALLOWED_EXTENSIONS).has(extension);
 }
 
-function parseUrl(value: string): URL {
+export function parseRemoteUrl(value: string): URL {
   let url: URL;
 
   try {
@@ -218,7 +241,11 @@ function parseUrl(value: string): URL {
   return url;
 }
 
-async function assertRemoteUrlAllowed(url: URL, allowedHosts: string[]): Promise<void> {
+/**
+ * Rejects hosts outside the allowlist (when one is configured), localhost and
+ * hosts resolving to private addresses. Shared by URL imports and webhooks.
+ */
+export async function assertRemoteUrlAllowed(url: URL, allowedHosts: string[]): Promise<void> {
   const hostname = url.hostname.toLowerCase();
   if (!isHostAllowed(hostname, allowedHosts)) {
     throw new ImportExportError(FileErrorCode.URL_NOT_ALLOWED, 'Host is not in allowlist');
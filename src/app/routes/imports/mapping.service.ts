@@ -0,0 +1,318 @@
+import HttpException from '../../models/http-exception.model';
+import { HttpStatusCode } from '../../models/http-status-code.model';
+import {
+  CreateRecordErrorOptions,
+  IMPORT_FIELD_LOOKUPS,
+  IMPORT_FIELD_TRANSFORMS,
+  ImportFieldLookup,
+  ImportFieldMapping,
+  ImportFieldMappingRule,
+  ImportFieldTransform,
+  ImportMappingScalar,
+  ValidationErrorCode,
+} from '../shared/import-export/types';
+import { isObject } from '../shared/import-export/utils';
+import {
+  addError,
+  lookupArticleIdBySlug,
+  lookupUserIdByEmail,
+  RecordValidationContext,
+  ValidationCache,
+} from './validation/validation.validators';
+
+export interface MappedRecordResult {
+  record: unknown;
+  errors: CreateRecordErrorOptions[];
+}
+
+const MAX_MAPPED_FIELDS = 100;
+const DATE_FORMAT_TOKENS = ['YYYY', 'MM', 'DD', 'HH', 'mm', 'ss'] as const;
+
+type DateFormatToken = (typeof DATE_FORMAT_TOKENS)[number];
+
+const LOOKUP_LABELS: Record<ImportFieldLookup, string> = {
+  userEmail: 'User',
+  articleSlug: 'Article',
+};
+
+/**
+ * Validates a mapping spec from the create payload. Multipart forms send it as
+ * a JSON string. A rule may be a bare string, shorthand for `{ from }`.
+ */
+export function parseImportMapping(value: unknown): ImportFieldMapping | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  let spec = value;
+  if (typeof spec === 'string') {
+    try {
+      spec = JSON.parse(spec);
+    } catch {
+      throw mappingError('mapping must be a JSON object');
+    }
+  }
+
+  if (!isObject(spec)) {
+    throw mappingError('mapping must be a JSON object');
+  }
+
+  const entries = Object.entries(spec);
+  if (!entries.length) {
+    throw mappingError('mapping must map at least one field');
+  }
+  if (entries.length > MAX_MAPPED_FIELDS) {
+    throw mappingError(`mapping must map at most ${MAX_MAPPED_FIELDS} fields`);
+  }
+
+  const mapping: ImportFieldMapping = {};
+  for (const [field, rule] of entries) {
+    if (!field.trim()) {
+      throw mappingError('mapping field names must not be empty');
+    }
+    mapping[field] = parseMappingRule(field, rule);
+  }
+
+  return mapping;
+}
+
+/**
+ * Renames and transforms a source record into the import record shape. Source
+ * fields no rule reads are passed through unchanged. Errors name the source
+ * field so they can be traced back to the partner's column.
+ */
+export async function applyImportMapping(
+  record: unknown,
+  mapping: ImportFieldMapping,
+  context: RecordValidationContext,
+  cache: ValidationCache,
+): Promise<MappedRecordResult> {
+  if (!isObject(record)) {
+    return { record, errors: [] };
+  }
+
+  const consumed = new Set(
+    Object.values(mapping)
+      .filter((rule) => rule.value === undefined)
+      .map((rule) => rule.from),
+  );
+  const mapped: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (!consumed.has(field)) {
+      mapped[field] = value;
+    }
+  }
+
+  const errors: CreateRecordErrorOptions[] = [];
+  for (const [field, rule] of Object.entries(mapping)) {
+    const value = await applyMappingRule(record, rule, context, cache, errors);
+    if (value !== undefined) {
+      mapped[field] = value;
+    }
+  }
+
+  return { record: mapped, errors };
+}
+
+async function applyMappingRule(
+  source: Record<string, unknown>,
+  rule: ImportFieldMappingRule,
+  context: RecordValidationContext,
+  cache: ValidationCache,
+  errors: CreateRecordErrorOptions[],
+): Promise<unknown> {
+  let value: unknown = rule.value !== undefined ? rule.value : source[rule.from];
+
+  for (const transform of rule.transforms ?? []) {
+    if (typeof value === 'string') {
+      value = transform === 'trim' ? value.trim() : value.toLowerCase();
+    }
+  }
+
+  if (value === undefined || value === null || value === '') {
+    if (rule.default === undefined) {
+      return undefined;
+    }
+    value = rule.default;
+  }
+
+  if (rule.split !== undefined && typeof value === 'string') {
+    value = value
+      .split(rule.split)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  if (rule.dateFormat) {
+    const parsed = typeof value === 'string' ? parseDateWithFormat(value.trim(), rule.dateFormat) : null;
+    if (!parsed) {
+      addError(
+        errors,
+        context,
+        ValidationErrorCode.INVALID_FIELD_FORMAT,
+        `Value does not match date format ${rule.dateFormat}`,
+        rule.from,
+        value,
+      );
+      return undefined;
+    }
+    value = parsed.toISOString();
+  }
+
+  if (rule.lookup) {
+    const id = typeof value === 'string' ? await lookupMappedId(rule.lookup, value, context, cache) : null;
+    if (id === null) {
+      addError(
+        errors,
+        context,
+        ValidationErrorCode.INVALID_REFERENCE,
+        `${LOOKUP_LABELS[rule.lookup]} not found for ${rule.from}`,
+        rule.from,
+        value,
+      );
+      return undefined;
+    }
+    value = id;
+  }
+
+  return value;
+}
+
+async function lookupMappedId(
+  lookup: ImportFieldLookup,
+  value: string,
+  context: RecordValidationContext,
+  cache: ValidationCache,
+): Promise<number | null> {
+  const key = value.trim().toLowerCase();
+  if (!key) {
+    return null;
+  }
+
+  return lookup === 'userEmail'
+    ? lookupUserIdByEmail(key, context, cache)
+    : lookupArticleIdBySlug(key, context, cache);
+}
+
+/**
+ * Parses a date against a format built from DATE_FORMAT_TOKENS; any other
+ * character must match literally. Missing time tokens default to midnight UTC.
+ */
+export function parseDateWithFormat(value: string, format: string): Date | null {
+  const tokens: DateFormatToken[] = [];
+  let pattern = '';
+  let index = 0;
+
+  while (index < format.length) {
+    const token = DATE_FORMAT_TOKENS.find((candidate) => format.startsWith(candidate, index));
+    if (token) {
+      tokens.push(token);
+      pattern += token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+      index += token.length;
+    } else {
+      pattern += format[index].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      index += 1;
+    }
+  }
+
+  const match = new RegExp(`^${pattern}$`).exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const parts: Record<DateFormatToken, number> = { YYYY: 0, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0 };
+  tokens.forEach((token, position) => {
+    parts[token] = Number(match[position + 1]);
+  });
+
+  const date = new Date(Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss));
+  // Date.UTC rolls overflowing parts over (Feb 30 -> Mar 2), so round-trip to reject them.
+  const valid =
+    date.getUTCFullYear() === parts.YYYY &&
+    date.getUTCMonth() === parts.MM - 1 &&
+    date.getUTCDate() === parts.DD &&
+    date.getUTCHours() === parts.HH &&
+    date.getUTCMinutes() === parts.mm &&
+    date.getUTCSeconds() === parts.ss;
+
+  return valid ? date : null;
+}
+
+function parseMappingRule(field: string, rule: unknown): ImportFieldMappingRule {
+  if (typeof rule === 'string') {
+    if (!rule.trim()) {
+      throw mappingError(`mapping.${field} must name a source field`);
+    }
+    return { from: rule };
+  }
+
+  if (!isObject(rule)) {
+    throw mappingError(`mapping.${field} must be a source field name or a rule object`);
+  }
+
+  const { from, value, transforms, split, dateFormat, lookup } = rule;
+  const fallback = rule.default;
+  const parsed: ImportFieldMappingRule = { from: field };
+
+  if (from !== undefined) {
+    if (typeof from !== 'string' || !from.trim()) {
+      throw mappingError(`mapping.${field}.from must be a non-empty string`);
+    }
+    if (value !== undefined) {
+      throw mappingError(`mapping.${field} cannot combine from and value`);
+    }
+    parsed.from = from;
+  }
+
+  if (value !== undefined) {
+    parsed.value = parseScalar(value, `mapping.${field}.value`);
+  }
+
+  if (fallback !== undefined) {
+    parsed.default = parseScalar(fallback, `mapping.${field}.default`);
+  }
+
+  if (transforms !== undefined) {
+    if (
+      !Array.isArray(transforms) ||
+      !transforms.every((transform) => (IMPORT_FIELD_TRANSFORMS as unknown[]).includes(transform))
+    ) {
+      throw mappingError(`mapping.${field}.transforms must be a list of trim or lowercase`);
+    }
+    parsed.transforms = transforms as ImportFieldTransform[];
+  }
+
+  if (split !== undefined) {
+    if (typeof split !== 'string' || !split.length) {
+      throw mappingError(`mapping.${field}.split must be a non-empty string`);
+    }
+    parsed.split = split;
+  }
+
+  if (dateFormat !== undefined) {
+    if (typeof dateFormat !== 'string' || !['YYYY', 'MM', 'DD'].every((token) => dateFormat.includes(token))) {
+      throw mappingError(`mapping.${field}.dateFormat must contain YYYY, MM and DD`);
+    }
+    parsed.dateFormat = dateFormat;
+  }
+
+  if (lookup !== undefined) {
+    if (!(IMPORT_FIELD_LOOKUPS as unknown[]).includes(lookup)) {
+      throw mappingError(`mapping.${field}.lookup must be userEmail or articleSlug`);
+    }
+    parsed.lookup = lookup as ImportFieldLookup;
+  }
+
+  return parsed;
+}
+
+function parseScalar(value: unknown, path: string): ImportMappingScalar {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  throw mappingError(`${path} must be a string, number or boolean`);
+}
+
+function mappingError(message: string): HttpException {
+  return new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, { errors: { mapping: [message] } });
+}
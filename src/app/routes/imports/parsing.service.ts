@@ -1,13 +1,47 @@
-import { Readable } from 'stream';
+import { Readable, Transform } from 'stream';
 import readline from 'readline';
+import { createGunzip } from 'zlib';
+import { StringDecoder } from 'string_decoder';
 import { parser as jsonParser } from 'stream-json';
 import { streamArray } from 'stream-json/streamers/StreamArray';
-import { FileErrorCode, ImportExportErrorCode, ProcessingErrorCode } from '../shared/import-export/types';
+import { DEFAULT_CSV_DELIMITER, DEFAULT_CSV_LIST_DELIMITER } from '../shared/import-export/config';
+import { EntityType, FileErrorCode, ImportExportErrorCode, ProcessingErrorCode } from '../shared/import-export/types';
 
 export interface ParseOptions {
   maxRecords: number;
 }
 
+export interface CsvParseOptions extends ParseOptions {
+  delimiter?: string;
+}
+
+export interface CsvCoerceOptions {
+  listDelimiter?: string;
+}
+
+type CsvFieldType = 'number' | 'boolean' | 'list';
+
+// CSV cells are always strings; these fields are coerced before validation so the
+// same schemas apply to CSV and JSON sources. Unlisted fields stay strings.
+const CSV_FIELD_TYPES: Record<EntityType, Record<string, CsvFieldType>> = {
+  users: { id: 'number', active: 'boolean' },
+  articles: { id: 'number', author_id: 'number', tags: 'list' },
+  comments: { id: 'number', article_id: 'number', user_id: 'number' },
+  tags: {},
+  favorites: { user_id: 'number', article_id: 'number' },
+  follows: { follower_id: 'number', following_id: 'number' },
+};
+
+const NUMBER_PATTERN = /^[+-]?\d+(\.\d+)?$/;
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  false: false,
+  yes: true,
+  no: false,
+  '1': true,
+  '0': false,
+};
+
 export interface ParsedRecord<T = unknown> {
   record: T;
   index: number;
@@ -44,6 +78,40 @@ function normalizeErrorDetails(error: unknown): Record<string, unknown> {
   return { message: String(error) };
 }
 
+/**
+ * Decompresses a gzip source while counting decompressed bytes, so the file size
+ * limit applies to what is parsed rather than to what was uploaded.
+ */
+export function decompressGzipStream(input: Readable, maxBytes: number): Readable {
+  let total = 0;
+  const gunzip = createGunzip();
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        callback(
+          new ImportExportParseError(
+            FileErrorCode.FILE_TOO_LARGE,
+            `Decompressed import exceeds maximum file size (${maxBytes} bytes).`,
+            { maxBytes }
+          )
+        );
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  input.on('error', (error) => gunzip.destroy(error));
+  gunzip.on('error', (error) => limiter.destroy(error));
+  limiter.on('close', () => {
+    input.destroy();
+    gunzip.destroy();
+  });
+
+  return input.pipe(gunzip).pipe(limiter);
+}
+
 /**
  * Parse NDJSON input line-by-line using constant memory.
  */
@@ -104,6 +172,10 @@ export async function* parseJsonArrayStream<T>(
     // Ensure parser failures are surfaced through the async iterator stream.
     arrayStream.destroy(error);
   });
+  input.on('error', (error) => {
+    // pipe() does not forward source errors, e.g. a decompression limit breach.
+    arrayStream.destroy(error);
+  });
   const stream = input.pipe(parser).pipe(arrayStream);
   let recordCount = 0;
 
@@ -129,3 +201,255 @@ export async function* parseJsonArrayStream<T>(
     arrayStream.destroy();
   }
 }
+
+/**
+ * Parse RFC 4180 CSV with a header row using constant memory. Quoted fields may
+ * contain delimiters, escaped quotes ("") and line breaks; blank lines are skipped.
+ * Records are keyed by header name with every value left as a string.
+ */
+export async function* parseCsvStream<T = Record<string, string>>(
+  input: Readable,
+  options: CsvParseOptions
+): AsyncGenerator<ParsedRecord<T>> {
+  const delimiter = options.delimiter ?? DEFAULT_CSV_DELIMITER;
+  const decoder = new StringDecoder('utf8');
+  const tokenizer = createCsvTokenizer(delimiter);
+  let header: string[] | null = null;
+  let recordCount = 0;
+
+  const toRecord = (row: CsvRow): ParsedRecord<T> | null => {
+    if (!header) {
+      header = parseCsvHeader(row);
+      return null;
+    }
+
+    if (row.fields.length !== header.length) {
+      throw new ImportExportParseError(
+        ProcessingErrorCode.PARSE_ERROR,
+        `CSV row at line ${row.lineNumber} has ${row.fields.length} fields, expected ${header.length}.`,
+        { lineNumber: row.lineNumber, fieldCount: row.fields.length, expectedFieldCount: header.length }
+      );
+    }
+
+    recordCount += 1;
+    enforceRecordLimit(recordCount, options.maxRecords);
+
+    const record: Record<string, string> = {};
+    header.forEach((name, position) => {
+      record[name] = row.fields[position];
+    });
+    return { record: record as T, index: recordCount - 1, lineNumber: row.lineNumber };
+  };
+
+  try {
+    let isFirstChunk = true;
+    for await (const chunk of input) {
+      let text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+      if (isFirstChunk) {
+        text = text.replace(/^\uFEFF/, '');
+        isFirstChunk = false;
+      }
+
+      for (const row of tokenizer.push(text)) {
+        const parsed = toRecord(row);
+        if (parsed) {
+          yield parsed;
+        }
+      }
+    }
+
+    for (const row of tokenizer.end(decoder.end())) {
+      const parsed = toRecord(row);
+      if (parsed) {
+        yield parsed;
+      }
+    }
+  } catch (error) {
+    if (error instanceof ImportExportParseError) {
+      throw error;
+    }
+
+    throw new ImportExportParseError(
+      ProcessingErrorCode.STREAM_ERROR,
+      'Failed to read CSV stream.',
+      normalizeErrorDetails(error)
+    );
+  }
+}
+
+/**
+ * Converts CSV string cells to the types the validation schemas expect. Empty cells
+ * are dropped so they read as missing optional fields; values that do not parse are
+ * left as strings for validation to report.
+ */
+export function coerceCsvRecord(
+  record: Record<string, unknown>,
+  entityType: EntityType,
+  options: CsvCoerceOptions = {}
+): Record<string, unknown> {
+  const listDelimiter = options.listDelimiter ?? DEFAULT_CSV_LIST_DELIMITER;
+  const fieldTypes = CSV_FIELD_TYPES[entityType];
+  const coerced: Record<string, unknown> = {};
+
+  for (const [field, raw] of Object.entries(record)) {
+    // Mapped records may already carry typed values (constants, split lists)
+    if (typeof raw !== 'string') {
+      coerced[field] = raw;
+      continue;
+    }
+
+    const value = raw.trim();
+    if (!value) {
+      continue;
+    }
+
+    switch (fieldTypes[field]) {
+      case 'number':
+        coerced[field] = NUMBER_PATTERN.test(value) ? Number(value) : raw;
+        break;
+      case 'boolean': {
+        const normalized = value.toLowerCase();
+        coerced[field] = normalized in BOOLEAN_VALUES ? BOOLEAN_VALUES[normalized] : raw;
+        break;
+      }
+      case 'list':
+        coerced[field] = value
+          .split(listDelimiter)
+          .map((item) => item.trim())
+          .filter(Boolean);
+        break;
+      default:
+        coerced[field] = raw;
+    }
+  }
+
+  return coerced;
+}
+
+interface CsvRow {
+  fields: string[];
+  lineNumber: number;
+}
+
+type CsvState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+function createCsvTokenizer(delimiter: string) {
+  let state: CsvState = 'fieldStart';
+  let field = '';
+  let fields: string[] = [];
+  let lineNumber = 1;
+  let rowLineNumber = 1;
+  let skipNextLineFeed = false;
+  let quotedFieldLineNumber = 1;
+
+  const endRow = (rows: CsvRow[]) => {
+    fields.push(field);
+    const isBlankLine = fields.length === 1 && fields[0] === '' && state !== 'quoteInQuoted';
+    if (!isBlankLine) {
+      rows.push({ fields, lineNumber: rowLineNumber });
+    }
+    field = '';
+    fields = [];
+    state = 'fieldStart';
+  };
+
+  const push = (text: string): CsvRow[] => {
+    const rows: CsvRow[] = [];
+
+    for (const char of text) {
+      if (skipNextLineFeed) {
+        skipNextLineFeed = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      if (state === 'quoted') {
+        if (char === '"') {
+          state = 'quoteInQuoted';
+        } else {
+          if (char === '\n') {
+            lineNumber += 1;
+          }
+          field += char;
+        }
+        continue;
+      }
+
+      if (state === 'quoteInQuoted' && char === '"') {
+        field += '"';
+        state = 'quoted';
+        continue;
+      }
+
+      if (char === delimiter) {
+        fields.push(field);
+        field = '';
+        state = 'fieldStart';
+        continue;
+      }
+
+      if (char === '\r' || char === '\n') {
+        endRow(rows);
+        skipNextLineFeed = char === '\r';
+        lineNumber += 1;
+        rowLineNumber = lineNumber;
+        continue;
+      }
+
+      if (state === 'quoteInQuoted') {
+        throw new ImportExportParseError(
+          ProcessingErrorCode.PARSE_ERROR,
+          `Unexpected character after closing quote at line ${lineNumber}.`,
+          { lineNumber }
+        );
+      }
+
+      if (state === 'fieldStart' && char === '"') {
+        state = 'quoted';
+        quotedFieldLineNumber = lineNumber;
+        continue;
+      }
+
+      field += char;
+      state = 'unquoted';
+    }
+
+    return rows;
+  };
+
+  const end = (text: string): CsvRow[] => {
+    const rows = push(text);
+    if (state === 'quoted') {
+      throw new ImportExportParseError(
+        ProcessingErrorCode.PARSE_ERROR,
+        `Unterminated quoted field starting at line ${quotedFieldLineNumber}.`,
+        { lineNumber: quotedFieldLineNumber }
+      );
+    }
+    if (state !== 'fieldStart' || field || fields.length) {
+      endRow(rows);
+    }
+    return rows;
+  };
+
+  return { push, end };
+}
+
+function parseCsvHeader(row: CsvRow): string[] {
+  const names = row.fields.map((name) => name.trim());
+  const seen = new Set<string>();
+
+  for (const name of names) {
+    if (!name || seen.has(name)) {
+      throw new ImportExportParseError(
+        ProcessingErrorCode.PARSE_ERROR,
+        name ? `Duplicate CSV header column "${name}".` : 'CSV header contains an empty column name.',
+        { lineNumber: row.lineNumber, header: names }
+      );
+    }
+    seen.add(name);
+  }
+
+  return names;
+}
@@ -0,0 +1,158 @@
+import { randomUUID } from 'crypto';
+import { PassThrough } from 'stream';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import prismaClient from '../../../prisma/prisma-client';
+import { createImportStorageAdapter, StorageAdapter } from '../../storage';
+import { formatCsvRecord, formatCsvRow } from '../exports/csv.service';
+import HttpException from '../../models/http-exception.model';
+import { HttpStatusCode } from '../../models/http-status-code.model';
+import { isObject } from '../shared/import-export/utils';
+
+export type RetryRecordOverrides = Map<number, Record<string, unknown>>;
+
+export interface WriteRetrySourceOptions {
+  jobId: string;
+  format: 'csv' | 'ndjson';
+  overrides: RetryRecordOverrides;
+  prisma?: PrismaClient;
+  storage?: StorageAdapter;
+  pageSize?: number;
+}
+
+export interface RetrySource {
+  location: string;
+  bytes: number;
+  fileName: string;
+  recordCount: number;
+}
+
+const DEFAULT_PAGE_SIZE = 1000;
+const RECORD_INDEX_PATTERN = /^\d+$/;
+
+/**
+ * Overrides are keyed by the parent job's `recordIndex`; each value is merged
+ * over the stored source record, so fields use source (pre-mapping) names.
+ */
+export function parseRetryOverrides(value: unknown): RetryRecordOverrides {
+  const overrides: RetryRecordOverrides = new Map();
+  if (value === undefined || value === null) {
+    return overrides;
+  }
+  if (!isObject(value)) {
+    throw overridesError('overrides must be an object keyed by recordIndex');
+  }
+
+  for (const [key, fields] of Object.entries(value)) {
+    if (!RECORD_INDEX_PATTERN.test(key)) {
+      throw overridesError(`overrides key "${key}" must be a recordIndex`);
+    }
+    if (!isObject(fields)) {
+      throw overridesError(`overrides.${key} must be an object of field values`);
+    }
+    overrides.set(Number(key), fields);
+  }
+
+  return overrides;
+}
+
+/**
+ * Rejects overrides for records that did not fail, which would otherwise be
+ * dropped without notice.
+ */
+export async function assertOverridesMatchFailedRecords(
+  jobId: string,
+  overrides: RetryRecordOverrides,
+  prisma: PrismaClient = prismaClient,
+): Promise<void> {
+  if (!overrides.size) {
+    return;
+  }
+
+  const found = await prisma.importFailedRecord.findMany({
+    where: { jobId, recordIndex: { in: [...overrides.keys()] } },
+    select: { recordIndex: true },
+  });
+  const failed = new Set(found.map((record) => record.recordIndex));
+  const unknown = [...overrides.keys()].filter((index) => !failed.has(index));
+  if (unknown.length) {
+    throw overridesError(`records ${unknown.join(', ')} have no failed record to retry`);
+  }
+}
+
+/**
+ * Writes a job's failed source records, with overrides applied, to a new import
+ * source in recordIndex order. CSV jobs get a CSV file so cells go through the
+ * same mapping and coercion again; JSON and NDJSON jobs get NDJSON.
+ */
+export async function writeRetrySource(options: WriteRetrySourceOptions): Promise<RetrySource> {
+  const prisma = options.prisma ?? prismaClient;
+  const storage = options.storage ?? createImportStorageAdapter();
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const key = `${randomUUID()}.${options.format}`;
+
+  const stream = new PassThrough();
+  const savePromise = storage.saveStream(key, stream);
+
+  let lastIndex = -1;
+  let columns: string[] | null = null;
+  let recordCount = 0;
+
+  try {
+    for (;;) {
+      const batch: { recordIndex: number; record: Prisma.JsonValue }[] = await prisma.importFailedRecord.findMany({
+        where: { jobId: options.jobId, recordIndex: { gt: lastIndex } },
+        orderBy: { recordIndex: 'asc' },
+        take: pageSize,
+        select: { recordIndex: true, record: true },
+      });
+      if (!batch.length) {
+        break;
+      }
+      lastIndex = batch[batch.length - 1].recordIndex;
+
+      for (const failed of batch) {
+        const override = options.overrides.get(failed.recordIndex);
+        const record = override ? { ...(isObject(failed.record) ? failed.record : {}), ...override } : failed.record;
+
+        if (options.format === 'csv') {
+          const row = isObject(record) ? record : {};
+          // Every row of a CSV source shares its header; overrides may add columns
+          columns ??= buildCsvColumns(row, options.overrides);
+          if (!recordCount) {
+            stream.write(formatCsvRow(columns));
+          }
+          stream.write(formatCsvRecord(row, columns));
+        } else {
+          stream.write(`${JSON.stringify(record)}\n`);
+        }
+        recordCount += 1;
+      }
+    }
+  } catch (error) {
+    stream.end();
+    await savePromise.catch(() => undefined);
+    await storage.delete(key);
+    throw error;
+  }
+  stream.end();
+
+  const saved = await savePromise;
+  return {
+    location: saved.location,
+    bytes: saved.bytes,
+    fileName: `${options.jobId}-failed.${options.format}`,
+    recordCount,
+  };
+}
+
+function buildCsvColumns(first: Record<string, unknown>, overrides: RetryRecordOverrides): string[] {
+  const columns = new Set(Object.keys(first));
+  for (const fields of overrides.values()) {
+    Object.keys(fields).forEach((field) => columns.add(field));
+  }
+  return [...columns];
+}
+
+function overridesError(message: string): HttpException {
+  return new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, { errors: { overrides: [message] } });
+}
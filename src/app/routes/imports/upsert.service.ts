@@ -8,14 +8,23 @@ import {
   CommentImportRecord,
   CreateRecordErrorOptions,
   EntityType,
+  ExternalIdEntityType,
+  FavoriteImportRecord,
+  FollowImportRecord,
+  ImportMode,
   ImportRecord,
   ProcessingErrorCode,
+  RelationEntityType,
+  TagImportRecord,
   ValidationErrorCode,
 } from '../shared/import-export/types';
 import { loadImportConfig } from './config';
-import { sanitizeValue } from '../shared/import-export/utils';
+import { saveExternalIdMappings } from './external-id.service';
+import { createLogger } from '../../logger';
+import { isExternalIdEntityType, isObject, isRelationEntityType, sanitizeValue } from '../shared/import-export/utils';
 
 const config = loadImportConfig();
+const logger = createLogger({ component: 'upsert.service' });
 
 export interface IndexedImportRecord<TRecord extends ImportRecord = ImportRecord> {
   record: TRecord;
@@ -25,6 +34,9 @@ export interface IndexedImportRecord<TRecord extends ImportRecord = ImportRecord
 export interface BatchUpsertOptions {
   jobId: string;
   batchSize?: number;
+  mode?: ImportMode;
+  // Set when records carry external ids; their mappings are saved after writing
+  sourceSystem?: string;
   prisma?: PrismaClient;
 }
 
@@ -32,15 +44,73 @@ export interface BatchUpsertResult {
   attempted: number;
   succeeded: number;
   failed: number;
+  skipped: number;
   errors: CreateRecordErrorOptions[];
 }
 
+export interface DryRunClassifyResult {
+  wouldCreate: number;
+  wouldUpdate: number;
+  skipped: number;
+  errors: CreateRecordErrorOptions[];
+}
+
+/**
+ * What the records a dry run classified so far would have written: the ids
+ * and unique keys of rows they create, and whether each tag name they touch
+ * exists afterwards. Later records resolve against it as they would against
+ * those rows on a real run.
+ */
+export interface DryRunPlan {
+  ids: Set<number>;
+  keys: Set<string>;
+  tagNames: Map<string, boolean>;
+}
+
 interface RecordOperation {
   record: ImportRecord;
   recordIndex: number;
   execute: () => Prisma.PrismaPromise<unknown>;
 }
 
+// A record and the row its operation returned
+interface WrittenRecord {
+  record: ImportRecord;
+  row: unknown;
+}
+
+interface RecordWriter<TWhere, TCreate> {
+  label: string;
+  // Lookup used by update and upsert, null when the record carries no usable key
+  where: TWhere | null;
+  // Create payload, null when the record lacks fields required to create
+  createData: TCreate | null;
+  createKey: string;
+  upsert: (where: TWhere, create: TCreate) => Prisma.PrismaPromise<unknown>;
+  create: (data: TCreate) => Prisma.PrismaPromise<unknown>;
+  update: (where: TWhere) => Prisma.PrismaPromise<unknown>;
+}
+
+// A tag record resolved against the tags that exist when it is applied
+type TagPlan =
+  | { kind: 'create'; name: string }
+  | { kind: 'rename' | 'merge'; from: string; to: string }
+  | { kind: 'unchanged' }
+  | { kind: 'skip' }
+  | { kind: 'error'; error: CreateRecordErrorOptions };
+
+interface TagOperation {
+  record: ImportRecord;
+  recordIndex: number;
+  // Statements that apply the record, run in one transaction
+  steps: () => Prisma.PrismaPromise<unknown>[];
+}
+
+interface ExistingKeys {
+  ids: Set<number>;
+  keys: Set<string>;
+}
+
 class UpsertRecordError extends Error {
   constructor(
     public errorCode: ValidationErrorCode | ProcessingErrorCode,
@@ -60,50 +130,647 @@ export async function upsertImportRecords(
 ): Promise<BatchUpsertResult> {
   const prisma = options.prisma ?? prismaClient;
   const batchSize = options.batchSize ?? config.batchSize;
+  const mode = options.mode ?? 'upsert';
   const result: BatchUpsertResult = {
     attempted: records.length,
     succeeded: 0,
     failed: 0,
+    skipped: 0,
     errors: [],
   };
 
   for (const chunk of chunkArray(records, batchSize)) {
-    const batchResult = await upsertBatch(prisma, chunk, entityType, options.jobId);
+    const batchResult = await upsertBatch(prisma, chunk, entityType, options.jobId, mode, options.sourceSystem);
     result.succeeded += batchResult.succeeded;
     result.failed += batchResult.failed;
+    result.skipped += batchResult.skipped;
     result.errors.push(...batchResult.errors);
   }
 
   return result;
 }
 
+export function createDryRunPlan(): DryRunPlan {
+  return { ids: new Set(), keys: new Set(), tagNames: new Map() };
+}
+
+/**
+ * Dry-run counterpart of upsertImportRecords: resolves each record against the
+ * same lookup keys the upsert would use and reports whether it would create,
+ * update or skip it under the job's mode, without writing. Records the mode
+ * would reject fail as they would on a real run. Pass the same plan to every
+ * call of a run so records also resolve against the rows earlier ones create.
+ */
+export async function classifyImportRecords(
+  records: IndexedImportRecord[],
+  entityType: EntityType,
+  options: BatchUpsertOptions,
+  plan: DryRunPlan = createDryRunPlan(),
+): Promise<DryRunClassifyResult> {
+  const prisma = options.prisma ?? prismaClient;
+  const batchSize = options.batchSize ?? config.batchSize;
+  const mode = options.mode ?? 'upsert';
+  const result: DryRunClassifyResult = { wouldCreate: 0, wouldUpdate: 0, skipped: 0, errors: [] };
+
+  for (const chunk of chunkArray(records, batchSize)) {
+    if (entityType === 'tags') {
+      const names = collectTagNames(chunk);
+      const existing = await findExistingTagNames(prisma, chunk);
+      for (const name of names) {
+        const planned = plan.tagNames.get(name);
+        if (planned === true) {
+          existing.add(name);
+        } else if (planned === false) {
+          existing.delete(name);
+        }
+      }
+      classifyTagRecords(chunk, existing, mode, options.jobId, result);
+      for (const name of names) {
+        plan.tagNames.set(name, existing.has(name));
+      }
+      continue;
+    }
+
+    const existing = await findExistingKeys(prisma, chunk, entityType);
+
+    for (const entry of chunk) {
+      const field = inferLookupField(entityType, entry.record);
+      const value = getRecordValue(entry.record, field);
+      const canCreate = entityType === 'comments' || getNaturalKey(entityType, entry.record) !== null;
+
+      if (isRelationEntityType(entityType) && isDisconnect(entry.record)) {
+        result.wouldUpdate += 1;
+      } else if (recordExists(entityType, entry.record, existing) || recordExists(entityType, entry.record, plan)) {
+        if (mode === 'skipExisting') {
+          result.skipped += 1;
+        } else if (mode === 'insert') {
+          result.errors.push(
+            buildError(
+              options.jobId,
+              entry.recordIndex,
+              ValidationErrorCode.DUPLICATE_VALUE,
+              `Duplicate value for ${field}`,
+              field,
+              value,
+            ),
+          );
+        } else {
+          result.wouldUpdate += 1;
+        }
+      } else if (canCreate && mode !== 'update') {
+        result.wouldCreate += 1;
+        addPlannedKeys(plan, entityType, entry.record);
+      } else {
+        result.errors.push(
+          buildError(
+            options.jobId,
+            entry.recordIndex,
+            ValidationErrorCode.INVALID_REFERENCE,
+            'Record not found for update',
+            field,
+            value,
+          ),
+        );
+      }
+    }
+  }
+
+  return result;
+}
+
+function addPlannedKeys(plan: DryRunPlan, entityType: EntityType, record: ImportRecord) {
+  const id = getRecordId(record);
+  const naturalKey = getNaturalKey(entityType, record);
+  if (id !== null) {
+    plan.ids.add(id);
+  }
+  if (naturalKey !== null) {
+    plan.keys.add(naturalKey);
+  }
+}
+
+async function findExistingKeys(
+  prisma: PrismaClient,
+  records: IndexedImportRecord[],
+  entityType: EntityType,
+): Promise<ExistingKeys> {
+  if (isRelationEntityType(entityType)) {
+    return { ids: new Set(), keys: await findExistingRelationKeys(prisma, records, entityType) };
+  }
+
+  const ids: number[] = [];
+  const keys: string[] = [];
+  for (const { record } of records) {
+    const id = getRecordId(record);
+    const naturalKey = getNaturalKey(entityType, record);
+    if (id !== null) {
+      ids.push(id);
+    } else if (naturalKey !== null) {
+      keys.push(naturalKey);
+    }
+  }
+
+  switch (entityType) {
+    case 'users': {
+      const rows = await prisma.user.findMany({
+        where: { OR: [{ id: { in: ids } }, { email: { in: keys } }] },
+        select: { id: true, email: true },
+      });
+      return { ids: new Set(rows.map((row) => row.id)), keys: new Set(rows.map((row) => row.email)) };
+    }
+    case 'articles': {
+      const rows = await prisma.article.findMany({
+        where: { OR: [{ id: { in: ids } }, { slug: { in: keys } }] },
+        select: { id: true, slug: true },
+      });
+      return { ids: new Set(rows.map((row) => row.id)), keys: new Set(rows.map((row) => row.slug)) };
+    }
+    case 'comments': {
+      const rows = await prisma.comment.findMany({ where: { id: { in: ids } }, select: { id: true } });
+      return { ids: new Set(rows.map((row) => row.id)), keys: new Set() };
+    }
+    default:
+      throw new Error(`Unsupported entity type: ${entityType}`);
+  }
+}
+
+async function findExistingRelationKeys(
+  prisma: PrismaClient,
+  records: IndexedImportRecord[],
+  entityType: RelationEntityType,
+): Promise<Set<string>> {
+  const edges = records.map(({ record }) => getRelationEdge(entityType, record));
+  const ownerIds = [...new Set(edges.map((edge) => edge.ownerId))];
+  const targetIds = [...new Set(edges.map((edge) => edge.targetId))];
+
+  if (entityType === 'favorites') {
+    const rows = await prisma.user.findMany({
+      where: { id: { in: ownerIds } },
+      select: { id: true, favorites: { where: { id: { in: targetIds } }, select: { id: true } } },
+    });
+    return new Set(rows.flatMap((row) => row.favorites.map((article) => buildRelationKey(row.id, article.id))));
+  }
+
+  const rows = await prisma.user.findMany({
+    where: { id: { in: ownerIds } },
+    select: { id: true, following: { where: { id: { in: targetIds } }, select: { id: true } } },
+  });
+  return new Set(rows.flatMap((row) => row.following.map((user) => buildRelationKey(row.id, user.id))));
+}
+
+function recordExists(entityType: EntityType, record: ImportRecord, existing: ExistingKeys): boolean {
+  const id = getRecordId(record);
+  if (id !== null) {
+    return existing.ids.has(id);
+  }
+  const naturalKey = getNaturalKey(entityType, record);
+  return naturalKey !== null && existing.keys.has(naturalKey);
+}
+
+function getRecordId(record: ImportRecord): number | null {
+  return 'id' in record && typeof record.id === 'number' ? record.id : null;
+}
+
+// The unique key upserts fall back to when a record has no id.
+function getNaturalKey(entityType: EntityType, record: ImportRecord): string | null {
+  if (isRelationEntityType(entityType)) {
+    const edge = getRelationEdge(entityType, record);
+    return buildRelationKey(edge.ownerId, edge.targetId);
+  }
+  if (entityType === 'users' && 'email' in record) {
+    return normalizeEmail(record.email);
+  }
+  if (entityType === 'articles' && 'slug' in record && record.slug) {
+    return record.slug.trim().toLowerCase();
+  }
+  return null;
+}
+
 async function upsertBatch(
   prisma: PrismaClient,
   records: IndexedImportRecord[],
   entityType: EntityType,
   jobId: string,
+  mode: ImportMode,
+  sourceSystem: string | undefined,
 ): Promise<BatchUpsertResult> {
   if (!records.length) {
-    return { attempted: 0, succeeded: 0, failed: 0, errors: [] };
+    return { attempted: 0, succeeded: 0, failed: 0, skipped: 0, errors: [] };
+  }
+
+  if (isRelationEntityType(entityType)) {
+    return upsertRelationBatch(prisma, records, entityType, jobId, mode);
+  }
+  if (entityType === 'tags') {
+    return upsertTagBatch(prisma, records, jobId, mode);
+  }
+
+  // Existing rows are filtered out up front; a row created concurrently after the
+  // lookup still fails the create with DUPLICATE_VALUE rather than being overwritten.
+  let pending = records;
+  if (mode === 'skipExisting') {
+    const existing = await findExistingKeys(prisma, records, entityType);
+    pending = records.filter((entry) => !recordExists(entityType, entry.record, existing));
+  }
+  const skipped = records.length - pending.length;
+  if (!pending.length) {
+    return { attempted: records.length, succeeded: 0, failed: 0, skipped, errors: [] };
   }
 
   if (entityType === 'articles') {
-    await ensureTags(prisma, records.map((entry) => entry.record as ArticleImportRecord));
+    await ensureTags(prisma, pending.map((entry) => entry.record as ArticleImportRecord));
   }
 
-  const operations = await buildOperations(prisma, records, entityType);
+  const operations = await buildOperations(prisma, pending, entityType, mode);
 
+  let written: WrittenRecord[];
+  let result: BatchUpsertResult;
   try {
-    await prisma.$transaction(operations.map((operation) => operation.execute()));
-    return {
+    const rows = await prisma.$transaction(operations.map((operation) => operation.execute()));
+    written = sourceSystem ? operations.map((operation, index) => ({ record: operation.record, row: rows[index] })) : [];
+    result = {
       attempted: records.length,
-      succeeded: records.length,
+      succeeded: pending.length,
       failed: 0,
+      skipped,
       errors: [],
     };
   } catch (error) {
-    return await fallbackPerRecord(operations, entityType, jobId, records.length);
+    const { written: fallbackWritten, ...fallback } = await fallbackPerRecord(
+      operations,
+      entityType,
+      jobId,
+      pending.length,
+    );
+    written = fallbackWritten;
+    result = { ...fallback, attempted: records.length, skipped };
+  }
+
+  if (sourceSystem && isExternalIdEntityType(entityType)) {
+    await recordExternalIds(prisma, entityType, sourceSystem, written, jobId);
+  }
+  return result;
+}
+
+/**
+ * Best effort: the rows are already written, so a mapping that fails to save
+ * is logged and the record is created again by the next import of its feed.
+ */
+async function recordExternalIds(
+  prisma: PrismaClient,
+  entityType: ExternalIdEntityType,
+  sourceSystem: string,
+  written: WrittenRecord[],
+  jobId: string,
+): Promise<void> {
+  const mappings = written.flatMap(({ record, row }) => {
+    const externalId = 'external_id' in record ? record.external_id : undefined;
+    const internalId = isObject(row) && typeof row.id === 'number' ? row.id : null;
+    return externalId && internalId !== null ? [{ externalId, internalId }] : [];
+  });
+
+  try {
+    await saveExternalIdMappings({ prisma, sourceSystem, entityType, mappings });
+  } catch (error) {
+    logger.warn({
+      event: 'External id mapping save failed',
+      jobId,
+      sourceSystem,
+      resource: entityType,
+      mappingCount: mappings.length,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Relationship records connect or disconnect an edge, so there is nothing to
+ * update: an edge that already exists is left as is under upsert and update,
+ * skipped under skipExisting and a DUPLICATE_VALUE under insert. Disconnects
+ * apply in every mode and succeed when the edge is already gone.
+ */
+async function upsertRelationBatch(
+  prisma: PrismaClient,
+  records: IndexedImportRecord[],
+  entityType: RelationEntityType,
+  jobId: string,
+  mode: ImportMode,
+): Promise<BatchUpsertResult> {
+  const existing = await findExistingKeys(prisma, records, entityType);
+  const operations: RecordOperation[] = [];
+  const errors: CreateRecordErrorOptions[] = [];
+  let unchanged = 0;
+  let skipped = 0;
+
+  for (const entry of records) {
+    const disconnect = isDisconnect(entry.record);
+    const exists = recordExists(entityType, entry.record, existing);
+    const field = inferLookupField(entityType, entry.record);
+
+    if (!disconnect && exists) {
+      if (mode === 'skipExisting') {
+        skipped += 1;
+      } else if (mode === 'insert') {
+        errors.push(
+          buildError(
+            jobId,
+            entry.recordIndex,
+            ValidationErrorCode.DUPLICATE_VALUE,
+            `Duplicate value for ${field}`,
+            field,
+            getRecordValue(entry.record, field),
+          ),
+        );
+      } else {
+        unchanged += 1;
+      }
+    } else if (!disconnect && mode === 'update') {
+      errors.push(
+        buildError(
+          jobId,
+          entry.recordIndex,
+          ValidationErrorCode.INVALID_REFERENCE,
+          'Record not found for update',
+          field,
+          getRecordValue(entry.record, field),
+        ),
+      );
+    } else {
+      operations.push({
+        record: entry.record,
+        recordIndex: entry.recordIndex,
+        execute: () => writeRelationEdge(prisma, entityType, entry.record, disconnect ? 'disconnect' : 'connect'),
+      });
+    }
+  }
+
+  const result: BatchUpsertResult = {
+    attempted: records.length,
+    succeeded: unchanged,
+    failed: errors.length,
+    skipped,
+    errors,
+  };
+  if (!operations.length) {
+    return result;
+  }
+
+  try {
+    await prisma.$transaction(operations.map((operation) => operation.execute()));
+    result.succeeded += operations.length;
+  } catch (error) {
+    const fallback = await fallbackPerRecord(operations, entityType, jobId, operations.length);
+    result.succeeded += fallback.succeeded;
+    result.failed += fallback.failed;
+    result.errors.push(...fallback.errors);
+  }
+  return result;
+}
+
+function writeRelationEdge(
+  prisma: PrismaClient,
+  entityType: RelationEntityType,
+  record: ImportRecord,
+  action: 'connect' | 'disconnect',
+): Prisma.PrismaPromise<unknown> {
+  const edge = getRelationEdge(entityType, record);
+  const relation = { [action]: { id: edge.targetId } };
+  return prisma.user.update({
+    where: { id: edge.ownerId },
+    data: entityType === 'favorites' ? { favorites: relation } : { following: relation },
+    select: { id: true },
+  });
+}
+
+/**
+ * Tag records are planned in order against the tag names that exist, so a
+ * record can rename or merge a tag created earlier in the same batch. Renames
+ * and merges apply in every mode; one whose `from` is gone while `to` exists
+ * has already been applied and is left unchanged.
+ */
+async function upsertTagBatch(
+  prisma: PrismaClient,
+  records: IndexedImportRecord[],
+  jobId: string,
+  mode: ImportMode,
+): Promise<BatchUpsertResult> {
+  const existing = await findExistingTagNames(prisma, records);
+  const operations: TagOperation[] = [];
+  const result: BatchUpsertResult = { attempted: records.length, succeeded: 0, failed: 0, skipped: 0, errors: [] };
+
+  for (const entry of records) {
+    const plan = planTagRecord(entry, existing, mode, jobId);
+    if (plan.kind === 'error') {
+      result.failed += 1;
+      result.errors.push(plan.error);
+    } else if (plan.kind === 'skip') {
+      result.skipped += 1;
+    } else if (plan.kind === 'unchanged') {
+      result.succeeded += 1;
+    } else {
+      operations.push({ record: entry.record, recordIndex: entry.recordIndex, steps: () => buildTagSteps(prisma, plan) });
+    }
+  }
+  if (!operations.length) {
+    return result;
+  }
+
+  try {
+    await prisma.$transaction(operations.flatMap((operation) => operation.steps()));
+    result.succeeded += operations.length;
+  } catch (error) {
+    for (const operation of operations) {
+      try {
+        await prisma.$transaction(operation.steps());
+        result.succeeded += 1;
+      } catch (recordError) {
+        result.failed += 1;
+        result.errors.push(
+          mapUpsertError({
+            error: recordError,
+            entityType: 'tags',
+            record: operation.record,
+            jobId,
+            recordIndex: operation.recordIndex,
+          }),
+        );
+      }
+    }
+  }
+  return result;
+}
+
+function classifyTagRecords(
+  records: IndexedImportRecord[],
+  existing: Set<string>,
+  mode: ImportMode,
+  jobId: string,
+  result: DryRunClassifyResult,
+) {
+  for (const entry of records) {
+    const plan = planTagRecord(entry, existing, mode, jobId);
+    if (plan.kind === 'error') {
+      result.errors.push(plan.error);
+    } else if (plan.kind === 'skip') {
+      result.skipped += 1;
+    } else if (plan.kind === 'create') {
+      result.wouldCreate += 1;
+    } else {
+      result.wouldUpdate += 1;
+    }
+  }
+}
+
+async function findExistingTagNames(prisma: PrismaClient, records: IndexedImportRecord[]): Promise<Set<string>> {
+  const names = collectTagNames(records);
+  const rows = await prisma.tag.findMany({ where: { name: { in: [...names] } }, select: { name: true } });
+  return new Set(rows.map((row) => row.name));
+}
+
+function collectTagNames(records: IndexedImportRecord[]): Set<string> {
+  const names = new Set<string>();
+  for (const { record } of records) {
+    const tag = record as TagImportRecord;
+    for (const name of [tag.name, tag.from, tag.to]) {
+      if (name) {
+        names.add(name);
+      }
+    }
   }
+  return names;
+}
+
+// Updates `existing` to the tag names that exist once the record is applied.
+function planTagRecord(
+  entry: IndexedImportRecord,
+  existing: Set<string>,
+  mode: ImportMode,
+  jobId: string,
+): TagPlan {
+  const tag = entry.record as TagImportRecord;
+  const action = tag.action ?? 'create';
+
+  if (action === 'create') {
+    const name = tag.name as string;
+    if (existing.has(name)) {
+      if (mode === 'skipExisting') {
+        return { kind: 'skip' };
+      }
+      if (mode === 'insert') {
+        return {
+          kind: 'error',
+          error: buildError(
+            jobId,
+            entry.recordIndex,
+            ValidationErrorCode.DUPLICATE_VALUE,
+            'Duplicate value for name',
+            'name',
+            name,
+          ),
+        };
+      }
+      return { kind: 'unchanged' };
+    }
+    if (mode === 'update') {
+      return {
+        kind: 'error',
+        error: buildError(
+          jobId,
+          entry.recordIndex,
+          ValidationErrorCode.INVALID_REFERENCE,
+          'Record not found for update',
+          'name',
+          name,
+        ),
+      };
+    }
+    existing.add(name);
+    return { kind: 'create', name };
+  }
+
+  const from = tag.from as string;
+  const to = tag.to as string;
+  if (!existing.has(from)) {
+    if (existing.has(to)) {
+      return { kind: 'unchanged' };
+    }
+    return {
+      kind: 'error',
+      error: buildError(
+        jobId,
+        entry.recordIndex,
+        ValidationErrorCode.INVALID_REFERENCE,
+        'Record not found for update',
+        'from',
+        from,
+      ),
+    };
+  }
+  if (action === 'rename' && existing.has(to)) {
+    return {
+      kind: 'error',
+      error: buildError(
+        jobId,
+        entry.recordIndex,
+        ValidationErrorCode.DUPLICATE_VALUE,
+        'Tag already exists, merge into it instead',
+        'to',
+        to,
+      ),
+    };
+  }
+
+  // Merging into a tag that does not exist yet is a rename, which keeps the tag's id
+  const kind = existing.has(to) ? 'merge' : 'rename';
+  existing.delete(from);
+  existing.add(to);
+  return { kind, from, to };
+}
+
+function buildTagSteps(
+  prisma: PrismaClient,
+  plan: Extract<TagPlan, { kind: 'create' | 'rename' | 'merge' }>,
+): Prisma.PrismaPromise<unknown>[] {
+  if (plan.kind === 'create') {
+    return [prisma.tag.create({ data: { name: plan.name }, select: { id: true } })];
+  }
+  if (plan.kind === 'rename') {
+    return [prisma.tag.update({ where: { name: plan.from }, data: { name: plan.to }, select: { id: true } })];
+  }
+
+  // Repoints the implicit Article<->Tag join rows in SQL rather than connecting
+  // article ids one by one; deleting the tag then cascades its remaining rows.
+  return [
+    prisma.$executeRaw`
+      INSERT INTO "_ArticleToTag" ("A", "B")
+      SELECT links."A", target."id"
+      FROM "_ArticleToTag" links
+      JOIN "Tag" source ON source."id" = links."B"
+      JOIN "Tag" target ON target."name" = ${plan.to}
+      WHERE source."name" = ${plan.from}
+      ON CONFLICT DO NOTHING
+    `,
+    prisma.tag.delete({ where: { name: plan.from }, select: { id: true } }),
+  ];
+}
+
+// Edges are keyed from the side that owns them: the user who favorites or follows.
+function getRelationEdge(entityType: RelationEntityType, record: ImportRecord): { ownerId: number; targetId: number } {
+  if (entityType === 'favorites') {
+    const favorite = record as FavoriteImportRecord;
+    return { ownerId: favorite.user_id, targetId: favorite.article_id };
+  }
+  const follow = record as FollowImportRecord;
+  return { ownerId: follow.follower_id, targetId: follow.following_id };
+}
+
+function buildRelationKey(ownerId: number, targetId: number): string {
+  return `${ownerId}:${targetId}`;
+}
+
+function isDisconnect(record: ImportRecord): boolean {
+  return 'action' in record && record.action === 'disconnect';
 }
 
 async function fallbackPerRecord(
@@ -111,13 +778,14 @@ async function fallbackPerRecord(
   entityType: EntityType,
   jobId: string,
   attempted: number,
-): Promise<BatchUpsertResult> {
+): Promise<Omit<BatchUpsertResult, 'skipped'> & { written: WrittenRecord[] }> {
   const errors: CreateRecordErrorOptions[] = [];
+  const written: WrittenRecord[] = [];
   let succeeded = 0;
 
   for (const operation of operations) {
     try {
-      await operation.execute();
+      written.push({ record: operation.record, row: await operation.execute() });
       succeeded += 1;
     } catch (error) {
       errors.push(
@@ -137,6 +805,7 @@ async function fallbackPerRecord(
     succeeded,
     failed: attempted - succeeded,
     errors,
+    written,
   };
 }
 
@@ -144,14 +813,15 @@ async function buildOperations(
   prisma: PrismaClient,
   records: IndexedImportRecord[],
   entityType: EntityType,
+  mode: ImportMode,
 ): Promise<RecordOperation[]> {
   switch (entityType) {
     case 'users':
-      return buildUserOperations(prisma, records);
+      return buildUserOperations(prisma, records, mode);
     case 'articles':
-      return buildArticleOperations(prisma, records);
+      return buildArticleOperations(prisma, records, mode);
     case 'comments':
-      return buildCommentOperations(prisma, records);
+      return buildCommentOperations(prisma, records, mode);
     default:
       throw new Error(`Unsupported entity type: ${entityType}`);
   }
@@ -160,6 +830,7 @@ async function buildOperations(
 async function buildUserOperations(
   prisma: PrismaClient,
   records: IndexedImportRecord[],
+  mode: ImportMode,
 ): Promise<RecordOperation[]> {
   const operations: RecordOperation[] = [];
   let defaultPasswordHash: string | null = null;
@@ -176,7 +847,7 @@ async function buildUserOperations(
     const email = normalizeEmail(record.email);
     const createdAt = parseDate(record.created_at);
     const updatedAt = parseDate(record.updated_at);
-    const canCreate = Boolean(email);
+    const canCreate = Boolean(email) && mode !== 'update';
 
     const updateData: Prisma.UserUpdateInput = {
       ...(email ? { email } : {}),
@@ -186,10 +857,11 @@ async function buildUserOperations(
       ...(updatedAt ? { updatedAt } : {}),
     };
 
-    if (canCreate) {
+    let createData: Prisma.UserCreateInput | null = null;
+    if (canCreate && email) {
       const username = deriveUsername(email, record.name);
       const password = await getDefaultPasswordHash();
-      const createData: Prisma.UserCreateInput = {
+      createData = {
         ...(record.id ? { id: record.id } : {}),
         email,
         username,
@@ -200,38 +872,19 @@ async function buildUserOperations(
         ...(createdAt ? { createdAt } : {}),
         ...(updatedAt ? { updatedAt } : {}),
       };
-
-      const where = record.id ? { id: record.id } : { email };
-      operations.push({
-        record: entry.record,
-        recordIndex: entry.recordIndex,
-        execute: () => prisma.user.upsert({ where, update: updateData, create: createData }),
-      });
-      continue;
     }
 
-    if (!record.id) {
-      operations.push({
-        record: entry.record,
-        recordIndex: entry.recordIndex,
-        execute: () =>
-          Promise.reject(
-            new UpsertRecordError(
-              ValidationErrorCode.MISSING_REQUIRED_FIELD,
-              'id',
-              null,
-              'User record missing id for update',
-            ),
-          ) as Prisma.PrismaPromise<unknown>,
-      });
-      continue;
-    }
-
-    operations.push({
-      record: entry.record,
-      recordIndex: entry.recordIndex,
-      execute: () => prisma.user.update({ where: { id: record.id }, data: updateData }),
-    });
+    operations.push(
+      buildRecordOperation<Prisma.UserWhereUniqueInput, Prisma.UserCreateInput>(entry, mode, {
+        label: 'User',
+        where: record.id ? { id: record.id } : email ? { email } : null,
+        createData,
+        createKey: 'email',
+        upsert: (where, create) => prisma.user.upsert({ where, update: updateData, create }),
+        create: (data) => prisma.user.create({ data }),
+        update: (where) => prisma.user.update({ where, data: updateData }),
+      }),
+    );
   }
 
   return operations;
@@ -240,6 +893,7 @@ async function buildUserOperations(
 async function buildArticleOperations(
   prisma: PrismaClient,
   records: IndexedImportRecord[],
+  mode: ImportMode,
 ): Promise<RecordOperation[]> {
   const operations: RecordOperation[] = [];
 
@@ -277,8 +931,9 @@ async function buildArticleOperations(
         : {}),
     };
 
-    if (slug) {
-      const createData: Prisma.ArticleCreateInput = {
+    let createData: Prisma.ArticleCreateInput | null = null;
+    if (slug && mode !== 'update') {
+      createData = {
         ...(record.id ? { id: record.id } : {}),
         slug,
         title: record.title.trim(),
@@ -299,21 +954,19 @@ async function buildArticleOperations(
             }
           : {}),
       };
-
-      const where = record.id ? { id: record.id } : { slug };
-      operations.push({
-        record: entry.record,
-        recordIndex: entry.recordIndex,
-        execute: () => prisma.article.upsert({ where, update: updateData, create: createData }),
-      });
-      continue;
     }
 
-    operations.push({
-      record: entry.record,
-      recordIndex: entry.recordIndex,
-      execute: () => prisma.article.update({ where: { id: record.id }, data: updateData }),
-    });
+    operations.push(
+      buildRecordOperation<Prisma.ArticleWhereUniqueInput, Prisma.ArticleCreateInput>(entry, mode, {
+        label: 'Article',
+        where: record.id ? { id: record.id } : slug ? { slug } : null,
+        createData,
+        createKey: 'slug',
+        upsert: (where, create) => prisma.article.upsert({ where, update: updateData, create }),
+        create: (data) => prisma.article.create({ data }),
+        update: (where) => prisma.article.update({ where, data: updateData }),
+      }),
+    );
   }
 
   return operations;
@@ -322,6 +975,7 @@ async function buildArticleOperations(
 async function buildCommentOperations(
   prisma: PrismaClient,
   records: IndexedImportRecord[],
+  mode: ImportMode,
 ): Promise<RecordOperation[]> {
   const operations: RecordOperation[] = [];
 
@@ -335,29 +989,77 @@ async function buildCommentOperations(
       ...(record.user_id ? { user: { connect: { id: record.user_id } } } : {}),
     };
 
-    const createData: Prisma.CommentCreateInput = {
-      ...(record.id ? { id: record.id } : {}),
-      body: record.body.trim(),
-      article: { connect: { id: record.article_id } },
-      user: { connect: { id: record.user_id } },
-      ...(createdAt ? { createdAt } : {}),
-    };
-
-    operations.push({
-      record: entry.record,
-      recordIndex: entry.recordIndex,
-      execute: () =>
-        prisma.comment.upsert({
-          where: { id: record.id },
-          update: updateData,
-          create: createData,
-        }),
-    });
+    const createData: Prisma.CommentCreateInput | null =
+      mode === 'update'
+        ? null
+        : {
+            ...(record.id ? { id: record.id } : {}),
+            body: record.body.trim(),
+            article: { connect: { id: record.article_id } },
+            user: { connect: { id: record.user_id } },
+            ...(createdAt ? { createdAt } : {}),
+          };
+
+    operations.push(
+      buildRecordOperation<Prisma.CommentWhereUniqueInput, Prisma.CommentCreateInput>(entry, mode, {
+        label: 'Comment',
+        where: record.id ? { id: record.id } : null,
+        createData,
+        createKey: 'body',
+        upsert: (where, create) => prisma.comment.upsert({ where, update: updateData, create }),
+        create: (data) => prisma.comment.create({ data }),
+        update: (where) => prisma.comment.update({ where, data: updateData }),
+      }),
+    );
   }
 
   return operations;
 }
 
+/**
+ * Picks the Prisma call for a record under the job's mode. Records without the
+ * key the mode needs fail with MISSING_REQUIRED_FIELD; duplicates on insert and
+ * missing targets on update surface as Prisma errors mapped in mapUpsertError.
+ */
+function buildRecordOperation<TWhere, TCreate>(
+  entry: IndexedImportRecord,
+  mode: ImportMode,
+  writer: RecordWriter<TWhere, TCreate>,
+): RecordOperation {
+  const { where, createData } = writer;
+  let execute: (() => Prisma.PrismaPromise<unknown>) | null = null;
+
+  if (mode === 'upsert') {
+    if (where && createData) {
+      execute = () => writer.upsert(where, createData);
+    } else if (createData) {
+      execute = () => writer.create(createData);
+    } else if (where) {
+      execute = () => writer.update(where);
+    }
+  } else if (mode === 'update') {
+    if (where) {
+      execute = () => writer.update(where);
+    }
+  } else if (createData) {
+    execute = () => writer.create(createData);
+  }
+
+  if (!execute) {
+    const field = mode === 'insert' || mode === 'skipExisting' ? writer.createKey : 'id';
+    const purpose = mode === 'insert' || mode === 'skipExisting' ? 'insert' : 'update';
+    const error = new UpsertRecordError(
+      ValidationErrorCode.MISSING_REQUIRED_FIELD,
+      field,
+      null,
+      `${writer.label} record missing ${field} for ${purpose}`,
+    );
+    execute = () => Promise.reject(error) as Prisma.PrismaPromise<unknown>;
+  }
+
+  return { record: entry.record, recordIndex: entry.recordIndex, execute };
+}
+
 async function ensureTags(prisma: PrismaClient, records: ArticleImportRecord[]) {
   const tagNames = new Set<string>();
   for (const record of records) {
@@ -598,6 +1300,12 @@ function inferLookupField(entityType: EntityType, record: ImportRecord): string
       return 'id' in record && record.id ? 'id' : 'slug';
     case 'comments':
       return 'id';
+    case 'tags':
+      return 'from' in record && record.from ? 'from' : 'name';
+    case 'favorites':
+      return 'article_id';
+    case 'follows':
+      return 'following_id';
     default:
       return 'record';
   }
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { RELATION_ACTIONS, TAG_ACTIONS } from '../../shared/import-export/types';
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const KEBAB_CASE_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
@@ -20,6 +21,7 @@ export function buildUserSchema(allowedRoles: Set<string> = DEFAULT_ALLOWED_USER
   return z
     .object({
       id: z.number().int().positive().optional(),
+      external_id: externalIdSchema('external_id').optional(),
       email: z
         .string()
         .trim()
@@ -47,10 +49,10 @@ export function buildUserSchema(allowedRoles: Set<string> = DEFAULT_ALLOWED_USER
     })
     .passthrough()
     .superRefine((data, ctx) => {
-      if (!data.id && !data.email) {
+      if (!data.id && !data.email && !data.external_id) {
         ctx.addIssue({
           code: ZodIssueCode.custom,
-          message: 'User must include id or email for upsert',
+          message: 'User must include id, external_id or email for upsert',
           path: ['id'],
         });
       }
@@ -61,6 +63,7 @@ export function buildArticleSchema(allowedStatuses: Set<string> = DEFAULT_ALLOWE
   return z
     .object({
       id: z.number().int().positive().optional(),
+      external_id: externalIdSchema('external_id').optional(),
       slug: z
         .string()
         .trim()
@@ -80,7 +83,11 @@ export function buildArticleSchema(allowedStatuses: Set<string> = DEFAULT_ALLOWE
       author_id: z
         .number()
         .int()
-        .positive(),
+        .positive()
+        .optional(),
+      external_author_id: externalIdSchema('external_author_id').optional(),
+      author_email: naturalEmailSchema('author_email').optional(),
+      author_username: naturalKeySchema('author_username').optional(),
       tags: z.array(z.string()).optional(),
       published_at: isoDateSchema('published_at').optional(),
       status: z
@@ -94,14 +101,22 @@ export function buildArticleSchema(allowedStatuses: Set<string> = DEFAULT_ALLOWE
     })
     .passthrough()
     .superRefine((data, ctx) => {
-      if (!data.id && !data.slug) {
+      if (!data.id && !data.slug && !data.external_id) {
         ctx.addIssue({
           code: ZodIssueCode.custom,
-          message: 'Article must include id or slug for upsert',
+          message: 'Article must include id, external_id or slug for upsert',
           path: ['id'],
         });
       }
 
+      if (!data.author_id && !data.external_author_id && !data.author_email && !data.author_username) {
+        ctx.addIssue({
+          code: ZodIssueCode.custom,
+          message: 'Article must include author_id, external_author_id, author_email or author_username',
+          path: ['author_id'],
+        });
+      }
+
       if (data.status === 'draft' && data.published_at) {
         ctx.addIssue({
           code: ZodIssueCode.custom,
@@ -118,7 +133,9 @@ export function buildCommentSchema() {
       id: z
         .number()
         .int()
-        .positive(),
+        .positive()
+        .optional(),
+      external_id: externalIdSchema('external_id').optional(),
       body: z
         .string()
         .trim()
@@ -129,16 +146,148 @@ export function buildCommentSchema() {
       article_id: z
         .number()
         .int()
-        .positive(),
+        .positive()
+        .optional(),
+      external_article_id: externalIdSchema('external_article_id').optional(),
+      article_slug: naturalKeySchema('article_slug')
+        .transform((value) => value.toLowerCase())
+        .optional(),
       user_id: z
         .number()
         .int()
-        .positive(),
+        .positive()
+        .optional(),
+      external_user_id: externalIdSchema('external_user_id').optional(),
+      user_email: naturalEmailSchema('user_email').optional(),
       created_at: isoDateSchema('created_at').optional(),
     })
+    .passthrough()
+    .superRefine((data, ctx) => {
+      if (!data.article_id && !data.external_article_id && !data.article_slug) {
+        ctx.addIssue({
+          code: ZodIssueCode.custom,
+          message: 'Comment must include article_id, external_article_id or article_slug',
+          path: ['article_id'],
+        });
+      }
+
+      if (!data.user_id && !data.external_user_id && !data.user_email) {
+        ctx.addIssue({
+          code: ZodIssueCode.custom,
+          message: 'Comment must include user_id, external_user_id or user_email',
+          path: ['user_id'],
+        });
+      }
+    });
+}
+
+export function buildTagSchema() {
+  return z
+    .object({
+      action: z.enum(TAG_ACTIONS).optional(),
+      name: tagNameSchema('name').optional(),
+      from: tagNameSchema('from').optional(),
+      to: tagNameSchema('to').optional(),
+    })
+    .passthrough()
+    .superRefine((data, ctx) => {
+      if ((data.action ?? 'create') === 'create') {
+        if (!data.name) {
+          ctx.addIssue({ code: ZodIssueCode.custom, message: 'name is required to create a tag', path: ['name'] });
+        }
+        return;
+      }
+
+      for (const field of ['from', 'to'] as const) {
+        if (!data[field]) {
+          ctx.addIssue({
+            code: ZodIssueCode.custom,
+            message: `${field} is required to ${data.action} a tag`,
+            path: [field],
+          });
+        }
+      }
+      if (data.from && data.from === data.to) {
+        ctx.addIssue({ code: ZodIssueCode.custom, message: 'from and to must be different tags', path: ['to'] });
+      }
+    });
+}
+
+export function buildFavoriteSchema() {
+  return z
+    .object({
+      user_id: z
+        .number()
+        .int()
+        .positive(),
+      article_id: z
+        .number()
+        .int()
+        .positive(),
+      action: z.enum(RELATION_ACTIONS).optional(),
+    })
     .passthrough();
 }
 
+export function buildFollowSchema() {
+  return z
+    .object({
+      follower_id: z
+        .number()
+        .int()
+        .positive(),
+      following_id: z
+        .number()
+        .int()
+        .positive(),
+      action: z.enum(RELATION_ACTIONS).optional(),
+    })
+    .passthrough()
+    .superRefine((data, ctx) => {
+      if (data.follower_id === data.following_id) {
+        ctx.addIssue({
+          code: ZodIssueCode.custom,
+          message: 'Users cannot follow themselves',
+          path: ['following_id'],
+        });
+      }
+    });
+}
+
+// Natural keys reference existing rows, so only their shape is checked here;
+// validation resolves them to ids
+function naturalKeySchema(field: string) {
+  return z
+    .string()
+    .trim()
+    .min(1, { message: `${field} must not be empty` });
+}
+
+function naturalEmailSchema(field: string) {
+  return naturalKeySchema(field)
+    .transform((value) => value.toLowerCase())
+    .refine((value) => EMAIL_REGEX.test(value), {
+      message: `${field} must be a valid email address`,
+    });
+}
+
+// Partner ids are opaque: numbers are accepted and kept as their string form
+function externalIdSchema(field: string) {
+  return z
+    .union([z.string(), z.number().int()])
+    .transform((value) => String(value).trim())
+    .refine((value) => value.length > 0, { message: `${field} must not be empty` })
+    .refine((value) => value.length <= 255, { message: `${field} must be at most 255 characters` });
+}
+
+// Tag names are trimmed the same way article tags are before being stored
+function tagNameSchema(field: string) {
+  return z
+    .string()
+    .trim()
+    .min(1, { message: `${field} must not be empty` });
+}
+
 export function isoDateSchema(field: string) {
   return z
     .string()
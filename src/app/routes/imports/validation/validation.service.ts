@@ -3,7 +3,10 @@ import {
   CommentImportRecord,
   CreateRecordErrorOptions,
   EntityType,
+  FavoriteImportRecord,
+  FollowImportRecord,
   ImportRecord,
+  TagImportRecord,
   UserImportRecord,
   ValidationErrorCode,
 } from '../../shared/import-export/types';
@@ -11,12 +14,22 @@ import type { PrismaClient } from '@prisma/client';
 import {
   buildArticleSchema,
   buildCommentSchema,
+  buildFavoriteSchema,
+  buildFollowSchema,
+  buildTagSchema,
   buildUserSchema,
   ZodIssueCode
 } from './validation.schemas';
 import {
   addError,
   createValidationCache,
+  prefetchArticleIdsBySlug,
+  prefetchExternalIds,
+  prefetchUserIdsByEmail,
+  prefetchUserIdsByUsername,
+  resolveArticleReference,
+  resolveRecordExternalId,
+  resolveUserReference,
   validateArticleExists,
   validateArticleSlugUniqueness,
   validateUserEmailUniqueness,
@@ -29,6 +42,7 @@ export interface RecordValidationContext {
   jobId: string;
   recordIndex: number;
   prisma?: PrismaClient;
+  sourceSystem?: string;
   cache?: ValidationCache;
   allowedUserRoles?: Set<string>;
   allowedArticleStatuses?: Set<string>;
@@ -53,11 +67,60 @@ export async function validateImportRecord(
       return validateArticleRecord(record as ArticleImportRecord, context);
     case 'comments':
       return validateCommentRecord(record as CommentImportRecord, context);
+    case 'tags':
+      return validateTagRecord(record as TagImportRecord, context);
+    case 'favorites':
+      return validateFavoriteRecord(record as FavoriteImportRecord, context);
+    case 'follows':
+      return validateFollowRecord(record as FollowImportRecord, context);
     default:
       return invalidRecordResult(context, 'Unsupported entity type');
   }
 }
 
+/**
+ * Resolves the external ids and natural-key references (author_email,
+ * article_slug, ...) of a run of records with one query per key kind, so
+ * validating them afterwards reads from the cache. Keys are normalized the way
+ * the schemas normalize them; values of the wrong type are left for validation
+ * to report.
+ */
+export async function prefetchRecordReferences(
+  records: unknown[],
+  entityType: EntityType,
+  context: Pick<RecordValidationContext, 'prisma' | 'sourceSystem'>,
+  cache: ValidationCache,
+): Promise<void> {
+  const keys = (field: string, lowerCase = true) =>
+    records.flatMap((record) => {
+      const value = isPlainObject(record) ? record[field] : undefined;
+      if (typeof value !== 'string' || !value.trim()) {
+        return [];
+      }
+      return [lowerCase ? value.trim().toLowerCase() : value.trim()];
+    });
+  const externalIds = (field: string) =>
+    records.flatMap((record) => {
+      const value = isPlainObject(record) ? record[field] : undefined;
+      return typeof value === 'number' || (typeof value === 'string' && value.trim()) ? [String(value).trim()] : [];
+    });
+
+  if (entityType === 'users') {
+    await prefetchExternalIds('users', externalIds('external_id'), context, cache);
+  } else if (entityType === 'articles') {
+    await prefetchExternalIds('articles', externalIds('external_id'), context, cache);
+    await prefetchExternalIds('users', externalIds('external_author_id'), context, cache);
+    await prefetchUserIdsByEmail(keys('author_email'), context, cache);
+    await prefetchUserIdsByUsername(keys('author_username', false), context, cache);
+  } else if (entityType === 'comments') {
+    await prefetchExternalIds('comments', externalIds('external_id'), context, cache);
+    await prefetchExternalIds('articles', externalIds('external_article_id'), context, cache);
+    await prefetchExternalIds('users', externalIds('external_user_id'), context, cache);
+    await prefetchArticleIdsBySlug(keys('article_slug'), context, cache);
+    await prefetchUserIdsByEmail(keys('user_email'), context, cache);
+  }
+}
+
 export async function validateUserRecord(
   record: UserImportRecord,
   context: RecordValidationContext,
@@ -75,6 +138,9 @@ export async function validateUserRecord(
   const normalized = parsed.data as UserImportRecord;
   const cache = context.cache ?? createValidationCache();
   const errors: CreateRecordErrorOptions[] = [];
+  if (normalized.external_id) {
+    normalized.id = await resolveRecordExternalId('users', normalized.external_id, normalized.id, errors, context, cache);
+  }
   if (normalized.email) {
     await validateUserEmailUniqueness(normalized.email, normalized.id, errors, context, cache);
   }
@@ -100,7 +166,36 @@ export async function validateArticleRecord(
   const cache = context.cache ?? createValidationCache();
   const errors: CreateRecordErrorOptions[] = [];
 
-  await validateUserExists(normalized.author_id, errors, context, cache, 'author_id');
+  if (normalized.external_id) {
+    normalized.id = await resolveRecordExternalId(
+      'articles',
+      normalized.external_id,
+      normalized.id,
+      errors,
+      context,
+      cache,
+    );
+  }
+  const authorId = await resolveUserReference(
+    {
+      id: normalized.author_id,
+      externalId: normalized.external_author_id,
+      email: normalized.author_email,
+      username: normalized.author_username,
+      fields: {
+        id: 'author_id',
+        externalId: 'external_author_id',
+        email: 'author_email',
+        username: 'author_username',
+      },
+    },
+    errors,
+    context,
+    cache,
+  );
+  if (authorId !== undefined) {
+    normalized.author_id = authorId;
+  }
   if (normalized.slug) {
     await validateArticleSlugUniqueness(normalized.slug, normalized.id, errors, context, cache);
   }
@@ -126,8 +221,112 @@ export async function validateCommentRecord(
   const cache = context.cache ?? createValidationCache();
   const errors: CreateRecordErrorOptions[] = [];
 
-  await validateArticleExists(normalized.article_id, errors, context, cache, 'article_id');
+  if (normalized.external_id) {
+    normalized.id = await resolveRecordExternalId(
+      'comments',
+      normalized.external_id,
+      normalized.id,
+      errors,
+      context,
+      cache,
+    );
+  }
+  const articleId = await resolveArticleReference(
+    {
+      id: normalized.article_id,
+      externalId: normalized.external_article_id,
+      slug: normalized.article_slug,
+      fields: { id: 'article_id', externalId: 'external_article_id', slug: 'article_slug' },
+    },
+    errors,
+    context,
+    cache,
+  );
+  const userId = await resolveUserReference(
+    {
+      id: normalized.user_id,
+      externalId: normalized.external_user_id,
+      email: normalized.user_email,
+      fields: { id: 'user_id', externalId: 'external_user_id', email: 'user_email' },
+    },
+    errors,
+    context,
+    cache,
+  );
+  if (articleId !== undefined) {
+    normalized.article_id = articleId;
+  }
+  if (userId !== undefined) {
+    normalized.user_id = userId;
+  }
+
+  return finalizeResult(errors, normalized);
+}
+
+/**
+ * Whether a tag exists is not checked here: earlier records of the same batch
+ * may create or rename it, so the upsert resolves tags as it applies them.
+ */
+export async function validateTagRecord(
+  record: TagImportRecord,
+  context: RecordValidationContext,
+): Promise<RecordValidationResult<TagImportRecord>> {
+  if (!isPlainObject(record)) {
+    return invalidRecordResult(context, 'Record must be an object');
+  }
+
+  const parsed = buildTagSchema().safeParse(record);
+  if (!parsed.success) {
+    return finalizeResult(buildErrorsFromIssues(parsed.error.issues, context, record));
+  }
+
+  return finalizeResult([], parsed.data as TagImportRecord);
+}
+
+export async function validateFavoriteRecord(
+  record: FavoriteImportRecord,
+  context: RecordValidationContext,
+): Promise<RecordValidationResult<FavoriteImportRecord>> {
+  if (!isPlainObject(record)) {
+    return invalidRecordResult(context, 'Record must be an object');
+  }
+
+  const schema = buildFavoriteSchema();
+  const parsed = schema.safeParse(record);
+  if (!parsed.success) {
+    return finalizeResult(buildErrorsFromIssues(parsed.error.issues, context, record));
+  }
+
+  const normalized = parsed.data as FavoriteImportRecord;
+  const cache = context.cache ?? createValidationCache();
+  const errors: CreateRecordErrorOptions[] = [];
+
   await validateUserExists(normalized.user_id, errors, context, cache, 'user_id');
+  await validateArticleExists(normalized.article_id, errors, context, cache, 'article_id');
+
+  return finalizeResult(errors, normalized);
+}
+
+export async function validateFollowRecord(
+  record: FollowImportRecord,
+  context: RecordValidationContext,
+): Promise<RecordValidationResult<FollowImportRecord>> {
+  if (!isPlainObject(record)) {
+    return invalidRecordResult(context, 'Record must be an object');
+  }
+
+  const schema = buildFollowSchema();
+  const parsed = schema.safeParse(record);
+  if (!parsed.success) {
+    return finalizeResult(buildErrorsFromIssues(parsed.error.issues, context, record));
+  }
+
+  const normalized = parsed.data as FollowImportRecord;
+  const cache = context.cache ?? createValidationCache();
+  const errors: CreateRecordErrorOptions[] = [];
+
+  await validateUserExists(normalized.follower_id, errors, context, cache, 'follower_id');
+  await validateUserExists(normalized.following_id, errors, context, cache, 'following_id');
 
   return finalizeResult(errors, normalized);
 }
@@ -182,7 +381,7 @@ function mapZodIssueToErrorCode(
     if (field === 'role' || field === 'status') {
       return ValidationErrorCode.INVALID_ENUM_VALUE;
     }
-    if (field === 'id') {
+    if (field === 'id' || value === undefined || value === null) {
       return ValidationErrorCode.MISSING_REQUIRED_FIELD;
     }
     if (field === 'body' && issue.message.toLowerCase().includes('500 words')) {
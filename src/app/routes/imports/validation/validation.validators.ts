@@ -1,31 +1,58 @@
 import type { PrismaClient } from '@prisma/client';
 import prismaClient from '../../../../prisma/prisma-client';
-import { CreateRecordErrorOptions, ValidationErrorCode } from '../../shared/import-export/types';
+import { CreateRecordErrorOptions, ExternalIdEntityType, ValidationErrorCode } from '../../shared/import-export/types';
 import { sanitizeValue } from '../../shared/import-export/utils';
 
 export interface ValidationCache {
   seenEmails: Set<string>;
   seenSlugs: Set<string>;
+  seenExternalIds: Set<string>;
   emailLookup: Map<string, number | null>;
+  usernameLookup: Map<string, number | null>;
   slugLookup: Map<string, number | null>;
   userIdLookup: Map<number, boolean>;
   articleIdLookup: Map<number, boolean>;
+  // Keyed by externalIdKey; a job imports from a single source system
+  externalIdLookup: Map<string, number | null>;
 }
 
 export interface RecordValidationContext {
   jobId: string;
   recordIndex: number;
   prisma?: PrismaClient;
+  sourceSystem?: string;
+}
+
+/**
+ * A reference to a user by id or by one of its natural keys. `fields` names the
+ * record field each key came from so errors point at what the file contained.
+ */
+export interface UserReference {
+  id?: number;
+  externalId?: string;
+  email?: string;
+  username?: string;
+  fields: { id: string; externalId?: string; email?: string; username?: string };
+}
+
+export interface ArticleReference {
+  id?: number;
+  externalId?: string;
+  slug?: string;
+  fields: { id: string; externalId?: string; slug?: string };
 }
 
 export function createValidationCache(): ValidationCache {
   return {
     seenEmails: new Set(),
     seenSlugs: new Set(),
+    seenExternalIds: new Set(),
     emailLookup: new Map(),
+    usernameLookup: new Map(),
     slugLookup: new Map(),
     userIdLookup: new Map(),
     articleIdLookup: new Map(),
+    externalIdLookup: new Map(),
   };
 }
 
@@ -111,7 +138,239 @@ export async function validateArticleExists(
   }
 }
 
-async function lookupUserIdByEmail(
+/**
+ * Resolves a record's own external_id to the row it was imported as, filling in
+ * `id` so the upsert updates that row. Returns the id to use, or undefined after
+ * reporting an error; a record whose external_id is not mapped yet keeps `id`.
+ */
+export async function resolveRecordExternalId(
+  entityType: ExternalIdEntityType,
+  externalId: string,
+  id: number | undefined,
+  errors: CreateRecordErrorOptions[],
+  context: RecordValidationContext,
+  cache: ValidationCache,
+): Promise<number | undefined> {
+  if (!requireSourceSystem('external_id', externalId, errors, context)) {
+    return undefined;
+  }
+
+  const key = externalIdKey(entityType, externalId);
+  if (cache.seenExternalIds.has(key)) {
+    addError(
+      errors,
+      context,
+      ValidationErrorCode.DUPLICATE_VALUE,
+      'external_id is duplicated in this import batch',
+      'external_id',
+      externalId,
+    );
+    return undefined;
+  }
+  cache.seenExternalIds.add(key);
+
+  const mappedId = await lookupInternalIdByExternalId(entityType, externalId, context, cache);
+  if (mappedId !== null && id !== undefined && mappedId !== id) {
+    addError(
+      errors,
+      context,
+      ValidationErrorCode.INVALID_REFERENCE,
+      `external_id is already mapped to id ${mappedId}`,
+      'external_id',
+      externalId,
+    );
+    return undefined;
+  }
+  return mappedId ?? id;
+}
+
+/**
+ * Resolves a user reference to an id, preferring the id, then external id,
+ * then email, then username. Returns undefined after reporting an error.
+ */
+export async function resolveUserReference(
+  reference: UserReference,
+  errors: CreateRecordErrorOptions[],
+  context: RecordValidationContext,
+  cache: ValidationCache,
+): Promise<number | undefined> {
+  const { fields } = reference;
+  if (reference.id !== undefined) {
+    const exists = await lookupUserExists(reference.id, context, cache);
+    if (!exists) {
+      addError(errors, context, ValidationErrorCode.INVALID_REFERENCE, 'User does not exist', fields.id, reference.id);
+      return undefined;
+    }
+    return reference.id;
+  }
+
+  if (reference.externalId !== undefined && fields.externalId) {
+    return resolveExternalReference('users', reference.externalId, fields.externalId, errors, context, cache);
+  }
+
+  if (reference.email !== undefined && fields.email) {
+    const id = await lookupUserIdByEmail(reference.email, context, cache);
+    if (id === null) {
+      addError(errors, context, ValidationErrorCode.INVALID_REFERENCE, 'No user has this email', fields.email, reference.email);
+    }
+    return id ?? undefined;
+  }
+
+  if (reference.username !== undefined && fields.username) {
+    const id = await lookupUserIdByUsername(reference.username, context, cache);
+    if (id === null) {
+      addError(
+        errors,
+        context,
+        ValidationErrorCode.INVALID_REFERENCE,
+        'No user has this username',
+        fields.username,
+        reference.username,
+      );
+    }
+    return id ?? undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves an article reference to an id, preferring the id, then external id,
+ * then slug. Returns undefined after reporting an error.
+ */
+export async function resolveArticleReference(
+  reference: ArticleReference,
+  errors: CreateRecordErrorOptions[],
+  context: RecordValidationContext,
+  cache: ValidationCache,
+): Promise<number | undefined> {
+  const { fields } = reference;
+  if (reference.id !== undefined) {
+    const exists = await lookupArticleExists(reference.id, context, cache);
+    if (!exists) {
+      addError(errors, context, ValidationErrorCode.INVALID_REFERENCE, 'Article does not exist', fields.id, reference.id);
+      return undefined;
+    }
+    return reference.id;
+  }
+
+  if (reference.externalId !== undefined && fields.externalId) {
+    return resolveExternalReference('articles', reference.externalId, fields.externalId, errors, context, cache);
+  }
+
+  if (reference.slug !== undefined && fields.slug) {
+    const id = await lookupArticleIdBySlug(reference.slug, context, cache);
+    if (id === null) {
+      addError(errors, context, ValidationErrorCode.INVALID_REFERENCE, 'No article has this slug', fields.slug, reference.slug);
+    }
+    return id ?? undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * The prefetch functions resolve many natural keys with one query and fill the
+ * cache, so the per-record lookups below only hit the database for keys that
+ * were not prefetched. Emails and slugs must already be lower-cased.
+ */
+export async function prefetchUserIdsByEmail(
+  emails: Iterable<string>,
+  context: Pick<RecordValidationContext, 'prisma'>,
+  cache: ValidationCache,
+): Promise<void> {
+  const pending = collectUncachedKeys(emails, cache.emailLookup);
+  if (!pending.length) {
+    return;
+  }
+  const prisma = context.prisma ?? prismaClient;
+  const users = await prisma.user.findMany({
+    where: { email: { in: pending, mode: 'insensitive' } },
+    select: { id: true, email: true },
+  });
+  fillLookup(
+    cache.emailLookup,
+    pending,
+    users.map((user) => [user.email.toLowerCase(), user.id]),
+  );
+}
+
+export async function prefetchUserIdsByUsername(
+  usernames: Iterable<string>,
+  context: Pick<RecordValidationContext, 'prisma'>,
+  cache: ValidationCache,
+): Promise<void> {
+  const pending = collectUncachedKeys(usernames, cache.usernameLookup);
+  if (!pending.length) {
+    return;
+  }
+  const prisma = context.prisma ?? prismaClient;
+  const users = await prisma.user.findMany({
+    where: { username: { in: pending } },
+    select: { id: true, username: true },
+  });
+  fillLookup(
+    cache.usernameLookup,
+    pending,
+    users.map((user) => [user.username, user.id]),
+  );
+}
+
+export async function prefetchArticleIdsBySlug(
+  slugs: Iterable<string>,
+  context: Pick<RecordValidationContext, 'prisma'>,
+  cache: ValidationCache,
+): Promise<void> {
+  const pending = collectUncachedKeys(slugs, cache.slugLookup);
+  if (!pending.length) {
+    return;
+  }
+  const prisma = context.prisma ?? prismaClient;
+  const articles = await prisma.article.findMany({
+    where: { slug: { in: pending } },
+    select: { id: true, slug: true },
+  });
+  fillLookup(
+    cache.slugLookup,
+    pending,
+    articles.map((article) => [article.slug, article.id]),
+  );
+}
+
+export async function prefetchExternalIds(
+  entityType: ExternalIdEntityType,
+  externalIds: Iterable<string>,
+  context: Pick<RecordValidationContext, 'prisma' | 'sourceSystem'>,
+  cache: ValidationCache,
+): Promise<void> {
+  if (!context.sourceSystem) {
+    return;
+  }
+  const keys = new Map<string, string>();
+  for (const externalId of externalIds) {
+    keys.set(externalIdKey(entityType, externalId), externalId);
+  }
+  const pending = collectUncachedKeys(keys.keys(), cache.externalIdLookup);
+  if (!pending.length) {
+    return;
+  }
+  const prisma = context.prisma ?? prismaClient;
+  const mappings = await prisma.externalIdMapping.findMany({
+    where: {
+      sourceSystem: context.sourceSystem,
+      resource: entityType,
+      externalId: { in: pending.map((key) => keys.get(key) as string) },
+    },
+    select: { externalId: true, internalId: true },
+  });
+  fillLookup(
+    cache.externalIdLookup,
+    pending,
+    mappings.map((mapping) => [externalIdKey(entityType, mapping.externalId), mapping.internalId]),
+  );
+}
+
+export async function lookupUserIdByEmail(
   email: string,
   context: RecordValidationContext,
   cache: ValidationCache,
@@ -134,7 +393,7 @@ async function lookupUserIdByEmail(
   return id;
 }
 
-async function lookupArticleIdBySlug(
+export async function lookupArticleIdBySlug(
   slug: string,
   context: RecordValidationContext,
   cache: ValidationCache,
@@ -152,6 +411,93 @@ async function lookupArticleIdBySlug(
   return id;
 }
 
+export async function lookupUserIdByUsername(
+  username: string,
+  context: RecordValidationContext,
+  cache: ValidationCache,
+): Promise<number | null> {
+  if (cache.usernameLookup.has(username)) {
+    return cache.usernameLookup.get(username) ?? null;
+  }
+  const prisma = context.prisma ?? prismaClient;
+  const existing = await prisma.user.findUnique({
+    where: { username },
+    select: { id: true },
+  });
+  const id = existing?.id ?? null;
+  cache.usernameLookup.set(username, id);
+  return id;
+}
+
+export async function lookupInternalIdByExternalId(
+  entityType: ExternalIdEntityType,
+  externalId: string,
+  context: RecordValidationContext,
+  cache: ValidationCache,
+): Promise<number | null> {
+  const key = externalIdKey(entityType, externalId);
+  if (cache.externalIdLookup.has(key)) {
+    return cache.externalIdLookup.get(key) ?? null;
+  }
+  if (!context.sourceSystem) {
+    return null;
+  }
+  const prisma = context.prisma ?? prismaClient;
+  const existing = await prisma.externalIdMapping.findUnique({
+    where: {
+      sourceSystem_resource_externalId: { sourceSystem: context.sourceSystem, resource: entityType, externalId },
+    },
+    select: { internalId: true },
+  });
+  const id = existing?.internalId ?? null;
+  cache.externalIdLookup.set(key, id);
+  return id;
+}
+
+async function resolveExternalReference(
+  entityType: ExternalIdEntityType,
+  externalId: string,
+  field: string,
+  errors: CreateRecordErrorOptions[],
+  context: RecordValidationContext,
+  cache: ValidationCache,
+): Promise<number | undefined> {
+  if (!requireSourceSystem(field, externalId, errors, context)) {
+    return undefined;
+  }
+  const id = await lookupInternalIdByExternalId(entityType, externalId, context, cache);
+  if (id === null) {
+    const label = entityType === 'users' ? 'user' : 'article';
+    addError(errors, context, ValidationErrorCode.INVALID_REFERENCE, `No ${label} has this external id`, field, externalId);
+  }
+  return id ?? undefined;
+}
+
+// External ids only mean something relative to the system that issued them
+function requireSourceSystem(
+  field: string,
+  externalId: string,
+  errors: CreateRecordErrorOptions[],
+  context: RecordValidationContext,
+): boolean {
+  if (context.sourceSystem) {
+    return true;
+  }
+  addError(
+    errors,
+    context,
+    ValidationErrorCode.MISSING_REQUIRED_FIELD,
+    `${field} requires the import to set sourceSystem`,
+    field,
+    externalId,
+  );
+  return false;
+}
+
+function externalIdKey(entityType: ExternalIdEntityType, externalId: string): string {
+  return `${entityType}:${externalId}`;
+}
+
 async function lookupUserExists(
   userId: number,
   context: RecordValidationContext,
@@ -179,3 +525,25 @@ async function lookupArticleExists(
   cache.articleIdLookup.set(articleId, exists);
   return exists;
 }
+
+function collectUncachedKeys(keys: Iterable<string>, lookup: Map<string, number | null>): string[] {
+  const pending = new Set<string>();
+  for (const key of keys) {
+    if (key && !lookup.has(key)) {
+      pending.add(key);
+    }
+  }
+  return [...pending];
+}
+
+// Keys the query did not return are cached as missing so they are not looked up again
+function fillLookup(
+  lookup: Map<string, number | null>,
+  keys: string[],
+  found: [string, number][],
+): void {
+  const ids = new Map(found);
+  for (const key of keys) {
+    lookup.set(key, ids.get(key) ?? null);
+  }
+}
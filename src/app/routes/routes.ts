@@ -5,6 +5,7 @@ import authController from './auth/auth.controller';
 import profileController from './profile/profile.controller';
 import importController from './imports/import.controller';
 import exportController from './exports/export.controller';
+import webhookController from './webhooks/webhook.controller';
 
 const api = Router()
   .use(tagsController)
@@ -12,6 +13,7 @@ const api = Router()
   .use(profileController)
   .use(authController)
   .use(importController)
-  .use(exportController);
+  .use(exportController)
+  .use(webhookController);
 
 export default Router().use('/api', api);
@@ -0,0 +1,55 @@
+import type { PrismaClient } from '@prisma/client';
+import prismaClient from '../../../../prisma/prisma-client';
+import HttpException from '../../../models/http-exception.model';
+import { HttpStatusCode } from '../../../models/http-status-code.model';
+import { createLogger } from '../../../logger';
+import { ANY_AUTHENTICATED_ROLE, loadImportExportAccessPolicy } from './config';
+import {
+  EntityType,
+  ErrorCodeNames,
+  ImportExportAccessPolicy,
+  ImportExportAction,
+  ResourceErrorCode,
+} from './types';
+
+export interface AuthorizeImportExportOptions {
+  userId: number;
+  action: ImportExportAction;
+  resource: EntityType;
+  prisma?: PrismaClient;
+  policy?: ImportExportAccessPolicy;
+}
+
+const logger = createLogger({ component: 'import-export.authorization' });
+
+/**
+ * Throws 403 unless the caller's current role may perform `action` on `resource`.
+ * The role is read from the database rather than the JWT so demotions apply immediately.
+ */
+export async function authorizeImportExport(options: AuthorizeImportExportOptions): Promise<void> {
+  const prisma = options.prisma ?? prismaClient;
+  const policy = options.policy ?? loadImportExportAccessPolicy();
+  const allowedRoles = policy[options.action][options.resource];
+
+  const user = await prisma.user.findUnique({
+    where: { id: options.userId },
+    select: { role: true },
+  });
+
+  if (user && (allowedRoles.includes(ANY_AUTHENTICATED_ROLE) || allowedRoles.includes(user.role))) {
+    return;
+  }
+
+  logger.info({
+    event: 'Import/export access denied',
+    userId: options.userId,
+    action: options.action,
+    resource: options.resource,
+    role: user?.role ?? null,
+  });
+
+  throw new HttpException(HttpStatusCode.FORBIDDEN, {
+    code: ErrorCodeNames[ResourceErrorCode.FORBIDDEN],
+    errors: { resource: [`not allowed to ${options.action} ${options.resource}`] },
+  });
+}
@@ -1,9 +1,54 @@
-import { SharedImportExportConfig } from './types';
+import {
+  ENTITY_TYPES,
+  ImportExportAccessPolicy,
+  ImportExportAction,
+  JobLeaseConfig,
+  JobProgressConfig,
+  RetentionConfig,
+  SharedImportExportConfig,
+} from './types';
 
 export const DEFAULT_SHARED_IMPORT_EXPORT_CONFIG: SharedImportExportConfig = {
   workerConcurrency: 4,
 };
 
+export const DEFAULT_RETENTION_CONFIG: RetentionConfig = {
+  sweepIntervalMinutes: 60,
+  importSourceRetentionHours: 24,
+  errorReportRetentionHours: 7 * 24,
+  jobRetentionDays: 30,
+  dryRun: false,
+};
+
+export const DEFAULT_JOB_LEASE_CONFIG: JobLeaseConfig = {
+  leaseTtlSeconds: 60,
+  reaperIntervalSeconds: 60,
+  maxReclaims: 3,
+};
+
+export const DEFAULT_JOB_PROGRESS_CONFIG: JobProgressConfig = {
+  updateIntervalMs: 2000,
+  updateEveryRecords: 5000,
+  eventsPollIntervalMs: 1000,
+};
+
+export const DEFAULT_JOB_LIST_LIMIT = 20;
+export const MAX_JOB_LIST_LIMIT = 100;
+
+export const DEFAULT_RECORD_ERROR_LIST_LIMIT = 100;
+export const MAX_RECORD_ERROR_LIST_LIMIT = 1000;
+
+export const DEFAULT_EXTERNAL_ID_LIST_LIMIT = 100;
+export const MAX_EXTERNAL_ID_LIST_LIMIT = 1000;
+// Values accepted by each externalId/internalId lookup filter
+export const MAX_EXTERNAL_ID_FILTER_VALUES = 100;
+
+// Groups kept per list of an import's error breakdown
+export const ERROR_BREAKDOWN_GROUP_LIMIT = 10;
+
+export const DEFAULT_CSV_DELIMITER = ',';
+export const DEFAULT_CSV_LIST_DELIMITER = '|';
+
 export function loadSharedImportExportConfig(): SharedImportExportConfig {
   const parsedConcurrency = Number.parseInt(
     process.env.JOB_WORKER_CONCURRENCY || '',
@@ -18,3 +63,103 @@ export function loadSharedImportExportConfig(): SharedImportExportConfig {
     workerConcurrency,
   };
 }
+
+export function loadRetentionConfig(): RetentionConfig {
+  return {
+    sweepIntervalMinutes:
+      parseInt(process.env.RETENTION_SWEEP_INTERVAL_MINUTES || '', 10) ||
+      DEFAULT_RETENTION_CONFIG.sweepIntervalMinutes,
+    importSourceRetentionHours:
+      parseInt(process.env.IMPORT_SOURCE_RETENTION_HOURS || '', 10) ||
+      DEFAULT_RETENTION_CONFIG.importSourceRetentionHours,
+    errorReportRetentionHours:
+      parseInt(process.env.ERROR_REPORT_RETENTION_HOURS || '', 10) ||
+      DEFAULT_RETENTION_CONFIG.errorReportRetentionHours,
+    jobRetentionDays:
+      parseInt(process.env.JOB_RETENTION_DAYS || '', 10) || DEFAULT_RETENTION_CONFIG.jobRetentionDays,
+    dryRun: process.env.RETENTION_DRY_RUN === 'true',
+  };
+}
+
+export function loadJobLeaseConfig(): JobLeaseConfig {
+  return {
+    leaseTtlSeconds:
+      parseInt(process.env.JOB_LEASE_TTL_SECONDS || '', 10) || DEFAULT_JOB_LEASE_CONFIG.leaseTtlSeconds,
+    reaperIntervalSeconds:
+      parseInt(process.env.JOB_LEASE_REAPER_INTERVAL_SECONDS || '', 10) ||
+      DEFAULT_JOB_LEASE_CONFIG.reaperIntervalSeconds,
+    maxReclaims:
+      parseInt(process.env.JOB_LEASE_MAX_RECLAIMS || '', 10) || DEFAULT_JOB_LEASE_CONFIG.maxReclaims,
+  };
+}
+
+export function loadJobProgressConfig(): JobProgressConfig {
+  return {
+    updateIntervalMs:
+      parseInt(process.env.JOB_PROGRESS_UPDATE_INTERVAL_MS || '', 10) ||
+      DEFAULT_JOB_PROGRESS_CONFIG.updateIntervalMs,
+    updateEveryRecords:
+      parseInt(process.env.JOB_PROGRESS_UPDATE_RECORDS || '', 10) ||
+      DEFAULT_JOB_PROGRESS_CONFIG.updateEveryRecords,
+    eventsPollIntervalMs:
+      parseInt(process.env.JOB_EVENTS_POLL_INTERVAL_MS || '', 10) ||
+      DEFAULT_JOB_PROGRESS_CONFIG.eventsPollIntervalMs,
+  };
+}
+
+export const ANY_AUTHENTICATED_ROLE = '*';
+
+// Imports can overwrite any account (including roles) and user exports expose emails,
+// so both default to admins; article/comment/tag exports stay open to every user. Favorite
+// and follow exports dump every user's social graph at once, so they stay admin-only.
+export const DEFAULT_IMPORT_EXPORT_ACCESS_POLICY: ImportExportAccessPolicy = {
+  import: {
+    users: ['admin'],
+    articles: ['admin'],
+    comments: ['admin'],
+    tags: ['admin'],
+    favorites: ['admin'],
+    follows: ['admin'],
+  },
+  export: {
+    users: ['admin'],
+    articles: [ANY_AUTHENTICATED_ROLE],
+    comments: [ANY_AUTHENTICATED_ROLE],
+    tags: [ANY_AUTHENTICATED_ROLE],
+    favorites: ['admin'],
+    follows: ['admin'],
+  },
+};
+
+/**
+ * Resolves allowed roles per action and resource. `<ACTION>_<RESOURCE>_ALLOWED_ROLES`
+ * (e.g. `EXPORT_USERS_ALLOWED_ROLES`) wins over `<ACTION>_ALLOWED_ROLES`, which wins over
+ * the defaults. Values are comma-separated role names.
+ */
+export function loadImportExportAccessPolicy(): ImportExportAccessPolicy {
+  const actions: ImportExportAction[] = ['import', 'export'];
+  const policy = {} as ImportExportAccessPolicy;
+
+  for (const action of actions) {
+    const actionRoles = parseRoleList(process.env[`${action.toUpperCase()}_ALLOWED_ROLES`]);
+    policy[action] = {} as ImportExportAccessPolicy[ImportExportAction];
+
+    for (const resource of ENTITY_TYPES) {
+      const resourceRoles = parseRoleList(
+        process.env[`${action.toUpperCase()}_${resource.toUpperCase()}_ALLOWED_ROLES`],
+      );
+      policy[action][resource] =
+        resourceRoles ?? actionRoles ?? DEFAULT_IMPORT_EXPORT_ACCESS_POLICY[action][resource];
+    }
+  }
+
+  return policy;
+}
+
+function parseRoleList(value: string | undefined): string[] | null {
+  const roles = value
+    ?.split(',')
+    .map((role) => role.trim())
+    .filter(Boolean);
+  return roles?.length ? roles : null;
+}
@@ -0,0 +1,168 @@
+import { randomUUID } from 'crypto';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { Redis } from 'ioredis';
+import HttpException from '../../../models/http-exception.model';
+import { HttpStatusCode } from '../../../models/http-status-code.model';
+import { createLogger } from '../../../logger';
+import type { ImportExportJobType } from '../../../jobs/import-export.queue';
+import { ErrorCodeNames, ResourceErrorCode } from './types';
+
+export type JobLimitRedis = Pick<Redis, 'eval'>;
+
+export interface ConcurrencyLimitOptions {
+  type: ImportExportJobType;
+  userId: number;
+  concurrentLimitUser: number;
+  concurrentLimitGlobal: number;
+  /** Counts queued/running jobs, scoped to one user when `createdById` is given. */
+  countActiveJobs: (createdById?: number) => Promise<number>;
+}
+
+export interface RateLimitOptions extends Pick<ConcurrencyLimitOptions, 'type' | 'userId'> {
+  rateLimitPerHour: number;
+  redis?: JobLimitRedis;
+  now?: () => Date;
+}
+
+export interface EnforceJobLimitsOptions extends ConcurrencyLimitOptions, RateLimitOptions {}
+
+export const ACTIVE_JOB_STATUSES: ('queued' | 'running')[] = ['queued', 'running'];
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const CONCURRENT_LIMIT_RETRY_AFTER_SECONDS = 30;
+const CREATION_LOCK_PREFIX = 'import-export:create';
+const logger = createLogger({ component: 'import-export.limits' });
+
+// Sliding window over a sorted set of acceptance timestamps. Evicting, counting
+// and recording run in one script so concurrent requests cannot overshoot the quota.
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+if redis.call('ZCARD', key) >= limit then
+  local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+  return {0, tonumber(oldest[2]) + window - now}
+end
+redis.call('ZADD', key, now, ARGV[4])
+redis.call('PEXPIRE', key, window)
+return {1, 0}
+`;
+
+/**
+ * Rejects job creation with 429 when the caller or the whole service already has
+ * too many active jobs, or when the caller exhausted its hourly creation quota.
+ * The quota is only consumed once the concurrency checks have passed.
+ */
+export async function enforceJobLimits(options: EnforceJobLimitsOptions): Promise<void> {
+  await enforceConcurrencyLimits(options);
+  await enforceRateLimit(options);
+}
+
+// The quota half of enforceJobLimits: consumes one slot of the caller's hourly quota or rejects with 429
+export async function enforceRateLimit(options: RateLimitOptions): Promise<void> {
+  const retryAfterMs = await consumeRateLimitSlot(options);
+  if (retryAfterMs !== null) {
+    throw buildLimitException(
+      options,
+      ResourceErrorCode.RATE_LIMITED,
+      `${options.type} rate limit of ${options.rateLimitPerHour} jobs per hour exceeded`,
+      Math.max(1, Math.ceil(retryAfterMs / 1000)),
+    );
+  }
+}
+
+// The active job half of enforceJobLimits, for a request that consumes its quota separately
+export async function enforceConcurrencyLimits(options: ConcurrencyLimitOptions): Promise<void> {
+  const activeForUser = await options.countActiveJobs(options.userId);
+  if (activeForUser >= options.concurrentLimitUser) {
+    throw buildLimitException(
+      options,
+      ResourceErrorCode.CONCURRENT_LIMIT,
+      `${options.type} concurrency limit of ${options.concurrentLimitUser} active jobs per user reached`,
+      CONCURRENT_LIMIT_RETRY_AFTER_SECONDS,
+    );
+  }
+
+  const activeGlobal = await options.countActiveJobs();
+  if (activeGlobal >= options.concurrentLimitGlobal) {
+    throw buildLimitException(
+      options,
+      ResourceErrorCode.CONCURRENT_LIMIT,
+      `${options.type} concurrency limit of ${options.concurrentLimitGlobal} active jobs reached, try again later`,
+      CONCURRENT_LIMIT_RETRY_AFTER_SECONDS,
+    );
+  }
+}
+
+/**
+ * Runs `create` in a transaction holding an advisory lock per job type. Limits
+ * checked inside it see every job created by a racing request, since that
+ * request commits its job before the lock is released.
+ */
+export async function withJobCreationLock<T>(
+  prisma: PrismaClient,
+  type: ImportExportJobType,
+  create: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`${CREATION_LOCK_PREFIX}:${type}`}))`;
+    return create(tx);
+  });
+}
+
+/**
+ * Returns null when a slot was recorded, or the milliseconds until the oldest
+ * slot in the window expires. Redis outages fail open: the queue needs the same
+ * connection, so job creation surfaces the outage on enqueue instead.
+ */
+async function consumeRateLimitSlot(options: RateLimitOptions): Promise<number | null> {
+  const now = (options.now ?? (() => new Date()))().getTime();
+  const key = `import-export:rate:${options.type}:${options.userId}`;
+
+  try {
+    const redis = options.redis ?? (await import('../../../jobs/import-export.queue')).importExportConnection;
+    const [accepted, retryAfterMs] = (await redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      key,
+      now,
+      RATE_LIMIT_WINDOW_MS,
+      options.rateLimitPerHour,
+      `${now}-${randomUUID()}`,
+    )) as [number, number];
+
+    return accepted === 1 ? null : retryAfterMs;
+  } catch (error) {
+    logger.warn({
+      event: 'Job rate limit check skipped',
+      type: options.type,
+      userId: options.userId,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+function buildLimitException(
+  options: Pick<ConcurrencyLimitOptions, 'type' | 'userId'>,
+  code: ResourceErrorCode,
+  message: string,
+  retryAfterSeconds: number,
+): HttpException {
+  logger.info({
+    event: 'Job creation rate limited',
+    type: options.type,
+    userId: options.userId,
+    code: ErrorCodeNames[code],
+    retryAfterSeconds,
+  });
+
+  return new HttpException(
+    HttpStatusCode.TOO_MANY_REQUESTS,
+    { code: ErrorCodeNames[code], errors: { job: [message] } },
+    { 'Retry-After': String(retryAfterSeconds) },
+  );
+}
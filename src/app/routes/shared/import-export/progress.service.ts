@@ -0,0 +1,161 @@
+import type { Request, Response } from 'express';
+import { createLogger } from '../../../logger';
+import { ACTIVE_JOB_STATUSES } from './limits.service';
+import { JobProgress, JobProgressConfig, JobProgressSource } from './types';
+
+export interface ProgressThrottle {
+  // True once enough records or time passed since the last persisted update
+  due: (processedRecords: number) => boolean;
+  mark: (processedRecords: number) => void;
+}
+
+export interface StreamJobProgressOptions {
+  req: Request;
+  res: Response;
+  load: () => Promise<JobProgress>;
+  pollIntervalMs: number;
+  keepAliveIntervalMs?: number;
+}
+
+const DEFAULT_KEEP_ALIVE_INTERVAL_MS = 15_000;
+// A running job never reports 100% until it has actually finished
+const MAX_RUNNING_PERCENT = 99;
+const logger = createLogger({ component: 'job-progress' });
+
+export function createProgressThrottle(config: JobProgressConfig, now: () => Date): ProgressThrottle {
+  let lastRecords = 0;
+  let lastAt = now().getTime();
+
+  return {
+    due: (processedRecords) =>
+      processedRecords - lastRecords >= config.updateEveryRecords ||
+      now().getTime() - lastAt >= config.updateIntervalMs,
+    mark: (processedRecords) => {
+      lastRecords = processedRecords;
+      lastAt = now().getTime();
+    },
+  };
+}
+
+export function buildJobProgress(job: JobProgressSource, at: Date): JobProgress {
+  const running = job.status === 'running';
+  const percent = estimatePercent(job);
+  const elapsedMs = job.startedAt ? at.getTime() - job.startedAt.getTime() : 0;
+  const etaSeconds =
+    running && percent && elapsedMs > 0 ? Math.round((elapsedMs * (100 - percent)) / percent / 1000) : null;
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    processedRecords: job.processedRecords,
+    totalRecords: job.totalRecords,
+    ...(job.successCount !== undefined ? { successCount: job.successCount } : {}),
+    ...(job.errorCount !== undefined ? { errorCount: job.errorCount } : {}),
+    ...(job.skippedCount !== undefined ? { skippedCount: job.skippedCount } : {}),
+    percent,
+    etaSeconds,
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+  };
+}
+
+function estimatePercent(job: JobProgressSource): number | null {
+  if (job.status === 'succeeded' || job.status === 'partial') {
+    return 100;
+  }
+  if (job.status === 'queued') {
+    return 0;
+  }
+
+  let ratio: number | null = null;
+  if (job.totalRecords) {
+    ratio = job.processedRecords / job.totalRecords;
+  } else if (job.totalRecords === 0) {
+    ratio = 1;
+  } else if (job.fileSize && job.bytesProcessed) {
+    ratio = job.bytesProcessed / job.fileSize;
+  }
+  if (ratio === null) {
+    return null;
+  }
+
+  const percent = Math.round(Math.min(ratio, 1) * 1000) / 10;
+  return job.status === 'running' ? Math.min(percent, MAX_RUNNING_PERCENT) : percent;
+}
+
+/**
+ * Serves a job's progress as Server-Sent Events. A `progress` event is sent
+ * whenever the snapshot changes, and a final `complete` event once the job
+ * reaches a terminal status. Errors from the first load (e.g. 404) are thrown
+ * before any headers are written so the caller can respond normally.
+ */
+export async function streamJobProgressEvents(options: StreamJobProgressOptions): Promise<void> {
+  const { req, res, load, pollIntervalMs } = options;
+  const keepAliveIntervalMs = options.keepAliveIntervalMs ?? DEFAULT_KEEP_ALIVE_INTERVAL_MS;
+  let progress = await load();
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  res.write(`retry: ${pollIntervalMs}\n\n`);
+
+  let closed = false;
+  let wake: (() => void) | null = null;
+  req.on('close', () => {
+    closed = true;
+    wake?.();
+  });
+
+  let lastPayload = '';
+  let lastWriteAt = Date.now();
+
+  while (!closed) {
+    const payload = JSON.stringify(progress);
+    if (!(ACTIVE_JOB_STATUSES as string[]).includes(progress.status)) {
+      res.write(formatEvent('complete', payload));
+      break;
+    }
+    if (payload !== lastPayload) {
+      res.write(formatEvent('progress', payload));
+      lastPayload = payload;
+      lastWriteAt = Date.now();
+    } else if (Date.now() - lastWriteAt >= keepAliveIntervalMs) {
+      res.write(': keep-alive\n\n');
+      lastWriteAt = Date.now();
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, pollIntervalMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    wake = null;
+    if (closed) {
+      break;
+    }
+
+    try {
+      progress = await load();
+    } catch (error) {
+      logger.warn({
+        event: 'Job progress stream load failed',
+        jobId: progress.jobId,
+        errorName: error instanceof Error ? error.name : 'UnknownError',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      res.write(formatEvent('error', JSON.stringify({ message: 'job progress unavailable' })));
+      break;
+    }
+  }
+
+  res.end();
+}
+
+function formatEvent(event: string, data: string): string {
+  return `event: ${event}\ndata: ${data}\n\n`;
+}
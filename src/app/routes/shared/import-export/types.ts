@@ -15,14 +15,99 @@
 export type JobStatus = 'queued' | 'running' | 'partial' | 'succeeded' | 'failed' | 'cancelled';
 
 /**
- * Entity types that can be imported/exported
+ * Entity types that can be imported/exported. `favorites` and `follows` are
+ * relationships: each record is one edge between existing rows.
  */
-export type EntityType = 'users' | 'articles' | 'comments';
+export type EntityType = 'users' | 'articles' | 'comments' | 'tags' | 'favorites' | 'follows';
+
+export const ENTITY_TYPES: EntityType[] = ['users', 'articles', 'comments', 'tags', 'favorites', 'follows'];
+
+export type RelationEntityType = Extract<EntityType, 'favorites' | 'follows'>;
+
+export const RELATION_ENTITY_TYPES: RelationEntityType[] = ['favorites', 'follows'];
+
+// Resources whose records are rows that can carry an external_id
+export type ExternalIdEntityType = Extract<EntityType, 'users' | 'articles' | 'comments'>;
+
+export const EXTERNAL_ID_ENTITY_TYPES: ExternalIdEntityType[] = ['users', 'articles', 'comments'];
+
+/**
+ * What a relationship import record does with its edge (default connect)
+ */
+export type RelationAction = 'connect' | 'disconnect';
+
+export const RELATION_ACTIONS: RelationAction[] = ['connect', 'disconnect'];
+
+/**
+ * What a tag import record does (default create)
+ */
+export type TagAction = 'create' | 'rename' | 'merge';
+
+export const TAG_ACTIONS: TagAction[] = ['create', 'rename', 'merge'];
 
 /**
  * Supported file formats
  */
-export type FileFormat = 'ndjson' | 'json';
+export type FileFormat = 'ndjson' | 'json' | 'csv';
+
+export const FILE_FORMATS: FileFormat[] = ['ndjson', 'json', 'csv'];
+
+/**
+ * Supported export artifact compression
+ */
+export type ExportCompression = 'gzip';
+
+/**
+ * Export-only resource for a user's own data. It is not an EntityType because
+ * its archive holds records of several entity types.
+ */
+export const ACCOUNT_EXPORT_RESOURCE = 'account';
+
+/**
+ * How imported records are written:
+ * - insert: create only, existing records fail with DUPLICATE_VALUE
+ * - update: update only, missing records fail
+ * - upsert: create or update (default)
+ * - skipExisting: create only, existing records are left untouched and counted as skipped
+ */
+export type ImportMode = 'insert' | 'update' | 'upsert' | 'skipExisting';
+
+export const IMPORT_MODES: ImportMode[] = ['insert', 'update', 'upsert', 'skipExisting'];
+
+/**
+ * Progress snapshot pushed by the job events stream
+ */
+export interface JobProgress {
+  jobId: string;
+  status: JobStatus;
+  processedRecords: number;
+  totalRecords: number | null;
+  successCount?: number; // Imports only
+  errorCount?: number; // Imports only
+  skippedCount?: number; // Imports only
+  percent: number | null; // 0-100; null while the total cannot be estimated
+  etaSeconds: number | null; // Remaining time at the current rate, running jobs only
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/**
+ * Job fields a progress snapshot is computed from. Imports that have not
+ * finished estimate their percent from source bytes read over file size.
+ */
+export interface JobProgressSource {
+  id: string;
+  status: JobStatus;
+  processedRecords: number;
+  totalRecords: number | null;
+  successCount?: number;
+  errorCount?: number;
+  skippedCount?: number;
+  bytesProcessed?: number | null;
+  fileSize?: number | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
 
 // =============================================================================
 // Import Job Types
@@ -42,6 +127,7 @@ export interface ImportJob {
   processedRecords: number;
   successCount: number;
   errorCount: number;
+  skippedCount: number; // Existing records left untouched in skipExisting mode
 
   // Timing
   createdAt: Date;
@@ -57,10 +143,70 @@ export interface ImportJob {
   fileSize: number | null;
   sourceUrl: string | null;
 
+  // Parsing options supplied at creation
+  options?: ImportJobOptions | null;
+  mode: ImportMode;
+
+  // Validate-only run: nothing is written, counts describe what would happen
+  dryRun: boolean;
+  dryRunSummary?: ImportDryRunSummary | null;
+
   // Error reporting
   errorSummary?: ErrorReportSummary | null;
 }
 
+/**
+ * Outcome of a dry-run import for records that passed validation
+ */
+export interface ImportDryRunSummary {
+  wouldCreate: number;
+  wouldUpdate: number;
+}
+
+/**
+ * Per-job import options persisted on the job row
+ */
+export interface ImportJobOptions {
+  delimiter?: string; // CSV field delimiter (default ',')
+  listDelimiter?: string; // Separator for list cells such as tags (default '|')
+  mapping?: ImportFieldMapping; // Source-to-record field mapping applied before validation
+  sourceSystem?: string; // Partner system the external_id fields of records belong to
+}
+
+export type ImportFieldTransform = 'trim' | 'lowercase';
+
+export const IMPORT_FIELD_TRANSFORMS: ImportFieldTransform[] = ['trim', 'lowercase'];
+
+/**
+ * Resolves a mapped value to a record id:
+ * - userEmail: user id for an email address
+ * - articleSlug: article id for a slug
+ */
+export type ImportFieldLookup = 'userEmail' | 'articleSlug';
+
+export const IMPORT_FIELD_LOOKUPS: ImportFieldLookup[] = ['userEmail', 'articleSlug'];
+
+export type ImportMappingScalar = string | number | boolean;
+
+/**
+ * How one record field is produced from the source record. Steps run in order:
+ * constant or source value, transforms, default, split, date parsing, lookup.
+ */
+export interface ImportFieldMappingRule {
+  from: string; // Source field name (defaults to the record field name)
+  value?: ImportMappingScalar; // Constant injected regardless of the source
+  transforms?: ImportFieldTransform[];
+  default?: ImportMappingScalar; // Used when the source value is missing or empty
+  split?: string; // Splits a string into a list, e.g. for tags
+  dateFormat?: string; // Tokens YYYY, MM, DD, HH, mm, ss; parsed as UTC
+  lookup?: ImportFieldLookup;
+}
+
+/**
+ * Mapping spec keyed by record field name
+ */
+export type ImportFieldMapping = Record<string, ImportFieldMappingRule>;
+
 /**
  * Options for creating an import job
  */
@@ -87,6 +233,29 @@ export interface ErrorReportSummary {
   reportLocation?: string | null;
   reportFormat?: FileFormat | null;
   reportGenerationFailed?: boolean;
+  // Failed source records annotated with their errors, see generateImportRejectsFile
+  rejectsLocation?: string | null;
+  rejectsFormat?: FileFormat | null;
+  rejectsCount?: number;
+  rejectsGenerationFailed?: boolean;
+  // Grouped counts over the job's ImportError rows, see summarizeImportErrors
+  breakdown?: ImportErrorBreakdown;
+}
+
+/**
+ * Where a group of errors occurs: how often, and the first and last
+ * `recordIndex` (-1 for job-level errors)
+ */
+export interface ImportErrorGroupStats {
+  count: number;
+  firstRecordIndex: number;
+  lastRecordIndex: number;
+}
+
+export interface ImportErrorBreakdown {
+  byCode: ({ errorCode: number; errorName: string } & ImportErrorGroupStats)[];
+  byField: ({ field: string | null } & ImportErrorGroupStats)[];
+  topValues: ({ field: string | null; value: unknown } & ImportErrorGroupStats)[];
 }
 
 // =============================================================================
@@ -101,6 +270,7 @@ export interface ExportJob {
   status: JobStatus;
   entityType: EntityType;
   format: FileFormat;
+  compression: ExportCompression | null;
 
   // Progress tracking
   totalRecords: number | null;
@@ -219,6 +389,7 @@ export enum SystemErrorCode {
   QUEUE_ERROR = 5003,
   INTERNAL_ERROR = 5004,
   TIMEOUT = 5005,
+  LEASE_EXPIRED = 5006,
 }
 
 /**
@@ -278,6 +449,7 @@ export const ErrorCodeNames: Record<ImportExportErrorCode, string> = {
   [SystemErrorCode.QUEUE_ERROR]: 'QUEUE_ERROR',
   [SystemErrorCode.INTERNAL_ERROR]: 'INTERNAL_ERROR',
   [SystemErrorCode.TIMEOUT]: 'TIMEOUT',
+  [SystemErrorCode.LEASE_EXPIRED]: 'LEASE_EXPIRED',
 };
 
 /**
@@ -315,6 +487,7 @@ export interface CreateRecordErrorOptions {
  * Standard error response format (aligned with existing API)
  */
 export interface ErrorResponse {
+  code?: string; // Set for errors that map to an ImportExportErrorCode, e.g. RATE_LIMITED
   errors: {
     [field: string]: string[];
   };
@@ -342,6 +515,7 @@ export interface ExportJobResponse {
 export interface ImportJobsListResponse {
   importJobs: ImportJob[];
   importJobsCount: number;
+  nextCursor: string | null;
 }
 
 /**
@@ -350,6 +524,46 @@ export interface ImportJobsListResponse {
 export interface ExportJobsListResponse {
   exportJobs: ExportJob[];
   exportJobsCount: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Parsed query for job list endpoints (newest first, cursor = last job id of the previous page)
+ */
+export interface JobListQuery {
+  statuses: JobStatus[] | null;
+  entityType: EntityType | null;
+  format: FileFormat | null;
+  createdAfter: Date | null;
+  createdBefore: Date | null;
+  limit: number;
+  cursor: string | null;
+}
+
+/**
+ * Filters and keyset pagination for listing the external ids one source system
+ * mapped for a resource. The cursor is the last externalId of the previous page.
+ */
+export interface ExternalIdListQuery {
+  sourceSystem: string;
+  entityType: ExternalIdEntityType;
+  externalIds: string[] | null;
+  internalIds: number[] | null;
+  limit: number;
+  cursor: string | null;
+}
+
+/**
+ * Filters and offset pagination for listing an import job's record errors
+ */
+export interface RecordErrorListQuery {
+  errorCode: number | null;
+  errorName: string | null;
+  field: string | null;
+  recordIndexFrom: number | null;
+  recordIndexTo: number | null;
+  limit: number;
+  offset: number;
 }
 
 /**
@@ -370,7 +584,8 @@ export interface RecordErrorsResponse {
  * User record for import
  */
 export interface UserImportRecord {
-  id?: number;
+  id?: number; // filled from external_id by validation when already mapped
+  external_id?: string;
   email?: string;
   name: string;
   role?: string;
@@ -383,11 +598,15 @@ export interface UserImportRecord {
  * Article record for import
  */
 export interface ArticleImportRecord {
-  id?: number;
+  id?: number; // filled from external_id by validation when already mapped
+  external_id?: string;
   slug?: string;
   title: string;
   body: string;
-  author_id: number;
+  author_id: number; // filled from external_author_id, author_email or author_username by validation
+  external_author_id?: string;
+  author_email?: string;
+  author_username?: string;
   tags?: string[];
   published_at?: string; // ISO date string
   status?: string;
@@ -397,17 +616,57 @@ export interface ArticleImportRecord {
  * Comment record for import
  */
 export interface CommentImportRecord {
-  id?: number;
+  id?: number; // filled from external_id by validation when already mapped
+  external_id?: string;
   body: string;
-  article_id: number;
-  user_id: number;
+  article_id: number; // filled from external_article_id or article_slug by validation
+  external_article_id?: string;
+  article_slug?: string;
+  user_id: number; // filled from external_user_id or user_email by validation
+  external_user_id?: string;
+  user_email?: string;
   created_at?: string; // ISO date string
 }
 
+/**
+ * Tag record for import. `create` uses `name`; `rename` and `merge` move the
+ * `from` tag's articles to `to`, and merge deletes `from` afterwards.
+ */
+export interface TagImportRecord {
+  action?: TagAction;
+  name?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Favorite record for import: `user_id` favorites `article_id`
+ */
+export interface FavoriteImportRecord {
+  user_id: number;
+  article_id: number;
+  action?: RelationAction;
+}
+
+/**
+ * Follow record for import: `follower_id` follows `following_id`
+ */
+export interface FollowImportRecord {
+  follower_id: number;
+  following_id: number;
+  action?: RelationAction;
+}
+
 /**
  * Union of all import record types
  */
-export type ImportRecord = UserImportRecord | ArticleImportRecord | CommentImportRecord;
+export type ImportRecord =
+  | UserImportRecord
+  | ArticleImportRecord
+  | CommentImportRecord
+  | TagImportRecord
+  | FavoriteImportRecord
+  | FollowImportRecord;
 
 // =============================================================================
 // Export Record Types (Output Shapes)
@@ -438,6 +697,7 @@ export interface ArticleExportRecord {
   tags: string[];
   published_at: string | null;
   status: string;
+  created_at: string;
 }
 
 /**
@@ -451,10 +711,41 @@ export interface CommentExportRecord {
   created_at: string;
 }
 
+/**
+ * Tag record for export
+ */
+export interface TagExportRecord {
+  id: number;
+  name: string;
+  article_count: number;
+}
+
+/**
+ * Favorite record for export
+ */
+export interface FavoriteExportRecord {
+  user_id: number;
+  article_id: number;
+}
+
+/**
+ * Follow record for export
+ */
+export interface FollowExportRecord {
+  follower_id: number;
+  following_id: number;
+}
+
 /**
  * Union of all export record types
  */
-export type ExportRecord = UserExportRecord | ArticleExportRecord | CommentExportRecord;
+export type ExportRecord =
+  | UserExportRecord
+  | ArticleExportRecord
+  | CommentExportRecord
+  | TagExportRecord
+  | FavoriteExportRecord
+  | FollowExportRecord;
 
 // =============================================================================
 // Configuration Types
@@ -464,3 +755,33 @@ export interface SharedImportExportConfig {
   workerConcurrency: number;
 }
 
+export interface RetentionConfig {
+  sweepIntervalMinutes: number;
+  importSourceRetentionHours: number;
+  errorReportRetentionHours: number;
+  jobRetentionDays: number;
+  dryRun: boolean;
+}
+
+export interface JobLeaseConfig {
+  leaseTtlSeconds: number; // Lease length; heartbeats renew it every third of this
+  reaperIntervalSeconds: number;
+  maxReclaims: number; // Expired leases a job may recover from before it is failed
+}
+
+export interface JobProgressConfig {
+  updateIntervalMs: number; // Running jobs persist counters at least this often...
+  updateEveryRecords: number; // ...and after this many records, whichever comes first
+  eventsPollIntervalMs: number; // How often the events stream re-reads the job
+}
+
+/**
+ * Import/export operations guarded by the access policy
+ */
+export type ImportExportAction = 'import' | 'export';
+
+/**
+ * Roles allowed to perform each action on each resource ('*' allows any authenticated user)
+ */
+export type ImportExportAccessPolicy = Record<ImportExportAction, Record<EntityType, string[]>>;
+
@@ -4,7 +4,33 @@ import type { Prisma } from '@prisma/client';
 import { Request } from 'express';
 import HttpException from '../../../models/http-exception.model';
 import { HttpStatusCode } from '../../../models/http-status-code.model';
-import { EntityType, FileFormat } from './types';
+import {
+  ENTITY_TYPES,
+  EntityType,
+  EXTERNAL_ID_ENTITY_TYPES,
+  ExternalIdEntityType,
+  ExternalIdListQuery,
+  FILE_FORMATS,
+  FileFormat,
+  JobListQuery,
+  JobStatus,
+  RecordErrorListQuery,
+  RELATION_ENTITY_TYPES,
+  RelationEntityType,
+} from './types';
+import {
+  DEFAULT_EXTERNAL_ID_LIST_LIMIT,
+  DEFAULT_JOB_LIST_LIMIT,
+  DEFAULT_RECORD_ERROR_LIST_LIMIT,
+  MAX_EXTERNAL_ID_FILTER_VALUES,
+  MAX_EXTERNAL_ID_LIST_LIMIT,
+  MAX_JOB_LIST_LIMIT,
+  MAX_RECORD_ERROR_LIST_LIMIT,
+} from './config';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'partial', 'succeeded', 'failed', 'cancelled'];
+const SOURCE_SYSTEM_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+const GZIP_EXTENSION = '.gz';
 
 export function isLocalHostname(host: string): boolean {
   return (
@@ -112,33 +138,62 @@ export function parseEntityType(value: string | undefined): EntityType {
     });
   }
   const normalized = value.trim().toLowerCase();
-  if (
-    normalized === 'users' ||
-    normalized === 'articles' ||
-    normalized === 'comments'
-  ) {
+  if ((ENTITY_TYPES as string[]).includes(normalized)) {
     return normalized as EntityType;
   }
   throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
-    errors: { resource: ['resource must be one of users, articles, comments'] },
+    errors: { resource: [`resource must be one of ${ENTITY_TYPES.join(', ')}`] },
   });
 }
 
-export function parseFormat(value?: string): FileFormat {
+export function isRelationEntityType(entityType: EntityType): entityType is RelationEntityType {
+  return (RELATION_ENTITY_TYPES as EntityType[]).includes(entityType);
+}
+
+export function isExternalIdEntityType(entityType: EntityType): entityType is ExternalIdEntityType {
+  return (EXTERNAL_ID_ENTITY_TYPES as EntityType[]).includes(entityType);
+}
+
+/**
+ * Parses the name of the partner system external ids belong to, e.g. `crm` or
+ * `legacy-blog`. Returns undefined when it is not set.
+ */
+export function parseSourceSystem(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  if (!SOURCE_SYSTEM_PATTERN.test(trimmed)) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { sourceSystem: ['sourceSystem must be up to 64 letters, digits, dots, dashes or underscores'] },
+    });
+  }
+  return trimmed;
+}
+
+/**
+ * Parses a format parameter against the formats the caller supports. Callers that
+ * omit `supported` get the JSON formats only, which is what exports accept.
+ */
+export function parseFormat<T extends FileFormat = 'ndjson' | 'json'>(
+  value?: string,
+  supported: readonly T[] = ['ndjson', 'json'] as T[]
+): T {
   if (!value) {
-    return 'ndjson';
+    return 'ndjson' as T;
   }
   const normalized = value.trim().toLowerCase();
-  if (normalized === 'ndjson' || normalized === 'json') {
-    return normalized as FileFormat;
+  if ((supported as readonly string[]).includes(normalized)) {
+    return normalized as T;
   }
+  const names = [...supported].sort();
   throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
-    errors: { format: ['format must be json or ndjson'] },
+    errors: { format: [`format must be ${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`] },
   });
 }
 
 export function normalizeFormat(value: string | null): FileFormat {
-  if (value === 'ndjson' || value === 'json') {
+  if (value === 'ndjson' || value === 'json' || value === 'csv') {
     return value;
   }
   return 'ndjson';
@@ -198,6 +253,172 @@ export function parsePositiveInteger(
   return parsed;
 }
 
+export function parseNonNegativeInteger(value: string | undefined, fieldName: string): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  const parsed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || !Number.isSafeInteger(parsed)) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { [fieldName]: [`${fieldName} must be a non-negative integer`] },
+    });
+  }
+  return parsed;
+}
+
+export function parseJobStatuses(value?: string): JobStatus[] | null {
+  if (!value) {
+    return null;
+  }
+
+  const statuses = value
+    .split(',')
+    .map((segment) => segment.trim().toLowerCase())
+    .filter(Boolean);
+  const invalid = statuses.filter((status) => !JOB_STATUSES.includes(status as JobStatus));
+
+  if (invalid.length) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { status: [`status must be one of ${JOB_STATUSES.join(', ')}`] },
+    });
+  }
+
+  return statuses.length ? Array.from(new Set(statuses as JobStatus[])) : null;
+}
+
+export function parseDateTimeParam(value: string | undefined, fieldName: string): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = new Date(value.trim());
+  if (Number.isNaN(parsed.getTime())) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { [fieldName]: [`${fieldName} must be a valid ISO date-time string`] },
+    });
+  }
+  return parsed;
+}
+
+export function parseJobListQuery(query: Record<string, unknown>): JobListQuery {
+  const resource = getQueryParamValue(query.resource);
+  const format = getQueryParamValue(query.format);
+  const cursor = getQueryParamValue(query.cursor)?.trim();
+  const createdAfter = parseDateTimeParam(getQueryParamValue(query.createdAfter), 'createdAfter');
+  const createdBefore = parseDateTimeParam(getQueryParamValue(query.createdBefore), 'createdBefore');
+
+  if (createdAfter && createdBefore && createdAfter.getTime() >= createdBefore.getTime()) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { createdBefore: ['createdBefore must be later than createdAfter'] },
+    });
+  }
+
+  return {
+    statuses: parseJobStatuses(getQueryParamValue(query.status)),
+    entityType: resource ? parseEntityType(resource) : null,
+    format: format ? parseFormat(format, FILE_FORMATS) : null,
+    createdAfter,
+    createdBefore,
+    limit: parsePositiveInteger(
+      getQueryParamValue(query.limit),
+      DEFAULT_JOB_LIST_LIMIT,
+      MAX_JOB_LIST_LIMIT,
+      'limit',
+    ),
+    cursor: cursor ? cursor : null,
+  };
+}
+
+export function parseRecordErrorListQuery(query: Record<string, unknown>): RecordErrorListQuery {
+  const errorCode = parseNonNegativeInteger(getQueryParamValue(query.errorCode), 'errorCode');
+  const errorName = getQueryParamValue(query.errorName)?.trim().toUpperCase();
+  const field = getQueryParamValue(query.field)?.trim();
+  const recordIndexFrom = parseNonNegativeInteger(getQueryParamValue(query.recordIndexFrom), 'recordIndexFrom');
+  const recordIndexTo = parseNonNegativeInteger(getQueryParamValue(query.recordIndexTo), 'recordIndexTo');
+
+  if (recordIndexFrom !== null && recordIndexTo !== null && recordIndexFrom > recordIndexTo) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { recordIndexTo: ['recordIndexTo must be >= recordIndexFrom'] },
+    });
+  }
+
+  return {
+    errorCode,
+    errorName: errorName ? errorName : null,
+    field: field ? field : null,
+    recordIndexFrom,
+    recordIndexTo,
+    limit: parsePositiveInteger(
+      getQueryParamValue(query.limit),
+      DEFAULT_RECORD_ERROR_LIST_LIMIT,
+      MAX_RECORD_ERROR_LIST_LIMIT,
+      'limit',
+    ),
+    offset: parseNonNegativeInteger(getQueryParamValue(query.offset), 'offset') ?? 0,
+  };
+}
+
+export function parseExternalIdListQuery(query: Record<string, unknown>): ExternalIdListQuery {
+  const sourceSystem = parseSourceSystem(getQueryParamValue(query.sourceSystem));
+  if (!sourceSystem) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { sourceSystem: ['sourceSystem is required'] },
+    });
+  }
+
+  const entityType = parseEntityType(getQueryParamValue(query.resource));
+  if (!isExternalIdEntityType(entityType)) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { resource: [`resource must be one of ${EXTERNAL_ID_ENTITY_TYPES.join(', ')}`] },
+    });
+  }
+
+  const externalIds = parseListParam(getQueryParamValue(query.externalId), 'externalId');
+  const internalIds = parseListParam(getQueryParamValue(query.internalId), 'internalId')?.map(
+    (value) => parseNonNegativeInteger(value, 'internalId') as number,
+  );
+  const cursor = getQueryParamValue(query.cursor);
+
+  return {
+    sourceSystem,
+    entityType,
+    externalIds,
+    internalIds: internalIds ?? null,
+    limit: parsePositiveInteger(
+      getQueryParamValue(query.limit),
+      DEFAULT_EXTERNAL_ID_LIST_LIMIT,
+      MAX_EXTERNAL_ID_LIST_LIMIT,
+      'limit',
+    ),
+    cursor: cursor ? cursor : null,
+  };
+}
+
+function parseListParam(value: string | undefined, fieldName: string): string[] | null {
+  const items = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  if (!items?.length) {
+    return null;
+  }
+  if (items.length > MAX_EXTERNAL_ID_FILTER_VALUES) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { [fieldName]: [`${fieldName} accepts at most ${MAX_EXTERNAL_ID_FILTER_VALUES} values`] },
+    });
+  }
+  return [...new Set(items)];
+}
+
+/**
+ * Returns the file name without a trailing `.gz`, so `articles.ndjson.gz`
+ * resolves to the `.ndjson` format of the decompressed content.
+ */
+export function stripGzipExtension(fileName: string): string {
+  return fileName.toLowerCase().endsWith(GZIP_EXTENSION) ? fileName.slice(0, -GZIP_EXTENSION.length) : fileName;
+}
+
 export function toJsonObject(
   value: Prisma.JsonValue | null | undefined
 ): Record<string, unknown> | null {
@@ -0,0 +1,26 @@
+export interface WebhookConfig {
+  signingSecret: string | null; // HMAC-SHA256 key; deliveries fail without it
+  allowedHosts: string[]; // Empty allows any public host
+  maxAttempts: number;
+  backoffMs: number; // First retry delay, doubled on each further attempt
+  timeoutMs: number;
+}
+
+export const DEFAULT_WEBHOOK_CONFIG: WebhookConfig = {
+  signingSecret: null,
+  allowedHosts: [],
+  maxAttempts: 5,
+  backoffMs: 10_000,
+  timeoutMs: 10_000,
+};
+
+export function loadWebhookConfig(): WebhookConfig {
+  return {
+    signingSecret: process.env.WEBHOOK_SIGNING_SECRET || DEFAULT_WEBHOOK_CONFIG.signingSecret,
+    allowedHosts:
+      process.env.WEBHOOK_ALLOWED_HOSTS?.split(',').filter(Boolean) || DEFAULT_WEBHOOK_CONFIG.allowedHosts,
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '', 10) || DEFAULT_WEBHOOK_CONFIG.maxAttempts,
+    backoffMs: parseInt(process.env.WEBHOOK_BACKOFF_MS || '', 10) || DEFAULT_WEBHOOK_CONFIG.backoffMs,
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '', 10) || DEFAULT_WEBHOOK_CONFIG.timeoutMs,
+  };
+}
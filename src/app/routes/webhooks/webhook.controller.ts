@@ -0,0 +1,40 @@
+import { NextFunction, Response, Router } from 'express';
+import auth from '../auth/auth';
+import { AuthenticatedRequest, requireUserId } from '../shared/import-export/utils';
+import { listWebhookDeliveries, parseWebhookDeliveryListQuery, redeliverWebhook } from './webhook.service';
+
+const router = Router();
+
+router.get('/v1/webhooks/deliveries', auth.required, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const createdById = requireUserId(req);
+    const result = await listWebhookDeliveries({
+      createdById,
+      query: parseWebhookDeliveryListQuery(req.query as Record<string, unknown>),
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post(
+  '/v1/webhooks/deliveries/:deliveryId/redeliver',
+  auth.required,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const createdById = requireUserId(req);
+      const result = await redeliverWebhook({
+        deliveryId: req.params.deliveryId,
+        createdById,
+      });
+
+      res.status(202).json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export default router;
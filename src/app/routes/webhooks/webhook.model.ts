@@ -0,0 +1,71 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { JobStatus } from '../shared/import-export/types';
+import type { WebhookConfig } from './config';
+
+export type WebhookJobType = 'import' | 'export';
+
+export type WebhookDeliveryResult = 'succeeded' | 'failed' | 'skipped';
+
+export interface WebhookPostResponse {
+  status: number;
+}
+
+export type WebhookPost = (
+  url: string,
+  body: string,
+  options: { headers: Record<string, string>; timeoutMs: number },
+) => Promise<WebhookPostResponse>;
+
+export interface DispatchJobWebhookOptions {
+  jobType: WebhookJobType;
+  job: { id: string; status: JobStatus; callbackUrl: string | null; createdById: number };
+  // Serialized job, e.g. `{ importJob: {...} }`, merged into the delivery body
+  payload: Record<string, unknown>;
+  prisma?: PrismaClient;
+}
+
+export interface DeliverWebhookOptions {
+  // Last BullMQ attempt: a failure marks the delivery failed instead of retrying
+  finalAttempt: boolean;
+  prisma?: PrismaClient;
+  now?: () => Date;
+  config?: WebhookConfig;
+  post?: WebhookPost;
+}
+
+export interface WebhookDeliveryListQuery {
+  jobId: string | null;
+  status: WebhookDeliveryStatus | null;
+  limit: number;
+  cursor: string | null;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface ListWebhookDeliveriesOptions {
+  createdById: number;
+  query: WebhookDeliveryListQuery;
+  prisma?: PrismaClient;
+}
+
+export interface RedeliverWebhookOptions {
+  deliveryId: string;
+  createdById: number;
+  prisma?: PrismaClient;
+}
+
+export interface WebhookDeliveryRow {
+  id: string;
+  jobType: WebhookJobType;
+  jobId: string;
+  event: string;
+  url: string;
+  payload: Prisma.JsonValue;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  redeliveryOfId: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
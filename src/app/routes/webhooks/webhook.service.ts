@@ -0,0 +1,323 @@
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import type { Prisma } from '@prisma/client';
+import prismaClient from '../../../prisma/prisma-client';
+import HttpException from '../../models/http-exception.model';
+import { HttpStatusCode } from '../../models/http-status-code.model';
+import { createLogger } from '../../logger';
+import { assertRemoteUrlAllowed, ImportExportError, parseRemoteUrl } from '../imports/intake.service';
+import { DEFAULT_JOB_LIST_LIMIT, MAX_JOB_LIST_LIMIT } from '../shared/import-export/config';
+import { getQueryParamValue, isObject, parsePositiveInteger, toJsonObject } from '../shared/import-export/utils';
+import { loadWebhookConfig } from './config';
+import type {
+  DeliverWebhookOptions,
+  DispatchJobWebhookOptions,
+  ListWebhookDeliveriesOptions,
+  RedeliverWebhookOptions,
+  WebhookDeliveryListQuery,
+  WebhookDeliveryResult,
+  WebhookDeliveryRow,
+  WebhookDeliveryStatus,
+  WebhookPost,
+} from './webhook.model';
+
+const MAX_CALLBACK_URL_LENGTH = 2048;
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+const logger = createLogger({ component: 'webhook.service' });
+
+class WebhookDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * Validates a job's `callbackUrl` with the same scheme, allowlist and
+ * private-address checks as URL imports. Delivery repeats the checks, since
+ * DNS may change between job creation and completion.
+ */
+export async function parseCallbackUrl(value: unknown): Promise<string | null> {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string' || value.length > MAX_CALLBACK_URL_LENGTH) {
+    throw callbackUrlError(`callbackUrl must be a URL of at most ${MAX_CALLBACK_URL_LENGTH} characters`);
+  }
+
+  try {
+    const url = parseRemoteUrl(value.trim());
+    await assertRemoteUrlAllowed(url, loadWebhookConfig().allowedHosts);
+    return url.toString();
+  } catch (error) {
+    if (error instanceof ImportExportError) {
+      throw callbackUrlError(error.message);
+    }
+    throw callbackUrlError('callbackUrl host could not be resolved');
+  }
+}
+
+/**
+ * Records a delivery for a job that reached a terminal status and queues it.
+ * Jobs without a callback URL are ignored. Failures are logged rather than
+ * thrown so that webhook problems never change the job's outcome.
+ */
+export async function dispatchJobWebhook(options: DispatchJobWebhookOptions): Promise<void> {
+  const { job, jobType } = options;
+  if (!job.callbackUrl) {
+    return;
+  }
+
+  const prisma = options.prisma ?? prismaClient;
+  try {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        jobType,
+        jobId: job.id,
+        event: `${jobType}.${job.status}`,
+        url: job.callbackUrl,
+        payload: options.payload as Prisma.InputJsonValue,
+        createdById: job.createdById,
+      },
+    });
+    await queueDelivery(delivery.id);
+  } catch (error) {
+    logger.warn({
+      event: 'Webhook dispatch failed',
+      jobType,
+      jobId: job.id,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Sends one attempt of a delivery. Retryable failures throw so BullMQ retries
+ * with backoff; the last attempt, and failures retrying cannot fix (no signing
+ * secret, disallowed URL), mark the delivery failed.
+ */
+export async function deliverWebhook(
+  deliveryId: string,
+  options: DeliverWebhookOptions,
+): Promise<WebhookDeliveryResult> {
+  const prisma = options.prisma ?? prismaClient;
+  const now = options.now ?? (() => new Date());
+  const config = options.config ?? loadWebhookConfig();
+  const post = options.post ?? postWebhook;
+
+  const delivery = await prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+  if (!delivery || delivery.status !== 'pending') {
+    return 'skipped';
+  }
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let lastError: string;
+  let retryable = true;
+
+  try {
+    if (!config.signingSecret) {
+      retryable = false;
+      throw new WebhookDeliveryError('WEBHOOK_SIGNING_SECRET is not configured');
+    }
+
+    let url: URL;
+    try {
+      url = parseRemoteUrl(delivery.url);
+      await assertRemoteUrlAllowed(url, config.allowedHosts);
+    } catch (error) {
+      retryable = !(error instanceof ImportExportError);
+      throw error;
+    }
+
+    const timestamp = String(Math.floor(now().getTime() / 1000));
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: delivery.createdAt.toISOString(),
+      ...(isObject(delivery.payload) ? delivery.payload : {}),
+    });
+    const response = await post(url.toString(), body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(body, timestamp, config.signingSecret)}`,
+      },
+      timeoutMs: config.timeoutMs,
+    });
+    responseStatus = response.status;
+
+    if (response.status >= 200 && response.status < 300) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'succeeded', attempts, responseStatus, lastError: null, deliveredAt: now() },
+      });
+      logger.info({ event: 'Webhook delivered', deliveryId, jobId: delivery.jobId, attempts });
+      return 'succeeded';
+    }
+    lastError = `Endpoint responded with status ${response.status}`;
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  const failed = options.finalAttempt || !retryable;
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: { status: failed ? 'failed' : 'pending', attempts, responseStatus, lastError },
+  });
+  logger.warn({
+    event: failed ? 'Webhook delivery failed' : 'Webhook delivery attempt failed',
+    deliveryId,
+    jobId: delivery.jobId,
+    attempts,
+    responseStatus,
+    lastError,
+  });
+
+  if (!failed) {
+    throw new WebhookDeliveryError(lastError);
+  }
+  return 'failed';
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`. Receivers recompute it from the
+ * `X-Webhook-Timestamp` header and raw body, and reject stale timestamps.
+ */
+export function signWebhookPayload(body: string, timestamp: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function parseWebhookDeliveryListQuery(query: Record<string, unknown>): WebhookDeliveryListQuery {
+  const jobId = getQueryParamValue(query.jobId)?.trim();
+  const status = getQueryParamValue(query.status)?.trim();
+  const cursor = getQueryParamValue(query.cursor)?.trim();
+
+  if (status && !(WEBHOOK_DELIVERY_STATUSES as string[]).includes(status)) {
+    throw new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, {
+      errors: { status: [`status must be one of ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`] },
+    });
+  }
+
+  return {
+    jobId: jobId ? jobId : null,
+    status: status ? (status as WebhookDeliveryStatus) : null,
+    limit: parsePositiveInteger(getQueryParamValue(query.limit), DEFAULT_JOB_LIST_LIMIT, MAX_JOB_LIST_LIMIT, 'limit'),
+    cursor: cursor ? cursor : null,
+  };
+}
+
+export async function listWebhookDeliveries(options: ListWebhookDeliveriesOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const { query } = options;
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      createdById: options.createdById,
+      ...(query.jobId ? { jobId: query.jobId } : {}),
+      ...(query.status ? { status: query.status } : {}),
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+
+  const page = deliveries.slice(0, query.limit);
+  const nextCursor = deliveries.length > query.limit ? page[page.length - 1]?.id ?? null : null;
+
+  return { webhookDeliveries: page.map(serializeWebhookDelivery), nextCursor };
+}
+
+/**
+ * Sends a delivery's payload again as a new delivery, keeping the original
+ * row as the record of what happened before.
+ */
+export async function redeliverWebhook(options: RedeliverWebhookOptions) {
+  const prisma = options.prisma ?? prismaClient;
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id: options.deliveryId, createdById: options.createdById },
+  });
+
+  if (!original) {
+    throw new HttpException(HttpStatusCode.NOT_FOUND, { errors: { delivery: ['webhook delivery not found'] } });
+  }
+  if (original.status === 'pending') {
+    throw new HttpException(HttpStatusCode.CONFLICT, {
+      errors: { delivery: ['webhook delivery is still being attempted'] },
+    });
+  }
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      jobType: original.jobType,
+      jobId: original.jobId,
+      event: original.event,
+      url: original.url,
+      payload: (original.payload ?? {}) as Prisma.InputJsonValue,
+      redeliveryOfId: original.id,
+      createdById: original.createdById,
+    },
+  });
+
+  try {
+    await queueDelivery(delivery.id);
+  } catch (error) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'failed', lastError: 'Failed to enqueue delivery' },
+    });
+    logger.error({
+      event: 'Webhook redelivery enqueue failed',
+      deliveryId: delivery.id,
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw new HttpException(HttpStatusCode.SERVICE_UNAVAILABLE, {
+      errors: { queue: ['failed to enqueue webhook delivery'] },
+    });
+  }
+
+  logger.info({ event: 'Webhook redelivery queued', deliveryId: delivery.id, redeliveryOfId: original.id });
+  return { webhookDelivery: serializeWebhookDelivery(delivery) };
+}
+
+export function serializeWebhookDelivery(delivery: WebhookDeliveryRow) {
+  return {
+    id: delivery.id,
+    jobType: delivery.jobType,
+    jobId: delivery.jobId,
+    event: delivery.event,
+    url: delivery.url,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    lastError: delivery.lastError,
+    redeliveryOfId: delivery.redeliveryOfId,
+    createdAt: delivery.createdAt,
+    deliveredAt: delivery.deliveredAt,
+    payload: toJsonObject(delivery.payload) ?? null,
+  };
+}
+
+async function queueDelivery(deliveryId: string): Promise<void> {
+  const config = loadWebhookConfig();
+  const { enqueueWebhookDelivery } = await import('../../jobs/import-export.queue');
+  await enqueueWebhookDelivery({ deliveryId }, { attempts: config.maxAttempts, backoffMs: config.backoffMs });
+}
+
+const postWebhook: WebhookPost = async (url, body, options) => {
+  const response = await axios.post(url, body, {
+    headers: options.headers,
+    timeout: options.timeoutMs,
+    maxRedirects: 0,
+    responseType: 'text',
+    validateStatus: () => true,
+  });
+  return { status: response.status };
+};
+
+function callbackUrlError(message: string): HttpException {
+  return new HttpException(HttpStatusCode.UNPROCESSABLE_ENTITY, { errors: { callbackUrl: [message] } });
+}
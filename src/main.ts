@@ -12,7 +12,7 @@ const logger = createLogger({ component: 'api' });
  * App Configuration
  */
 
-app.use(cors());
+app.use(cors({ exposedHeaders: ['X-Next-Cursor'] }));
 app.use(bodyParser.json());
 app.use(bodyParser.urlencoded({ extended: true }));
 app.use(routes);
@@ -40,6 +40,11 @@ app.use(
       });
       // @ts-ignore
     } else if (err && err.errorCode) {
+      // @ts-ignore
+      if (err.headers) {
+        // @ts-ignore
+        res.set(err.headers);
+      }
       // @ts-ignore
       res.status(err.errorCode).json(err.message);
     } else if (err) {
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "ImportJob_createdById_createdAt_idx" ON "ImportJob"("createdById", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ExportJob_createdById_createdAt_idx" ON "ExportJob"("createdById", "createdAt");
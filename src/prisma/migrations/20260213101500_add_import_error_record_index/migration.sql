@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "ImportError_jobId_recordIndex_idx" ON "ImportError"("jobId", "recordIndex");
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ImportExportFormat" ADD VALUE 'csv';
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "options" JSONB;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "ExportCompression" AS ENUM ('gzip');
+
+-- AlterTable
+ALTER TABLE "ExportJob" ADD COLUMN     "compression" "ExportCompression";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "dryRun" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "dryRunSummary" JSONB;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ImportMode" AS ENUM ('insert', 'update', 'upsert', 'skipExisting');
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "mode" "ImportMode" NOT NULL DEFAULT 'upsert',
+ADD COLUMN     "skippedCount" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "ExportJob" ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "leaseOwner" TEXT,
+ADD COLUMN     "leaseReclaims" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "checkpointIndex" INTEGER,
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "leaseOwner" TEXT,
+ADD COLUMN     "leaseReclaims" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "ExportJob_status_leaseExpiresAt_idx" ON "ExportJob"("status", "leaseExpiresAt");
+
+-- CreateIndex
+CREATE INDEX "ImportJob_status_leaseExpiresAt_idx" ON "ImportJob"("status", "leaseExpiresAt");
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "WebhookJobType" AS ENUM ('import', 'export');
+
+-- CreateEnum
+CREATE TYPE "WebhookDeliveryStatus" AS ENUM ('pending', 'succeeded', 'failed');
+
+-- AlterTable
+ALTER TABLE "ExportJob" ADD COLUMN     "callbackUrl" TEXT;
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "callbackUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "WebhookDelivery" (
+    "id" TEXT NOT NULL,
+    "jobType" "WebhookJobType" NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "WebhookDeliveryStatus" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "responseStatus" INTEGER,
+    "lastError" TEXT,
+    "redeliveryOfId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deliveredAt" TIMESTAMP(3),
+    "createdById" INTEGER NOT NULL,
+
+    CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_createdById_createdAt_idx" ON "WebhookDelivery"("createdById", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_jobId_idx" ON "WebhookDelivery"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "ImportSourceType" ADD VALUE 'retry';
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "parentJobId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ImportFailedRecord" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "recordIndex" INTEGER NOT NULL,
+    "record" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImportFailedRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_parentJobId_idx" ON "ImportJob"("parentJobId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportFailedRecord_jobId_recordIndex_key" ON "ImportFailedRecord"("jobId", "recordIndex");
+
+-- AddForeignKey
+ALTER TABLE "ImportJob" ADD CONSTRAINT "ImportJob_parentJobId_fkey" FOREIGN KEY ("parentJobId") REFERENCES "ImportJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportFailedRecord" ADD CONSTRAINT "ImportFailedRecord_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "ImportExportResource" ADD VALUE 'favorites';
+ALTER TYPE "ImportExportResource" ADD VALUE 'follows';
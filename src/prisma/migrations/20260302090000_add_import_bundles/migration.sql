@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "ImportSourceType" ADD VALUE 'bundle';
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "bundleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ImportBundle" (
+    "id" TEXT NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'queued',
+    "sourceType" "ImportSourceType" NOT NULL,
+    "fileName" TEXT,
+    "fileSize" INTEGER,
+    "idempotencyKey" TEXT,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "mode" "ImportMode" NOT NULL DEFAULT 'upsert',
+    "processedRecords" INTEGER NOT NULL DEFAULT 0,
+    "successCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdById" INTEGER NOT NULL,
+
+    CONSTRAINT "ImportBundle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_bundleId_idx" ON "ImportJob"("bundleId");
+
+-- CreateIndex
+CREATE INDEX "ImportBundle_createdById_createdAt_idx" ON "ImportBundle"("createdById", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportBundle_createdById_idempotencyKey_key" ON "ImportBundle"("createdById", "idempotencyKey");
+
+-- AddForeignKey
+ALTER TABLE "ImportJob" ADD CONSTRAINT "ImportJob_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "ImportBundle"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportBundle" ADD CONSTRAINT "ImportBundle_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ExternalIdMapping" (
+    "id" TEXT NOT NULL,
+    "sourceSystem" TEXT NOT NULL,
+    "resource" "ImportExportResource" NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "internalId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExternalIdMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExternalIdMapping_sourceSystem_resource_internalId_idx" ON "ExternalIdMapping"("sourceSystem", "resource", "internalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExternalIdMapping_sourceSystem_resource_externalId_key" ON "ExternalIdMapping"("sourceSystem", "resource", "externalId");
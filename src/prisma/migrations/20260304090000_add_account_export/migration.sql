@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ImportExportResource" ADD VALUE 'account';
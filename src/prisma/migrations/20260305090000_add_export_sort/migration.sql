@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "ExportJob" ADD COLUMN     "sort" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Article_publishedAt_id_idx" ON "Article"("publishedAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Article_title_id_idx" ON "Article"("title", "id");
+
+-- CreateIndex
+CREATE INDEX "Comment_createdAt_id_idx" ON "Comment"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "User_createdAt_id_idx" ON "User"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "User_updatedAt_id_idx" ON "User"("updatedAt", "id");
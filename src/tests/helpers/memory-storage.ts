@@ -3,6 +3,7 @@ import { StorageAdapter } from '../../app/storage';
 export interface MemoryStoredFile {
   key: string;
   data: string;
+  buffer: Buffer;
   bytes: number;
   location: string;
 }
@@ -28,10 +29,11 @@ export function createMemoryStorageAdapter(basePath = '/tmp'): MemoryStorageHarn
       stream.on('error', (error) => reject(error));
     });
 
-    const data = Buffer.concat(chunks).toString('utf8');
-    const bytes = Buffer.byteLength(data);
+    const buffer = Buffer.concat(chunks);
+    const data = buffer.toString('utf8');
+    const bytes = buffer.length;
     const location = `${basePath}/${key}`;
-    savedFiles.push({ key, data, bytes, location });
+    savedFiles.push({ key, data, buffer, bytes, location });
 
     return { key, bytes, location };
   });
@@ -44,7 +46,7 @@ export function createMemoryStorageAdapter(basePath = '/tmp'): MemoryStorageHarn
       const content = data.toString('utf8');
       const bytes = data.length;
       const location = `${basePath}/${key}`;
-      savedFiles.push({ key, data: content, bytes, location });
+      savedFiles.push({ key, data: content, buffer: data, bytes, location });
       return { key, bytes, location };
     },
     createReadStream: () => {
@@ -36,6 +36,9 @@ export function createTestResponse(): {
     setHeader(key: string, value: string) {
       this.headers[key] = value;
     },
+    flushHeaders() {
+      this.headersSent = true;
+    },
     write(chunk: string) {
       this.headersSent = true;
       textBody += chunk;
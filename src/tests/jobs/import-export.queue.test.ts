@@ -1,8 +1,12 @@
 const addMock = jest.fn();
+const getJobMock = jest.fn();
+const upsertJobSchedulerMock = jest.fn();
 
 jest.mock('bullmq', () => ({
   Queue: jest.fn(() => ({
     add: addMock,
+    getJob: getJobMock,
+    upsertJobScheduler: upsertJobSchedulerMock,
   })),
 }));
 
@@ -12,12 +16,21 @@ jest.mock('ioredis', () =>
   })),
 );
 
-import { enqueueExportJob, enqueueImportJob } from '../../app/jobs/import-export.queue';
+import {
+  enqueueExportJob,
+  enqueueImportJob,
+  enqueueWebhookDelivery,
+  removeQueuedJob,
+  requeueJob,
+  scheduleLeaseReaper,
+  scheduleRetentionSweep,
+} from '../../app/jobs/import-export.queue';
 
 describe('import-export.queue', () => {
   beforeEach(() => {
     addMock.mockReset();
     addMock.mockResolvedValue({});
+    getJobMock.mockReset();
   });
 
   it('should enqueue import job with deterministic queue jobId', async () => {
@@ -57,4 +70,83 @@ describe('import-export.queue', () => {
       }),
     );
   });
+
+  it('should enqueue webhook deliveries with exponential backoff', async () => {
+    await enqueueWebhookDelivery({ deliveryId: 'dlv-1' }, { attempts: 5, backoffMs: 10_000 });
+
+    expect(addMock).toHaveBeenCalledWith(
+      'webhook',
+      { deliveryId: 'dlv-1' },
+      expect.objectContaining({
+        jobId: 'webhook-dlv-1',
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 10_000 },
+      }),
+    );
+  });
+
+  it('should remove a waiting job by its deterministic queue jobId', async () => {
+    const removeMock = jest.fn().mockResolvedValue(undefined);
+    getJobMock.mockResolvedValue({ getState: jest.fn().mockResolvedValue('waiting'), remove: removeMock });
+
+    const removed = await removeQueuedJob('import', 'abc-123');
+
+    expect(removed).toBe(true);
+    expect(getJobMock).toHaveBeenCalledWith('import-abc-123');
+    expect(removeMock).toHaveBeenCalled();
+  });
+
+  it('should not remove a job that a worker already picked up', async () => {
+    const removeMock = jest.fn();
+    getJobMock.mockResolvedValue({ getState: jest.fn().mockResolvedValue('active'), remove: removeMock });
+
+    const removed = await removeQueuedJob('export', 'xyz-789');
+
+    expect(removed).toBe(false);
+    expect(removeMock).not.toHaveBeenCalled();
+  });
+
+  it('should replace a finished queue entry when requeueing a job', async () => {
+    const removeMock = jest.fn().mockResolvedValue(undefined);
+    getJobMock.mockResolvedValue({ getState: jest.fn().mockResolvedValue('completed'), remove: removeMock });
+
+    const requeued = await requeueJob({ jobId: 'abc-123', type: 'import', resource: 'articles', format: 'ndjson' });
+
+    expect(requeued).toBe(true);
+    expect(removeMock).toHaveBeenCalled();
+    expect(addMock).toHaveBeenCalledWith(
+      'import',
+      expect.objectContaining({ jobId: 'abc-123', type: 'import' }),
+      expect.objectContaining({ jobId: 'import-abc-123' }),
+    );
+  });
+
+  it('should not requeue a job whose queue entry is still pending', async () => {
+    getJobMock.mockResolvedValue({ getState: jest.fn().mockResolvedValue('active'), remove: jest.fn() });
+
+    const requeued = await requeueJob({ jobId: 'xyz-789', type: 'export', resource: 'users', format: 'json' });
+
+    expect(requeued).toBe(false);
+    expect(addMock).not.toHaveBeenCalled();
+  });
+
+  it('should upsert a repeatable lease reaper schedule', async () => {
+    await scheduleLeaseReaper(60_000);
+
+    expect(upsertJobSchedulerMock).toHaveBeenCalledWith(
+      'lease-reaper',
+      { every: 60_000 },
+      expect.objectContaining({ name: 'lease-reaper' }),
+    );
+  });
+
+  it('should upsert a single repeatable retention sweep schedule', async () => {
+    await scheduleRetentionSweep(3_600_000);
+
+    expect(upsertJobSchedulerMock).toHaveBeenCalledWith(
+      'retention-sweep',
+      { every: 3_600_000 },
+      expect.objectContaining({ name: 'retention' }),
+    );
+  });
 });
@@ -0,0 +1,205 @@
+import type { PrismaClient } from '@prisma/client';
+import prismaMock from '../prisma-mock';
+import { claimJobLease, reapExpiredLeases, renewJobLease } from '../../app/jobs/lease.service';
+import { logJobLifecycleEvent } from '../../app/jobs/observability';
+import { JobLeaseConfig, SystemErrorCode } from '../../app/routes/shared/import-export/types';
+
+jest.mock('../../app/jobs/observability', () => ({
+  logJobLifecycleEvent: jest.fn(),
+}));
+
+const prisma = prismaMock as unknown as Record<string, Record<string, jest.Mock>>;
+const client = prismaMock as unknown as PrismaClient;
+const now = new Date('2026-03-01T00:00:00.000Z');
+const config: JobLeaseConfig = { leaseTtlSeconds: 60, reaperIntervalSeconds: 60, maxReclaims: 2 };
+const leaseOptions = {
+  type: 'import' as const,
+  jobId: 'imp-1',
+  workerId: 'worker-a',
+  leaseTtlMs: 60_000,
+  prisma: client,
+  now: () => now,
+};
+
+describe('lease.service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('claimJobLease', () => {
+    it('should claim a queued job and set its lease', async () => {
+      prisma.importJob.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      const claim = await claimJobLease(leaseOptions);
+
+      expect(claim).toBe('claimed');
+      expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'imp-1', status: 'queued' },
+        data: {
+          status: 'running',
+          startedAt: now,
+          leaseOwner: 'worker-a',
+          leaseExpiresAt: new Date('2026-03-01T00:01:00.000Z'),
+        },
+      });
+    });
+
+    it('should reclaim a running job whose lease expired', async () => {
+      prisma.exportJob.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+      const claim = await claimJobLease({ ...leaseOptions, type: 'export' });
+
+      expect(claim).toBe('reclaimed');
+      expect(prisma.exportJob.updateMany).toHaveBeenLastCalledWith({
+        where: {
+          id: 'imp-1',
+          status: 'running',
+          OR: [{ leaseExpiresAt: { lt: now } }, { leaseExpiresAt: null }],
+        },
+        data: expect.objectContaining({ leaseOwner: 'worker-a', leaseReclaims: { increment: 1 } }),
+      });
+    });
+
+    it('should not claim a job another worker holds a live lease on', async () => {
+      prisma.importJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(claimJobLease(leaseOptions)).resolves.toBeNull();
+    });
+  });
+
+  it('should only renew a lease this worker still owns', async () => {
+    prisma.importJob.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(renewJobLease(leaseOptions)).resolves.toBe(false);
+    expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'imp-1', leaseOwner: 'worker-a' },
+      data: { leaseExpiresAt: new Date('2026-03-01T00:01:00.000Z') },
+    });
+  });
+
+  describe('reapExpiredLeases', () => {
+    beforeEach(() => {
+      // Nothing to reap unless a test queues its own batches
+      prisma.importJob.findMany.mockResolvedValue([]);
+      prisma.exportJob.findMany.mockResolvedValue([]);
+    });
+
+    it('should requeue expired jobs that have reclaims left', async () => {
+      const requeue = jest.fn().mockResolvedValue(true);
+      prisma.importJob.findMany.mockResolvedValueOnce([
+        { id: 'imp-1', resource: 'articles', format: 'ndjson', leaseReclaims: 1, startedAt: now, processedRecords: 40 },
+      ]);
+      prisma.exportJob.findMany.mockResolvedValueOnce([
+        { id: 'exp-1', resource: 'users', format: 'json', leaseReclaims: 0, startedAt: now, processedRecords: 0 },
+      ]);
+
+      const result = await reapExpiredLeases({ runId: 'run-1', prisma: client, config, now: () => now, requeue });
+
+      expect(result).toEqual({ requeued: 2, failed: 0, cancelled: 0 });
+      expect(requeue).toHaveBeenCalledWith({ jobId: 'imp-1', type: 'import', resource: 'articles', format: 'ndjson' });
+      expect(requeue).toHaveBeenCalledWith({ jobId: 'exp-1', type: 'export', resource: 'users', format: 'json' });
+    });
+
+    it('should fail jobs that used up their reclaims instead of requeueing them', async () => {
+      const requeue = jest.fn();
+      const notify = jest.fn().mockResolvedValue(undefined);
+      prisma.importJob.findMany.mockResolvedValueOnce([
+        { id: 'imp-1', resource: 'articles', format: 'ndjson', leaseReclaims: 2, startedAt: now, processedRecords: 40 },
+      ]);
+      prisma.exportJob.findMany.mockResolvedValueOnce([]);
+      prisma.importJob.findUnique.mockResolvedValueOnce({ errorSummary: { breakdown: { DUPLICATE_VALUE: 3 } } });
+      prisma.importJob.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      const result = await reapExpiredLeases({ runId: 'run-1', prisma: client, config, now: () => now, requeue, notify });
+
+      expect(result).toEqual({ requeued: 0, failed: 1, cancelled: 0 });
+      expect(requeue).not.toHaveBeenCalled();
+      expect(notify).toHaveBeenCalledWith('import', 'imp-1');
+      expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'imp-1', status: 'running' }),
+        data: expect.objectContaining({
+          status: 'failed',
+          finishedAt: now,
+          leaseOwner: null,
+          errorSummary: {
+            breakdown: { DUPLICATE_VALUE: 3 },
+            lastError: expect.objectContaining({ code: SystemErrorCode.LEASE_EXPIRED }),
+          },
+        }),
+      });
+      expect(logJobLifecycleEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'job.completed', jobId: 'imp-1', status: 'failed' }),
+      );
+    });
+
+    it('should requeue the bundle of an expired bundle child instead of the child', async () => {
+      const requeue = jest.fn();
+      const requeueBundle = jest.fn().mockResolvedValue(true);
+      prisma.importJob.findMany.mockResolvedValueOnce([
+        {
+          id: 'imp-1',
+          resource: 'articles',
+          format: 'ndjson',
+          leaseReclaims: 0,
+          startedAt: now,
+          processedRecords: 40,
+          bundleId: 'bnd-1',
+        },
+      ]);
+      prisma.exportJob.findMany.mockResolvedValueOnce([]);
+
+      const result = await reapExpiredLeases({
+        runId: 'run-1',
+        prisma: client,
+        config,
+        now: () => now,
+        requeue,
+        requeueBundle,
+      });
+
+      expect(result).toEqual({ requeued: 1, failed: 0, cancelled: 0 });
+      expect(requeueBundle).toHaveBeenCalledWith('bnd-1');
+      expect(requeue).not.toHaveBeenCalled();
+    });
+
+    it('should finish cancelled jobs whose worker stopped before finishing them', async () => {
+      const notify = jest.fn().mockResolvedValue(undefined);
+      const requeueBundle = jest.fn().mockResolvedValue(true);
+      prisma.importJob.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([
+        { id: 'imp-1', resource: 'articles', format: 'ndjson', startedAt: now, processedRecords: 40, bundleId: 'bnd-1' },
+      ]);
+      prisma.exportJob.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([
+        { id: 'exp-1', resource: 'users', format: 'json', startedAt: now, processedRecords: 3 },
+      ]);
+      prisma.importJob.updateMany.mockResolvedValueOnce({ count: 1 });
+      prisma.exportJob.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      const result = await reapExpiredLeases({
+        runId: 'run-1',
+        prisma: client,
+        config,
+        now: () => now,
+        notify,
+        requeueBundle,
+      });
+
+      expect(result).toEqual({ requeued: 0, failed: 0, cancelled: 2 });
+      expect(prisma.importJob.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: 'cancelled', finishedAt: null }),
+        }),
+      );
+      expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'imp-1', status: 'cancelled', finishedAt: null }),
+        data: { finishedAt: now, leaseOwner: null, leaseExpiresAt: null },
+      });
+      expect(prisma.exportJob.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'exp-1', status: 'cancelled', finishedAt: null }),
+        data: { finishedAt: now, leaseOwner: null, leaseExpiresAt: null },
+      });
+      expect(notify).toHaveBeenCalledWith('import', 'imp-1');
+      expect(notify).toHaveBeenCalledWith('export', 'exp-1');
+      expect(requeueBundle).toHaveBeenCalledWith('bnd-1');
+    });
+  });
+});
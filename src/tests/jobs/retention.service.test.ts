@@ -0,0 +1,183 @@
+import type { PrismaClient } from '@prisma/client';
+import prismaMock from '../prisma-mock';
+import { runRetentionSweep } from '../../app/jobs/retention.service';
+import { logJobLifecycleEvent } from '../../app/jobs/observability';
+import { RetentionConfig } from '../../app/routes/shared/import-export/types';
+
+jest.mock('../../app/jobs/observability', () => ({
+  logJobLifecycleEvent: jest.fn(),
+}));
+
+const prisma = prismaMock as unknown as Record<string, Record<string, jest.Mock>>;
+const client = prismaMock as unknown as PrismaClient;
+const now = new Date('2026-03-01T00:00:00.000Z');
+const config: RetentionConfig = {
+  sweepIntervalMinutes: 60,
+  importSourceRetentionHours: 24,
+  errorReportRetentionHours: 168,
+  jobRetentionDays: 30,
+  dryRun: false,
+};
+
+// Each sweep step pages until it sees an empty batch, so a non-empty batch is followed by [].
+function pages(batch: unknown[] = []): unknown[][] {
+  return batch.length ? [batch, []] : [[]];
+}
+
+function mockSweepBatches(batches: {
+  exportArtifacts?: unknown[];
+  importSources?: unknown[];
+  errorReports?: unknown[];
+  importJobs?: unknown[];
+  importBundles?: unknown[];
+  exportJobs?: unknown[];
+}) {
+  for (const page of [...pages(batches.exportArtifacts), ...pages(batches.exportJobs)]) {
+    prisma.exportJob.findMany.mockResolvedValueOnce(page);
+  }
+  for (const page of [
+    ...pages(batches.importSources),
+    ...pages(batches.errorReports),
+    ...pages(batches.importJobs),
+  ]) {
+    prisma.importJob.findMany.mockResolvedValueOnce(page);
+  }
+  for (const page of pages(batches.importBundles)) {
+    prisma.importBundle.findMany.mockResolvedValueOnce(page);
+  }
+}
+
+describe('runRetentionSweep', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should delete expired files, clear their locations and purge old job rows', async () => {
+    const removeFile = jest.fn().mockResolvedValue(undefined);
+    mockSweepBatches({
+      exportArtifacts: [{ id: 'exp-1', outputLocation: '/exports/exp-1.ndjson' }],
+      importSources: [{ id: 'imp-1', sourceLocation: '/imports/imp-1.ndjson' }],
+      errorReports: [
+        {
+          id: 'imp-2',
+          errorSummary: {
+            reportStatus: 'complete',
+            reportLocation: '/import-errors/imp-2.ndjson',
+            rejectsLocation: '/import-rejects/imp-2.csv',
+          },
+        },
+        { id: 'imp-3', errorSummary: { reportStatus: 'expired', reportLocation: null } },
+      ],
+      importJobs: [{ id: 'imp-old', sourceLocation: null, errorSummary: null }],
+      importBundles: [{ id: 'bundle-old' }],
+      exportJobs: [{ id: 'exp-old', outputLocation: null }],
+    });
+    prisma.importError.deleteMany.mockResolvedValueOnce({ count: 12 });
+    prisma.importJob.deleteMany.mockResolvedValueOnce({ count: 1 });
+    prisma.importBundle.deleteMany.mockResolvedValueOnce({ count: 1 });
+    prisma.exportJob.deleteMany.mockResolvedValueOnce({ count: 1 });
+
+    const result = await runRetentionSweep({ runId: 'run-1', prisma: client, config, now: () => now, removeFile });
+
+    expect(result).toEqual({
+      dryRun: false,
+      exportArtifactsDeleted: 1,
+      importSourcesDeleted: 1,
+      errorReportsDeleted: 1,
+      importJobsPurged: 1,
+      importErrorsPurged: 12,
+      importBundlesPurged: 1,
+      exportJobsPurged: 1,
+      failures: 0,
+    });
+    expect(removeFile.mock.calls.map(([location]) => location)).toEqual([
+      '/exports/exp-1.ndjson',
+      '/imports/imp-1.ndjson',
+      '/import-errors/imp-2.ndjson',
+      '/import-rejects/imp-2.csv',
+    ]);
+    expect(prisma.exportJob.findMany).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      where: { outputLocation: { not: null }, expiresAt: { lt: now } },
+    }));
+    expect(prisma.importJob.findMany).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      where: {
+        status: { in: ['partial', 'succeeded', 'failed', 'cancelled'] },
+        finishedAt: { lt: new Date('2026-02-28T00:00:00.000Z') },
+        sourceLocation: { not: null },
+      },
+    }));
+    expect(prisma.importJob.findMany).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      where: expect.objectContaining({ id: { gt: 'imp-1' } }),
+    }));
+    expect(prisma.exportJob.update).toHaveBeenCalledWith({
+      where: { id: 'exp-1' },
+      data: { outputLocation: null, downloadUrl: null },
+    });
+    expect(prisma.importJob.update).toHaveBeenCalledWith({
+      where: { id: 'imp-2' },
+      data: { errorSummary: { reportStatus: 'expired', reportLocation: null, rejectsLocation: null } },
+    });
+    expect(prisma.importError.deleteMany).toHaveBeenCalledWith({ where: { jobId: { in: ['imp-old'] } } });
+    const finished = {
+      status: { in: ['partial', 'succeeded', 'failed', 'cancelled'] },
+      finishedAt: { lt: new Date('2026-01-30T00:00:00.000Z') },
+    };
+    expect(prisma.importBundle.findMany).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      where: { ...finished, jobs: { every: finished } },
+    }));
+    expect(prisma.importBundle.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['bundle-old'] } } });
+    expect(logJobLifecycleEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        event: 'job.completed',
+        jobKind: 'retention',
+        jobId: 'run-1',
+        status: 'succeeded',
+        counters: { processedRecords: 6, errorCount: 0 },
+      }),
+    );
+  });
+
+  it('should only count matches in dry-run mode', async () => {
+    const removeFile = jest.fn();
+    mockSweepBatches({
+      exportArtifacts: [{ id: 'exp-1', outputLocation: '/exports/exp-1.ndjson' }],
+      importJobs: [{ id: 'imp-old', sourceLocation: '/imports/imp-old.ndjson', errorSummary: null }],
+    });
+    prisma.importError.count.mockResolvedValueOnce(4);
+
+    const result = await runRetentionSweep({
+      runId: 'run-dry',
+      prisma: client,
+      config: { ...config, dryRun: true },
+      now: () => now,
+      removeFile,
+    });
+
+    expect(result).toEqual(expect.objectContaining({
+      dryRun: true,
+      exportArtifactsDeleted: 1,
+      importJobsPurged: 1,
+      importErrorsPurged: 4,
+    }));
+    expect(removeFile).not.toHaveBeenCalled();
+    expect(prisma.exportJob.update).not.toHaveBeenCalled();
+    expect(prisma.importJob.deleteMany).not.toHaveBeenCalled();
+    expect(prisma.importError.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('should keep rows whose files could not be deleted and report a partial run', async () => {
+    const removeFile = jest.fn().mockRejectedValue(new Error('EACCES'));
+    mockSweepBatches({
+      exportJobs: [{ id: 'exp-old', outputLocation: '/exports/exp-old.ndjson' }],
+    });
+
+    const result = await runRetentionSweep({ runId: 'run-2', prisma: client, config, now: () => now, removeFile });
+
+    expect(result.failures).toBe(1);
+    expect(result.exportJobsPurged).toBe(0);
+    expect(prisma.exportJob.deleteMany).not.toHaveBeenCalled();
+    expect(logJobLifecycleEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'partial', level: 'warn' }),
+    );
+  });
+});
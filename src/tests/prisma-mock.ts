@@ -12,6 +12,9 @@ const prismaMock = prisma as unknown as DeepMockProxy<PrismaClient>;
 
 beforeEach(() => {
   mockReset(prismaMock);
+  // Interactive transactions run their callback against the same mock
+  prismaMock.$transaction.mockImplementation(((arg: unknown) =>
+    typeof arg === 'function' ? arg(prismaMock) : Promise.resolve(undefined)) as never);
 });
 
 export default prismaMock;
@@ -1,6 +1,6 @@
 import prismaMock from '../../prisma-mock';
 import exportController from '../../../app/routes/exports/export.controller';
-import { enqueueExportJob } from '../../../app/jobs/import-export.queue';
+import { enqueueExportJob, importExportConnection, removeQueuedJob } from '../../../app/jobs/import-export.queue';
 import { streamExports } from '../../../app/routes/exports/export.service';
 import { createTestResponse } from '../../helpers/test-response';
 import { HttpStatusCode } from '../../../app/models/http-status-code.model';
@@ -35,9 +35,16 @@ jest.mock('../../../app/routes/exports/export.service', () => {
 jest.mock('../../../app/jobs/import-export.queue', () => ({
   enqueueImportJob: jest.fn().mockResolvedValue({ id: 'queue-import' }),
   enqueueExportJob: jest.fn().mockResolvedValue({ id: 'queue-export' }),
+  removeQueuedJob: jest.fn().mockResolvedValue(true),
+  importExportConnection: { eval: jest.fn().mockResolvedValue([1, 0]) },
+}));
+
+jest.mock('../../../app/storage', () => ({
+  createExportStorageAdapter: jest.fn(() => ({ delete: storageDeleteMock })),
 }));
 
 const prisma: any = prismaMock;
+const storageDeleteMock = jest.fn();
 
 type RunRouteOptions = {
   method: string;
@@ -76,7 +83,7 @@ async function runRoute(options: RunRouteOptions) {
   (exportController as unknown as (req: any, res: any, next: (error?: unknown) => void) => void)(req, res, next);
 
   await Promise.race([done, new Promise<void>((resolve) => setImmediate(resolve))]);
-
+  await Promise.race([done, new Promise<void>((resolve) => setImmediate(() => setImmediate(resolve)))]);
   return {
     res,
     body: getJsonBody(),
@@ -88,6 +95,7 @@ async function runRoute(options: RunRouteOptions) {
 describe('Export Controller', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    prisma.user.findUnique.mockResolvedValue({ role: 'admin' });
   });
 
   describe('Streaming', () => {
@@ -101,6 +109,7 @@ describe('Export Controller', () => {
         method: 'GET',
         url: '/v1/exports',
         query: { resource: 'users', format: 'json', limit: '2' },
+        auth: { user: { id: 42 } },
       });
 
       expect(result.nextError).toBeNull();
@@ -121,6 +130,7 @@ describe('Export Controller', () => {
         method: 'GET',
         url: '/v1/exports',
         query: { resource: 'users', format: 'ndjson', limit: '1' },
+        auth: { user: { id: 42 } },
       });
 
       const lines = result.textBody.trim().split('\n');
@@ -130,6 +140,26 @@ describe('Export Controller', () => {
       expect(cursorLine.nextCursor).toBe(1);
     });
 
+    it('should stream CSV with the next cursor in a response header', async () => {
+      (streamExports as jest.Mock).mockImplementation(async ({ writeChunk, onNextCursor }) => {
+        onNextCursor(5);
+        await writeChunk('id,email\r\n4,a@example.com\r\n5,b@example.com\r\n');
+        return { count: 2, lastId: 5 };
+      });
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/exports',
+        query: { resource: 'users', format: 'csv', limit: '2' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.headers['Content-Type']).toBe('text/csv; charset=utf-8');
+      expect(result.res.headers['X-Next-Cursor']).toBe('5');
+      expect(result.textBody.split('\r\n')[0]).toBe('id,email');
+    });
+
     it('should pass normalized filters and fields to streaming service', async () => {
       (streamExports as jest.Mock).mockImplementation(async ({ writeChunk }) => {
         await writeChunk('{"id":1}\n');
@@ -147,6 +177,7 @@ describe('Export Controller', () => {
           filters: '{"status":"published","authorId":"13"}',
           fields: 'id,slug,publishedAt',
         },
+        auth: { user: { id: 42 } },
       });
 
       expect(result.nextError).toBeNull();
@@ -162,11 +193,46 @@ describe('Export Controller', () => {
       );
     });
 
+    it('should forbid non-admin users from streaming user exports', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce({ role: 'user' });
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/exports',
+        query: { resource: 'users', format: 'ndjson' },
+        auth: { user: { id: 7 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.FORBIDDEN);
+      expect(result.nextError.message).toEqual({
+        code: 'FORBIDDEN',
+        errors: { resource: ['not allowed to export users'] },
+      });
+      expect(streamExports).not.toHaveBeenCalled();
+    });
+
+    it('should let any authenticated user stream article exports', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce({ role: 'user' });
+      (streamExports as jest.Mock).mockResolvedValueOnce({ count: 0, lastId: null });
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/exports',
+        query: { resource: 'articles', format: 'ndjson' },
+        auth: { user: { id: 7 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(streamExports).toHaveBeenCalled();
+    });
+
     it('should reject limits above the max', async () => {
       const result = await runRoute({
         method: 'GET',
         url: '/v1/exports',
         query: { resource: 'users', limit: '10' },
+        auth: { user: { id: 42 } },
       });
 
       expect(result.nextError).not.toBeNull();
@@ -217,6 +283,117 @@ describe('Export Controller', () => {
       });
     });
 
+    it('should persist gzip compression on the export job', async () => {
+      prisma.exportJob.findFirst.mockResolvedValueOnce(null);
+      prisma.exportJob.create.mockImplementationOnce(async ({ data }) => ({
+        id: 'exp-gzip',
+        totalRecords: null,
+        processedRecords: 0,
+        createdAt: new Date('2026-02-15T10:00:00Z'),
+        startedAt: null,
+        finishedAt: null,
+        expiresAt: null,
+        outputLocation: null,
+        downloadUrl: null,
+        fileSize: null,
+        ...data,
+      }));
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports',
+        body: { resource: 'articles', format: 'csv', compression: 'gzip' },
+        headers: { 'idempotency-key': 'idem-exp-gzip' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(prisma.exportJob.create.mock.calls[0][0].data).toEqual(
+        expect.objectContaining({ format: 'csv', compression: 'gzip' }),
+      );
+      expect(result.body.exportJob.compression).toBe('gzip');
+    });
+
+    it('should persist a normalized sort and reject unsupported ones', async () => {
+      prisma.exportJob.findFirst.mockResolvedValueOnce(null);
+      prisma.exportJob.create.mockImplementationOnce(async ({ data }) => ({
+        id: 'exp-sorted',
+        totalRecords: null,
+        processedRecords: 0,
+        createdAt: new Date('2026-03-05T10:00:00Z'),
+        startedAt: null,
+        finishedAt: null,
+        expiresAt: null,
+        outputLocation: null,
+        downloadUrl: null,
+        fileSize: null,
+        ...data,
+      }));
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports',
+        body: { resource: 'articles', sort: ' -published_at ' },
+        auth: { user: { id: 42 } },
+      });
+      const rejected = await runRoute({
+        method: 'POST',
+        url: '/v1/exports',
+        body: { resource: 'follows', sort: 'follower_id' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(prisma.exportJob.create.mock.calls[0][0].data).toEqual(expect.objectContaining({ sort: '-published_at' }));
+      expect(result.body.exportJob.sort).toBe('-published_at');
+      expect(rejected.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+      expect(rejected.nextError.message).toEqual({ errors: { sort: ['sort is not supported for follows'] } });
+    });
+
+    it('should queue an account archive for any user without export permissions', async () => {
+      prisma.user.findUnique.mockResolvedValue({ role: 'user' });
+      prisma.exportJob.create.mockImplementationOnce(async ({ data }) => ({
+        id: 'exp-account',
+        totalRecords: null,
+        processedRecords: 0,
+        createdAt: new Date('2026-03-04T10:00:00Z'),
+        startedAt: null,
+        finishedAt: null,
+        expiresAt: null,
+        outputLocation: null,
+        downloadUrl: null,
+        fileSize: null,
+        ...data,
+      }));
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports/account',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(202);
+      expect(prisma.exportJob.create.mock.calls[0][0].data).toEqual(
+        expect.objectContaining({ resource: 'account', format: 'ndjson', compression: 'gzip', createdById: 42 }),
+      );
+      expect(result.body.exportJob).toMatchObject({ id: 'exp-account', entityType: 'account' });
+      expect(enqueueExportJob).toHaveBeenCalledWith({ jobId: 'exp-account', resource: 'account', format: 'ndjson' });
+    });
+
+    it('should reject unknown compression values', async () => {
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports',
+        body: { resource: 'articles', compression: 'zip' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+      expect(result.nextError.message).toEqual({ errors: { compression: ['compression must be gzip or none'] } });
+      expect(prisma.exportJob.create).not.toHaveBeenCalled();
+    });
+
     it('should return existing export job when create races on idempotency key', async () => {
       prisma.exportJob.findFirst
         .mockResolvedValueOnce(null)
@@ -297,6 +474,57 @@ describe('Export Controller', () => {
       );
     });
 
+    it('should reject export creation with 429 when the user has too many active jobs', async () => {
+      prisma.exportJob.findFirst.mockResolvedValueOnce(null);
+      prisma.exportJob.count.mockResolvedValueOnce(5);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports',
+        body: { resource: 'articles', format: 'json' },
+        headers: { 'idempotency-key': 'idem-exp-busy' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.TOO_MANY_REQUESTS);
+      expect(result.nextError.message.code).toBe('CONCURRENT_LIMIT');
+      expect(result.nextError.headers).toEqual({ 'Retry-After': '30' });
+      expect(prisma.exportJob.count).toHaveBeenCalledWith({
+        where: { status: { in: ['queued', 'running'] }, createdById: 42 },
+      });
+      expect(prisma.exportJob.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject export creation with 429 when the hourly quota is used up', async () => {
+      prisma.exportJob.findFirst.mockResolvedValueOnce(null);
+      prisma.exportJob.count.mockResolvedValueOnce(0).mockResolvedValueOnce(0);
+      (importExportConnection.eval as jest.Mock).mockResolvedValueOnce([0, 125_500]);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports',
+        body: { resource: 'articles', format: 'json' },
+        headers: { 'idempotency-key': 'idem-exp-quota' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.TOO_MANY_REQUESTS);
+      expect(result.nextError.message.code).toBe('RATE_LIMITED');
+      expect(result.nextError.headers).toEqual({ 'Retry-After': '126' });
+      expect(importExportConnection.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'import-export:rate:export:42',
+        expect.any(Number),
+        3_600_000,
+        20,
+        expect.any(String),
+      );
+      expect(prisma.exportJob.create).not.toHaveBeenCalled();
+    });
+
     it('should return export job status with download URL', async () => {
       prisma.exportJob.findFirst.mockResolvedValueOnce({
         id: 'exp-2',
@@ -358,4 +586,148 @@ describe('Export Controller', () => {
       expect(result.body.exportJob.reason).toBe('max_records_reached');
     });
   });
+
+  describe('Cancellation', () => {
+    const baseJob = {
+      id: 'exp-cancel',
+      resource: 'articles',
+      format: 'ndjson',
+      totalRecords: null,
+      processedRecords: 0,
+      createdAt: new Date('2026-02-06T12:00:00Z'),
+      startedAt: null,
+      finishedAt: null,
+      expiresAt: null,
+      idempotencyKey: null,
+      outputLocation: null,
+      downloadUrl: null,
+      fileSize: null,
+    };
+
+    it('should cancel a queued export job, dequeue it and delete any partial artifact', async () => {
+      prisma.exportJob.findFirst.mockResolvedValueOnce({ ...baseJob, status: 'queued' });
+      prisma.exportJob.updateMany.mockResolvedValueOnce({ count: 1 });
+      prisma.exportJob.findUnique.mockResolvedValueOnce({ ...baseJob, status: 'cancelled' });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports/exp-cancel/cancel',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(200);
+      expect(result.body.exportJob.status).toBe('cancelled');
+      expect(removeQueuedJob).toHaveBeenCalledWith('export', 'exp-cancel');
+      expect(storageDeleteMock).toHaveBeenCalledWith('exp-cancel.ndjson');
+    });
+
+    it('should leave the artifact of a running export job to its worker', async () => {
+      prisma.exportJob.findFirst.mockResolvedValueOnce({ ...baseJob, status: 'running' });
+      prisma.exportJob.updateMany.mockResolvedValueOnce({ count: 1 });
+      prisma.exportJob.findUnique.mockResolvedValueOnce({ ...baseJob, status: 'cancelled' });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports/exp-cancel/cancel',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.body.exportJob.status).toBe('cancelled');
+      expect(removeQueuedJob).not.toHaveBeenCalled();
+      expect(storageDeleteMock).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when cancelling an unknown export job', async () => {
+      prisma.exportJob.findFirst.mockResolvedValueOnce(null);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports/missing/cancel',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.NOT_FOUND);
+    });
+
+    it('should reject cancellation when the job finished before the update', async () => {
+      prisma.exportJob.findFirst.mockResolvedValueOnce({ ...baseJob, status: 'running' });
+      prisma.exportJob.updateMany.mockResolvedValueOnce({ count: 0 });
+      prisma.exportJob.findUnique.mockResolvedValueOnce({ ...baseJob, status: 'succeeded' });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/exports/exp-cancel/cancel',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.CONFLICT);
+      expect(result.nextError.message).toEqual({
+        errors: { job: ['export job cannot be cancelled in status succeeded'] },
+      });
+      expect(storageDeleteMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Listing', () => {
+    it('should list export jobs on /jobs without treating it as a job id', async () => {
+      prisma.exportJob.count.mockResolvedValueOnce(1);
+      prisma.exportJob.findMany.mockResolvedValueOnce([
+        {
+          id: 'exp-list-1',
+          status: 'succeeded',
+          resource: 'users',
+          format: 'json',
+          totalRecords: 2,
+          processedRecords: 2,
+          createdAt: new Date('2026-02-06T12:00:00Z'),
+          startedAt: new Date('2026-02-06T12:00:01Z'),
+          finishedAt: new Date('2026-02-06T12:00:02Z'),
+          expiresAt: null,
+          idempotencyKey: null,
+          outputLocation: '/tmp/exports/exp-list-1.json',
+          downloadUrl: '/api/v1/exports/exp-list-1/download',
+          fileSize: 10,
+        },
+      ]);
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/exports/jobs',
+        query: { format: 'json', createdBefore: '2026-02-07T00:00:00Z' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(200);
+      expect(result.body.exportJobs[0].id).toBe('exp-list-1');
+      expect(result.body.exportJobsCount).toBe(1);
+      expect(result.body.nextCursor).toBeNull();
+      expect(prisma.exportJob.findFirst).not.toHaveBeenCalled();
+      expect(prisma.exportJob.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            createdById: 42,
+            format: 'json',
+            createdAt: { lt: new Date('2026-02-07T00:00:00Z') },
+          },
+        }),
+      );
+    });
+
+    it('should reject an inverted created-at range', async () => {
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/exports/jobs',
+        query: { createdAfter: '2026-02-07T00:00:00Z', createdBefore: '2026-02-06T00:00:00Z' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+    });
+  });
 });
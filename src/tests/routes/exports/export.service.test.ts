@@ -1,5 +1,7 @@
+import { gunzipSync } from 'zlib';
 import prismaMock from '../../prisma-mock';
 import {
+  getExportFileMetadata,
   parseExportQuery,
   runExportJob,
   streamExportRecords,
@@ -31,6 +33,19 @@ jest.mock('../../../app/jobs/observability', () => ({
 const prisma: any = prismaMock;
 const logJobLifecycleEventMock = logJobLifecycleEvent as jest.MockedFunction<typeof logJobLifecycleEvent>;
 
+function readTar(archive: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (offset < archive.length && archive[offset] !== 0) {
+    const header = archive.subarray(offset, offset + 512);
+    const name = header.toString('utf8', 0, 100).replace(/\0.*$/s, '');
+    const size = parseInt(header.toString('utf8', 124, 135), 8);
+    files[name] = archive.toString('utf8', offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
 describe('Export Service', () => {
   it('should stream, at most, the requested limit', async () => {
     prisma.user.findMany
@@ -157,6 +172,61 @@ describe('Export Service', () => {
     expect(records).toHaveLength(2);
   });
 
+  it('should stream tags with article counts, matching names case-insensitively', async () => {
+    prisma.tag.findMany.mockResolvedValueOnce([{ id: 3, name: 'JavaScript', _count: { articles: 12 } }]);
+
+    const records = [];
+    for await (const record of streamExportRecords({
+      prisma,
+      entityType: 'tags',
+      limit: 1,
+      filters: { name: 'javascript' },
+    })) {
+      records.push(record);
+    }
+
+    expect(records).toEqual([{ id: 3, name: 'JavaScript', article_count: 12 }]);
+    expect(prisma.tag.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { name: { equals: 'javascript', mode: 'insensitive' } } }),
+    );
+  });
+
+  it('should stream favorites as one record per edge, paging by owning user', async () => {
+    prisma.user.findMany
+      .mockResolvedValueOnce([{ id: 4, favorites: [{ id: 10 }, { id: 12 }] }])
+      .mockResolvedValueOnce([{ id: 7, favorites: [{ id: 10 }] }]);
+
+    const records = [];
+    for await (const record of streamExportRecords({
+      prisma,
+      entityType: 'favorites',
+      limit: 2,
+      cursor: 3,
+      filters: { article_id: 10 },
+    })) {
+      records.push(record);
+    }
+
+    expect(records).toEqual([
+      { user_id: 4, article_id: 10 },
+      { user_id: 4, article_id: 12 },
+      { user_id: 7, article_id: 10 },
+    ]);
+    expect(prisma.user.findMany).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        where: { favorites: { some: { id: 10 } }, id: { gt: 3 } },
+        select: expect.objectContaining({
+          favorites: expect.objectContaining({ where: { id: 10 } }),
+        }),
+      }),
+    );
+    expect(prisma.user.findMany).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ where: { favorites: { some: { id: 10 } }, id: { gt: 4 } } }),
+    );
+  });
+
   it('should parse and normalize streaming filters and fields from query params', () => {
     const parsed = parseExportQuery({
       resource: 'articles',
@@ -221,6 +291,7 @@ describe('Export Service', () => {
         tags: ['import'],
         published_at: '2026-02-09T00:00:00.000Z',
         status: 'published',
+        created_at: '2026-02-08T00:00:00.000Z',
       };
     });
 
@@ -237,7 +308,7 @@ describe('Export Service', () => {
       streamRecords,
     });
 
-    expect(result).toEqual({ count: 1, lastId: 101 });
+    expect(result).toEqual({ count: 1, lastId: 101, lastCursor: 101 });
     const body = chunks.join('');
     const parsed = JSON.parse(body);
     expect(parsed.data).toEqual([
@@ -250,6 +321,44 @@ describe('Export Service', () => {
     expect(parsed.nextCursor).toBe(101);
   });
 
+  it('should stream CSV with a header row and report the next cursor before writing', async () => {
+    const chunks: string[] = [];
+    const events: string[] = [];
+    const streamRecords = jest.fn(async function* () {
+      yield {
+        id: 101,
+        slug: 'first-post',
+        title: 'Hello, "CSV"',
+        body: 'Hidden body',
+        author_id: 42,
+        tags: ['import', 'csv'],
+        published_at: null,
+        status: 'published',
+        created_at: '2026-02-08T00:00:00.000Z',
+      };
+    });
+
+    const result = await streamExports({
+      entityType: 'articles',
+      format: 'csv',
+      limit: 1,
+      cursor: null,
+      fields: new Set(['id', 'title', 'tags', 'published_at']),
+      writeChunk: async (chunk) => {
+        events.push('write');
+        chunks.push(chunk);
+      },
+      onNextCursor: (nextCursor) => {
+        events.push(`cursor:${nextCursor}`);
+      },
+      streamRecords,
+    });
+
+    expect(result).toEqual({ count: 1, lastId: 101, lastCursor: 101 });
+    expect(events[0]).toBe('cursor:101');
+    expect(chunks.join('')).toBe('id,title,tags,published_at\r\n101,"Hello, ""CSV""",import|csv,\r\n');
+  });
+
   it('should map created_at and published_at range filters to Prisma where clauses', async () => {
     prisma.article.findMany.mockResolvedValueOnce([]);
 
@@ -263,7 +372,7 @@ describe('Export Service', () => {
         published_at: { gte: '2026-01-15T00:00:00Z' },
       },
     })) {
-      records.push({ id: record.id });
+      records.push(record as { id: number });
     }
 
     expect(records).toHaveLength(0);
@@ -281,6 +390,211 @@ describe('Export Service', () => {
       }),
     );
   });
+
+  describe('sort', () => {
+    const article = (id: number, publishedAt: string | null) => ({
+      id,
+      slug: `post-${id}`,
+      title: `Post ${id}`,
+      body: 'Body',
+      authorId: 1,
+      publishedAt: publishedAt ? new Date(publishedAt) : null,
+      status: 'published',
+      createdAt: new Date('2026-02-01T00:00:00.000Z'),
+      tagList: [],
+    });
+    const articleRecord = (id: number, publishedAt: string) => ({
+      id,
+      slug: `post-${id}`,
+      title: `Post ${id}`,
+      body: 'Body',
+      author_id: 1,
+      tags: [],
+      published_at: publishedAt,
+      status: 'published',
+      created_at: '2026-02-01T00:00:00.000Z',
+    });
+
+    it('should page sorted rows by sort value and id', async () => {
+      prisma.article.findMany
+        .mockResolvedValueOnce([article(4, '2026-03-02T00:00:00.000Z')])
+        .mockResolvedValueOnce([]);
+
+      const records = [];
+      for await (const record of streamExportRecords({
+        prisma,
+        entityType: 'articles',
+        limit: 2,
+        cursor: { value: '2026-03-05T00:00:00.000Z', id: 9 },
+        filters: { status: 'published' },
+        sort: { field: 'published_at', direction: 'desc' },
+      })) {
+        records.push(record);
+      }
+
+      expect(records).toHaveLength(1);
+      expect(prisma.article.findMany).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          where: {
+            AND: [
+              { status: 'published' },
+              {
+                OR: [
+                  { publishedAt: { lt: new Date('2026-03-05T00:00:00.000Z') } },
+                  { publishedAt: new Date('2026-03-05T00:00:00.000Z'), id: { lt: 9 } },
+                  { publishedAt: null },
+                ],
+              },
+            ],
+          },
+          orderBy: [{ publishedAt: { sort: 'desc', nulls: 'last' } }, { id: 'desc' }],
+        }),
+      );
+      expect(prisma.article.findMany).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              { status: 'published' },
+              expect.objectContaining({
+                OR: expect.arrayContaining([{ publishedAt: new Date('2026-03-02T00:00:00.000Z'), id: { lt: 4 } }]),
+              }),
+            ],
+          }),
+        }),
+      );
+    });
+
+    it('should page drafts after every published row once the cursor reaches them', async () => {
+      prisma.article.findMany.mockResolvedValueOnce([]);
+
+      for await (const record of streamExportRecords({
+        prisma,
+        entityType: 'articles',
+        limit: 2,
+        cursor: { value: null, id: 9 },
+        sort: { field: 'published_at', direction: 'desc' },
+      })) {
+        expect(record).toBeUndefined();
+      }
+
+      expect(prisma.article.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { publishedAt: null, id: { lt: 9 } },
+          orderBy: [{ publishedAt: { sort: 'desc', nulls: 'last' } }, { id: 'desc' }],
+        }),
+      );
+    });
+
+    it('should sort articles by creation date', async () => {
+      prisma.article.findMany.mockResolvedValueOnce([article(4, null)]).mockResolvedValueOnce([]);
+
+      const records = [];
+      for await (const record of streamExportRecords({
+        prisma,
+        entityType: 'articles',
+        limit: 2,
+        cursor: null,
+        sort: parseExportQuery({ resource: 'articles', sort: '-created_at' }).sort ?? undefined,
+      })) {
+        records.push(record);
+      }
+
+      expect(records).toEqual([expect.objectContaining({ id: 4, created_at: '2026-02-01T00:00:00.000Z' })]);
+      expect(prisma.article.findMany).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ orderBy: [{ createdAt: 'desc' }, { id: 'desc' }] }),
+      );
+    });
+
+    it('should return an opaque next cursor that the query parser reads back', async () => {
+      const chunks: string[] = [];
+      const streamRecords = jest.fn(async function* () {
+        yield articleRecord(7, '2026-03-01T00:00:00.000Z');
+      });
+
+      await streamExports({
+        entityType: 'articles',
+        format: 'ndjson',
+        limit: 1,
+        cursor: null,
+        sort: { field: 'published_at', direction: 'desc' },
+        writeChunk: async (chunk) => {
+          chunks.push(chunk);
+        },
+        streamRecords,
+      });
+
+      const { nextCursor } = JSON.parse(chunks[chunks.length - 1] as string);
+      expect(typeof nextCursor).toBe('string');
+      const parsed = parseExportQuery({ resource: 'articles', sort: '-published_at', cursor: nextCursor });
+      expect(parsed.sort).toEqual({ field: 'published_at', direction: 'desc' });
+      expect(parsed.cursor).toEqual({ value: '2026-03-01T00:00:00.000Z', id: 7 });
+    });
+
+    it('should reject unsupported sorts and cursors from another sort', () => {
+      const expectError = (query: Record<string, unknown>, errors: Record<string, string[]>) => {
+        try {
+          parseExportQuery(query);
+          throw new Error('expected parseExportQuery to throw');
+        } catch (error) {
+          expect(error).toBeInstanceOf(HttpException);
+          expect((error as HttpException).message).toEqual({ errors });
+        }
+      };
+      const titleCursor = Buffer.from(JSON.stringify(['title', 'Hello', 3])).toString('base64url');
+
+      expectError(
+        { resource: 'comments', sort: 'body' },
+        { sort: ['sort must be one of id, created_at, prefixed with - for descending'] },
+      );
+      expectError({ resource: 'favorites', sort: '-user_id' }, { sort: ['sort is not supported for favorites'] });
+      expectError(
+        { resource: 'articles', sort: '-published_at', cursor: titleCursor },
+        { cursor: ['cursor is not a valid cursor for sort -published_at'] },
+      );
+      expect(parseExportQuery({ resource: 'articles', sort: 'id', cursor: '5' })).toMatchObject({ sort: null, cursor: 5 });
+    });
+  });
+});
+
+describe('getExportFileMetadata', () => {
+  it('should serve gzip artifacts as application/gzip with a .gz filename', async () => {
+    prisma.exportJob.findFirst.mockResolvedValueOnce({
+      id: 'job-gzip',
+      status: 'succeeded',
+      format: 'csv',
+      compression: 'gzip',
+      outputLocation: '/tmp/exports/job-gzip.csv.gz',
+      expiresAt: null,
+    });
+
+    const metadata = await getExportFileMetadata({ jobId: 'job-gzip', createdById: 42, prisma });
+
+    expect(metadata).toEqual({
+      outputLocation: '/tmp/exports/job-gzip.csv.gz',
+      contentType: 'application/gzip',
+      contentDisposition: 'attachment; filename="job-gzip.csv.gz"',
+    });
+  });
+
+  it('should name account archives .tar.gz', async () => {
+    prisma.exportJob.findFirst.mockResolvedValueOnce({
+      id: 'job-account',
+      status: 'succeeded',
+      resource: 'account',
+      format: 'ndjson',
+      compression: 'gzip',
+      outputLocation: '/tmp/exports/job-account.tar.gz',
+      expiresAt: null,
+    });
+
+    const metadata = await getExportFileMetadata({ jobId: 'job-account', createdById: 7, prisma });
+
+    expect(metadata.contentType).toBe('application/gzip');
+    expect(metadata.contentDisposition).toBe('attachment; filename="job-account.tar.gz"');
+  });
 });
 
 describe('runExportJob', () => {
@@ -292,6 +606,101 @@ describe('runExportJob', () => {
     prisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
   });
 
+  describe('progress', () => {
+    const originalEnv = process.env;
+    const users = [1, 2, 3].map((id) => ({
+      id,
+      email: `user${id}@example.com`,
+      name: `User ${id}`,
+      username: `user${id}`,
+      role: 'user',
+      active: true,
+      createdAt: new Date('2026-02-05T00:00:00Z'),
+      updatedAt: new Date('2026-02-05T00:00:00Z'),
+    }));
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, JOB_PROGRESS_UPDATE_RECORDS: '2' };
+      prisma.exportJob.findUnique.mockResolvedValueOnce({
+        id: 'job-progress',
+        status: 'queued',
+        processedRecords: 0,
+        fileSize: null,
+        startedAt: null,
+        resource: 'users',
+        format: 'ndjson',
+        outputLocation: null,
+      });
+      prisma.user.count.mockResolvedValue(3);
+      prisma.user.findMany.mockResolvedValueOnce(users).mockResolvedValueOnce([]);
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should persist the record total and throttled counters while running', async () => {
+      const { storage } = createMemoryStorageAdapter();
+
+      const result = await runExportJob('job-progress', { prisma, storage, now, cancelCheckInterval: 0, workerId: 'worker-a' });
+
+      expect(result.status).toBe('succeeded');
+      expect(prisma.exportJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-progress', leaseOwner: 'worker-a' },
+        data: { processedRecords: 0, totalRecords: 3 },
+      });
+      expect(prisma.exportJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-progress', leaseOwner: 'worker-a' },
+        data: { processedRecords: 2 },
+      });
+    });
+
+    it('should stop without finalizing once another worker took the lease', async () => {
+      const { storage, deleteMock } = createMemoryStorageAdapter();
+      // Claim and the initial progress write succeed, the next progress write finds the lease gone
+      prisma.exportJob.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+      prisma.exportJob.findUnique.mockResolvedValueOnce({ status: 'running' });
+
+      const result = await runExportJob('job-progress', { prisma, storage, now, cancelCheckInterval: 0, workerId: 'worker-a' });
+
+      expect(result).toEqual({ status: 'running', processedRecords: 2, fileSize: null });
+      expect(prisma.exportJob.updateMany).toHaveBeenCalledTimes(3);
+      expect(deleteMock).not.toHaveBeenCalled();
+    });
+
+    it('should settle the save and delete the artifact when the lease is lost mid-stream to the reaper', async () => {
+      const { storage, saveStreamMock, deleteMock } = createMemoryStorageAdapter();
+      let saveSettled = false;
+      // Like the local adapter, the save rejects with a premature close once the output is destroyed
+      saveStreamMock.mockImplementationOnce(
+        (key: string, stream: NodeJS.ReadableStream) =>
+          new Promise((resolve, reject) => {
+            stream.on('data', () => undefined);
+            stream.on('close', () => {
+              setImmediate(() => {
+                saveSettled = true;
+                reject(new Error('Premature close'));
+              });
+            });
+          }),
+      );
+      prisma.exportJob.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+      prisma.exportJob.findUnique.mockResolvedValueOnce({ status: 'failed' });
+
+      const result = await runExportJob('job-progress', { prisma, storage, now, cancelCheckInterval: 0, workerId: 'worker-a' });
+
+      expect(result).toEqual({ status: 'running', processedRecords: 2, fileSize: null });
+      expect(saveSettled).toBe(true);
+      expect(deleteMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
   it('should export NDJSON, persist metadata, and set download URL on success', async () => {
     const { storage, savedFiles } = createMemoryStorageAdapter();
     prisma.exportJob.findUnique.mockResolvedValueOnce({
@@ -331,9 +740,9 @@ describe('runExportJob', () => {
     expect(savedFiles).toHaveLength(1);
     expect(savedFiles[0]?.data).toContain('"email":"first@example.com"');
     expect(savedFiles[0]?.data).toContain('\n');
-    expect(prisma.exportJob.update).toHaveBeenCalledWith(
+    expect(prisma.exportJob.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
-        where: { id: 'job-1' },
+        where: { id: 'job-1', status: 'running', leaseOwner: expect.any(String) },
         data: expect.objectContaining({
           status: 'succeeded',
           processedRecords: 1,
@@ -438,6 +847,7 @@ describe('runExportJob', () => {
           authorId: 13,
           publishedAt: new Date('2026-02-05T00:00:00Z'),
           status: 'published',
+          createdAt: new Date('2026-02-01T00:00:00Z'),
           tagList: [{ name: 'backend' }],
         },
       ])
@@ -472,6 +882,257 @@ describe('runExportJob', () => {
     expect(exported).not.toHaveProperty('tags');
   });
 
+  it('should export CSV with every resource field as the header when no projection is set', async () => {
+    const { storage, savedFiles } = createMemoryStorageAdapter();
+    prisma.exportJob.findUnique.mockResolvedValueOnce({
+      id: 'job-csv',
+      status: 'queued',
+      processedRecords: 0,
+      fileSize: null,
+      startedAt: null,
+      resource: 'users',
+      format: 'csv',
+      outputLocation: null,
+    });
+    prisma.user.findMany
+      .mockResolvedValueOnce([
+        {
+          id: 7,
+          email: 'csv@example.com',
+          name: 'Line\nBreak',
+          username: 'csv',
+          role: 'user',
+          active: false,
+          createdAt: new Date('2026-02-05T00:00:00Z'),
+          updatedAt: new Date('2026-02-05T00:00:00Z'),
+        },
+      ])
+      .mockResolvedValueOnce([]);
+
+    const result = await runExportJob('job-csv', { prisma, storage, now, cancelCheckInterval: 0 });
+
+    expect(result.status).toBe('succeeded');
+    expect(savedFiles[0]?.key).toBe('job-csv.csv');
+    expect(savedFiles[0]?.data).toBe(
+      'id,email,name,role,active,created_at,updated_at\r\n' +
+        '7,csv@example.com,"Line\nBreak",user,false,2026-02-05T00:00:00.000Z,2026-02-05T00:00:00.000Z\r\n',
+    );
+  });
+
+  it('should gzip the artifact and record the compressed size when compression is gzip', async () => {
+    const { storage, savedFiles } = createMemoryStorageAdapter();
+    prisma.exportJob.findUnique.mockResolvedValueOnce({
+      id: 'job-gzip',
+      status: 'queued',
+      processedRecords: 0,
+      fileSize: null,
+      startedAt: null,
+      resource: 'users',
+      format: 'ndjson',
+      compression: 'gzip',
+      outputLocation: null,
+    });
+    prisma.user.findMany
+      .mockResolvedValueOnce([
+        {
+          id: 9,
+          email: 'gzip@example.com',
+          name: 'Gzip',
+          username: 'gzip',
+          role: 'user',
+          active: true,
+          createdAt: new Date('2026-02-05T00:00:00Z'),
+          updatedAt: new Date('2026-02-05T00:00:00Z'),
+        },
+      ])
+      .mockResolvedValueOnce([]);
+
+    const result = await runExportJob('job-gzip', { prisma, storage, now, cancelCheckInterval: 0 });
+
+    const saved = savedFiles[0];
+    expect(saved?.key).toBe('job-gzip.ndjson.gz');
+    expect(result.fileSize).toBe(saved?.bytes);
+    const lines = gunzipSync(saved?.buffer as Buffer).toString('utf8').trim().split('\n');
+    expect(JSON.parse(lines[0] as string)).toEqual(expect.objectContaining({ id: 9, email: 'gzip@example.com' }));
+  });
+
+  it('should write the owner\'s records to a gzipped tar with one file per resource', async () => {
+    const { storage, savedFiles } = createMemoryStorageAdapter();
+    prisma.exportJob.findUnique.mockResolvedValueOnce({
+      id: 'job-account',
+      status: 'queued',
+      processedRecords: 0,
+      fileSize: null,
+      startedAt: null,
+      resource: 'account',
+      format: 'ndjson',
+      compression: 'gzip',
+      outputLocation: null,
+      createdById: 7,
+    });
+    prisma.user.count.mockResolvedValue(1);
+    prisma.article.count.mockResolvedValue(1);
+    prisma.comment.count.mockResolvedValue(0);
+    // Favorite and follow owner counts come first, then the profile page
+    prisma.user.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        {
+          id: 7,
+          email: 'owner@example.com',
+          name: 'Owner',
+          username: 'owner',
+          role: 'user',
+          active: true,
+          createdAt: new Date('2026-02-05T00:00:00Z'),
+          updatedAt: new Date('2026-02-05T00:00:00Z'),
+        },
+      ])
+      .mockResolvedValue([]);
+    prisma.article.findMany
+      .mockResolvedValueOnce([
+        {
+          id: 3,
+          slug: 'hello',
+          title: 'Hello',
+          body: 'Body',
+          authorId: 7,
+          publishedAt: null,
+          status: 'draft',
+          createdAt: new Date('2026-02-01T00:00:00Z'),
+          tagList: [{ name: 'intro' }],
+        },
+      ])
+      .mockResolvedValue([]);
+    prisma.comment.findMany.mockResolvedValue([]);
+
+    const result = await runExportJob('job-account', { prisma, storage, now, cancelCheckInterval: 0 });
+
+    expect(result).toEqual(expect.objectContaining({ status: 'succeeded', processedRecords: 2 }));
+    expect(prisma.article.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ authorId: 7 }) }),
+    );
+    expect(prisma.comment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ userId: 7 }) }),
+    );
+    const saved = savedFiles[0];
+    expect(saved?.key).toBe('job-account.tar.gz');
+    const files = readTar(gunzipSync(saved?.buffer as Buffer));
+    expect(Object.keys(files)).toEqual([
+      'profile.ndjson',
+      'articles.ndjson',
+      'comments.ndjson',
+      'favorites.ndjson',
+      'follows.ndjson',
+      'manifest.json',
+    ]);
+    expect(JSON.parse(files['profile.ndjson'] as string)).toEqual(expect.objectContaining({ id: 7 }));
+    expect(JSON.parse(files['articles.ndjson'] as string)).toEqual(expect.objectContaining({ id: 3, tags: ['intro'] }));
+    expect(files['comments.ndjson']).toBe('');
+    expect(JSON.parse(files['manifest.json'] as string)).toEqual(
+      expect.objectContaining({
+        userId: 7,
+        truncated: false,
+        files: expect.arrayContaining([{ resource: 'articles', path: 'articles.ndjson', records: 1 }]),
+      }),
+    );
+  });
+
+  it('should mark an account archive cut at the record limit as partial and truncated', async () => {
+    const { storage, savedFiles } = createMemoryStorageAdapter();
+    prisma.exportJob.findUnique.mockResolvedValueOnce({
+      id: 'job-account-limit',
+      status: 'queued',
+      processedRecords: 0,
+      fileSize: null,
+      startedAt: null,
+      resource: 'account',
+      format: 'ndjson',
+      compression: 'gzip',
+      outputLocation: null,
+      createdById: 7,
+    });
+    prisma.user.count.mockResolvedValue(1);
+    prisma.article.count.mockResolvedValue(2);
+    prisma.comment.count.mockResolvedValue(0);
+    const article = (id: number) => ({
+      id,
+      slug: `article-${id}`,
+      title: `Article ${id}`,
+      body: 'Body',
+      authorId: 7,
+      publishedAt: null,
+      status: 'draft',
+      createdAt: new Date('2026-02-01T00:00:00Z'),
+      tagList: [],
+    });
+    prisma.user.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        {
+          id: 7,
+          email: 'owner@example.com',
+          name: 'Owner',
+          username: 'owner',
+          role: 'user',
+          active: true,
+          createdAt: new Date('2026-02-05T00:00:00Z'),
+          updatedAt: new Date('2026-02-05T00:00:00Z'),
+        },
+      ])
+      .mockResolvedValue([]);
+    prisma.article.findMany
+      .mockResolvedValueOnce([article(3)])
+      .mockResolvedValueOnce([article(4)])
+      .mockResolvedValue([]);
+
+    const result = await runExportJob('job-account-limit', { prisma, storage, now, cancelCheckInterval: 0 });
+
+    expect(result).toEqual(expect.objectContaining({ status: 'partial', processedRecords: 2 }));
+    expect(prisma.exportJob.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'job-account-limit', status: 'running', leaseOwner: expect.any(String) },
+        data: expect.objectContaining({ status: 'partial', downloadUrl: '/api/v1/exports/job-account-limit/download' }),
+      }),
+    );
+    const files = readTar(gunzipSync(savedFiles[0]?.buffer as Buffer));
+    expect(Object.keys(files)).toEqual(['profile.ndjson', 'articles.ndjson', 'manifest.json']);
+    expect(JSON.parse(files['manifest.json'] as string)).toEqual(
+      expect.objectContaining({
+        truncated: true,
+        files: [
+          { resource: 'users', path: 'profile.ndjson', records: 1 },
+          { resource: 'articles', path: 'articles.ndjson', records: 1 },
+        ],
+      }),
+    );
+  });
+
+  it('should read async exports in the job sort order', async () => {
+    const { storage } = createMemoryStorageAdapter();
+    prisma.exportJob.findUnique.mockResolvedValueOnce({
+      id: 'job-sorted',
+      status: 'queued',
+      processedRecords: 0,
+      fileSize: null,
+      startedAt: null,
+      resource: 'articles',
+      format: 'ndjson',
+      sort: '-title',
+      outputLocation: null,
+    });
+    prisma.article.count.mockResolvedValue(0);
+    prisma.article.findMany.mockResolvedValueOnce([]);
+
+    await runExportJob('job-sorted', { prisma, storage, now, cancelCheckInterval: 0 });
+
+    expect(prisma.article.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: [{ title: 'desc' }, { id: 'desc' }] }),
+    );
+  });
+
   it('should cap async export at exportMaxRecords and mark metadata as truncated', async () => {
     const { storage, savedFiles } = createMemoryStorageAdapter();
     prisma.exportJob.findUnique.mockResolvedValueOnce({
@@ -536,9 +1197,9 @@ describe('runExportJob', () => {
     expect(savedFiles[0]?.data).toContain('"id":2');
     expect(savedFiles[0]?.data).not.toContain('"id":3');
 
-    expect(prisma.exportJob.update).toHaveBeenCalledWith(
+    expect(prisma.exportJob.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
-        where: { id: 'job-truncated' },
+        where: { id: 'job-truncated', status: 'running', leaseOwner: expect.any(String) },
         data: expect.objectContaining({
           status: 'succeeded',
           processedRecords: 2,
@@ -651,9 +1312,9 @@ describe('runExportJob', () => {
       fileSize: null,
     });
     expect(deleteMock).toHaveBeenCalledWith('job-4.ndjson');
-    expect(prisma.exportJob.update).toHaveBeenCalledWith(
+    expect(prisma.exportJob.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
-        where: { id: 'job-4' },
+        where: { id: 'job-4', status: 'cancelled', leaseOwner: expect.any(String) },
         data: expect.objectContaining({
           status: 'cancelled',
           processedRecords: 1,
@@ -687,6 +1348,80 @@ describe('runExportJob', () => {
     );
   });
 
+  it('should finish as cancelled when the job is cancelled after its last cancellation check', async () => {
+    const { storage, deleteMock } = createMemoryStorageAdapter();
+    prisma.exportJob.findUnique
+      .mockResolvedValueOnce({
+        id: 'job-6',
+        status: 'queued',
+        processedRecords: 0,
+        fileSize: null,
+        startedAt: null,
+        resource: 'users',
+        format: 'ndjson',
+        outputLocation: null,
+      })
+      .mockResolvedValueOnce({ status: 'cancelled', leaseOwner: 'worker-a' });
+    prisma.user.findMany
+      .mockResolvedValueOnce([
+        {
+          id: 12,
+          email: 'late-cancel@example.com',
+          name: 'Late Cancel',
+          username: 'late-cancel',
+          role: 'user',
+          active: true,
+          createdAt: new Date('2026-02-05T00:00:00Z'),
+          updatedAt: new Date('2026-02-05T00:00:00Z'),
+        },
+      ])
+      .mockResolvedValueOnce([]);
+    // Claim and progress succeed; the job is cancelled before it is finalized as succeeded
+    prisma.exportJob.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const result = await runExportJob('job-6', { prisma, storage, now, workerId: 'worker-a' });
+
+    expect(result).toEqual({ status: 'cancelled', processedRecords: 1, fileSize: null });
+    expect(deleteMock).toHaveBeenCalledWith('job-6.ndjson');
+    expect(prisma.exportJob.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'job-6', status: 'cancelled', leaseOwner: 'worker-a' },
+      data: expect.objectContaining({ status: 'cancelled', processedRecords: 1, leaseOwner: null }),
+    });
+    expect(logJobLifecycleEventMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ event: 'job.completed', jobId: 'job-6', status: 'cancelled' }),
+    );
+  });
+
+  it('should leave the job and its output alone when another worker reclaimed it before finalizing', async () => {
+    const { storage, deleteMock } = createMemoryStorageAdapter();
+    prisma.exportJob.findUnique
+      .mockResolvedValueOnce({
+        id: 'job-7',
+        status: 'queued',
+        processedRecords: 0,
+        fileSize: null,
+        startedAt: null,
+        resource: 'users',
+        format: 'ndjson',
+        outputLocation: null,
+      })
+      .mockResolvedValueOnce({ status: 'running', leaseOwner: 'worker-b' });
+    prisma.user.findMany.mockResolvedValueOnce([]);
+    prisma.exportJob.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const result = await runExportJob('job-7', { prisma, storage, now, workerId: 'worker-a' });
+
+    expect(result).toEqual({ status: 'running', processedRecords: 0, fileSize: null });
+    expect(deleteMock).not.toHaveBeenCalled();
+    expect(prisma.exportJob.updateMany).toHaveBeenCalledTimes(3);
+  });
+
   it('should mark failed and cleanup output when export stream fails', async () => {
     const { storage, deleteMock } = createMemoryStorageAdapter();
     prisma.exportJob.findUnique.mockResolvedValueOnce({
@@ -711,9 +1446,9 @@ describe('runExportJob', () => {
     ).rejects.toThrow('database crashed');
 
     expect(deleteMock).toHaveBeenCalledWith('job-5.ndjson');
-    expect(prisma.exportJob.update).toHaveBeenCalledWith(
+    expect(prisma.exportJob.updateMany).toHaveBeenCalledWith(
       expect.objectContaining({
-        where: { id: 'job-5' },
+        where: { id: 'job-5', status: 'running', leaseOwner: expect.any(String) },
         data: expect.objectContaining({
           status: 'failed',
           processedRecords: 0,
@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { deflateRawSync, gzipSync } from 'zlib';
+import { ArchiveEntry, readArchiveEntries } from '../../../app/routes/imports/archive.service';
+import { FileErrorCode } from '../../../app/routes/shared/import-export/types';
+
+const limits = { maxEntryBytes: 1024, maxArchiveBytes: 64 * 1024 };
+
+function buildZip(entries: { name: string; data: string; deflate?: boolean }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.from(entry.data);
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function buildTar(entries: { name: string; data: string; type?: string; prefix?: string }[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data);
+    const header = Buffer.alloc(512);
+    header.write(entry.name, 0);
+    header.write('0000644\0', 100);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('00000000000\0', 136);
+    header.write(entry.type ?? '0', 156);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+    header.write(entry.prefix ?? '', 345);
+    header.fill(0x20, 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  return `${body.length + String(body.length + 2).length}${body}`;
+}
+
+async function readText(content: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of content) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('archive.service', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function writeArchive(name: string, data: Buffer): Promise<string> {
+    const filePath = path.join(directory, name);
+    await fs.writeFile(filePath, data);
+    return filePath;
+  }
+
+  it('should read stored and deflated zip entries and skip directories', async () => {
+    const filePath = await writeArchive(
+      'bundle.zip',
+      buildZip([
+        { name: 'export/', data: '' },
+        { name: 'export/manifest.json', data: '{"files":[]}' },
+        { name: 'export/users.ndjson', data: '{"email":"ann@example.com"}\n'.repeat(20), deflate: true },
+      ]),
+    );
+    const entries: { path: string; text: string }[] = [];
+
+    const format = await readArchiveEntries(
+      filePath,
+      async (entry, content) => {
+        entries.push({ path: entry.path, text: await readText(content) });
+      },
+      limits,
+    );
+
+    expect(format).toBe('zip');
+    expect(entries).toEqual([
+      { path: 'export/manifest.json', text: '{"files":[]}' },
+      { path: 'export/users.ndjson', text: '{"email":"ann@example.com"}\n'.repeat(20) },
+    ]);
+  });
+
+  it('should read gzipped tar entries, skipping the ones a handler leaves unread', async () => {
+    const filePath = await writeArchive(
+      'bundle.tar.gz',
+      gzipSync(
+        buildTar([
+          { name: 'data', data: '', type: '5' },
+          { name: 'users.csv', data: 'email\nann@example.com\n', prefix: 'data' },
+          { name: 'PaxHeader', data: paxRecord('path', 'data/articles.ndjson'), type: 'x' },
+          { name: 'truncated-name', data: '{"title":"Hello"}\n' },
+          { name: './manifest.json', data: '{"files":[]}' },
+        ]),
+      ),
+    );
+    const seen: ArchiveEntry[] = [];
+    const texts: string[] = [];
+
+    const format = await readArchiveEntries(
+      filePath,
+      async (entry, content) => {
+        seen.push(entry);
+        if (entry.path !== 'data/users.csv') {
+          texts.push(await readText(content));
+        }
+      },
+      limits,
+    );
+
+    expect(format).toBe('tar');
+    expect(seen.map((entry) => entry.path)).toEqual(['data/users.csv', 'data/articles.ndjson', 'manifest.json']);
+    expect(texts).toEqual(['{"title":"Hello"}\n', '{"files":[]}']);
+  });
+
+  it('should reject files that are not archives', async () => {
+    const filePath = await writeArchive('users.ndjson', Buffer.from('{"email":"ann@example.com"}\n'));
+
+    await expect(readArchiveEntries(filePath, jest.fn(), limits)).rejects.toMatchObject({
+      code: FileErrorCode.UNSUPPORTED_FORMAT,
+      message: 'Bundle must be a zip, tar or tar.gz archive',
+    });
+  });
+
+  it('should reject entries over the size limit', async () => {
+    const tarPath = await writeArchive('large.tar', buildTar([{ name: 'users.ndjson', data: 'x'.repeat(2048) }]));
+    const zipPath = await writeArchive(
+      'large.zip',
+      buildZip([{ name: 'users.ndjson', data: 'x'.repeat(2048), deflate: true }]),
+    );
+    const consume = async (_entry: ArchiveEntry, content: Readable) => {
+      await readText(content);
+    };
+
+    await expect(readArchiveEntries(tarPath, consume, limits)).rejects.toMatchObject({
+      code: FileErrorCode.FILE_TOO_LARGE,
+    });
+    await expect(readArchiveEntries(zipPath, consume, limits)).rejects.toMatchObject({
+      code: FileErrorCode.FILE_TOO_LARGE,
+    });
+  });
+});
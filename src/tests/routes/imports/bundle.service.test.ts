@@ -0,0 +1,257 @@
+import { PassThrough } from 'stream';
+import type { PrismaClient } from '@prisma/client';
+import prismaMock from '../../prisma-mock';
+import {
+  cancelImportBundle,
+  getImportBundleErrorReport,
+  parseImportBundleManifest,
+  runImportBundle,
+} from '../../../app/routes/imports/bundle.service';
+import { removeQueuedJob } from '../../../app/jobs/import-export.queue';
+import { HttpStatusCode } from '../../../app/models/http-status-code.model';
+
+jest.mock('../../../app/jobs/import-export.queue', () => ({
+  IMPORT_BUNDLE_JOB_NAME: 'import-bundle',
+  removeQueuedJob: jest.fn(),
+}));
+
+const prisma = prismaMock as unknown as Record<string, Record<string, jest.Mock>>;
+const client = prismaMock as unknown as PrismaClient;
+const removeQueuedJobMock = removeQueuedJob as jest.MockedFunction<typeof removeQueuedJob>;
+const now = new Date('2026-03-02T00:00:00.000Z');
+
+function bundle(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'bnd-1',
+    status: 'queued',
+    sourceType: 'upload',
+    fileName: 'migration.zip',
+    fileSize: 2048,
+    idempotencyKey: 'key-1',
+    dryRun: false,
+    mode: 'upsert',
+    processedRecords: 0,
+    successCount: 0,
+    errorCount: 0,
+    skippedCount: 0,
+    createdAt: now,
+    updatedAt: now,
+    startedAt: null,
+    finishedAt: null,
+    createdById: 1,
+    ...overrides,
+  };
+}
+
+function child(id: string, resource: string, status = 'queued') {
+  return {
+    id,
+    resource,
+    status,
+    format: 'ndjson',
+    fileName: `${resource}.ndjson`,
+    totalRecords: null,
+    processedRecords: 0,
+    successCount: 0,
+    errorCount: 0,
+    skippedCount: 0,
+    startedAt: null,
+    finishedAt: null,
+  };
+}
+
+function runResult(status: string, processedRecords: number) {
+  return { status, processedRecords, successCount: processedRecords, errorCount: 0, skippedCount: 0 } as never;
+}
+
+describe('Bundle Service', () => {
+  describe('parseImportBundleManifest', () => {
+    it('should parse files with their import options', () => {
+      const manifest = parseImportBundleManifest(
+        JSON.stringify({
+          files: [
+            { resource: 'articles', path: './data/articles.csv', delimiter: ';' },
+            { resource: 'users', path: 'users.ndjson' },
+          ],
+        }),
+      );
+
+      expect(manifest.files).toEqual([
+        {
+          resource: 'articles',
+          path: 'data/articles.csv',
+          options: { format: undefined, delimiter: ';', listDelimiter: undefined, mapping: undefined },
+        },
+        {
+          resource: 'users',
+          path: 'users.ndjson',
+          options: { format: undefined, delimiter: undefined, listDelimiter: undefined, mapping: undefined },
+        },
+      ]);
+    });
+
+    it('should report every invalid file entry', () => {
+      expect(() =>
+        parseImportBundleManifest(
+          JSON.stringify({
+            files: [
+              { resource: 'posts', path: 'posts.ndjson' },
+              { resource: 'users', path: '../users.ndjson' },
+              { resource: 'users' },
+            ],
+          }),
+        ),
+      ).toThrow(
+        expect.objectContaining({
+          errorCode: HttpStatusCode.UNPROCESSABLE_ENTITY,
+          message: {
+            errors: {
+              manifest: [
+                'files[0].resource must be one of users, articles, comments, tags, favorites, follows',
+                'files[1].path must be relative to manifest.json',
+                'files[2].resource users is listed more than once',
+                'files[2].path is required',
+              ],
+            },
+          },
+        }),
+      );
+      expect(() => parseImportBundleManifest('{"files":[]}')).toThrow(
+        expect.objectContaining({ message: { errors: { manifest: ['manifest.json must list at least one file under files'] } } }),
+      );
+    });
+  });
+
+  describe('runImportBundle', () => {
+    it('should run children in dependency order and sum their counters', async () => {
+      const runJob = jest
+        .fn()
+        .mockResolvedValueOnce(runResult('succeeded', 2))
+        .mockResolvedValueOnce(runResult('succeeded', 5))
+        .mockResolvedValueOnce(runResult('partial', 9));
+      prisma.importBundle.findUnique.mockResolvedValueOnce(bundle()).mockResolvedValue({ status: 'running' });
+      prisma.importJob.findMany
+        .mockResolvedValueOnce([child('job-c', 'comments'), child('job-u', 'users'), child('job-a', 'articles')])
+        .mockResolvedValueOnce([{ status: 'succeeded' }, { status: 'succeeded' }, { status: 'partial' }]);
+      prisma.importJob.aggregate.mockResolvedValue({
+        _sum: { processedRecords: 16, successCount: 15, errorCount: 1, skippedCount: 0 },
+      });
+
+      const result = await runImportBundle('bnd-1', { prisma: client, now: () => now, runJob });
+
+      expect(runJob.mock.calls.map(([jobId]) => jobId)).toEqual(['job-u', 'job-a', 'job-c']);
+      expect(result).toEqual({ status: 'partial', processedRecords: 16, successCount: 15, errorCount: 1, skippedCount: 0 });
+      expect(prisma.importBundle.updateMany).toHaveBeenCalledWith({
+        where: { id: 'bnd-1', status: 'queued' },
+        data: { status: 'running', startedAt: now },
+      });
+      expect(prisma.importBundle.update).toHaveBeenLastCalledWith({
+        where: { id: 'bnd-1' },
+        data: expect.objectContaining({ status: 'partial', finishedAt: now, processedRecords: 16 }),
+      });
+    });
+
+    it('should skip finished children and stop at a failed one', async () => {
+      const runJob = jest.fn().mockResolvedValueOnce(runResult('failed', 0));
+      prisma.importBundle.findUnique
+        .mockResolvedValueOnce(bundle({ status: 'running', startedAt: now }))
+        .mockResolvedValue({ status: 'running' });
+      prisma.importJob.findMany
+        .mockResolvedValueOnce([
+          child('job-u', 'users', 'succeeded'),
+          child('job-a', 'articles', 'running'),
+          child('job-c', 'comments'),
+        ])
+        .mockResolvedValueOnce([{ status: 'succeeded' }, { status: 'failed' }, { status: 'cancelled' }]);
+      prisma.importJob.aggregate.mockResolvedValue({ _sum: {} });
+
+      const result = await runImportBundle('bnd-1', { prisma: client, now: () => now, runJob });
+
+      expect(runJob).toHaveBeenCalledTimes(1);
+      expect(runJob).toHaveBeenCalledWith('job-a');
+      expect(result.status).toBe('failed');
+      expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+        where: { bundleId: 'bnd-1', status: 'queued' },
+        data: { status: 'cancelled', finishedAt: now },
+      });
+    });
+
+    it('should leave the bundle running when another worker holds the child lease', async () => {
+      const runJob = jest.fn().mockResolvedValueOnce(runResult('running', 3));
+      prisma.importBundle.findUnique
+        .mockResolvedValueOnce(bundle({ status: 'running' }))
+        .mockResolvedValue({ status: 'running' });
+      prisma.importJob.findMany.mockResolvedValueOnce([child('job-u', 'users', 'running'), child('job-a', 'articles')]);
+      prisma.importJob.aggregate.mockResolvedValue({ _sum: {} });
+
+      await expect(runImportBundle('bnd-1', { prisma: client, now: () => now, runJob })).resolves.toEqual({
+        status: 'running',
+      });
+      expect(runJob).toHaveBeenCalledTimes(1);
+      expect(prisma.importBundle.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ finishedAt: now }) }),
+      );
+    });
+  });
+
+  it('should cancel a queued bundle, its children and its queue entry', async () => {
+    prisma.importBundle.findFirst
+      .mockResolvedValueOnce({ ...bundle(), jobs: [child('job-u', 'users')] })
+      .mockResolvedValueOnce({
+        ...bundle({ status: 'cancelled', finishedAt: now }),
+        jobs: [{ ...child('job-u', 'users', 'cancelled'), finishedAt: now }],
+      });
+    prisma.importBundle.updateMany.mockResolvedValueOnce({ count: 1 });
+    removeQueuedJobMock.mockResolvedValueOnce(true);
+
+    const result = await cancelImportBundle({ bundleId: 'bnd-1', createdById: 1, prisma: client, now: () => now });
+
+    expect(result.importBundle).toMatchObject({ status: 'cancelled', jobs: [{ id: 'job-u', status: 'cancelled' }] });
+    expect(prisma.importBundle.updateMany).toHaveBeenCalledWith({
+      where: { id: 'bnd-1', status: 'queued' },
+      data: { status: 'cancelled', finishedAt: now },
+    });
+    expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+      where: { bundleId: 'bnd-1', status: 'queued' },
+      data: { status: 'cancelled', finishedAt: now },
+    });
+    expect(removeQueuedJobMock).toHaveBeenCalledWith('import-bundle', 'bnd-1');
+  });
+
+  it('should write one error report across children tagged with resource and job', async () => {
+    prisma.importBundle.findFirst.mockResolvedValueOnce({
+      ...bundle({ status: 'partial', errorCount: 2 }),
+      jobs: [child('job-a', 'articles', 'partial'), child('job-u', 'users', 'partial')],
+    });
+    const error = (id: string, message: string) => ({
+      id,
+      recordIndex: 0,
+      recordId: null,
+      errorCode: 4001,
+      errorName: 'INVALID_REFERENCE',
+      message,
+      field: null,
+      value: null,
+      details: null,
+      createdAt: now,
+    });
+    prisma.importError.findMany
+      .mockResolvedValueOnce([error('err-1', 'email is invalid')])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([error('err-2', 'author_id does not exist')])
+      .mockResolvedValueOnce([]);
+
+    const report = await getImportBundleErrorReport({ bundleId: 'bnd-1', createdById: 1, prisma: client });
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', (chunk) => chunks.push(String(chunk)));
+
+    await expect(report.write(output)).resolves.toBe(2);
+    const lines = chunks.join('').trim().split('\n').map((line) => JSON.parse(line));
+    expect(report.contentDisposition).toBe('attachment; filename="bnd-1-errors.ndjson"');
+    expect(lines).toEqual([
+      expect.objectContaining({ resource: 'users', jobId: 'job-u', message: 'email is invalid' }),
+      expect.objectContaining({ resource: 'articles', jobId: 'job-a', message: 'author_id does not exist' }),
+    ]);
+  });
+});
@@ -1,5 +1,9 @@
 import prismaMock from '../../prisma-mock';
-import { generateImportErrorReport } from '../../../app/routes/imports/error-report.service';
+import {
+  generateImportErrorReport,
+  generateImportRejectsFile,
+  summarizeImportErrors,
+} from '../../../app/routes/imports/error-report.service';
 import { createMemoryStorageAdapter } from '../../helpers/memory-storage';
 import { ValidationErrorCode } from '../../../app/routes/shared/import-export/types';
 
@@ -137,4 +141,91 @@ describe('Error Report Service', () => {
     expect(JSON.parse(lines[0] ?? '{}').recordIndex).toBe(0);
     expect(JSON.parse(lines[1] ?? '{}').recordIndex).toBe(1);
   });
+
+  describe('generateImportRejectsFile', () => {
+    it('should write failed csv rows with their errors in an _errors cell', async () => {
+      const { storage, savedFiles } = createMemoryStorageAdapter();
+      prisma.importFailedRecord.findMany
+        .mockResolvedValueOnce([{ recordIndex: 2, record: { email: 'bad', name: 'Lee; Jr.' } }])
+        .mockResolvedValueOnce([]);
+      prisma.importError.findMany.mockResolvedValueOnce([
+        { recordIndex: 2, errorCode: ValidationErrorCode.INVALID_FIELD_FORMAT, field: 'email', message: 'Invalid email' },
+      ]);
+
+      const result = await generateImportRejectsFile('job-4', { prisma, storage, format: 'csv', delimiter: ';' });
+
+      expect(result).toMatchObject({ key: 'import-rejects/job-4.csv', format: 'csv', recordCount: 1 });
+      expect(savedFiles[0]?.data).toBe(
+        'email;name;_errors\r\n' +
+          `bad;"Lee; Jr.";"[{""code"":${ValidationErrorCode.INVALID_FIELD_FORMAT},""field"":""email"",""message"":""Invalid email""}]"\r\n`,
+      );
+    });
+
+    it('should write a JSON array with errors attached to each record', async () => {
+      const { storage, savedFiles } = createMemoryStorageAdapter();
+      prisma.importFailedRecord.findMany
+        .mockResolvedValueOnce([
+          { recordIndex: 0, record: { id: 1 } },
+          { recordIndex: 3, record: { id: 4 } },
+        ])
+        .mockResolvedValueOnce([]);
+      prisma.importError.findMany.mockResolvedValueOnce([
+        { recordIndex: 3, errorCode: ValidationErrorCode.DUPLICATE_VALUE, field: 'id', message: 'Duplicate id' },
+      ]);
+
+      await generateImportRejectsFile('job-5', { prisma, storage, format: 'json' });
+
+      expect(JSON.parse(savedFiles[0]?.data ?? '[]')).toEqual([
+        { id: 1, _errors: [] },
+        { id: 4, _errors: [{ code: ValidationErrorCode.DUPLICATE_VALUE, field: 'id', message: 'Duplicate id' }] },
+      ]);
+    });
+
+    it('should return null and delete the file when no records failed', async () => {
+      const { storage, deleteMock } = createMemoryStorageAdapter();
+      prisma.importFailedRecord.findMany.mockResolvedValueOnce([]);
+
+      await expect(generateImportRejectsFile('job-6', { prisma, storage, format: 'ndjson' })).resolves.toBeNull();
+      expect(deleteMock).toHaveBeenCalledWith('import-rejects/job-6.ndjson');
+    });
+  });
+
+  describe('summarizeImportErrors', () => {
+    it('should group errors by code, field and value with their record range', async () => {
+      prisma.importError.groupBy
+        .mockResolvedValueOnce([
+          {
+            errorCode: ValidationErrorCode.INVALID_FIELD_FORMAT,
+            errorName: 'INVALID_FIELD_FORMAT',
+            _count: { _all: 3 },
+            _min: { recordIndex: 1 },
+            _max: { recordIndex: 90 },
+          },
+          {
+            errorCode: ValidationErrorCode.DUPLICATE_VALUE,
+            errorName: 'DUPLICATE_VALUE',
+            _count: { _all: 120 },
+            _min: { recordIndex: 4 },
+            _max: { recordIndex: 9000 },
+          },
+        ])
+        .mockResolvedValueOnce([{ field: 'slug', _count: { _all: 120 }, _min: { recordIndex: 4 }, _max: { recordIndex: 9000 } }]);
+      prisma.$queryRaw.mockResolvedValueOnce([
+        { field: 'slug', value: 'x'.repeat(250), count: 118, firstRecordIndex: 4, lastRecordIndex: 8990 },
+      ]);
+
+      const breakdown = await summarizeImportErrors('job-7', { prisma, limit: 5 });
+
+      expect(breakdown.byCode.map((group) => [group.errorName, group.count])).toEqual([
+        ['DUPLICATE_VALUE', 120],
+        ['INVALID_FIELD_FORMAT', 3],
+      ]);
+      expect(breakdown.byCode[0]).toMatchObject({ firstRecordIndex: 4, lastRecordIndex: 9000 });
+      expect(breakdown.byField).toEqual([{ field: 'slug', count: 120, firstRecordIndex: 4, lastRecordIndex: 9000 }]);
+      expect(breakdown.topValues[0]).toMatchObject({ field: 'slug', count: 118, value: `${'x'.repeat(200)}…` });
+      expect(prisma.importError.groupBy).toHaveBeenLastCalledWith(
+        expect.objectContaining({ by: ['field'], where: { jobId: 'job-7' }, take: 5 }),
+      );
+    });
+  });
 });
@@ -1,10 +1,12 @@
 import prismaMock from '../../prisma-mock';
 import importController from '../../../app/routes/imports/import.controller';
-import { enqueueImportJob } from '../../../app/jobs/import-export.queue';
+import { enqueueImportJob, importExportConnection, removeQueuedJob } from '../../../app/jobs/import-export.queue';
 import { fetchRemoteImport, ImportExportError } from '../../../app/routes/imports/intake.service';
 import { createReadStream, promises as fsPromises } from 'fs';
 import { createTestResponse } from '../../helpers/test-response';
+import { createUploadedFile } from '../../helpers/uploaded-file';
 import { FileErrorCode } from '../../../app/routes/shared/import-export/types';
+import { writeRetrySource } from '../../../app/routes/imports/retry.service';
 import { HttpStatusCode } from '../../../app/models/http-status-code.model';
 
 type UploadMiddleware = (req: unknown, res: unknown, next: (error?: unknown) => void) => void;
@@ -18,6 +20,8 @@ jest.mock('../../../app/routes/auth/auth', () => ({
 jest.mock('../../../app/jobs/import-export.queue', () => ({
   enqueueImportJob: jest.fn().mockResolvedValue({ id: 'queue-import' }),
   enqueueExportJob: jest.fn().mockResolvedValue({ id: 'queue-export' }),
+  removeQueuedJob: jest.fn().mockResolvedValue(true),
+  importExportConnection: { eval: jest.fn().mockResolvedValue([1, 0]) },
 }));
 
 jest.mock('../../../app/routes/imports/intake.service', () => {
@@ -50,6 +54,11 @@ jest.mock('fs', () => {
   };
 });
 
+jest.mock('../../../app/routes/imports/retry.service', () => ({
+  ...jest.requireActual('../../../app/routes/imports/retry.service'),
+  writeRetrySource: jest.fn(),
+}));
+
 const prisma: any = prismaMock;
 
 type RunRouteOptions = {
@@ -105,6 +114,8 @@ async function runRoute(options: RunRouteOptions) {
 describe('Import Controller', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    prisma.user.findUnique.mockResolvedValue({ role: 'admin' });
+    prisma.importBundle.count.mockResolvedValue(0);
     uploadMiddlewareImpl = (_req, _res, next) => next();
   });
 
@@ -220,6 +231,432 @@ describe('Import Controller', () => {
       expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/imports/remote-mismatch.json', { force: true });
     });
 
+    it('should create a csv import job and persist its delimiter options', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-articles.csv',
+        location: '/tmp/imports/remote-articles.csv',
+        bytes: 120,
+        fileName: 'articles.csv',
+        mimeType: 'text/csv',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/articles.csv',
+      });
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      prisma.importJob.create.mockImplementationOnce(async ({ data }) => ({
+        id: 'imp-csv',
+        totalRecords: null,
+        processedRecords: 0,
+        successCount: 0,
+        errorCount: 0,
+        createdAt: new Date('2026-02-14T09:00:00Z'),
+        startedAt: null,
+        finishedAt: null,
+        errorSummary: null,
+        ...data,
+      }));
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'articles', url: 'https://example.com/articles.csv', delimiter: 'tab', listDelimiter: ';' },
+        headers: { 'idempotency-key': 'idem-import-csv' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(202);
+      expect(prisma.importJob.create.mock.calls[0][0].data).toEqual(
+        expect.objectContaining({ format: 'csv', options: { delimiter: '\t', listDelimiter: ';' } }),
+      );
+      expect(result.body.importJob.options).toEqual({ delimiter: '\t', listDelimiter: ';' });
+      expect(enqueueImportJob).toHaveBeenCalledWith({ jobId: 'imp-csv', resource: 'articles', format: 'csv' });
+    });
+
+    it('should reject csv delimiter options for json imports', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-users.json',
+        location: '/tmp/imports/remote-users.json',
+        bytes: 200,
+        fileName: 'users.json',
+        mimeType: 'application/json',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/users.json',
+      });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'users', url: 'https://example.com/users.json', delimiter: ';' },
+        headers: { 'idempotency-key': 'idem-json-delimiter' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+      expect(result.nextError.message).toEqual({
+        errors: { delimiter: ['delimiter is only supported for csv imports'] },
+      });
+      expect(prisma.importJob.create).not.toHaveBeenCalled();
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/imports/remote-users.json', { force: true });
+    });
+
+    it('should persist the dry-run flag sent as a multipart string', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-users.json',
+        location: '/tmp/imports/remote-users.json',
+        bytes: 200,
+        fileName: 'users.json',
+        mimeType: 'application/json',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/users.json',
+      });
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      prisma.importJob.create.mockImplementationOnce(async ({ data }) => ({
+        id: 'imp-dry-run',
+        totalRecords: null,
+        processedRecords: 0,
+        successCount: 0,
+        errorCount: 0,
+        createdAt: new Date('2026-02-16T09:00:00Z'),
+        startedAt: null,
+        finishedAt: null,
+        errorSummary: null,
+        dryRunSummary: null,
+        ...data,
+      }));
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'users', url: 'https://example.com/users.json', dryRun: 'true' },
+        headers: { 'idempotency-key': 'idem-dry-run' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(202);
+      expect(prisma.importJob.create.mock.calls[0][0].data).toEqual(expect.objectContaining({ dryRun: true }));
+      expect(result.body.importJob.dryRun).toBe(true);
+      expect(result.body.importJob.dryRunSummary).toBeNull();
+    });
+
+    it('should reject a non-boolean dry-run flag and discard the upload', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-users.json',
+        location: '/tmp/imports/remote-users.json',
+        bytes: 200,
+        fileName: 'users.json',
+        mimeType: 'application/json',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/users.json',
+      });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'users', url: 'https://example.com/users.json', dryRun: 'yes' },
+        headers: { 'idempotency-key': 'idem-dry-run-invalid' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+      expect(result.nextError.message).toEqual({ errors: { dryRun: ['dryRun must be a boolean'] } });
+      expect(prisma.importJob.create).not.toHaveBeenCalled();
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/imports/remote-users.json', { force: true });
+    });
+
+    it('should persist the import mode', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-users.json',
+        location: '/tmp/imports/remote-users.json',
+        bytes: 200,
+        fileName: 'users.json',
+        mimeType: 'application/json',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/users.json',
+      });
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      prisma.importJob.create.mockImplementationOnce(async ({ data }) => ({
+        id: 'imp-skip-existing',
+        totalRecords: null,
+        processedRecords: 0,
+        successCount: 0,
+        errorCount: 0,
+        skippedCount: 0,
+        createdAt: new Date('2026-02-17T09:00:00Z'),
+        startedAt: null,
+        finishedAt: null,
+        errorSummary: null,
+        ...data,
+      }));
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'users', url: 'https://example.com/users.json', mode: 'skipExisting' },
+        headers: { 'idempotency-key': 'idem-skip-existing' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(prisma.importJob.create.mock.calls[0][0].data).toEqual(
+        expect.objectContaining({ mode: 'skipExisting' }),
+      );
+      expect(result.body.importJob.mode).toBe('skipExisting');
+      expect(result.body.importJob.skippedCount).toBe(0);
+    });
+
+    it('should reject an unknown import mode', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-users.json',
+        location: '/tmp/imports/remote-users.json',
+        bytes: 200,
+        fileName: 'users.json',
+        mimeType: 'application/json',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/users.json',
+      });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'users', url: 'https://example.com/users.json', mode: 'replace' },
+        headers: { 'idempotency-key': 'idem-mode-invalid' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+      expect(result.nextError.message).toEqual({
+        errors: { mode: ['mode must be insert, update, upsert or skipExisting'] },
+      });
+      expect(prisma.importJob.create).not.toHaveBeenCalled();
+    });
+
+    it('should persist a field mapping with the job options', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-articles.csv',
+        location: '/tmp/imports/remote-articles.csv',
+        bytes: 120,
+        fileName: 'articles.csv',
+        mimeType: 'text/csv',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/articles.csv',
+      });
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      prisma.importJob.create.mockImplementationOnce(async ({ data }) => ({
+        id: 'imp-mapped',
+        totalRecords: null,
+        processedRecords: 0,
+        successCount: 0,
+        errorCount: 0,
+        createdAt: new Date('2026-02-18T09:00:00Z'),
+        startedAt: null,
+        finishedAt: null,
+        errorSummary: null,
+        ...data,
+      }));
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: {
+          resource: 'articles',
+          url: 'https://example.com/articles.csv',
+          mapping: JSON.stringify({ title: 'headline', author_id: { from: 'author_email', lookup: 'userEmail' } }),
+        },
+        headers: { 'idempotency-key': 'idem-mapped' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(prisma.importJob.create.mock.calls[0][0].data.options).toEqual({
+        mapping: {
+          title: { from: 'headline' },
+          author_id: { from: 'author_email', lookup: 'userEmail' },
+        },
+      });
+    });
+
+    it('should reject an invalid field mapping and discard the upload', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-users.json',
+        location: '/tmp/imports/remote-users.json',
+        bytes: 200,
+        fileName: 'users.json',
+        mimeType: 'application/json',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/users.json',
+      });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'users', url: 'https://example.com/users.json', mapping: { email: { lookup: 'email' } } },
+        headers: { 'idempotency-key': 'idem-mapping-invalid' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+      expect(result.nextError.message).toEqual({
+        errors: { mapping: ['mapping.email.lookup must be userEmail or articleSlug'] },
+      });
+      expect(prisma.importJob.create).not.toHaveBeenCalled();
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/imports/remote-users.json', { force: true });
+    });
+
+    it('should forbid non-admin users from creating imports and discard the upload', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce({ role: 'user' });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'users' },
+        file: createUploadedFile({ path: '/tmp/imports/upload-forbidden.ndjson' }),
+        headers: { 'idempotency-key': 'idem-forbidden' },
+        auth: { user: { id: 7 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.FORBIDDEN);
+      expect(result.nextError.message).toEqual({
+        code: 'FORBIDDEN',
+        errors: { resource: ['not allowed to import users'] },
+      });
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({ where: { id: 7 }, select: { role: true } });
+      expect(prisma.importJob.findFirst).not.toHaveBeenCalled();
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/imports/upload-forbidden.ndjson', { force: true });
+    });
+
+    it('should reject import creation with 429 and discard the upload when the global limit is reached', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      prisma.importJob.count.mockResolvedValueOnce(0).mockResolvedValueOnce(10);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'articles' },
+        file: createUploadedFile({ path: '/tmp/imports/upload-busy.ndjson' }),
+        headers: { 'idempotency-key': 'idem-busy' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.TOO_MANY_REQUESTS);
+      expect(result.nextError.message).toEqual({
+        code: 'CONCURRENT_LIMIT',
+        errors: { job: ['import concurrency limit of 10 active jobs reached, try again later'] },
+      });
+      expect(result.nextError.headers).toEqual({ 'Retry-After': '30' });
+      expect(prisma.importJob.count).toHaveBeenLastCalledWith({
+        where: { status: { in: ['queued', 'running'] }, bundleId: null },
+      });
+      expect(importExportConnection.eval).not.toHaveBeenCalled();
+      expect(prisma.importJob.create).not.toHaveBeenCalled();
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/imports/upload-busy.ndjson', { force: true });
+    });
+
+    it('should count an active bundle as one job against the concurrency limit', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      prisma.importJob.count.mockResolvedValueOnce(0).mockResolvedValueOnce(9);
+      prisma.importBundle.count.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'articles', url: 'https://example.com/articles.ndjson' },
+        headers: { 'idempotency-key': 'idem-bundle-busy' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.TOO_MANY_REQUESTS);
+      expect(result.nextError.message.code).toBe('CONCURRENT_LIMIT');
+      expect(prisma.importBundle.count).toHaveBeenLastCalledWith({ where: { status: { in: ['queued', 'running'] } } });
+    });
+
+    it('should reject import creation with 429 when a racing request took the last slot before the create', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-race.ndjson',
+        location: '/tmp/imports/remote-race.ndjson',
+        bytes: 120,
+        fileName: 'articles.ndjson',
+        mimeType: 'application/x-ndjson',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/articles.ndjson',
+      });
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      // The early check passes; the recount under the creation lock sees the racing job
+      prisma.importJob.count
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(9)
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(10);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'articles', url: 'https://example.com/articles.ndjson' },
+        headers: { 'idempotency-key': 'idem-race' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.TOO_MANY_REQUESTS);
+      expect(result.nextError.message.code).toBe('CONCURRENT_LIMIT');
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+      expect(prisma.importJob.create).not.toHaveBeenCalled();
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/imports/remote-race.ndjson', { force: true });
+    });
+
+    it('should reject import creation with 429 when the hourly quota is used up', async () => {
+      (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
+        key: 'remote-quota.ndjson',
+        location: '/tmp/imports/remote-quota.ndjson',
+        bytes: 120,
+        fileName: 'articles.ndjson',
+        mimeType: 'application/x-ndjson',
+        sourceType: 'url',
+        sourceUrl: 'https://example.com/articles.ndjson',
+      });
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      prisma.importJob.count.mockResolvedValue(0);
+      (importExportConnection.eval as jest.Mock).mockResolvedValueOnce([0, 900]);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'articles', url: 'https://example.com/articles.ndjson' },
+        headers: { 'idempotency-key': 'idem-quota' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.TOO_MANY_REQUESTS);
+      expect(result.nextError.message.code).toBe('RATE_LIMITED');
+      expect(result.nextError.headers).toEqual({ 'Retry-After': '1' });
+      expect(prisma.importJob.create).not.toHaveBeenCalled();
+      expect(fsPromises.rm).toHaveBeenCalledWith('/tmp/imports/remote-quota.ndjson', { force: true });
+    });
+
+    it('should not use up a quota slot when the import source is rejected', async () => {
+      (fetchRemoteImport as jest.Mock).mockRejectedValueOnce(
+        new ImportExportError(FileErrorCode.FILE_TOO_LARGE, 'Remote file exceeds the import size limit'),
+      );
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+      prisma.importJob.count.mockResolvedValue(0);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports',
+        body: { resource: 'articles', url: 'https://example.com/articles.ndjson' },
+        headers: { 'idempotency-key': 'idem-rejected' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.PAYLOAD_TOO_LARGE);
+      expect(importExportConnection.eval).not.toHaveBeenCalled();
+    });
+
     it('should return existing import job when create races on idempotency key', async () => {
       (fetchRemoteImport as jest.Mock).mockResolvedValueOnce({
         key: 'remote-2.ndjson',
@@ -405,6 +842,11 @@ describe('Import Controller', () => {
             code: 3001,
             message: 'Invalid JSON payload',
           },
+          breakdown: {
+            byCode: [{ errorCode: 3001, errorName: 'INVALID_JSON', count: 1, firstRecordIndex: -1, lastRecordIndex: -1 }],
+            byField: [{ field: null, count: 1, firstRecordIndex: -1, lastRecordIndex: -1 }],
+            topValues: [],
+          },
         },
       });
 
@@ -421,6 +863,10 @@ describe('Import Controller', () => {
       expect(body.errorReportUrl).toBe('/api/v1/imports/imp-2/errors/download');
       expect(body.errorReportStatus).toBe('complete');
       expect(body.importJob.errorSummary.reportLocation).toBeUndefined();
+      expect(body.importJob.errorSummary.breakdown).toBeUndefined();
+      expect(body.errorBreakdown.byCode).toEqual([
+        { errorCode: 3001, errorName: 'INVALID_JSON', count: 1, firstRecordIndex: -1, lastRecordIndex: -1 },
+      ]);
       expect(body.importJob.errorSummary.lastError).toEqual({
         code: 3001,
         message: 'Invalid JSON payload',
@@ -464,5 +910,464 @@ describe('Import Controller', () => {
       expect(result.textBody).toContain('"recordIndex":3');
       expect(createReadStream).toHaveBeenCalledWith('/tmp/import-errors/imp-4.ndjson');
     });
+
+    it('should stream the rejects file as an attachment in the source format', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce({
+        id: 'imp-5',
+        status: 'partial',
+        format: 'csv',
+        errorSummary: {
+          reportStatus: 'complete',
+          rejectsLocation: '/tmp/import-rejects/imp-5.csv',
+          rejectsFormat: 'csv',
+          rejectsCount: 1,
+        },
+      });
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/imports/imp-5/rejects/download',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.headers['Content-Type']).toBe('text/csv; charset=utf-8');
+      expect(result.res.headers['Content-Disposition']).toBe('attachment; filename="imp-5-rejects.csv"');
+      expect(createReadStream).toHaveBeenCalledWith('/tmp/import-rejects/imp-5.csv');
+    });
+  });
+
+  describe('Cancellation', () => {
+    const baseJob = {
+      id: 'imp-cancel',
+      resource: 'users',
+      format: 'ndjson',
+      totalRecords: null,
+      processedRecords: 0,
+      successCount: 0,
+      errorCount: 0,
+      createdAt: new Date('2026-02-06T12:00:00Z'),
+      startedAt: null,
+      finishedAt: null,
+      fileName: 'users.ndjson',
+      fileSize: 123,
+      sourceLocation: '/tmp/imports/users.ndjson',
+      idempotencyKey: 'idem-cancel',
+      errorSummary: null,
+    };
+
+    it('should cancel a queued import job and remove it from the queue', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce({ ...baseJob, status: 'queued' });
+      prisma.importJob.updateMany.mockResolvedValueOnce({ count: 1 });
+      prisma.importJob.findUnique.mockResolvedValueOnce({
+        ...baseJob,
+        status: 'cancelled',
+        finishedAt: new Date('2026-02-06T12:00:05Z'),
+      });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports/imp-cancel/cancel',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(200);
+      expect(result.body.importJob.status).toBe('cancelled');
+      expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'imp-cancel', status: 'queued' },
+        data: expect.objectContaining({ status: 'cancelled', finishedAt: expect.any(Date) }),
+      });
+      expect(removeQueuedJob).toHaveBeenCalledWith('import', 'imp-cancel');
+    });
+
+    it('should flag a running import job as cancelled for the worker checkpoint', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce({ ...baseJob, status: 'running' });
+      prisma.importJob.updateMany.mockResolvedValueOnce({ count: 1 });
+      prisma.importJob.findUnique.mockResolvedValueOnce({ ...baseJob, status: 'cancelled' });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports/imp-cancel/cancel',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'imp-cancel', status: 'running' },
+        data: { status: 'cancelled' },
+      });
+      expect(removeQueuedJob).not.toHaveBeenCalled();
+    });
+
+    it('should reject cancellation of a finished import job', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce({ ...baseJob, status: 'succeeded' });
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports/imp-cancel/cancel',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.CONFLICT);
+      expect(prisma.importJob.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Retry failed records', () => {
+    const parentJob = {
+      id: 'imp-parent',
+      status: 'partial',
+      resource: 'articles',
+      format: 'csv',
+      totalRecords: 100,
+      processedRecords: 100,
+      successCount: 98,
+      errorCount: 2,
+      createdAt: new Date('2026-02-06T12:00:00Z'),
+      startedAt: new Date('2026-02-06T12:00:01Z'),
+      finishedAt: new Date('2026-02-06T12:00:09Z'),
+      fileName: 'articles.csv',
+      fileSize: 4096,
+      sourceLocation: '/tmp/imports/articles.csv',
+      idempotencyKey: 'idem-parent',
+      options: { delimiter: ';', listDelimiter: ',' },
+      mode: 'insert',
+      dryRun: false,
+      callbackUrl: null,
+      errorSummary: null,
+    };
+
+    it('should create a child job from the failed records with overrides', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce(parentJob).mockResolvedValueOnce(null);
+      prisma.importJob.count.mockResolvedValue(0);
+      prisma.importFailedRecord.count.mockResolvedValueOnce(2);
+      prisma.importFailedRecord.findMany.mockResolvedValueOnce([{ recordIndex: 17 }]);
+      (writeRetrySource as jest.Mock).mockResolvedValueOnce({
+        location: '/tmp/imports/retry.csv',
+        bytes: 64,
+        fileName: 'imp-parent-failed.csv',
+        recordCount: 2,
+      });
+      prisma.importJob.create.mockImplementationOnce(async ({ data }) => ({
+        ...parentJob,
+        ...data,
+        id: 'imp-child',
+        totalRecords: null,
+        processedRecords: 0,
+        successCount: 0,
+        errorCount: 0,
+        startedAt: null,
+        finishedAt: null,
+      }));
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports/imp-parent/retry-failed',
+        headers: { 'Idempotency-Key': 'idem-retry' },
+        body: { overrides: { '17': { author_email: 'fixed@example.com' } } },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(202);
+      expect(result.body.importJob).toMatchObject({ id: 'imp-child', parentJobId: 'imp-parent', format: 'csv' });
+      expect(writeRetrySource).toHaveBeenCalledWith(
+        expect.objectContaining({
+          jobId: 'imp-parent',
+          format: 'csv',
+          overrides: new Map([[17, { author_email: 'fixed@example.com' }]]),
+        }),
+      );
+      expect(prisma.importJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          resource: 'articles',
+          sourceType: 'retry',
+          sourceLocation: '/tmp/imports/retry.csv',
+          idempotencyKey: 'idem-retry',
+          options: { listDelimiter: ',' },
+          mode: 'insert',
+          parentJobId: 'imp-parent',
+          createdById: 42,
+        }),
+      });
+      expect(enqueueImportJob).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'imp-child' }));
+    });
+
+    it('should reject retrying a job that is still running', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce({ ...parentJob, status: 'running' }).mockResolvedValueOnce(null);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports/imp-parent/retry-failed',
+        headers: { 'Idempotency-Key': 'idem-retry' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.CONFLICT);
+      expect(writeRetrySource).not.toHaveBeenCalled();
+    });
+
+    it('should reject a job without kept failed records', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce(parentJob).mockResolvedValueOnce(null);
+      prisma.importFailedRecord.count.mockResolvedValueOnce(0);
+
+      const result = await runRoute({
+        method: 'POST',
+        url: '/v1/imports/imp-parent/retry-failed',
+        headers: { 'Idempotency-Key': 'idem-retry' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.CONFLICT);
+      expect(result.nextError.message).toEqual({ errors: { job: ['import job has no failed records to retry'] } });
+      expect(prisma.importJob.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Listing', () => {
+    const buildJob = (id: string, status: string) => ({
+      id,
+      status,
+      resource: 'articles',
+      format: 'ndjson',
+      totalRecords: null,
+      processedRecords: 0,
+      successCount: 0,
+      errorCount: 0,
+      createdAt: new Date('2026-02-06T12:00:00Z'),
+      startedAt: null,
+      finishedAt: null,
+      fileName: `${id}.ndjson`,
+      fileSize: 10,
+      sourceLocation: `/tmp/imports/${id}.ndjson`,
+      idempotencyKey: id,
+      errorSummary: null,
+    });
+
+    it('should list import jobs newest first with filters and a next cursor', async () => {
+      prisma.importJob.count.mockResolvedValueOnce(5);
+      prisma.importJob.findMany.mockResolvedValueOnce([
+        buildJob('imp-c', 'failed'),
+        buildJob('imp-b', 'partial'),
+        buildJob('imp-a', 'failed'),
+      ]);
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/imports',
+        query: {
+          status: 'failed,partial',
+          resource: 'articles',
+          createdAfter: '2026-02-01T00:00:00Z',
+          limit: '2',
+          cursor: 'imp-d',
+        },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(200);
+      expect(result.body.importJobs.map((job) => job.id)).toEqual(['imp-c', 'imp-b']);
+      expect(result.body.importJobsCount).toBe(5);
+      expect(result.body.nextCursor).toBe('imp-b');
+      expect(prisma.importJob.findMany).toHaveBeenCalledWith({
+        where: {
+          createdById: 42,
+          status: { in: ['failed', 'partial'] },
+          resource: 'articles',
+          createdAt: { gte: new Date('2026-02-01T00:00:00Z') },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 3,
+        cursor: { id: 'imp-d' },
+        skip: 1,
+      });
+    });
+
+    it('should return a null cursor on the last page', async () => {
+      prisma.importJob.count.mockResolvedValueOnce(1);
+      prisma.importJob.findMany.mockResolvedValueOnce([buildJob('imp-a', 'succeeded')]);
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/imports',
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.body.importJobs).toHaveLength(1);
+      expect(result.body.nextCursor).toBeNull();
+      expect(prisma.importJob.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 21 }));
+    });
+
+    it('should reject unknown status filters', async () => {
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/imports',
+        query: { status: 'done' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+      expect(prisma.importJob.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Record errors', () => {
+    const buildError = (id: string, recordIndex: number) => ({
+      id,
+      recordIndex,
+      recordId: null,
+      errorCode: 1001,
+      errorName: 'MISSING_REQUIRED_FIELD',
+      message: 'title is required',
+      field: 'title',
+      value: null,
+      details: null,
+      createdAt: new Date('2026-02-06T12:00:00Z'),
+    });
+
+    it('should list filtered record errors with offset pagination', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce({ id: 'imp-1' });
+      prisma.importError.count.mockResolvedValueOnce(7);
+      prisma.importError.findMany.mockResolvedValueOnce([buildError('err-3', 12), buildError('err-4', 15)]);
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/imports/imp-1/errors',
+        query: {
+          errorName: 'missing_required_field',
+          field: 'title',
+          recordIndexFrom: '10',
+          recordIndexTo: '20',
+          limit: '2',
+          offset: '2',
+        },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.res.statusCode).toBe(200);
+      expect(result.body).toEqual({
+        errors: [
+          expect.objectContaining({ id: 'err-3', jobId: 'imp-1', recordIndex: 12, field: 'title' }),
+          expect.objectContaining({ id: 'err-4', jobId: 'imp-1', recordIndex: 15, field: 'title' }),
+        ],
+        errorsCount: 7,
+        limit: 2,
+        offset: 2,
+      });
+      expect(prisma.importError.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            jobId: 'imp-1',
+            errorName: 'MISSING_REQUIRED_FIELD',
+            field: 'title',
+            recordIndex: { gte: 10, lte: 20 },
+          },
+          orderBy: [{ recordIndex: 'asc' }, { id: 'asc' }],
+          skip: 2,
+          take: 2,
+        }),
+      );
+    });
+
+    it('should return 404 when the job belongs to another user', async () => {
+      prisma.importJob.findFirst.mockResolvedValueOnce(null);
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/imports/imp-1/errors',
+        auth: { user: { id: 7 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.NOT_FOUND);
+      expect(prisma.importError.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject an inverted record index range', async () => {
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/imports/imp-1/errors',
+        query: { recordIndexFrom: '20', recordIndexTo: '10' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).not.toBeNull();
+      expect(result.nextError.errorCode).toBe(HttpStatusCode.UNPROCESSABLE_ENTITY);
+      expect(prisma.importJob.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('External ids', () => {
+    const buildMapping = (externalId: string, internalId: number) => ({
+      id: `map-${externalId}`,
+      sourceSystem: 'crm',
+      resource: 'articles',
+      externalId,
+      internalId,
+      createdAt: new Date('2026-03-03T00:00:00Z'),
+      updatedAt: new Date('2026-03-03T00:00:00Z'),
+    });
+
+    it('should look up mapped external ids with keyset pagination', async () => {
+      prisma.externalIdMapping.findMany.mockResolvedValueOnce([buildMapping('a-1', 10), buildMapping('a-2', 11)]);
+
+      const result = await runRoute({
+        method: 'GET',
+        url: '/v1/imports/external-ids',
+        query: { sourceSystem: 'crm', resource: 'articles', externalId: 'a-1, a-2,a-3', limit: '1', cursor: 'a-0' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(result.nextError).toBeNull();
+      expect(result.body).toEqual({
+        externalIds: [
+          {
+            sourceSystem: 'crm',
+            entityType: 'articles',
+            externalId: 'a-1',
+            internalId: 10,
+            createdAt: new Date('2026-03-03T00:00:00Z'),
+            updatedAt: new Date('2026-03-03T00:00:00Z'),
+          },
+        ],
+        nextCursor: 'a-1',
+      });
+      expect(prisma.externalIdMapping.findMany).toHaveBeenCalledWith({
+        where: {
+          sourceSystem: 'crm',
+          resource: 'articles',
+          externalId: { in: ['a-1', 'a-2', 'a-3'], gt: 'a-0' },
+        },
+        orderBy: { externalId: 'asc' },
+        take: 2,
+      });
+    });
+
+    it('should require a source system and a resource that has external ids', async () => {
+      const missingSource = await runRoute({
+        method: 'GET',
+        url: '/v1/imports/external-ids',
+        query: { resource: 'articles' },
+        auth: { user: { id: 42 } },
+      });
+      const relation = await runRoute({
+        method: 'GET',
+        url: '/v1/imports/external-ids',
+        query: { sourceSystem: 'crm', resource: 'favorites', internalId: '10' },
+        auth: { user: { id: 42 } },
+      });
+
+      expect(missingSource.nextError.message).toEqual({ errors: { sourceSystem: ['sourceSystem is required'] } });
+      expect(relation.nextError.message).toEqual({
+        errors: { resource: ['resource must be one of users, articles, comments'] },
+      });
+      expect(prisma.externalIdMapping.findMany).not.toHaveBeenCalled();
+    });
   });
 });
@@ -26,11 +26,14 @@ jest.mock('../../../app/routes/imports/parsing.service', () => {
 });
 
 jest.mock('../../../app/routes/imports/validation/validation.service', () => ({
+  prefetchRecordReferences: jest.fn(),
   validateImportRecord: jest.fn(),
 }));
 
 jest.mock('../../../app/routes/imports/upsert.service', () => ({
   upsertImportRecords: jest.fn(),
+  classifyImportRecords: jest.fn(),
+  createDryRunPlan: jest.fn(),
 }));
 
 jest.mock('../../../app/routes/imports/error-report.service', () => ({
@@ -41,6 +44,8 @@ jest.mock('../../../app/routes/imports/error-report.service', () => ({
     format: 'ndjson',
     errorCount: 2,
   }),
+  generateImportRejectsFile: jest.fn().mockResolvedValue(null),
+  summarizeImportErrors: jest.fn().mockResolvedValue({ byCode: [], byField: [], topValues: [] }),
 }));
 
 jest.mock('../../../app/jobs/observability', () => ({
@@ -49,7 +54,7 @@ jest.mock('../../../app/jobs/observability', () => ({
 
 import { parseJsonArrayStream, parseNdjsonStream } from '../../../app/routes/imports/parsing.service';
 import { validateImportRecord } from '../../../app/routes/imports/validation/validation.service';
-import { upsertImportRecords } from '../../../app/routes/imports/upsert.service';
+import { classifyImportRecords, upsertImportRecords } from '../../../app/routes/imports/upsert.service';
 import { ProcessingErrorCode } from '../../../app/routes/shared/import-export/types';
 
 const prisma: any = prismaMock;
@@ -154,6 +159,10 @@ describe('Import Service', () => {
     expect(result.errorCount).toBe(2);
     expect(prisma.importError.createMany).toHaveBeenCalledTimes(1);
     expect(prisma.importError.createMany.mock.calls[0][0].data).toHaveLength(2);
+    expect(prisma.importFailedRecord.createMany.mock.calls[0][0].data).toEqual([
+      { jobId: 'job-1', recordIndex: 0, record: { email: 'bad' } },
+      { jobId: 'job-1', recordIndex: 1, record: { id: 2, email: 'ok@example.com', name: 'Ok', role: 'user', active: true } },
+    ]);
     expect(logJobLifecycleEventMock).toHaveBeenCalledTimes(2);
     expect(logJobLifecycleEventMock).toHaveBeenNthCalledWith(
       1,
@@ -241,6 +250,10 @@ describe('Import Service', () => {
     expect(result.status).toBe('partial');
     expect(result.successCount).toBe(1);
     expect(result.errorCount).toBe(1);
+    expect(prisma.importFailedRecord.createMany).toHaveBeenCalledWith({
+      data: [{ jobId: 'job-partial', recordIndex: 0, record: { email: 'bad' } }],
+      skipDuplicates: true,
+    });
     expect(logJobLifecycleEventMock).toHaveBeenNthCalledWith(
       2,
       expect.objectContaining({
@@ -252,6 +265,50 @@ describe('Import Service', () => {
     );
   });
 
+  it('should classify records instead of writing them in dry-run mode', async () => {
+    prisma.importJob.findUnique.mockResolvedValue({
+      id: 'job-dry-run',
+      status: 'queued',
+      resource: 'users',
+      format: 'json',
+      fileName: 'input.json',
+      sourceLocation: '/tmp/input.json',
+      dryRun: true,
+      processedRecords: 0,
+      successCount: 0,
+      errorCount: 0,
+      startedAt: null,
+    });
+    prisma.importJob.updateMany.mockResolvedValue({ count: 1 });
+
+    (parseJsonArrayStream as jest.Mock).mockImplementation(async function* () {
+      yield { record: { id: 1, email: 'one@example.com', name: 'One', role: 'user', active: true }, index: 0 };
+      yield { record: { email: 'two@example.com', name: 'Two', role: 'user', active: true }, index: 1 };
+    });
+    (validateImportRecord as jest.Mock).mockImplementation(async (record) => ({
+      valid: true,
+      skip: false,
+      errors: [],
+      record,
+    }));
+    (classifyImportRecords as jest.Mock).mockResolvedValue({ wouldCreate: 1, wouldUpdate: 1, errors: [] });
+
+    const result = await runImportJob('job-dry-run', { prisma, cancelCheckInterval: 0 });
+
+    expect(result.status).toBe('succeeded');
+    expect(result.successCount).toBe(2);
+    expect(upsertImportRecords).not.toHaveBeenCalled();
+    expect(classifyImportRecords).toHaveBeenCalledTimes(1);
+    expect(prisma.importJob.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: 'succeeded',
+          dryRunSummary: { wouldCreate: 1, wouldUpdate: 1 },
+        }),
+      }),
+    );
+  });
+
   it('should log failed completion with metrics when import processing throws', async () => {
     prisma.importJob.findUnique.mockResolvedValue({
       id: 'job-failed',
@@ -276,15 +333,16 @@ describe('Import Service', () => {
     const result = await runImportJob('job-failed', { prisma, cancelCheckInterval: 0 });
 
     expect(result.status).toBe('failed');
-    expect(prisma.importJob.update).toHaveBeenLastCalledWith(
+    expect(prisma.importJob.updateMany).toHaveBeenLastCalledWith(
       expect.objectContaining({
-        where: { id: 'job-failed' },
+        where: { id: 'job-failed', status: 'running', leaseOwner: expect.any(String) },
         data: expect.objectContaining({
           status: 'failed',
           errorSummary: expect.objectContaining({
             lastError: expect.objectContaining({
               message: 'some error',
             }),
+            breakdown: { byCode: [], byField: [], topValues: [] },
           }),
         }),
       }),
@@ -348,6 +406,7 @@ describe('Import Service', () => {
       processedRecords: 0,
       successCount: 0,
       errorCount: 0,
+      skippedCount: 0,
     });
     expect(validateImportRecord).not.toHaveBeenCalled();
     expect(upsertImportRecords).not.toHaveBeenCalled();
@@ -397,4 +456,245 @@ describe('Import Service', () => {
       }),
     );
   });
+  it('should resume a reclaimed job after its last checkpoint', async () => {
+    prisma.importJob.findUnique.mockResolvedValue({
+      id: 'job-resume',
+      status: 'running',
+      resource: 'users',
+      format: 'json',
+      fileName: 'input.json',
+      sourceLocation: '/tmp/input.json',
+      processedRecords: 2,
+      successCount: 2,
+      errorCount: 0,
+      skippedCount: 0,
+      checkpointIndex: 1,
+      mode: 'upsert',
+      startedAt: new Date('2026-02-08T00:00:00.000Z'),
+    });
+    // Queued claim misses, expired-lease reclaim succeeds
+    prisma.importJob.updateMany.mockResolvedValue({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    prisma.importError.count.mockResolvedValue(0);
+
+    const user = (id: number) => ({ id, email: `u${id}@example.com`, name: `U${id}`, role: 'user', active: true });
+    (parseJsonArrayStream as jest.Mock).mockImplementation(async function* () {
+      for (let index = 0; index < 4; index += 1) {
+        yield { record: user(index + 1), index };
+      }
+    });
+    (validateImportRecord as jest.Mock).mockImplementation(async (record) => ({
+      valid: true,
+      skip: false,
+      errors: [],
+      record,
+    }));
+    (upsertImportRecords as jest.Mock).mockResolvedValue({ attempted: 2, succeeded: 2, failed: 0, skipped: 0, errors: [] });
+
+    const result = await runImportJob('job-resume', { prisma, cancelCheckInterval: 0 });
+
+    expect(result).toEqual({ status: 'succeeded', processedRecords: 4, successCount: 4, errorCount: 0, skippedCount: 0 });
+    expect(prisma.importError.deleteMany).toHaveBeenCalledWith({
+      where: { jobId: 'job-resume', recordIndex: { gt: 1 } },
+    });
+    expect(validateImportRecord).toHaveBeenCalledTimes(2);
+    expect((upsertImportRecords as jest.Mock).mock.calls[0][0]).toEqual([
+      { record: user(3), recordIndex: 2 },
+      { record: user(4), recordIndex: 3 },
+    ]);
+    expect(prisma.importJob.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: 'succeeded', leaseOwner: null, leaseExpiresAt: null }),
+      }),
+    );
+  });
+
+  it('should count duplicates of rows its own in-flight batch wrote as applied when resuming an insert job', async () => {
+    prisma.importJob.findUnique.mockResolvedValue({
+      id: 'job-resume-insert',
+      status: 'running',
+      resource: 'users',
+      format: 'json',
+      fileName: 'input.json',
+      sourceLocation: '/tmp/input.json',
+      processedRecords: 1,
+      successCount: 1,
+      errorCount: 0,
+      skippedCount: 0,
+      checkpointIndex: 0,
+      // Record 2 already conflicted before the previous worker wrote records 1 and 2
+      inFlightBatch: { fromIndex: 1, toIndex: 2, conflicts: [2] },
+      mode: 'insert',
+      startedAt: new Date('2026-02-08T00:00:00.000Z'),
+    });
+    // Queued claim misses, expired-lease reclaim succeeds
+    prisma.importJob.updateMany.mockResolvedValue({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    prisma.importError.count.mockResolvedValue(0);
+    prisma.importError.createMany.mockResolvedValue({ count: 1 });
+
+    const user = (id: number) => ({ id, email: `u${id}@example.com`, name: `U${id}`, role: 'user', active: true });
+    (parseJsonArrayStream as jest.Mock).mockImplementation(async function* () {
+      for (let index = 0; index < 3; index += 1) {
+        yield { record: user(index + 1), index };
+      }
+    });
+    (validateImportRecord as jest.Mock).mockImplementation(async (record) => ({
+      valid: true,
+      skip: false,
+      errors: [],
+      record,
+    }));
+    const duplicate = (recordIndex: number) => ({
+      jobId: 'job-resume-insert',
+      recordIndex,
+      errorCode: ValidationErrorCode.DUPLICATE_VALUE,
+      message: 'Duplicate value for email',
+    });
+    (classifyImportRecords as jest.Mock).mockResolvedValue({
+      wouldCreate: 0,
+      wouldUpdate: 0,
+      skipped: 0,
+      errors: [duplicate(1), duplicate(2)],
+    });
+    (upsertImportRecords as jest.Mock).mockResolvedValue({
+      attempted: 2,
+      succeeded: 0,
+      failed: 2,
+      skipped: 0,
+      errors: [duplicate(1), duplicate(2)],
+    });
+
+    const result = await runImportJob('job-resume-insert', { prisma, cancelCheckInterval: 0 });
+
+    expect(result).toEqual({ status: 'partial', processedRecords: 3, successCount: 2, errorCount: 1, skippedCount: 0 });
+    expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-resume-insert', leaseOwner: expect.any(String) },
+      data: { inFlightBatch: { fromIndex: 1, toIndex: 2, conflicts: [2] } },
+    });
+    expect(prisma.importError.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ recordIndex: 2, errorCode: ValidationErrorCode.DUPLICATE_VALUE })],
+    });
+  });
+
+  it('should persist the range and prior conflicts of an insert batch before writing it', async () => {
+    prisma.importJob.findUnique.mockResolvedValue({
+      id: 'job-insert',
+      status: 'queued',
+      resource: 'users',
+      format: 'json',
+      fileName: 'input.json',
+      sourceLocation: '/tmp/input.json',
+      processedRecords: 0,
+      successCount: 0,
+      errorCount: 0,
+      skippedCount: 0,
+      mode: 'insert',
+      startedAt: null,
+    });
+    prisma.importJob.updateMany.mockResolvedValue({ count: 1 });
+    prisma.importError.createMany.mockResolvedValue({ count: 1 });
+
+    (parseJsonArrayStream as jest.Mock).mockImplementation(async function* () {
+      yield { record: { id: 1, email: 'first@example.com' }, index: 0 };
+      yield { record: { id: 2, email: 'first@example.com' }, index: 1 };
+    });
+    (validateImportRecord as jest.Mock).mockImplementation(async (record) => ({
+      valid: true,
+      skip: false,
+      errors: [],
+      record,
+    }));
+    const duplicate = {
+      jobId: 'job-insert',
+      recordIndex: 1,
+      errorCode: ValidationErrorCode.DUPLICATE_VALUE,
+      message: 'Duplicate value for email',
+    };
+    (classifyImportRecords as jest.Mock).mockResolvedValue({ wouldCreate: 1, wouldUpdate: 0, skipped: 0, errors: [duplicate] });
+    (upsertImportRecords as jest.Mock).mockImplementation(async () => {
+      expect(prisma.importJob.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'job-insert', leaseOwner: expect.any(String) },
+        data: { inFlightBatch: { fromIndex: 0, toIndex: 1, conflicts: [1] } },
+      });
+      return { attempted: 2, succeeded: 1, failed: 1, skipped: 0, errors: [duplicate] };
+    });
+
+    const result = await runImportJob('job-insert', { prisma, cancelCheckInterval: 0 });
+
+    expect(result).toEqual({ status: 'partial', processedRecords: 2, successCount: 1, errorCount: 1, skippedCount: 0 });
+    expect(upsertImportRecords).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the job when its source cannot be opened', async () => {
+    prisma.importJob.findUnique.mockResolvedValue({
+      id: 'job-no-source',
+      status: 'queued',
+      resource: 'users',
+      format: 'json',
+      fileName: 'input.json',
+      sourceLocation: null,
+      processedRecords: 0,
+      successCount: 0,
+      errorCount: 0,
+      startedAt: null,
+    });
+    prisma.importJob.updateMany.mockResolvedValue({ count: 1 });
+    prisma.importError.createMany.mockResolvedValue({ count: 1 });
+
+    const result = await runImportJob('job-no-source', { prisma, cancelCheckInterval: 0 });
+
+    expect(result.status).toBe('failed');
+    expect(prisma.importJob.updateMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: 'failed',
+          errorSummary: expect.objectContaining({
+            lastError: expect.objectContaining({ message: 'Import source location missing' }),
+          }),
+        }),
+      }),
+    );
+  });
+
+  it('should finish as cancelled when the job is cancelled after its last cancellation check', async () => {
+    prisma.importJob.findUnique
+      .mockResolvedValueOnce({
+        id: 'job-late-cancel',
+        status: 'queued',
+        resource: 'users',
+        format: 'json',
+        fileName: 'input.json',
+        sourceLocation: '/tmp/input.json',
+        processedRecords: 0,
+        successCount: 0,
+        errorCount: 0,
+        startedAt: null,
+      })
+      .mockResolvedValueOnce({ status: 'cancelled', leaseOwner: 'worker-a' });
+    // The job is cancelled while its only batch is written, so it is no longer running when finalized
+    prisma.importJob.updateMany.mockImplementation(async ({ where }: { where: { status?: string } }) => ({
+      count: where.status === 'running' ? 0 : 1,
+    }));
+
+    (parseJsonArrayStream as jest.Mock).mockImplementation(async function* () {
+      yield { record: { email: 'one@example.com', name: 'One', role: 'user', active: true }, index: 0 };
+    });
+    (validateImportRecord as jest.Mock).mockImplementation(async (record) => ({
+      valid: true,
+      skip: false,
+      errors: [],
+      record,
+    }));
+    (upsertImportRecords as jest.Mock).mockResolvedValue({ attempted: 1, succeeded: 1, failed: 0, skipped: 0, errors: [] });
+
+    const result = await runImportJob('job-late-cancel', { prisma, workerId: 'worker-a' });
+
+    expect(result).toEqual({ status: 'cancelled', processedRecords: 1, successCount: 1, errorCount: 0, skippedCount: 0 });
+    expect(prisma.importJob.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'job-late-cancel', status: 'cancelled', leaseOwner: 'worker-a' },
+      data: expect.objectContaining({ status: 'cancelled', leaseOwner: null }),
+    });
+    expect(logJobLifecycleEventMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ event: 'job.completed', jobId: 'job-late-cancel', status: 'cancelled' }),
+    );
+  });
 });
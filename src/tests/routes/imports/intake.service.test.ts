@@ -18,6 +18,18 @@ describe('Intake Service', () => {
     ).resolves.toBeUndefined();
   });
 
+  it('should accept gzip-compressed uploads by their inner extension', async () => {
+    await expect(
+      validateUploadedFile(createUploadedFile({
+        filename: 'upload-gz.gz',
+        path: '/tmp/upload-gz.gz',
+        originalname: 'articles-import.ndjson.gz',
+        mimetype: 'application/octet-stream',
+        size: 64,
+      }))
+    ).resolves.toBeUndefined();
+  });
+
   it('should reject unsupported upload format when both mimetype and extension are unsupported', async () => {
     await expect(
       validateUploadedFile(createUploadedFile({
@@ -0,0 +1,121 @@
+import '../../prisma-mock';
+import {
+  applyImportMapping,
+  parseDateWithFormat,
+  parseImportMapping,
+} from '../../../app/routes/imports/mapping.service';
+import { createValidationCache } from '../../../app/routes/imports/validation/validation.validators';
+import { ValidationErrorCode } from '../../../app/routes/shared/import-export/types';
+import HttpException from '../../../app/models/http-exception.model';
+
+// Lookups below are answered from the validation cache
+const context = { jobId: 'job-1', recordIndex: 3 };
+
+describe('Mapping Service', () => {
+  describe('parseImportMapping', () => {
+    it('should accept string shorthand and JSON strings from multipart forms', () => {
+      const mapping = parseImportMapping(
+        JSON.stringify({ title: 'headline', status: { value: 'draft' }, tags: { from: 'categories', split: ',' } }),
+      );
+
+      expect(mapping).toEqual({
+        title: { from: 'headline' },
+        status: { from: 'status', value: 'draft' },
+        tags: { from: 'categories', split: ',' },
+      });
+    });
+
+    it('should reject unknown transforms with a 422', () => {
+      expect.assertions(2);
+      try {
+        parseImportMapping({ title: { from: 'headline', transforms: ['uppercase'] } });
+      } catch (error) {
+        expect(error).toBeInstanceOf(HttpException);
+        expect((error as HttpException).message).toEqual({
+          errors: { mapping: ['mapping.title.transforms must be a list of trim or lowercase'] },
+        });
+      }
+    });
+
+    it('should reject date formats without a full date', () => {
+      expect(() => parseImportMapping({ published_at: { from: 'pub', dateFormat: 'MM/YYYY' } })).toThrow(HttpException);
+    });
+  });
+
+  describe('applyImportMapping', () => {
+    it('should rename, transform, default and split fields and pass the rest through', async () => {
+      const mapping = parseImportMapping({
+        title: { from: 'headline', transforms: ['trim'] },
+        slug: { from: 'permalink', transforms: ['trim', 'lowercase'] },
+        status: { from: 'state', default: 'draft' },
+        tags: { from: 'categories', split: ';' },
+        published_at: { from: 'pub_date', dateFormat: 'DD/MM/YYYY' },
+      });
+
+      const result = await applyImportMapping(
+        {
+          headline: '  Hello  ',
+          permalink: ' Hello-World ',
+          state: '',
+          categories: 'news; tech;',
+          pub_date: '05/03/2026',
+          body: 'Body',
+        },
+        mapping!,
+        context,
+        createValidationCache(),
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.record).toEqual({
+        title: 'Hello',
+        slug: 'hello-world',
+        status: 'draft',
+        tags: ['news', 'tech'],
+        published_at: '2026-03-05T00:00:00.000Z',
+        body: 'Body',
+      });
+    });
+
+    it('should resolve lookups and report failures with the source field name', async () => {
+      const mapping = parseImportMapping({ author_id: { from: 'author_email', lookup: 'userEmail' } });
+      const cache = createValidationCache();
+      cache.emailLookup.set('writer@example.com', 7);
+      cache.emailLookup.set('ghost@example.com', null);
+
+      const found = await applyImportMapping({ author_email: 'Writer@Example.com', title: 'A' }, mapping!, context, cache);
+      const missing = await applyImportMapping({ author_email: 'ghost@example.com', title: 'B' }, mapping!, context, cache);
+
+      expect(found.record).toEqual({ author_id: 7, title: 'A' });
+      expect(missing.errors).toEqual([
+        expect.objectContaining({
+          recordIndex: 3,
+          errorCode: ValidationErrorCode.INVALID_REFERENCE,
+          field: 'author_email',
+          value: 'ghost@example.com',
+        }),
+      ]);
+    });
+
+    it('should report unparseable dates against the source field', async () => {
+      const mapping = parseImportMapping({ created_at: { from: 'signup', dateFormat: 'YYYY-MM-DD' } });
+
+      const result = await applyImportMapping({ signup: '2026-02-30' }, mapping!, context, createValidationCache());
+
+      expect(result.errors[0]).toMatchObject({
+        errorCode: ValidationErrorCode.INVALID_FIELD_FORMAT,
+        field: 'signup',
+        message: 'Value does not match date format YYYY-MM-DD',
+      });
+    });
+  });
+
+  describe('parseDateWithFormat', () => {
+    it('should parse time tokens as UTC', () => {
+      expect(parseDateWithFormat('2026.01.02 13:04:05', 'YYYY.MM.DD HH:mm:ss')?.toISOString()).toBe(
+        '2026-01-02T13:04:05.000Z',
+      );
+      expect(parseDateWithFormat('2026-01-02', 'YYYY.MM.DD')).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,13 @@
 import { Readable } from 'stream';
-import { parseJsonArrayStream } from '../../../app/routes/imports/parsing.service';
-import { ProcessingErrorCode } from '../../../app/routes/shared/import-export/types';
+import { gzipSync } from 'zlib';
+import {
+  coerceCsvRecord,
+  decompressGzipStream,
+  parseCsvStream,
+  parseNdjsonStream,
+  parseJsonArrayStream,
+} from '../../../app/routes/imports/parsing.service';
+import { FileErrorCode, ProcessingErrorCode } from '../../../app/routes/shared/import-export/types';
 
 describe('parsing.service', () => {
   it('should parse valid json array records', async () => {
@@ -31,4 +38,108 @@ describe('parsing.service', () => {
       }),
     );
   });
+
+  describe('parseCsvStream', () => {
+    const collect = async (chunks: string[], delimiter?: string) => {
+      const rows: Array<{ record: Record<string, string>; index: number; lineNumber?: number }> = [];
+      for await (const parsed of parseCsvStream(Readable.from(chunks), { maxRecords: 10, delimiter })) {
+        rows.push(parsed);
+      }
+      return rows;
+    };
+
+    it('should map rows to header names and handle quoted fields split across chunks', async () => {
+      const rows = await collect([
+        '\uFEFFid,title,body\r\n1,"Hello, ""world""","line one\r\nline',
+        ' two"\r\n\r\n2,Plain,text\n',
+      ]);
+
+      expect(rows).toEqual([
+        { record: { id: '1', title: 'Hello, "world"', body: 'line one\r\nline two' }, index: 0, lineNumber: 2 },
+        { record: { id: '2', title: 'Plain', body: 'text' }, index: 1, lineNumber: 5 },
+      ]);
+    });
+
+    it('should honour a custom delimiter and a missing trailing newline', async () => {
+      const rows = await collect(['id;tags\n1;a|b'], ';');
+
+      expect(rows.map((row) => row.record)).toEqual([{ id: '1', tags: 'a|b' }]);
+    });
+
+    it.each([
+      ['a field count mismatch', 'id,title\n1\n'],
+      ['an unterminated quote', 'id,title\n1,"open\n'],
+      ['a duplicate header', 'id,id\n1,2\n'],
+      ['text after a closing quote', 'id,title\n1,"x"y\n'],
+    ])('should throw parse error for %s', async (_label, content) => {
+      await expect(collect([content])).rejects.toEqual(
+        expect.objectContaining({
+          name: 'ImportExportParseError',
+          code: ProcessingErrorCode.PARSE_ERROR,
+        }),
+      );
+    });
+
+    it('should enforce the record limit', async () => {
+      const consume = async () => {
+        const rows: unknown[] = [];
+        for await (const row of parseCsvStream(Readable.from(['id\n1\n2\n3\n']), { maxRecords: 2 })) {
+          rows.push(row);
+        }
+        return rows;
+      };
+
+      await expect(consume()).rejects.toEqual(
+        expect.objectContaining({ code: FileErrorCode.TOO_MANY_RECORDS }),
+      );
+    });
+  });
+
+  describe('coerceCsvRecord', () => {
+    it('should coerce typed columns and drop empty cells', () => {
+      expect(
+        coerceCsvRecord({ id: '7', author_id: '3', title: '42', tags: ' news | tech ||', body: '' }, 'articles'),
+      ).toEqual({ id: 7, author_id: 3, title: '42', tags: ['news', 'tech'] });
+      expect(coerceCsvRecord({ id: '1', active: 'Yes' }, 'users')).toEqual({ id: 1, active: true });
+    });
+
+    it('should leave unparseable values for validation to reject', () => {
+      expect(coerceCsvRecord({ id: '1e3', active: 'maybe' }, 'users')).toEqual({ id: '1e3', active: 'maybe' });
+      expect(coerceCsvRecord({ tags: 'a;b' }, 'articles', { listDelimiter: ';' })).toEqual({ tags: ['a', 'b'] });
+    });
+  });
+
+  describe('decompressGzipStream', () => {
+    const parseGzip = async (content: string, maxBytes: number) => {
+      const records: unknown[] = [];
+      const input = decompressGzipStream(Readable.from([gzipSync(content)]), maxBytes);
+      for await (const parsed of parseNdjsonStream(input, { maxRecords: 10 })) {
+        records.push(parsed.record);
+      }
+      return records;
+    };
+
+    it('should parse records from a gzip source', async () => {
+      await expect(parseGzip('{"id":1}\n{"id":2}\n', 1024)).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should fail with FILE_TOO_LARGE once decompressed bytes exceed the limit', async () => {
+      await expect(parseGzip(`${'{"id":1}\n'.repeat(1000)}`, 100)).rejects.toEqual(
+        expect.objectContaining({ code: FileErrorCode.FILE_TOO_LARGE }),
+      );
+    });
+
+    it('should surface the size limit through the JSON array parser', async () => {
+      const input = decompressGzipStream(Readable.from([gzipSync(`[${'{"id":1},'.repeat(1000)}{"id":2}]`)]), 100);
+      const consume = async () => {
+        const records: unknown[] = [];
+        for await (const parsed of parseJsonArrayStream(input, { maxRecords: 10000 })) {
+          records.push(parsed.record);
+        }
+        return records;
+      };
+
+      await expect(consume()).rejects.toEqual(expect.objectContaining({ code: FileErrorCode.FILE_TOO_LARGE }));
+    });
+  });
 });
@@ -0,0 +1,81 @@
+import type { PrismaClient } from '@prisma/client';
+import prismaMock from '../../prisma-mock';
+import {
+  assertOverridesMatchFailedRecords,
+  parseRetryOverrides,
+  writeRetrySource,
+} from '../../../app/routes/imports/retry.service';
+import { createMemoryStorageAdapter } from '../../helpers/memory-storage';
+import { HttpStatusCode } from '../../../app/models/http-status-code.model';
+
+const prisma = prismaMock as unknown as Record<string, Record<string, jest.Mock>>;
+const client = prismaMock as unknown as PrismaClient;
+
+describe('Retry Service', () => {
+  it('should parse overrides keyed by recordIndex', () => {
+    const overrides = parseRetryOverrides({ '3': { email: 'fixed@example.com' } });
+
+    expect(overrides.get(3)).toEqual({ email: 'fixed@example.com' });
+    expect(parseRetryOverrides(undefined).size).toBe(0);
+    expect(() => parseRetryOverrides({ first: {} })).toThrow(
+      expect.objectContaining({ errorCode: HttpStatusCode.UNPROCESSABLE_ENTITY }),
+    );
+    expect(() => parseRetryOverrides({ '3': 'fixed' })).toThrow(
+      expect.objectContaining({ errorCode: HttpStatusCode.UNPROCESSABLE_ENTITY }),
+    );
+  });
+
+  it('should reject overrides for records that did not fail', async () => {
+    prisma.importFailedRecord.findMany.mockResolvedValueOnce([{ recordIndex: 3 }]);
+
+    await expect(
+      assertOverridesMatchFailedRecords('imp-1', parseRetryOverrides({ '3': {}, '8': {} }), client),
+    ).rejects.toMatchObject({
+      errorCode: HttpStatusCode.UNPROCESSABLE_ENTITY,
+      message: { errors: { overrides: ['records 8 have no failed record to retry'] } },
+    });
+  });
+
+  it('should write failed csv rows with overrides applied in recordIndex order', async () => {
+    const { storage, savedFiles } = createMemoryStorageAdapter();
+    prisma.importFailedRecord.findMany
+      .mockResolvedValueOnce([
+        { recordIndex: 3, record: { email: 'bad', name: 'Ann' } },
+        { recordIndex: 8, record: { email: 'x@example.com', name: 'Lee, Jr.' } },
+      ])
+      .mockResolvedValueOnce([]);
+
+    const source = await writeRetrySource({
+      jobId: 'imp-1',
+      format: 'csv',
+      overrides: parseRetryOverrides({ '3': { email: 'ann@example.com', role: 'user' } }),
+      prisma: client,
+      storage,
+      pageSize: 2,
+    });
+
+    expect(source).toMatchObject({ fileName: 'imp-1-failed.csv', recordCount: 2 });
+    expect(savedFiles[0].data).toBe('email,name,role\r\nann@example.com,Ann,user\r\nx@example.com,"Lee, Jr.",\r\n');
+    expect(prisma.importFailedRecord.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { jobId: 'imp-1', recordIndex: { gt: 8 } } }),
+    );
+  });
+
+  it('should write failed json records as ndjson', async () => {
+    const { storage, savedFiles } = createMemoryStorageAdapter();
+    prisma.importFailedRecord.findMany
+      .mockResolvedValueOnce([{ recordIndex: 0, record: { id: 1, tags: ['a'] } }])
+      .mockResolvedValueOnce([]);
+
+    const source = await writeRetrySource({
+      jobId: 'imp-2',
+      format: 'ndjson',
+      overrides: new Map(),
+      prisma: client,
+      storage,
+    });
+
+    expect(source.recordCount).toBe(1);
+    expect(savedFiles[0].data).toBe('{"id":1,"tags":["a"]}\n');
+  });
+});
@@ -1,6 +1,10 @@
 import prismaMock from '../../prisma-mock';
-import { upsertImportRecords } from '../../../app/routes/imports/upsert.service';
-import { ValidationErrorCode } from '../../../app/routes/shared/import-export/types';
+import {
+  classifyImportRecords,
+  createDryRunPlan,
+  upsertImportRecords,
+} from '../../../app/routes/imports/upsert.service';
+import { ImportMode, ValidationErrorCode } from '../../../app/routes/shared/import-export/types';
 
 
 jest.mock('bcryptjs', () => ({
@@ -9,7 +13,9 @@ jest.mock('bcryptjs', () => ({
 
 const prisma = prismaMock as unknown as any;
 
-const baseOptions = (overrides: Partial<{ jobId: string; batchSize: number; prisma: any }> = {}) => ({
+const baseOptions = (
+  overrides: Partial<{ jobId: string; batchSize: number; mode: ImportMode; sourceSystem: string; prisma: any }> = {},
+) => ({
   jobId: 'job-1',
   batchSize: 2,
   prisma,
@@ -187,4 +193,304 @@ describe('Upsert Service', () => {
     expect(result.errors[0]?.field).toBe('author_id');
     expect(result.errors[0]?.value).toBe(99);
   });
+
+  it('should classify dry-run records without writing', async () => {
+    prisma.user.findMany.mockResolvedValue([{ id: 1, email: 'user1@example.com' }]);
+
+    const records = [
+      { record: { id: 1, email: 'user1@example.com', name: 'User 1', role: 'user', active: true }, recordIndex: 0 },
+      { record: { email: 'new@example.com', name: 'New', role: 'user', active: true }, recordIndex: 1 },
+      { record: { id: 7, name: 'Missing', role: 'user', active: true }, recordIndex: 2 },
+    ];
+
+    const result = await classifyImportRecords(records, 'users', baseOptions({ batchSize: 10 }));
+
+    expect(result.wouldUpdate).toBe(1);
+    expect(result.wouldCreate).toBe(1);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      recordIndex: 2,
+      errorCode: ValidationErrorCode.INVALID_REFERENCE,
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(prisma.user.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should create instead of upserting in insert mode', async () => {
+    prisma.$transaction.mockResolvedValue([]);
+    prisma.user.create.mockResolvedValue({ id: 1 });
+
+    const records = [
+      { record: { id: 1, email: 'user1@example.com', name: 'User 1', role: 'user', active: true }, recordIndex: 0 },
+    ];
+
+    const result = await upsertImportRecords(records, 'users', baseOptions({ mode: 'insert' }));
+
+    expect(result.succeeded).toBe(1);
+    expect(prisma.user.create).toHaveBeenCalledTimes(1);
+    expect(prisma.user.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should create comments without an id and map their external ids to the new rows', async () => {
+    prisma.$transaction.mockResolvedValueOnce([{ id: 41 }, { id: 7 }]).mockResolvedValueOnce([]);
+
+    const records = [
+      { record: { external_id: 'c-1', body: 'First', article_id: 10, user_id: 20 }, recordIndex: 0 },
+      { record: { id: 7, external_id: 'c-2', body: 'Second', article_id: 10, user_id: 20 }, recordIndex: 1 },
+    ];
+
+    const result = await upsertImportRecords(records, 'comments', baseOptions({ sourceSystem: 'crm' }));
+
+    expect(result.succeeded).toBe(2);
+    expect(prisma.comment.create).toHaveBeenCalledWith({
+      data: expect.not.objectContaining({ id: expect.anything() }),
+    });
+    expect(prisma.comment.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 7 } }));
+    expect(prisma.externalIdMapping.upsert).toHaveBeenCalledWith({
+      where: { sourceSystem_resource_externalId: { sourceSystem: 'crm', resource: 'comments', externalId: 'c-1' } },
+      create: { sourceSystem: 'crm', resource: 'comments', externalId: 'c-1', internalId: 41 },
+      update: { internalId: 41 },
+    });
+    expect(prisma.externalIdMapping.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { internalId: 7 } }),
+    );
+  });
+
+  it('should report existing records as duplicates in insert mode', async () => {
+    prisma.$transaction.mockRejectedValue(new Error('some error'));
+    prisma.user.create.mockResolvedValueOnce({ id: 1 }).mockRejectedValueOnce({
+      code: 'P2002',
+      clientVersion: '4.16.1',
+      meta: { target: ['email'] },
+    });
+
+    const records = [
+      { record: { email: 'taken@example.com', name: 'Taken', role: 'user', active: true }, recordIndex: 0 },
+    ];
+
+    const result = await upsertImportRecords(records, 'users', baseOptions({ mode: 'insert' }));
+
+    expect(result.failed).toBe(1);
+    expect(result.errors[0]).toMatchObject({
+      errorCode: ValidationErrorCode.DUPLICATE_VALUE,
+      field: 'email',
+    });
+  });
+
+  it('should fail missing records in update mode', async () => {
+    prisma.$transaction.mockRejectedValue(new Error('some error'));
+    prisma.article.update
+      .mockResolvedValueOnce({ id: 1 })
+      .mockRejectedValueOnce({ code: 'P2025', clientVersion: '4.16.1' });
+
+    const records = [
+      {
+        record: { slug: 'missing-article', title: 'Missing', body: 'Body', author_id: 1 },
+        recordIndex: 0,
+      },
+    ];
+
+    const result = await upsertImportRecords(records, 'articles', baseOptions({ mode: 'update' }));
+
+    expect(result.failed).toBe(1);
+    expect(prisma.article.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { slug: 'missing-article' } }),
+    );
+    expect(prisma.article.upsert).not.toHaveBeenCalled();
+    expect(result.errors[0]).toMatchObject({
+      errorCode: ValidationErrorCode.INVALID_REFERENCE,
+      message: 'Record not found for update',
+    });
+  });
+
+  it('should skip existing records and create the rest in skipExisting mode', async () => {
+    prisma.user.findMany.mockResolvedValue([{ id: 1, email: 'user1@example.com' }]);
+    prisma.$transaction.mockResolvedValue([]);
+    prisma.user.create.mockResolvedValue({ id: 2 });
+
+    const records = [
+      { record: { id: 1, email: 'user1@example.com', name: 'User 1', role: 'user', active: true }, recordIndex: 0 },
+      { record: { email: 'new@example.com', name: 'New', role: 'user', active: true }, recordIndex: 1 },
+    ];
+
+    const result = await upsertImportRecords(records, 'users', baseOptions({ mode: 'skipExisting' }));
+
+    expect(result).toMatchObject({ attempted: 2, succeeded: 1, failed: 0, skipped: 1 });
+    expect(prisma.user.create).toHaveBeenCalledTimes(1);
+    expect(prisma.user.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ email: 'new@example.com' }) }),
+    );
+  });
+
+  it('should classify existing records by mode in dry runs', async () => {
+    prisma.user.findMany.mockResolvedValue([{ id: 1, email: 'user1@example.com' }]);
+
+    const records = [
+      { record: { id: 1, email: 'user1@example.com', name: 'User 1', role: 'user', active: true }, recordIndex: 0 },
+      { record: { email: 'new@example.com', name: 'New', role: 'user', active: true }, recordIndex: 1 },
+    ];
+
+    const skipped = await classifyImportRecords(records, 'users', baseOptions({ mode: 'skipExisting' }));
+    const inserted = await classifyImportRecords(records, 'users', baseOptions({ mode: 'insert' }));
+
+    expect(skipped).toMatchObject({ wouldCreate: 1, wouldUpdate: 0, skipped: 1, errors: [] });
+    expect(inserted).toMatchObject({ wouldCreate: 1, wouldUpdate: 0, skipped: 0 });
+    expect(inserted.errors[0]).toMatchObject({
+      recordIndex: 0,
+      errorCode: ValidationErrorCode.DUPLICATE_VALUE,
+    });
+  });
+
+  it('should classify a unique key repeated in a dry run as the real run would resolve it', async () => {
+    prisma.user.findMany.mockResolvedValue([]);
+    const plan = createDryRunPlan();
+    const user = (recordIndex: number) => ({
+      record: { email: 'Same@example.com', name: `User ${recordIndex}`, role: 'user', active: true },
+      recordIndex,
+    });
+
+    const first = await classifyImportRecords([user(0), user(1)], 'users', baseOptions({ mode: 'insert' }), plan);
+    const later = await classifyImportRecords([user(2)], 'users', baseOptions({ mode: 'insert' }), plan);
+    const upserted = await classifyImportRecords([user(0), user(1)], 'users', baseOptions());
+
+    expect(first).toMatchObject({ wouldCreate: 1, wouldUpdate: 0 });
+    expect(first.errors).toEqual([
+      expect.objectContaining({ recordIndex: 1, errorCode: ValidationErrorCode.DUPLICATE_VALUE }),
+    ]);
+    expect(later).toMatchObject({ wouldCreate: 0 });
+    expect(later.errors).toEqual([
+      expect.objectContaining({ recordIndex: 2, errorCode: ValidationErrorCode.DUPLICATE_VALUE }),
+    ]);
+    expect(upserted).toMatchObject({ wouldCreate: 1, wouldUpdate: 1, errors: [] });
+  });
+
+  it('should classify tags against the names earlier batches of a dry run create or rename', async () => {
+    prisma.tag.findMany.mockResolvedValue([{ name: 'old' }]);
+    const plan = createDryRunPlan();
+
+    await classifyImportRecords(
+      [
+        { record: { name: 'fresh' }, recordIndex: 0 },
+        { record: { action: 'rename', from: 'old', to: 'new' }, recordIndex: 1 },
+      ],
+      'tags',
+      baseOptions({ mode: 'insert' }),
+      plan,
+    );
+    const result = await classifyImportRecords(
+      [
+        { record: { name: 'fresh' }, recordIndex: 2 },
+        { record: { action: 'rename', from: 'old', to: 'other' }, recordIndex: 3 },
+      ],
+      'tags',
+      baseOptions({ mode: 'insert' }),
+      plan,
+    );
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ recordIndex: 2, errorCode: ValidationErrorCode.DUPLICATE_VALUE }),
+      expect.objectContaining({ recordIndex: 3, errorCode: ValidationErrorCode.INVALID_REFERENCE }),
+    ]);
+  });
+
+  it('should connect and disconnect relationship edges on the owning user', async () => {
+    prisma.user.findMany.mockResolvedValue([{ id: 1, favorites: [{ id: 10 }] }]);
+    prisma.$transaction.mockResolvedValue([]);
+    prisma.user.update.mockResolvedValue({ id: 1 });
+
+    const records = [
+      { record: { user_id: 1, article_id: 10 }, recordIndex: 0 },
+      { record: { user_id: 1, article_id: 11 }, recordIndex: 1 },
+      { record: { user_id: 1, article_id: 10, action: 'disconnect' as const }, recordIndex: 2 },
+    ];
+
+    const result = await upsertImportRecords(records, 'favorites', baseOptions({ batchSize: 3 }));
+
+    expect(result).toMatchObject({ attempted: 3, succeeded: 3, failed: 0, skipped: 0 });
+    expect(prisma.user.update).toHaveBeenCalledTimes(2);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { favorites: { connect: { id: 11 } } },
+      select: { id: true },
+    });
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { favorites: { disconnect: { id: 10 } } },
+      select: { id: true },
+    });
+  });
+
+  it('should apply import modes to existing relationship edges', async () => {
+    prisma.user.findMany.mockResolvedValue([{ id: 1, following: [{ id: 2 }] }]);
+    prisma.$transaction.mockResolvedValue([]);
+
+    const records = [
+      { record: { follower_id: 1, following_id: 2 }, recordIndex: 0 },
+      { record: { follower_id: 1, following_id: 3 }, recordIndex: 1 },
+    ];
+
+    const inserted = await upsertImportRecords(records, 'follows', baseOptions({ mode: 'insert' }));
+    const updated = await upsertImportRecords(records, 'follows', baseOptions({ mode: 'update' }));
+
+    expect(inserted).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(inserted.errors[0]).toMatchObject({
+      recordIndex: 0,
+      errorCode: ValidationErrorCode.DUPLICATE_VALUE,
+      field: 'following_id',
+    });
+    expect(updated).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(updated.errors[0]).toMatchObject({
+      recordIndex: 1,
+      errorCode: ValidationErrorCode.INVALID_REFERENCE,
+      message: 'Record not found for update',
+    });
+  });
+
+  it('should create, rename and merge tags in record order', async () => {
+    prisma.tag.findMany.mockResolvedValue([{ name: 'JavaScript' }, { name: 'javascript' }]);
+    prisma.$transaction.mockResolvedValue([]);
+
+    const records = [
+      { record: { name: 'node' }, recordIndex: 0 },
+      { record: { action: 'rename' as const, from: 'node', to: 'nodejs' }, recordIndex: 1 },
+      { record: { action: 'merge' as const, from: 'JavaScript', to: 'javascript' }, recordIndex: 2 },
+      { record: { action: 'merge' as const, from: 'JavaScript', to: 'javascript' }, recordIndex: 3 },
+    ];
+
+    const result = await upsertImportRecords(records, 'tags', baseOptions({ batchSize: 4 }));
+
+    expect(result).toMatchObject({ attempted: 4, succeeded: 4, failed: 0 });
+    expect(prisma.tag.create).toHaveBeenCalledWith({ data: { name: 'node' }, select: { id: true } });
+    expect(prisma.tag.update).toHaveBeenCalledWith({
+      where: { name: 'node' },
+      data: { name: 'nodejs' },
+      select: { id: true },
+    });
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(prisma.tag.delete).toHaveBeenCalledWith({ where: { name: 'JavaScript' }, select: { id: true } });
+  });
+
+  it('should reject tag renames onto existing tags and updates of missing tags', async () => {
+    prisma.tag.findMany.mockResolvedValue([{ name: 'js' }, { name: 'javascript' }]);
+
+    const records = [
+      { record: { action: 'rename' as const, from: 'js', to: 'javascript' }, recordIndex: 0 },
+      { record: { action: 'merge' as const, from: 'ecmascript', to: 'es' }, recordIndex: 1 },
+      { record: { name: 'js' }, recordIndex: 2 },
+    ];
+
+    const result = await upsertImportRecords(records, 'tags', baseOptions({ batchSize: 3, mode: 'skipExisting' }));
+
+    expect(result).toMatchObject({ attempted: 3, succeeded: 0, failed: 2, skipped: 1 });
+    expect(result.errors).toEqual([
+      expect.objectContaining({ recordIndex: 0, errorCode: ValidationErrorCode.DUPLICATE_VALUE, field: 'to' }),
+      expect.objectContaining({
+        recordIndex: 1,
+        errorCode: ValidationErrorCode.INVALID_REFERENCE,
+        field: 'from',
+        value: 'ecmascript',
+      }),
+    ]);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
 });
@@ -1,7 +1,11 @@
 import prismaMock from '../../../prisma-mock';
 import {
+  prefetchRecordReferences,
   validateArticleRecord,
   validateCommentRecord,
+  validateFavoriteRecord,
+  validateFollowRecord,
+  validateTagRecord,
   validateUserRecord,
 } from '../../../../app/routes/imports/validation/validation.service';
 import { createValidationCache } from '../../../../app/routes/imports/validation/validation.validators';
@@ -224,6 +228,63 @@ describe('Validation Service', () => {
       expect(result.skip).toBe(true);
     });
 
+    it('should resolve authors referenced by email or username with one query per key kind', async () => {
+      prisma.user.findMany
+        .mockResolvedValueOnce([{ id: 10, email: 'Ann@Example.com' }])
+        .mockResolvedValueOnce([{ id: 11, username: 'bob' }]);
+      prisma.article.findUnique.mockResolvedValue(null);
+      const context = baseContext();
+      const records = [
+        { slug: 'first', title: 'First', body: 'Body', author_email: 'ANN@example.com' },
+        { slug: 'second', title: 'Second', body: 'Body', author_email: 'ann@example.com' },
+        { slug: 'third', title: 'Third', body: 'Body', author_username: 'bob' },
+      ];
+
+      await prefetchRecordReferences(records, 'articles', context, context.cache);
+      const results = [];
+      for (const record of records) {
+        results.push(await validateArticleRecord(record as never, context));
+      }
+
+      expect(results.map((result) => result.record?.author_id)).toEqual([10, 10, 11]);
+      expect(prisma.user.findMany).toHaveBeenCalledTimes(2);
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where: { email: { in: ['ann@example.com'], mode: 'insensitive' } },
+        select: { id: true, email: true },
+      });
+      expect(prisma.user.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should report an unknown author email with the email as the value', async () => {
+      prisma.user.findFirst.mockResolvedValue(null);
+      prisma.article.findUnique.mockResolvedValue(null);
+
+      const result = await validateArticleRecord(
+        { slug: 'my-article', title: 'My Article', body: 'Body text', author_email: 'ghost@example.com' } as never,
+        baseContext()
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          errorCode: ValidationErrorCode.INVALID_REFERENCE,
+          field: 'author_email',
+          value: 'ghost@example.com',
+        }),
+      ]);
+    });
+
+    it('should require an author reference', async () => {
+      const result = await validateArticleRecord(
+        { slug: 'my-article', title: 'My Article', body: 'Body text' } as never,
+        baseContext()
+      );
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ errorCode: ValidationErrorCode.MISSING_REQUIRED_FIELD, field: 'author_id' }),
+      ]);
+    });
+
     it('should reject draft articles with published_at', async () => {
       prisma.user.count.mockResolvedValue(1);
 
@@ -332,6 +393,92 @@ describe('Validation Service', () => {
       expect(result.errors[0]?.errorCode).toBe(ValidationErrorCode.FIELD_TOO_LONG);
     });
 
+    it('should resolve article slugs and user emails to ids', async () => {
+      prisma.article.findMany.mockResolvedValueOnce([{ id: 10, slug: 'my-article' }]);
+      prisma.user.findMany.mockResolvedValueOnce([]);
+      const context = baseContext();
+      const records = [
+        { id: 1, body: 'Nice article', article_slug: 'My-Article', user_id: 20 },
+        { id: 2, body: 'Nice article', article_id: 10, user_email: 'ghost@example.com' },
+      ];
+      prisma.user.count.mockResolvedValue(1);
+      prisma.article.count.mockResolvedValue(1);
+
+      await prefetchRecordReferences(records, 'comments', context, context.cache);
+      const resolved = await validateCommentRecord(records[0] as never, context);
+      const unknownUser = await validateCommentRecord(records[1] as never, context);
+
+      expect(resolved.record).toMatchObject({ article_id: 10, user_id: 20 });
+      expect(prisma.article.findMany).toHaveBeenCalledWith({
+        where: { slug: { in: ['my-article'] } },
+        select: { id: true, slug: true },
+      });
+      expect(unknownUser.errors).toEqual([
+        expect.objectContaining({
+          errorCode: ValidationErrorCode.INVALID_REFERENCE,
+          field: 'user_email',
+          value: 'ghost@example.com',
+        }),
+      ]);
+      expect(prisma.user.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should resolve external ids of the comment and its references within the source system', async () => {
+      prisma.externalIdMapping.findMany
+        .mockResolvedValueOnce([{ externalId: 'c-1', internalId: 5 }])
+        .mockResolvedValueOnce([{ externalId: 'a-1', internalId: 10 }])
+        .mockResolvedValueOnce([]);
+      const context = { ...baseContext(), sourceSystem: 'crm' };
+      const records = [
+        { external_id: 'c-1', body: 'Nice article', external_article_id: 'a-1', user_id: 20 },
+        { external_id: 2, body: 'Nice article', article_id: 10, external_user_id: 'u-9' },
+        { external_id: 'c-1', body: 'Again', article_id: 10, user_id: 20 },
+      ];
+      prisma.user.count.mockResolvedValue(1);
+      prisma.article.count.mockResolvedValue(1);
+
+      await prefetchRecordReferences(records, 'comments', context, context.cache);
+      const results = [];
+      for (const record of records) {
+        results.push(await validateCommentRecord(record as never, context));
+      }
+
+      expect(prisma.externalIdMapping.findMany).toHaveBeenCalledWith({
+        where: { sourceSystem: 'crm', resource: 'comments', externalId: { in: ['c-1', '2'] } },
+        select: { externalId: true, internalId: true },
+      });
+      expect(results[0].record).toMatchObject({ id: 5, article_id: 10, user_id: 20 });
+      expect(results[1].errors).toEqual([
+        expect.objectContaining({
+          errorCode: ValidationErrorCode.INVALID_REFERENCE,
+          field: 'external_user_id',
+          value: 'u-9',
+        }),
+      ]);
+      expect(results[2].errors).toEqual([
+        expect.objectContaining({ errorCode: ValidationErrorCode.DUPLICATE_VALUE, field: 'external_id' }),
+      ]);
+      expect(prisma.externalIdMapping.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should require a source system for external ids', async () => {
+      prisma.user.count.mockResolvedValue(1);
+      prisma.article.count.mockResolvedValue(1);
+
+      const result = await validateCommentRecord(
+        { external_id: 'c-1', body: 'Nice article', article_id: 10, user_id: 20 } as never,
+        baseContext()
+      );
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          errorCode: ValidationErrorCode.MISSING_REQUIRED_FIELD,
+          field: 'external_id',
+          message: 'external_id requires the import to set sourceSystem',
+        }),
+      ]);
+    });
+
     it('should reject comments with missing foreign keys', async () => {
       prisma.user.count.mockResolvedValue(0);
       prisma.article.count.mockResolvedValue(0);
@@ -351,4 +498,77 @@ describe('Validation Service', () => {
       expect(result.skip).toBe(true);
     });
   });
+
+  describe('tags', () => {
+    it('should trim tag names', async () => {
+      const result = await validateTagRecord({ action: 'merge', from: ' JavaScript ', to: 'javascript' }, baseContext());
+
+      expect(result.valid).toBe(true);
+      expect(result.record).toMatchObject({ from: 'JavaScript', to: 'javascript' });
+    });
+
+    it('should require the fields of each action', async () => {
+      const created = await validateTagRecord({}, baseContext());
+      const renamed = await validateTagRecord({ action: 'rename', from: 'js' }, baseContext());
+      const merged = await validateTagRecord({ action: 'merge', from: 'js', to: 'js' }, baseContext());
+
+      expect(created.errors[0]).toMatchObject({ field: 'name', errorCode: ValidationErrorCode.MISSING_REQUIRED_FIELD });
+      expect(renamed.errors[0]).toMatchObject({
+        field: 'to',
+        errorCode: ValidationErrorCode.MISSING_REQUIRED_FIELD,
+        message: 'to is required to rename a tag',
+      });
+      expect(merged.errors[0]).toMatchObject({ field: 'to', message: 'from and to must be different tags' });
+    });
+  });
+
+  describe('favorites', () => {
+    it('should reject favorites of missing articles', async () => {
+      prisma.user.count.mockResolvedValue(1);
+      prisma.article.count.mockResolvedValue(0);
+
+      const result = await validateFavoriteRecord({ user_id: 20, article_id: 10 }, baseContext());
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        field: 'article_id',
+        errorCode: ValidationErrorCode.INVALID_REFERENCE,
+      });
+    });
+
+    it('should reject unknown actions', async () => {
+      const result = await validateFavoriteRecord(
+        { user_id: 20, article_id: 10, action: 'toggle' } as never,
+        baseContext()
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]?.field).toBe('action');
+    });
+  });
+
+  describe('follows', () => {
+    it('should accept a disconnect between existing users', async () => {
+      prisma.user.count.mockResolvedValue(1);
+
+      const result = await validateFollowRecord(
+        { follower_id: 1, following_id: 2, action: 'disconnect' },
+        baseContext()
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.record?.action).toBe('disconnect');
+    });
+
+    it('should reject users following themselves', async () => {
+      const result = await validateFollowRecord({ follower_id: 3, following_id: 3 }, baseContext());
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        field: 'following_id',
+        message: 'Users cannot follow themselves',
+      });
+    });
+  });
 });
@@ -0,0 +1,38 @@
+import {
+  DEFAULT_IMPORT_EXPORT_ACCESS_POLICY,
+  loadImportExportAccessPolicy,
+} from '../../../../app/routes/shared/import-export/config';
+
+describe('loadImportExportAccessPolicy', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should fall back to the default policy', () => {
+    expect(loadImportExportAccessPolicy()).toEqual(DEFAULT_IMPORT_EXPORT_ACCESS_POLICY);
+  });
+
+  it('should prefer per-resource roles over per-action roles', () => {
+    process.env.IMPORT_ALLOWED_ROLES = 'admin, editor';
+    process.env.IMPORT_USERS_ALLOWED_ROLES = 'admin';
+    process.env.EXPORT_USERS_ALLOWED_ROLES = ' , ';
+
+    const policy = loadImportExportAccessPolicy();
+
+    expect(policy.import).toEqual({
+      users: ['admin'],
+      articles: ['admin', 'editor'],
+      comments: ['admin', 'editor'],
+      tags: ['admin', 'editor'],
+      favorites: ['admin', 'editor'],
+      follows: ['admin', 'editor'],
+    });
+    expect(policy.export.users).toEqual(['admin']);
+  });
+});
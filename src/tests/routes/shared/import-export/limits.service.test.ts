@@ -0,0 +1,92 @@
+import { enforceJobLimits, withJobCreationLock } from '../../../../app/routes/shared/import-export/limits.service';
+import { HttpStatusCode } from '../../../../app/models/http-status-code.model';
+
+function buildOptions(overrides: Partial<Parameters<typeof enforceJobLimits>[0]> = {}) {
+  return {
+    type: 'import' as const,
+    userId: 42,
+    rateLimitPerHour: 10,
+    concurrentLimitUser: 2,
+    concurrentLimitGlobal: 10,
+    countActiveJobs: jest.fn().mockResolvedValue(0),
+    redis: { eval: jest.fn().mockResolvedValue([1, 0]) },
+    now: () => new Date('2026-02-10T10:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('enforceJobLimits', () => {
+  it('should record a rate limit slot when all limits allow the job', async () => {
+    const options = buildOptions();
+
+    await expect(enforceJobLimits(options)).resolves.toBeUndefined();
+
+    expect(options.countActiveJobs).toHaveBeenNthCalledWith(1, 42);
+    expect(options.countActiveJobs).toHaveBeenNthCalledWith(2);
+    expect(options.redis.eval).toHaveBeenCalledWith(
+      expect.stringContaining('ZREMRANGEBYSCORE'),
+      1,
+      'import-export:rate:import:42',
+      Date.parse('2026-02-10T10:00:00.000Z'),
+      3_600_000,
+      10,
+      expect.stringMatching(/^\d+-/),
+    );
+  });
+
+  it('should not consume the hourly quota when the per-user concurrency limit is reached', async () => {
+    const options = buildOptions({ countActiveJobs: jest.fn().mockResolvedValue(2) });
+
+    await expect(enforceJobLimits(options)).rejects.toMatchObject({
+      errorCode: HttpStatusCode.TOO_MANY_REQUESTS,
+      message: { code: 'CONCURRENT_LIMIT' },
+      headers: { 'Retry-After': '30' },
+    });
+    expect(options.redis.eval).not.toHaveBeenCalled();
+  });
+
+  it('should round Retry-After up to whole seconds when the quota is exhausted', async () => {
+    const options = buildOptions({ redis: { eval: jest.fn().mockResolvedValue([0, 61_001]) } });
+
+    await expect(enforceJobLimits(options)).rejects.toMatchObject({
+      errorCode: HttpStatusCode.TOO_MANY_REQUESTS,
+      message: {
+        code: 'RATE_LIMITED',
+        errors: { job: ['import rate limit of 10 jobs per hour exceeded'] },
+      },
+      headers: { 'Retry-After': '62' },
+    });
+  });
+
+  it('should allow the job when Redis is unavailable', async () => {
+    const options = buildOptions({ redis: { eval: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) } });
+
+    await expect(enforceJobLimits(options)).resolves.toBeUndefined();
+  });
+});
+
+describe('withJobCreationLock', () => {
+  it('should take the job type\'s advisory lock in the transaction before creating', async () => {
+    const calls: string[] = [];
+    const tx = {
+      $executeRaw: jest.fn(async () => {
+        calls.push('lock');
+        return 1;
+      }),
+    };
+    const prisma = { $transaction: jest.fn((callback: (client: typeof tx) => Promise<unknown>) => callback(tx)) };
+
+    const created = await withJobCreationLock(prisma as never, 'export', async (client) => {
+      expect(client).toBe(tx);
+      calls.push('create');
+      return { id: 'job-1' };
+    });
+
+    expect(created).toEqual({ id: 'job-1' });
+    expect(calls).toEqual(['lock', 'create']);
+    expect(tx.$executeRaw).toHaveBeenCalledWith(
+      [expect.stringContaining('pg_advisory_xact_lock'), expect.any(String)],
+      'import-export:create:export',
+    );
+  });
+});
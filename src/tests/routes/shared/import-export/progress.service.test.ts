@@ -0,0 +1,143 @@
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import {
+  buildJobProgress,
+  createProgressThrottle,
+  streamJobProgressEvents,
+} from '../../../../app/routes/shared/import-export/progress.service';
+import { JobProgress } from '../../../../app/routes/shared/import-export/types';
+import { createTestResponse } from '../../../helpers/test-response';
+
+const startedAt = new Date('2026-03-01T00:00:00.000Z');
+
+function progress(overrides: Partial<JobProgress> = {}): JobProgress {
+  return {
+    jobId: 'job-1',
+    status: 'running',
+    processedRecords: 0,
+    totalRecords: 100,
+    percent: 0,
+    etaSeconds: null,
+    startedAt: startedAt.toISOString(),
+    finishedAt: null,
+    ...overrides,
+  };
+}
+
+describe('createProgressThrottle', () => {
+  it('should be due after enough records or enough time', () => {
+    let time = startedAt.getTime();
+    const throttle = createProgressThrottle(
+      { updateIntervalMs: 1000, updateEveryRecords: 50, eventsPollIntervalMs: 1000 },
+      () => new Date(time),
+    );
+
+    expect(throttle.due(49)).toBe(false);
+    expect(throttle.due(50)).toBe(true);
+
+    throttle.mark(50);
+    time += 999;
+    expect(throttle.due(60)).toBe(false);
+    time += 1;
+    expect(throttle.due(60)).toBe(true);
+  });
+});
+
+describe('buildJobProgress', () => {
+  it('should compute percent and ETA from the record total', () => {
+    const result = buildJobProgress(
+      { id: 'exp-1', status: 'running', processedRecords: 250, totalRecords: 1000, startedAt, finishedAt: null },
+      new Date('2026-03-01T00:00:10.000Z'),
+    );
+
+    expect(result).toEqual({
+      jobId: 'exp-1',
+      status: 'running',
+      processedRecords: 250,
+      totalRecords: 1000,
+      percent: 25,
+      etaSeconds: 30,
+      startedAt: '2026-03-01T00:00:00.000Z',
+      finishedAt: null,
+    });
+  });
+
+  it('should estimate running imports from source bytes and cap them below 100', () => {
+    const base = { id: 'imp-1', status: 'running' as const, totalRecords: null, startedAt, finishedAt: null };
+    const at = new Date('2026-03-01T00:00:10.000Z');
+
+    expect(buildJobProgress({ ...base, processedRecords: 10, bytesProcessed: 512, fileSize: 2048 }, at).percent).toBe(25);
+    expect(buildJobProgress({ ...base, processedRecords: 40, bytesProcessed: 2048, fileSize: 2048 }, at).percent).toBe(99);
+    expect(buildJobProgress({ ...base, processedRecords: 40, bytesProcessed: null, fileSize: null }, at)).toMatchObject({
+      percent: null,
+      etaSeconds: null,
+    });
+  });
+
+  it('should report finished jobs as complete without an ETA', () => {
+    const result = buildJobProgress(
+      {
+        id: 'imp-1',
+        status: 'partial',
+        processedRecords: 40,
+        totalRecords: 40,
+        successCount: 38,
+        errorCount: 2,
+        skippedCount: 0,
+        startedAt,
+        finishedAt: new Date('2026-03-01T00:01:00.000Z'),
+      },
+      new Date('2026-03-01T00:02:00.000Z'),
+    );
+
+    expect(result).toMatchObject({ percent: 100, etaSeconds: null, successCount: 38, errorCount: 2 });
+  });
+});
+
+describe('streamJobProgressEvents', () => {
+  it('should push changed snapshots and end with a complete event', async () => {
+    const req = new EventEmitter() as unknown as Request;
+    const { res, done, getTextBody } = createTestResponse();
+    const load = jest
+      .fn()
+      .mockResolvedValueOnce(progress({ processedRecords: 10, percent: 10 }))
+      .mockResolvedValueOnce(progress({ processedRecords: 10, percent: 10 }))
+      .mockResolvedValueOnce(progress({ processedRecords: 60, percent: 60 }))
+      .mockResolvedValueOnce(progress({ status: 'succeeded', processedRecords: 100, percent: 100 }));
+
+    await streamJobProgressEvents({ req, res: res as Response, load, pollIntervalMs: 1 });
+    await done;
+
+    const events = getTextBody()
+      .split('\n\n')
+      .filter((chunk) => chunk.startsWith('event:'))
+      .map((chunk) => chunk.split('\n')[0]);
+    expect(res.headers['Content-Type']).toBe('text/event-stream');
+    expect(events).toEqual(['event: progress', 'event: progress', 'event: complete']);
+    expect(getTextBody()).toContain('"status":"succeeded"');
+  });
+
+  it('should stop polling when the client disconnects', async () => {
+    const req = new EventEmitter() as unknown as Request;
+    const { res } = createTestResponse();
+    const load = jest.fn().mockResolvedValue(progress());
+
+    const streaming = streamJobProgressEvents({ req, res: res as Response, load, pollIntervalMs: 60_000 });
+    await new Promise((resolve) => setImmediate(resolve));
+    req.emit('close');
+    await streaming;
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw before writing headers when the job cannot be loaded', async () => {
+    const req = new EventEmitter() as unknown as Request;
+    const { res } = createTestResponse();
+    const load = jest.fn().mockRejectedValue(new Error('not found'));
+
+    await expect(streamJobProgressEvents({ req, res: res as Response, load, pollIntervalMs: 1 })).rejects.toThrow(
+      'not found',
+    );
+    expect(res.headersSent).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import type { PrismaClient } from '@prisma/client';
+import prismaMock from '../../prisma-mock';
+import {
+  deliverWebhook,
+  dispatchJobWebhook,
+  parseCallbackUrl,
+  redeliverWebhook,
+  signWebhookPayload,
+} from '../../../app/routes/webhooks/webhook.service';
+import { enqueueWebhookDelivery } from '../../../app/jobs/import-export.queue';
+import { WebhookConfig } from '../../../app/routes/webhooks/config';
+import HttpException from '../../../app/models/http-exception.model';
+import { HttpStatusCode } from '../../../app/models/http-status-code.model';
+
+jest.mock('../../../app/jobs/import-export.queue', () => ({
+  enqueueWebhookDelivery: jest.fn(),
+}));
+
+const prisma = prismaMock as unknown as Record<string, Record<string, jest.Mock>>;
+const client = prismaMock as unknown as PrismaClient;
+const enqueueWebhookDeliveryMock = enqueueWebhookDelivery as jest.MockedFunction<typeof enqueueWebhookDelivery>;
+const now = new Date('2026-03-01T00:00:00.000Z');
+const config: WebhookConfig = {
+  signingSecret: 'secret',
+  allowedHosts: [],
+  maxAttempts: 3,
+  backoffMs: 1000,
+  timeoutMs: 5000,
+};
+
+function delivery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'dlv-1',
+    jobType: 'import',
+    jobId: 'imp-1',
+    event: 'import.succeeded',
+    url: 'https://93.184.216.34/hooks',
+    payload: { importJob: { id: 'imp-1', status: 'succeeded' } },
+    status: 'pending',
+    attempts: 0,
+    responseStatus: null,
+    lastError: null,
+    redeliveryOfId: null,
+    createdAt: now,
+    updatedAt: now,
+    deliveredAt: null,
+    createdById: 1,
+    ...overrides,
+  };
+}
+
+describe('Webhook Service', () => {
+  beforeEach(() => {
+    enqueueWebhookDeliveryMock.mockReset();
+  });
+
+  it('should reject callback URLs pointing at local addresses', async () => {
+    await expect(parseCallbackUrl('http://localhost:3000/hooks')).rejects.toMatchObject({
+      errorCode: HttpStatusCode.UNPROCESSABLE_ENTITY,
+      message: { errors: { callbackUrl: ['Localhost URLs are not allowed'] } },
+    });
+    await expect(parseCallbackUrl('ftp://93.184.216.34/hooks')).rejects.toBeInstanceOf(HttpException);
+    await expect(parseCallbackUrl(undefined)).resolves.toBeNull();
+  });
+
+  it('should record and queue a delivery for jobs with a callback URL', async () => {
+    prisma.webhookDelivery.create.mockResolvedValueOnce(delivery());
+    enqueueWebhookDeliveryMock.mockResolvedValueOnce({} as never);
+
+    await dispatchJobWebhook({
+      prisma: client,
+      jobType: 'import',
+      job: { id: 'imp-1', status: 'succeeded', callbackUrl: 'https://93.184.216.34/hooks', createdById: 1 },
+      payload: { importJob: { id: 'imp-1' } },
+    });
+    await dispatchJobWebhook({
+      prisma: client,
+      jobType: 'import',
+      job: { id: 'imp-2', status: 'failed', callbackUrl: null, createdById: 1 },
+      payload: {},
+    });
+
+    expect(prisma.webhookDelivery.create).toHaveBeenCalledTimes(1);
+    expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ jobId: 'imp-1', event: 'import.succeeded', url: 'https://93.184.216.34/hooks' }),
+    });
+    expect(enqueueWebhookDeliveryMock).toHaveBeenCalledWith({ deliveryId: 'dlv-1' }, expect.any(Object));
+  });
+
+  describe('deliverWebhook', () => {
+    it('should post a signed payload and mark the delivery succeeded', async () => {
+      const post = jest.fn().mockResolvedValue({ status: 204 });
+      prisma.webhookDelivery.findUnique.mockResolvedValueOnce(delivery());
+
+      const result = await deliverWebhook('dlv-1', { finalAttempt: false, prisma: client, now: () => now, config, post });
+
+      expect(result).toBe('succeeded');
+      const [url, body, { headers }] = post.mock.calls[0];
+      expect(url).toBe('https://93.184.216.34/hooks');
+      expect(JSON.parse(body)).toEqual({
+        id: 'dlv-1',
+        event: 'import.succeeded',
+        createdAt: '2026-03-01T00:00:00.000Z',
+        importJob: { id: 'imp-1', status: 'succeeded' },
+      });
+      expect(headers['X-Webhook-Timestamp']).toBe('1772323200');
+      expect(headers['X-Webhook-Signature']).toBe(`sha256=${signWebhookPayload(body, '1772323200', 'secret')}`);
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'dlv-1' },
+        data: { status: 'succeeded', attempts: 1, responseStatus: 204, lastError: null, deliveredAt: now },
+      });
+    });
+
+    it('should throw so the attempt is retried while attempts remain', async () => {
+      const post = jest.fn().mockResolvedValue({ status: 500 });
+      prisma.webhookDelivery.findUnique.mockResolvedValueOnce(delivery({ attempts: 1 }));
+
+      await expect(
+        deliverWebhook('dlv-1', { finalAttempt: false, prisma: client, now: () => now, config, post }),
+      ).rejects.toThrow('Endpoint responded with status 500');
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'dlv-1' },
+        data: { status: 'pending', attempts: 2, responseStatus: 500, lastError: 'Endpoint responded with status 500' },
+      });
+    });
+
+    it('should mark the delivery failed on the final attempt', async () => {
+      const post = jest.fn().mockRejectedValue(new Error('socket hang up'));
+      prisma.webhookDelivery.findUnique.mockResolvedValueOnce(delivery({ attempts: 2 }));
+
+      const result = await deliverWebhook('dlv-1', { finalAttempt: true, prisma: client, now: () => now, config, post });
+
+      expect(result).toBe('failed');
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'dlv-1' },
+        data: { status: 'failed', attempts: 3, responseStatus: null, lastError: 'socket hang up' },
+      });
+    });
+
+    it('should fail without retrying when no signing secret is configured', async () => {
+      const post = jest.fn();
+      prisma.webhookDelivery.findUnique.mockResolvedValueOnce(delivery());
+
+      const result = await deliverWebhook('dlv-1', {
+        finalAttempt: false,
+        prisma: client,
+        now: () => now,
+        config: { ...config, signingSecret: null },
+        post,
+      });
+
+      expect(result).toBe('failed');
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should skip deliveries that are no longer pending', async () => {
+      const post = jest.fn();
+      prisma.webhookDelivery.findUnique.mockResolvedValueOnce(delivery({ status: 'succeeded' }));
+
+      await expect(
+        deliverWebhook('dlv-1', { finalAttempt: false, prisma: client, now: () => now, config, post }),
+      ).resolves.toBe('skipped');
+      expect(post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redeliverWebhook', () => {
+    it('should queue a new delivery linked to the original', async () => {
+      prisma.webhookDelivery.findFirst.mockResolvedValueOnce(delivery({ status: 'failed', attempts: 3 }));
+      prisma.webhookDelivery.create.mockResolvedValueOnce(delivery({ id: 'dlv-2', redeliveryOfId: 'dlv-1' }));
+      enqueueWebhookDeliveryMock.mockResolvedValueOnce({} as never);
+
+      const result = await redeliverWebhook({ prisma: client, deliveryId: 'dlv-1', createdById: 1 });
+
+      expect(result.webhookDelivery).toMatchObject({ id: 'dlv-2', status: 'pending', redeliveryOfId: 'dlv-1' });
+      expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ jobId: 'imp-1', redeliveryOfId: 'dlv-1', createdById: 1 }),
+      });
+      expect(enqueueWebhookDeliveryMock).toHaveBeenCalledWith({ deliveryId: 'dlv-2' }, expect.any(Object));
+    });
+
+    it('should refuse to redeliver a delivery that is still pending', async () => {
+      prisma.webhookDelivery.findFirst.mockResolvedValueOnce(delivery());
+
+      await expect(redeliverWebhook({ prisma: client, deliveryId: 'dlv-1', createdById: 1 })).rejects.toMatchObject({
+        errorCode: HttpStatusCode.CONFLICT,
+      });
+    });
+  });
+});
@@ -1,8 +1,21 @@
 import { Job } from 'bullmq';
 import { createImportExportWorker } from './app/jobs/import-export.worker';
-import { ImportExportJobPayload, importExportConnection, importExportQueue } from './app/jobs/import-export.queue';
+import {
+  ImportBundleJobPayload,
+  ImportExportJobPayload,
+  importExportConnection,
+  importExportQueue,
+  scheduleLeaseReaper,
+  scheduleRetentionSweep,
+  WebhookJobPayload,
+} from './app/jobs/import-export.queue';
+import { runRetentionSweep } from './app/jobs/retention.service';
+import { reapExpiredLeases } from './app/jobs/lease.service';
+import { loadJobLeaseConfig, loadRetentionConfig } from './app/routes/shared/import-export/config';
 import { runImportJob } from './app/routes/imports/import.service';
+import { runImportBundle } from './app/routes/imports/bundle.service';
 import { runExportJob } from './app/routes/exports/export.service';
+import { deliverWebhook } from './app/routes/webhooks/webhook.service';
 import prismaClient from './prisma/prisma-client';
 import { createLogger } from './app/logger';
 
@@ -14,8 +27,54 @@ const worker = createImportExportWorker({
   export: async (job: Job<ImportExportJobPayload>) => {
     await runExportJob(job.data.jobId);
   },
+  bundle: async (job: Job<ImportBundleJobPayload>) => {
+    await runImportBundle(job.data.bundleId);
+  },
+  retention: async (job: Job) => {
+    await runRetentionSweep({ runId: job.id ?? 'retention' });
+  },
+  leaseReaper: async (job: Job) => {
+    await reapExpiredLeases({ runId: job.id ?? 'lease-reaper' });
+  },
+  webhook: async (job: Job<WebhookJobPayload>) => {
+    await deliverWebhook(job.data.deliveryId, { finalAttempt: job.attemptsMade + 1 >= (job.opts.attempts ?? 1) });
+  },
 });
 
+const retentionConfig = loadRetentionConfig();
+scheduleRetentionSweep(retentionConfig.sweepIntervalMinutes * 60_000)
+  .then(() => {
+    logger.info({
+      event: 'retention.scheduled',
+      intervalMinutes: retentionConfig.sweepIntervalMinutes,
+      dryRun: retentionConfig.dryRun,
+    });
+  })
+  .catch((error) => {
+    logger.error({
+      event: 'retention.schedule.failed',
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+const leaseConfig = loadJobLeaseConfig();
+scheduleLeaseReaper(leaseConfig.reaperIntervalSeconds * 1000)
+  .then(() => {
+    logger.info({
+      event: 'lease-reaper.scheduled',
+      intervalSeconds: leaseConfig.reaperIntervalSeconds,
+      leaseTtlSeconds: leaseConfig.leaseTtlSeconds,
+    });
+  })
+  .catch((error) => {
+    logger.error({
+      event: 'lease-reaper.schedule.failed',
+      errorName: error instanceof Error ? error.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  });
+
 worker.on('ready', () => {
   logger.info({ event: 'worker.ready' });
 });